@@ -0,0 +1,57 @@
+import { Controller, Get, Put, Post, Param, Body, NotFoundException, BadRequestException } from '@nestjs/common';
+import { AuthClientService } from '../clients/auth-client.service';
+import { UserClientService } from '../clients/user-client.service';
+import { CurrentUser, CurrentUser as CurrentUserType } from '../auth/current-user.decorator';
+import { Roles, Role } from '../auth/roles.decorator';
+
+@Controller('api/admin')
+@Roles(Role.ADMIN)
+export class AdminController {
+  constructor(
+    private authClient: AuthClientService,
+    private userClient: UserClientService,
+  ) {}
+
+  @Get('users/:id')
+  async getUser(@Param('id') userId: string) {
+    const [user, profile] = await Promise.all([
+      this.authClient.getUserById(userId),
+      this.userClient.getProfile(userId),
+    ]);
+
+    if (!user?.id) {
+      throw new NotFoundException('User not found');
+    }
+
+    return {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      username: profile?.username || '',
+      created_at: user.created_at,
+    };
+  }
+
+  @Put('users/:id/role')
+  async setUserRole(
+    @CurrentUser() currentUser: CurrentUserType,
+    @Param('id') userId: string,
+    @Body() body: { role: string },
+  ) {
+    if (!body.role) {
+      throw new BadRequestException('role is required');
+    }
+
+    const result = await this.authClient.setUserRole(currentUser.userId, userId, body.role);
+    return {
+      user_id: result.userId,
+      role: result.role,
+    };
+  }
+
+  @Post('signing-keys/rotate')
+  async rotateSigningKeys(@CurrentUser() currentUser: CurrentUserType) {
+    const kid = await this.authClient.rotateSigningKeys(currentUser.userId);
+    return { kid };
+  }
+}
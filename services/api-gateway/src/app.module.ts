@@ -10,10 +10,22 @@ import { UserClientService } from './clients/user-client.service';
 import { PostClientService } from './clients/post-client.service';
 import { MessageClientService } from './clients/message-client.service';
 import { NotificationClientService } from './clients/notification-client.service';
+import { StorageClientService } from './clients/storage-client.service';
+
+// Events
+import { EventPublisherService } from './events/event-publisher.service';
+
+// Exports
+import { DataExportService } from './exports/data-export.service';
 
 // Auth
 import { JwtStrategy } from './auth/jwt.strategy';
+import { SigningKeysService } from './auth/signing-keys.service';
 import { JwtAuthGuard } from './auth/jwt-auth.guard';
+import { RolesGuard } from './auth/roles.guard';
+
+// Cache
+import { CacheModule } from './cache/cache.module';
 
 // Controllers
 import { AuthController } from './auth/auth.controller';
@@ -21,6 +33,8 @@ import { UsersController } from './users/users.controller';
 import { PostsController } from './posts/posts.controller';
 import { MessagesController } from './messages/messages.controller';
 import { NotificationsController } from './notifications/notifications.controller';
+import { AdminController } from './admin/admin.controller';
+import { SearchController } from './search/search.controller';
 
 @Module({
   imports: [
@@ -29,11 +43,9 @@ import { NotificationsController } from './notifications/notifications.controlle
       envFilePath: '.env',
     }),
     PassportModule.register({ defaultStrategy: 'jwt' }),
-    JwtModule.register({
-      // Secret will be used by Auth Service for validation
-      // Gateway validates via Auth Service, so this is just for Passport
-      secret: process.env.JWT_SECRET || 'placeholder',
-    }),
+    // Only used to decode token headers; verification uses SigningKeysService
+    JwtModule.register({}),
+    CacheModule,
   ],
   controllers: [
     AuthController,
@@ -41,6 +53,8 @@ import { NotificationsController } from './notifications/notifications.controlle
     PostsController,
     MessagesController,
     NotificationsController,
+    AdminController,
+    SearchController,
   ],
   providers: [
     // Clients
@@ -49,12 +63,23 @@ import { NotificationsController } from './notifications/notifications.controlle
     PostClientService,
     MessageClientService,
     NotificationClientService,
+    StorageClientService,
+    // Events
+    EventPublisherService,
+    // Exports
+    DataExportService,
     // Auth
     JwtStrategy,
+    SigningKeysService,
     {
       provide: APP_GUARD,
       useClass: JwtAuthGuard,
     },
+    // Must come after JwtAuthGuard: it reads the role off request.user
+    {
+      provide: APP_GUARD,
+      useClass: RolesGuard,
+    },
   ],
 })
 export class AppModule {}
@@ -1,24 +1,44 @@
-import { Controller, Post, Body, HttpCode, HttpStatus, UnauthorizedException, BadRequestException } from '@nestjs/common';
+import { Controller, Get, Post, Delete, Body, Param, Query, Ip, Headers, Redirect, HttpCode, HttpStatus, HttpException, UnauthorizedException, BadRequestException, ParseUUIDPipe } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { AuthClientService } from '../clients/auth-client.service';
 import { UserClientService } from '../clients/user-client.service';
 import { Public } from './public.decorator';
+import { SigningKeysService } from './signing-keys.service';
+import { CurrentUser, CurrentUser as CurrentUserType } from './current-user.decorator';
 
 @Controller('api/auth')
 export class AuthController {
   constructor(
     private authClient: AuthClientService,
     private userClient: UserClientService,
+    private signingKeys: SigningKeysService,
+    private configService: ConfigService,
   ) {}
 
+  /**
+   * JWKS-style set of public keys access tokens are signed with
+   */
+  @Public()
+  @Get('jwks')
+  async getJwks() {
+    return this.signingKeys.getKeySet();
+  }
+
   @Public()
   @Post('register')
   @HttpCode(HttpStatus.CREATED)
-  async register(@Body() body: { email: string; password: string; username?: string }) {
+  async register(
+    @Body() body: { email: string; password: string; username?: string },
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
     try {
-      const { userId, accessToken } = await this.authClient.register(
+      const { userId, accessToken, refreshToken } = await this.authClient.register(
         body.email,
         body.password,
         body.username,
+        ipAddress,
+        userAgent,
       );
 
       // Get user profile
@@ -26,6 +46,7 @@ export class AuthController {
 
       return {
         access_token: accessToken,
+        refresh_token: refreshToken,
         user: {
           id: userId,
           email: body.email,
@@ -36,7 +57,7 @@ export class AuthController {
       };
     } catch (error: any) {
       // Re-throw NestJS exceptions as-is, otherwise wrap as 400
-      if (error instanceof BadRequestException || error instanceof UnauthorizedException) {
+      if (error instanceof HttpException) {
         throw error;
       }
       throw new BadRequestException(error.message || 'Registration failed');
@@ -46,17 +67,30 @@ export class AuthController {
   @Public()
   @Post('login')
   @HttpCode(HttpStatus.OK)
-  async login(@Body() body: { email: string; password: string }) {
+  async login(
+    @Body() body: { email: string; password: string },
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
     try {
-      const { userId, accessToken } = await this.authClient.login(body.email, body.password);
+      const { userId, accessToken, refreshToken, twoFactorRequired, challengeToken } = await this.authClient.login(body.email, body.password, ipAddress, userAgent);
 
       // console.log('[AuthController] Login result:', { userId, hasToken: !!accessToken });
 
+      // Client must complete login via POST /api/auth/2fa/verify
+      if (twoFactorRequired) {
+        return {
+          two_factor_required: true,
+          challenge_token: challengeToken,
+        };
+      }
+
       // Get user profile
       const profile = await this.userClient.getProfile(userId);
 
       return {
         access_token: accessToken,
+        refresh_token: refreshToken,
         user: {
           id: userId,
           email: body.email,
@@ -67,11 +101,312 @@ export class AuthController {
       };
     } catch (error: any) {
       console.error('[AuthController] Login error:', error);
-      if (error instanceof UnauthorizedException || error instanceof BadRequestException) {
+      // HttpException covers the 429 lockout as well
+      if (error instanceof HttpException) {
         throw error;
       }
       throw new UnauthorizedException('Unable to complete login. Please try again.');
     }
   }
-}
 
+  @Public()
+  @Post('2fa/verify')
+  @HttpCode(HttpStatus.OK)
+  async verifyTwoFactorLogin(
+    @Body() body: { challenge_token: string; code: string },
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    if (!body.challenge_token || !body.code) {
+      throw new BadRequestException('challenge_token and code are required');
+    }
+
+    const { userId, accessToken, refreshToken } = await this.authClient.verifyTwoFactorLogin(
+      body.challenge_token,
+      body.code,
+      ipAddress,
+      userAgent,
+    );
+
+    const [user, profile] = await Promise.all([
+      this.authClient.getUserById(userId),
+      this.userClient.getProfile(userId),
+    ]);
+
+    return {
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      user: {
+        id: userId,
+        email: user?.email || '',
+        username: profile?.username || '',
+        bio: profile?.bio || '',
+        profile_picture: profile?.profilePicture || '',
+      },
+    };
+  }
+
+  @Post('2fa/enroll')
+  @HttpCode(HttpStatus.OK)
+  async enrollTwoFactor(@CurrentUser() currentUser: CurrentUserType) {
+    const { secret, otpauthUrl } = await this.authClient.enrollTwoFactor(currentUser.userId);
+    return {
+      secret,
+      otpauth_url: otpauthUrl,
+    };
+  }
+
+  @Post('2fa/confirm')
+  @HttpCode(HttpStatus.OK)
+  async confirmTwoFactor(
+    @CurrentUser() currentUser: CurrentUserType,
+    @Body() body: { code: string },
+  ) {
+    if (!body.code) {
+      throw new BadRequestException('code is required');
+    }
+
+    const recoveryCodes = await this.authClient.confirmTwoFactor(currentUser.userId, body.code);
+    return { success: true, recovery_codes: recoveryCodes };
+  }
+
+  @Post('2fa/disable')
+  @HttpCode(HttpStatus.OK)
+  async disableTwoFactor(
+    @CurrentUser() currentUser: CurrentUserType,
+    @Body() body: { code: string },
+  ) {
+    if (!body.code) {
+      throw new BadRequestException('code is required');
+    }
+
+    await this.authClient.disableTwoFactor(currentUser.userId, body.code);
+    return { success: true, message: 'Two-factor authentication disabled' };
+  }
+
+  @Post('2fa/recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  async regenerateRecoveryCodes(
+    @CurrentUser() currentUser: CurrentUserType,
+    @Body() body: { code: string },
+  ) {
+    if (!body.code) {
+      throw new BadRequestException('code is required');
+    }
+
+    const recoveryCodes = await this.authClient.regenerateRecoveryCodes(currentUser.userId, body.code);
+    return { success: true, recovery_codes: recoveryCodes };
+  }
+
+  @Public()
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(
+    @Body() body: { refresh_token: string },
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    if (!body.refresh_token) {
+      throw new BadRequestException('refresh_token is required');
+    }
+
+    const { accessToken, refreshToken } = await this.authClient.refreshToken(body.refresh_token, ipAddress, userAgent);
+
+    return {
+      access_token: accessToken,
+      refresh_token: refreshToken,
+    };
+  }
+
+  @Public()
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  async verifyEmail(@Body() body: { token: string }) {
+    if (!body.token) {
+      throw new BadRequestException('token is required');
+    }
+
+    const message = await this.authClient.verifyEmail(body.token);
+    return { success: true, message };
+  }
+
+  @Public()
+  @Post('resend-verification')
+  @HttpCode(HttpStatus.OK)
+  async resendVerification(@Body() body: { email: string }) {
+    if (!body.email) {
+      throw new BadRequestException('email is required');
+    }
+
+    const message = await this.authClient.resendVerification(body.email);
+    return { success: true, message };
+  }
+
+  @Public()
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  async forgotPassword(@Body() body: { email: string }) {
+    if (!body.email) {
+      throw new BadRequestException('email is required');
+    }
+
+    const message = await this.authClient.requestPasswordReset(body.email);
+    return { success: true, message };
+  }
+
+  @Public()
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  async resetPassword(@Body() body: { token: string; password: string }) {
+    if (!body.token || !body.password) {
+      throw new BadRequestException('token and password are required');
+    }
+
+    const message = await this.authClient.resetPassword(body.token, body.password);
+    return { success: true, message };
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  async logout(@CurrentUser() currentUser: CurrentUserType) {
+    await this.authClient.logout(currentUser.userId, currentUser.sessionId);
+    return { success: true, message: 'Logged out successfully' };
+  }
+
+  @Post('logout-all')
+  @HttpCode(HttpStatus.OK)
+  async logoutAll(@CurrentUser() currentUser: CurrentUserType) {
+    const revokedCount = await this.authClient.logoutAll(currentUser.userId);
+    return { success: true, message: 'Logged out of all devices', revoked_count: revokedCount };
+  }
+
+  /**
+   * Sessions that are still signed in, with the device and IP they were used from
+   */
+  @Get('sessions')
+  async getSessions(@CurrentUser() currentUser: CurrentUserType) {
+    const sessions = await this.authClient.listSessions(currentUser.userId, currentUser.sessionId);
+    return {
+      sessions: sessions.map((session) => ({
+        id: session.id,
+        user_agent: session.userAgent,
+        ip_address: session.ipAddress,
+        created_at: session.createdAt,
+        last_used_at: session.lastUsedAt,
+        expires_at: session.expiresAt,
+        current: session.current,
+      })),
+    };
+  }
+
+  @Delete('sessions/:id')
+  async revokeSession(
+    @CurrentUser() currentUser: CurrentUserType,
+    @Param('id', ParseUUIDPipe) sessionId: string,
+  ) {
+    await this.authClient.revokeSession(currentUser.userId, sessionId);
+    return { success: true, message: 'Session revoked' };
+  }
+
+  @Public()
+  @Get('oidc/providers')
+  async getOidcProviders() {
+    const providers = await this.authClient.listOidcProviders();
+    return { providers };
+  }
+
+  /**
+   * Browser entry point for "Sign in with <provider>"
+   */
+  @Public()
+  @Get('oidc/:provider')
+  @Redirect()
+  async startOidcLogin(@Param('provider') provider: string) {
+    const url = await this.authClient.startOidcLogin(provider);
+    return { url };
+  }
+
+  /**
+   * Returns the URL to send the browser to for linking; the bearer token
+   * can't travel with a plain navigation
+   */
+  @Post('oidc/:provider/link')
+  @HttpCode(HttpStatus.OK)
+  async linkOidcProvider(
+    @CurrentUser() currentUser: CurrentUserType,
+    @Param('provider') provider: string,
+  ) {
+    const authorizationUrl = await this.authClient.startOidcLogin(provider, currentUser.userId);
+    return { authorization_url: authorizationUrl };
+  }
+
+  /**
+   * The provider redirects here. Results go back to the frontend in the URL
+   * fragment so tokens never reach server logs or Referer headers.
+   */
+  @Public()
+  @Get('oidc/:provider/callback')
+  @Redirect()
+  async oidcCallback(
+    @Param('provider') provider: string,
+    @Query('code') code?: string,
+    @Query('state') state?: string,
+    @Query('error') providerError?: string,
+    @Ip() ipAddress?: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3800';
+    const redirect = (params: Record<string, string>) => ({
+      url: `${frontendUrl}/oauth/callback#${new URLSearchParams(params).toString()}`,
+    });
+
+    if (providerError || !code || !state) {
+      return redirect({ error: providerError || 'Login was cancelled' });
+    }
+
+    try {
+      const result = await this.authClient.completeOidcLogin(provider, code, state, ipAddress, userAgent);
+
+      if (result.identityLinked) {
+        return redirect({ linked: provider });
+      }
+
+      if (result.twoFactorRequired) {
+        return redirect({
+          two_factor_required: 'true',
+          challenge_token: result.challengeToken || '',
+        });
+      }
+
+      return redirect({
+        access_token: result.accessToken,
+        refresh_token: result.refreshToken,
+        user_id: result.userId,
+      });
+    } catch (error: any) {
+      console.error('[AuthController] OIDC callback error:', error);
+      return redirect({ error: error.message || 'Login failed' });
+    }
+  }
+
+  @Get('identities')
+  async getIdentities(@CurrentUser() currentUser: CurrentUserType) {
+    const identities = await this.authClient.listIdentities(currentUser.userId);
+    return {
+      identities: identities.map((identity) => ({
+        provider: identity.provider,
+        email: identity.email,
+        created_at: identity.createdAt,
+      })),
+    };
+  }
+
+  @Delete('identities/:provider')
+  async unlinkIdentity(
+    @CurrentUser() currentUser: CurrentUserType,
+    @Param('provider') provider: string,
+  ) {
+    await this.authClient.unlinkIdentity(currentUser.userId, provider);
+    return { success: true, message: 'Provider unlinked successfully' };
+  }
+}
@@ -3,6 +3,8 @@ import { createParamDecorator, ExecutionContext } from '@nestjs/common';
 export interface CurrentUser {
   userId: string;
   email: string;
+  sessionId: string;
+  role: string;
 }
 
 export const CurrentUser = createParamDecorator(
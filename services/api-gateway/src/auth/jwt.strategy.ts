@@ -1,61 +1,67 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
-import { ConfigService } from '@nestjs/config';
-import { AuthClientService } from '../clients/auth-client.service';
+import { JwtService } from '@nestjs/jwt';
+import { SigningKeysService } from './signing-keys.service';
+import { CacheService } from '../cache/cache.service';
 
 export interface JwtPayload {
   sub: string; // userId
   email: string;
+  sid: string; // sessionId
+  role: string; // user, moderator or admin
+  jti: string; // tokenId, used for revocation
+  typ?: string; // Only set on non-access tokens (e.g. 2FA challenges)
 }
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
-    private configService: ConfigService,
-    private authClient: AuthClientService,
+    jwtService: JwtService,
+    signingKeys: SigningKeysService,
+    private cacheService: CacheService,
   ) {
-    const secret = configService.get<string>('JWT_SECRET') || 'placeholder-secret';
-    // console.log('[JwtStrategy] Initializing with secret:', secret ? `${secret.substring(0, 10)}...` : 'NOT SET');
-    
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      // IMPORTANT: The secret MUST match the Auth Service's JWT_SECRET
-      // Passport verifies the signature before calling validate()
-      secretOrKey: secret,
-      passReqToCallback: true,
-    });
-  }
+      // Tokens are verified locally against the public keys auth-service
+      // publishes, picked by the `kid` header
+      algorithms: ['RS256'],
+      secretOrKeyProvider: (request: any, rawJwtToken: string, done: (err: any, key?: string) => void) => {
+        const decoded = jwtService.decode(rawJwtToken, { complete: true });
+        const kid = decoded?.header?.kid;
 
-  async validate(req: any, payload: JwtPayload) {
-    // console.log('[JwtStrategy] Token validated by Passport, payload:', payload);
-    
-    // Extract token from request
-    const token = ExtractJwt.fromAuthHeaderAsBearerToken()(req);
+        if (!kid) {
+          return done(new UnauthorizedException('Invalid token'));
+        }
 
-    if (!token) {
-      console.error('[JwtStrategy] No token provided');
-      throw new UnauthorizedException('No token provided');
-    }
+        signingKeys
+          .getPublicKey(kid)
+          .then((key) => (key ? done(null, key) : done(new UnauthorizedException('Invalid token'))))
+          .catch((error) => done(error));
+      },
+    });
+  }
 
-    // console.log('[JwtStrategy] Validating token via Auth Service...');
-    
-    // Validate token via Auth Service (authoritative source)
-    const validation = await this.authClient.validateToken(token);
+  async validate(payload: JwtPayload) {
+    // Passport has already checked the signature and expiry
 
-    if (!validation) {
-      console.error('[JwtStrategy] Token validation failed via Auth Service');
+    if (payload.typ || !payload.sid || !payload.jti) {
       throw new UnauthorizedException('Invalid token');
     }
 
-    // console.log('[JwtStrategy] Token validated successfully:', { userId: validation.userId, email: validation.email });
+    // Revoked tokens are denylisted by auth-service (see TokenDenylistService).
+    // If Redis is unreachable this fails open rather than logging everyone out.
+    if (await this.cacheService.exists(`revoked:jti:${payload.jti}`, 'auth')) {
+      throw new UnauthorizedException('Token has been revoked');
+    }
 
     // Return user info to be attached to request
     return {
-      userId: validation.userId,
-      email: validation.email,
+      userId: payload.sub,
+      email: payload.email,
+      sessionId: payload.sid,
+      role: payload.role || 'user',
     };
   }
 }
-
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+
+export enum Role {
+  USER = 'user',
+  MODERATOR = 'moderator',
+  ADMIN = 'admin',
+}
+
+export const ROLES_KEY = 'roles';
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,36 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role, ROLES_KEY } from './roles.decorator';
+
+// Higher roles inherit everything lower roles can do
+const ROLE_RANK: Record<string, number> = {
+  [Role.USER]: 0,
+  [Role.MODERATOR]: 1,
+  [Role.ADMIN]: 2,
+};
+
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!roles || roles.length === 0) {
+      return true;
+    }
+
+    // Runs after JwtAuthGuard, so request.user is set unless the route is @Public
+    const user = context.switchToHttp().getRequest().user;
+    const rank = ROLE_RANK[user?.role] ?? -1;
+
+    if (!roles.some((role) => rank >= ROLE_RANK[role])) {
+      throw new ForbiddenException('You do not have permission to perform this action');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,84 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { createPublicKey } from 'crypto';
+import { AuthClientService, PublicJwk } from '../clients/auth-client.service';
+
+// Refetch the key set at least this often so retired keys drop out
+const MAX_AGE_MS = 10 * 60 * 1000;
+// Unknown `kid`s trigger a refetch, but not more often than this
+const MIN_REFRESH_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Signing Keys Service
+ * Caches auth-service's public signing keys so access tokens can be verified
+ * locally. A token signed with a freshly rotated key has an unknown `kid`,
+ * which triggers a refetch - so rotation needs no gateway restart.
+ */
+@Injectable()
+export class SigningKeysService implements OnModuleInit {
+  private keySet: PublicJwk[] = [];
+  private publicKeys = new Map<string, string>();
+  private fetchedAt = 0;
+  private pending: Promise<void> | null = null;
+
+  constructor(private authClient: AuthClientService) {}
+
+  async onModuleInit() {
+    // Auth Service may not be up yet; keys are fetched on first use then
+    await this.refresh().catch(() => undefined);
+  }
+
+  /**
+   * PEM public key for a `kid`, or null if auth-service doesn't publish it
+   */
+  async getPublicKey(kid: string): Promise<string | null> {
+    const age = Date.now() - this.fetchedAt;
+
+    if (age > MAX_AGE_MS || (!this.publicKeys.has(kid) && age > MIN_REFRESH_INTERVAL_MS)) {
+      // Keep serving the cached keys if auth-service is unreachable
+      await this.refresh().catch(() => undefined);
+    }
+
+    return this.publicKeys.get(kid) || null;
+  }
+
+  async getKeySet(): Promise<{ keys: PublicJwk[] }> {
+    if (Date.now() - this.fetchedAt > MAX_AGE_MS) {
+      await this.refresh().catch(() => undefined);
+    }
+
+    return { keys: this.keySet };
+  }
+
+  private refresh(): Promise<void> {
+    // Concurrent requests share one fetch
+    if (!this.pending) {
+      this.pending = this.fetchKeys().finally(() => {
+        this.pending = null;
+      });
+    }
+
+    return this.pending;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    try {
+      const keys = await this.authClient.getSigningKeys();
+      const publicKeys = new Map<string, string>();
+
+      for (const key of keys) {
+        const pem = createPublicKey({
+          key: { kty: key.kty, n: key.n, e: key.e },
+          format: 'jwk',
+        }).export({ type: 'spki', format: 'pem' });
+        publicKeys.set(key.kid, pem.toString());
+      }
+
+      this.keySet = keys;
+      this.publicKeys = publicKeys;
+      this.fetchedAt = Date.now();
+    } catch (error) {
+      console.error('[SigningKeysService] Failed to fetch signing keys:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { Module, Global } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { CacheService } from './cache.service';
+
+/**
+ * Global CacheModule that can be imported by any NestJS service
+ * Provides CacheService with Redis connection management
+ */
+@Global()
+@Module({
+  imports: [ConfigModule],
+  providers: [CacheService],
+  exports: [CacheService],
+})
+export class CacheModule {}
+
+
+
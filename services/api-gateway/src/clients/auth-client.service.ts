@@ -1,4 +1,4 @@
-import { Injectable, OnModuleInit, UnauthorizedException, BadRequestException } from '@nestjs/common';
+import { Injectable, OnModuleInit, UnauthorizedException, BadRequestException, NotFoundException, HttpException, HttpStatus } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { join } from 'path';
 import * as grpc from '@grpc/grpc-js';
@@ -10,17 +10,183 @@ interface AuthServiceClient {
     callback: (error: any, response: { success: boolean; user_id: string; message: string }) => void,
   ): void;
   Login(
-    data: { email: string; password: string },
-    callback: (error: any, response: { success: boolean; access_token: string; user_id: string; message: string }) => void,
+    data: { email: string; password: string; ip_address: string; user_agent: string },
+    callback: (error: any, response: LoginResponse) => void,
   ): void;
   ValidateToken(
     data: { token: string },
-    callback: (error: any, response: { valid: boolean; user_id: string; email: string }) => void,
+    callback: (error: any, response: { valid: boolean; user_id: string; email: string; session_id: string; role: string }) => void,
   ): void;
   GetUserById(
     data: { user_id: string },
-    callback: (error: any, response: { id: string; email: string; created_at: string }) => void,
+    callback: (error: any, response: { id: string; email: string; created_at: string; role: string }) => void,
   ): void;
+  RefreshToken(
+    data: { refresh_token: string; ip_address: string; user_agent: string },
+    callback: (error: any, response: LoginResponse) => void,
+  ): void;
+  Logout(
+    data: { user_id: string; session_id: string },
+    callback: (error: any, response: { success: boolean; revoked_count: number; message: string }) => void,
+  ): void;
+  LogoutAll(
+    data: { user_id: string },
+    callback: (error: any, response: { success: boolean; revoked_count: number; message: string }) => void,
+  ): void;
+  VerifyEmail(
+    data: { token: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+  ResendVerification(
+    data: { email: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+  RequestPasswordReset(
+    data: { email: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+  ResetPassword(
+    data: { token: string; new_password: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+  VerifyTwoFactorLogin(
+    data: { challenge_token: string; code: string; ip_address: string; user_agent: string },
+    callback: (error: any, response: LoginResponse) => void,
+  ): void;
+  EnrollTwoFactor(
+    data: { user_id: string },
+    callback: (error: any, response: { success: boolean; secret: string; otpauth_url: string; message: string }) => void,
+  ): void;
+  ConfirmTwoFactor(
+    data: { user_id: string; code: string },
+    callback: (error: any, response: { success: boolean; recovery_codes: string[]; message: string }) => void,
+  ): void;
+  DisableTwoFactor(
+    data: { user_id: string; code: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+  RegenerateRecoveryCodes(
+    data: { user_id: string; code: string },
+    callback: (error: any, response: { success: boolean; recovery_codes: string[]; message: string }) => void,
+  ): void;
+  SetUserRole(
+    data: { actor_id: string; user_id: string; role: string },
+    callback: (error: any, response: { success: boolean; user_id: string; role: string; message: string }) => void,
+  ): void;
+  GetSigningKeys(
+    data: Record<string, never>,
+    callback: (error: any, response: { keys: PublicJwk[] }) => void,
+  ): void;
+  RotateSigningKeys(
+    data: { actor_id: string },
+    callback: (error: any, response: { success: boolean; kid: string; message: string }) => void,
+  ): void;
+  ListOidcProviders(
+    data: Record<string, never>,
+    callback: (error: any, response: { providers: string[] }) => void,
+  ): void;
+  StartOidcLogin(
+    data: { provider: string; link_user_id: string },
+    callback: (error: any, response: { success: boolean; authorization_url: string; message: string }) => void,
+  ): void;
+  CompleteOidcLogin(
+    data: { provider: string; code: string; state: string; ip_address: string; user_agent: string },
+    callback: (error: any, response: LoginResponse & { identity_linked: boolean }) => void,
+  ): void;
+  ListIdentities(
+    data: { user_id: string },
+    callback: (error: any, response: { identities: { provider: string; email: string; created_at: string }[] }) => void,
+  ): void;
+  UnlinkIdentity(
+    data: { user_id: string; provider: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+  RequestAccountDeletion(
+    data: { user_id: string; password: string },
+    callback: (error: any, response: AccountDeletionResponse) => void,
+  ): void;
+  CancelAccountDeletion(
+    data: { user_id: string },
+    callback: (error: any, response: AccountDeletionResponse) => void,
+  ): void;
+  GetAccountDeletion(
+    data: { user_id: string },
+    callback: (error: any, response: AccountDeletionResponse) => void,
+  ): void;
+  ExportUserData(
+    data: { user_id: string },
+    callback: (error: any, response: { success: boolean; message: string; data: string; media: string[] }) => void,
+  ): void;
+  ListSessions(
+    data: { user_id: string; current_session_id: string },
+    callback: (error: any, response: {
+      success: boolean;
+      sessions: {
+        id: string;
+        user_agent: string;
+        ip_address: string;
+        created_at: string;
+        last_used_at: string;
+        expires_at: string;
+        current: boolean;
+      }[];
+      message: string;
+    }) => void,
+  ): void;
+  RevokeSession(
+    data: { user_id: string; session_id: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+}
+
+interface AccountDeletionResponse {
+  success: boolean;
+  message: string;
+  status: string;
+  scheduled_for: string;
+}
+
+interface LoginResponse {
+  success: boolean;
+  access_token: string;
+  refresh_token: string;
+  user_id: string;
+  message: string;
+  two_factor_required: boolean;
+  challenge_token: string;
+  retry_after_seconds: number;
+}
+
+export interface PublicJwk {
+  kid: string;
+  kty: string;
+  alg: string;
+  use: string;
+  n: string;
+  e: string;
+}
+
+export interface AccountDeletion {
+  status: string;
+  scheduledFor: string;
+}
+
+export interface ActiveSession {
+  id: string;
+  userAgent: string;
+  ipAddress: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export interface LoginResult {
+  userId: string;
+  accessToken: string;
+  refreshToken: string;
+  twoFactorRequired?: boolean;
+  challengeToken?: string;
 }
 
 @Injectable()
@@ -51,7 +217,7 @@ export class AuthClientService implements OnModuleInit {
     console.log('[AuthClientService] Connected to Auth Service');
   }
 
-  async register(email: string, password: string, username?: string): Promise<{ userId: string; accessToken: string }> {
+  async register(email: string, password: string, username?: string, ipAddress?: string, userAgent?: string): Promise<LoginResult> {
     return new Promise((resolve, reject) => {
       this.authService.Register(
         { email, password, username: username || '' },
@@ -67,17 +233,17 @@ export class AuthClientService implements OnModuleInit {
           } else if (!response?.success) {
             reject(new BadRequestException(response?.message || 'Registration failed'));
           } else {
-            this.login(email, password).then(resolve).catch(reject);
+            this.login(email, password, ipAddress, userAgent).then(resolve).catch(reject);
           }
         },
       );
     });
   }
 
-  async login(email: string, password: string): Promise<{ userId: string; accessToken: string }> {
+  async login(email: string, password: string, ipAddress?: string, userAgent?: string): Promise<LoginResult> {
     return new Promise((resolve, reject) => {
       this.authService.Login(
-        { email, password },
+        { email, password, ip_address: ipAddress || '', user_agent: userAgent || '' },
         (error, response) => {
           if (error) {
             console.error('[AuthClientService] Login error:', error);
@@ -99,12 +265,23 @@ export class AuthClientService implements OnModuleInit {
             //   message: response?.message
             // });
             
-            if (!response?.success) {
+            if (!response?.success && response?.retry_after_seconds > 0) {
+              reject(this.lockedOut(response));
+            } else if (!response?.success) {
               console.error('[AuthClientService] Login failed:', response?.message);
               reject(new UnauthorizedException(response?.message || 'Invalid credentials'));
+            } else if (response.two_factor_required) {
+              resolve({
+                userId: response.user_id,
+                accessToken: '',
+                refreshToken: '',
+                twoFactorRequired: true,
+                challengeToken: response.challenge_token,
+              });
             } else {
               const userId = response.user_id || '';
               const accessToken = response.access_token || '';
+              const refreshToken = response.refresh_token || '';
               
               // console.log('[AuthClientService] Extracted:', { userId, hasToken: !!accessToken, tokenLength: accessToken.length });
               
@@ -115,6 +292,7 @@ export class AuthClientService implements OnModuleInit {
                 resolve({
                   userId,
                   accessToken,
+                  refreshToken,
                 });
               }
             }
@@ -124,7 +302,7 @@ export class AuthClientService implements OnModuleInit {
     });
   }
 
-  async validateToken(token: string): Promise<{ userId: string; email: string } | null> {
+  async validateToken(token: string): Promise<{ userId: string; email: string; sessionId: string; role: string } | null> {
     return new Promise((resolve) => {
       // console.log('[AuthClientService] Validating token...');
       this.authService.ValidateToken(
@@ -145,6 +323,8 @@ export class AuthClientService implements OnModuleInit {
               resolve({
                 userId: response.user_id,
                 email: response.email,
+                sessionId: response.session_id,
+                role: response.role || 'user',
               });
             }
           }
@@ -153,7 +333,7 @@ export class AuthClientService implements OnModuleInit {
     });
   }
 
-  async getUserById(userId: string): Promise<{ id: string; email: string; created_at: string } | null> {
+  async getUserById(userId: string): Promise<{ id: string; email: string; created_at: string; role: string } | null> {
     return new Promise((resolve) => {
       this.authService.GetUserById(
         { user_id: userId },
@@ -165,11 +345,536 @@ export class AuthClientService implements OnModuleInit {
               id: response?.id || '',
               email: response?.email || '',
               created_at: response?.created_at || '',
+              role: response?.role || '',
+            });
+          }
+        },
+      );
+    });
+  }
+
+  async refreshToken(
+    refreshToken: string,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<{ userId: string; accessToken: string; refreshToken: string }> {
+    return new Promise((resolve, reject) => {
+      this.authService.RefreshToken(
+        { refresh_token: refreshToken, ip_address: ipAddress || '', user_agent: userAgent || '' },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] RefreshToken error:', error);
+            if (error.code === grpc.status.UNAVAILABLE || error.code === 14) {
+              reject(new UnauthorizedException('Authentication service is currently unavailable. Please try again later.'));
+            } else {
+              reject(new UnauthorizedException('Unable to refresh session. Please log in again.'));
+            }
+          } else if (!response?.success || !response.access_token) {
+            reject(new UnauthorizedException(response?.message || 'Invalid refresh token'));
+          } else {
+            resolve({
+              userId: response.user_id,
+              accessToken: response.access_token,
+              refreshToken: response.refresh_token,
+            });
+          }
+        },
+      );
+    });
+  }
+
+  async logout(userId: string, sessionId: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.authService.Logout(
+        { user_id: userId, session_id: sessionId },
+        (error, response) => {
+          if (error || !response?.success) {
+            reject(error || new Error(response?.message || 'Logout failed'));
+          } else {
+            resolve(response.revoked_count > 0);
+          }
+        },
+      );
+    });
+  }
+
+  async logoutAll(userId: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.authService.LogoutAll(
+        { user_id: userId },
+        (error, response) => {
+          if (error || !response?.success) {
+            reject(error || new Error(response?.message || 'Logout failed'));
+          } else {
+            resolve(response.revoked_count || 0);
+          }
+        },
+      );
+    });
+  }
+
+  async verifyEmail(token: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.authService.VerifyEmail(
+        { token },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] VerifyEmail error:', error);
+            reject(new BadRequestException('Unable to verify email. Please try again.'));
+          } else if (!response?.success) {
+            reject(new BadRequestException(response?.message || 'Email verification failed'));
+          } else {
+            resolve(response.message);
+          }
+        },
+      );
+    });
+  }
+
+  async resendVerification(email: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.authService.ResendVerification(
+        { email },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] ResendVerification error:', error);
+            reject(new BadRequestException('Unable to send verification email. Please try again.'));
+          } else {
+            resolve(response?.message || '');
+          }
+        },
+      );
+    });
+  }
+
+  async requestPasswordReset(email: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.authService.RequestPasswordReset(
+        { email },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] RequestPasswordReset error:', error);
+            reject(new BadRequestException('Unable to request password reset. Please try again.'));
+          } else {
+            resolve(response?.message || '');
+          }
+        },
+      );
+    });
+  }
+
+  async resetPassword(token: string, newPassword: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.authService.ResetPassword(
+        { token, new_password: newPassword },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] ResetPassword error:', error);
+            reject(new BadRequestException('Unable to reset password. Please try again.'));
+          } else if (!response?.success) {
+            reject(new BadRequestException(response?.message || 'Password reset failed'));
+          } else {
+            resolve(response.message);
+          }
+        },
+      );
+    });
+  }
+
+  async verifyTwoFactorLogin(challengeToken: string, code: string, ipAddress?: string, userAgent?: string): Promise<LoginResult> {
+    return new Promise((resolve, reject) => {
+      this.authService.VerifyTwoFactorLogin(
+        { challenge_token: challengeToken, code, ip_address: ipAddress || '', user_agent: userAgent || '' },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] VerifyTwoFactorLogin error:', error);
+            if (error.code === grpc.status.UNAVAILABLE || error.code === 14) {
+              reject(new UnauthorizedException('Authentication service is currently unavailable. Please try again later.'));
+            } else {
+              reject(new UnauthorizedException('Unable to complete login. Please try again.'));
+            }
+          } else if (!response?.success && response?.retry_after_seconds > 0) {
+            reject(this.lockedOut(response));
+          } else if (!response?.success || !response.access_token) {
+            reject(new UnauthorizedException(response?.message || 'Invalid authentication code'));
+          } else {
+            resolve({
+              userId: response.user_id,
+              accessToken: response.access_token,
+              refreshToken: response.refresh_token,
             });
           }
         },
       );
     });
   }
-}
 
+  async enrollTwoFactor(userId: string): Promise<{ secret: string; otpauthUrl: string }> {
+    return new Promise((resolve, reject) => {
+      this.authService.EnrollTwoFactor(
+        { user_id: userId },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] EnrollTwoFactor error:', error);
+            reject(new BadRequestException('Unable to start two-factor enrollment. Please try again.'));
+          } else if (!response?.success) {
+            reject(new BadRequestException(response?.message || 'Two-factor enrollment failed'));
+          } else {
+            resolve({
+              secret: response.secret,
+              otpauthUrl: response.otpauth_url,
+            });
+          }
+        },
+      );
+    });
+  }
+
+  async confirmTwoFactor(userId: string, code: string): Promise<string[]> {
+    return new Promise((resolve, reject) => {
+      this.authService.ConfirmTwoFactor(
+        { user_id: userId, code },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] ConfirmTwoFactor error:', error);
+            reject(new BadRequestException('Unable to confirm two-factor authentication. Please try again.'));
+          } else if (!response?.success) {
+            reject(new BadRequestException(response?.message || 'Two-factor confirmation failed'));
+          } else {
+            resolve(response.recovery_codes || []);
+          }
+        },
+      );
+    });
+  }
+
+  async disableTwoFactor(userId: string, code: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.authService.DisableTwoFactor(
+        { user_id: userId, code },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] DisableTwoFactor error:', error);
+            reject(new BadRequestException('Unable to disable two-factor authentication. Please try again.'));
+          } else if (!response?.success) {
+            reject(new BadRequestException(response?.message || 'Failed to disable two-factor authentication'));
+          } else {
+            resolve();
+          }
+        },
+      );
+    });
+  }
+
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    return new Promise((resolve, reject) => {
+      this.authService.RegenerateRecoveryCodes(
+        { user_id: userId, code },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] RegenerateRecoveryCodes error:', error);
+            reject(new BadRequestException('Unable to regenerate recovery codes. Please try again.'));
+          } else if (!response?.success) {
+            reject(new BadRequestException(response?.message || 'Failed to regenerate recovery codes'));
+          } else {
+            resolve(response.recovery_codes || []);
+          }
+        },
+      );
+    });
+  }
+
+  async setUserRole(actorId: string, userId: string, role: string): Promise<{ userId: string; role: string }> {
+    return new Promise((resolve, reject) => {
+      this.authService.SetUserRole(
+        { actor_id: actorId, user_id: userId, role },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] SetUserRole error:', error);
+            reject(new BadRequestException('Unable to update role. Please try again.'));
+          } else if (!response?.success) {
+            reject(new BadRequestException(response?.message || 'Failed to update role'));
+          } else {
+            resolve({ userId: response.user_id, role: response.role });
+          }
+        },
+      );
+    });
+  }
+
+  async getSigningKeys(): Promise<PublicJwk[]> {
+    return new Promise((resolve, reject) => {
+      this.authService.GetSigningKeys(
+        {},
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] GetSigningKeys error:', error);
+            reject(new UnauthorizedException('Authentication service is currently unavailable. Please try again later.'));
+          } else {
+            resolve(response?.keys || []);
+          }
+        },
+      );
+    });
+  }
+
+  async rotateSigningKeys(actorId: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.authService.RotateSigningKeys(
+        { actor_id: actorId },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] RotateSigningKeys error:', error);
+            reject(new BadRequestException('Unable to rotate signing keys. Please try again.'));
+          } else if (!response?.success) {
+            reject(new BadRequestException(response?.message || 'Failed to rotate signing keys'));
+          } else {
+            resolve(response.kid);
+          }
+        },
+      );
+    });
+  }
+
+  async listOidcProviders(): Promise<string[]> {
+    return new Promise((resolve) => {
+      this.authService.ListOidcProviders(
+        {},
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] ListOidcProviders error:', error);
+            resolve([]);
+          } else {
+            resolve(response?.providers || []);
+          }
+        },
+      );
+    });
+  }
+
+  async startOidcLogin(provider: string, linkUserId?: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.authService.StartOidcLogin(
+        { provider, link_user_id: linkUserId || '' },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] StartOidcLogin error:', error);
+            reject(new BadRequestException('Unable to start login. Please try again.'));
+          } else if (!response?.success) {
+            reject(new BadRequestException(response?.message || 'Failed to start login'));
+          } else {
+            resolve(response.authorization_url);
+          }
+        },
+      );
+    });
+  }
+
+  async completeOidcLogin(
+    provider: string,
+    code: string,
+    state: string,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<LoginResult & { identityLinked: boolean }> {
+    return new Promise((resolve, reject) => {
+      this.authService.CompleteOidcLogin(
+        { provider, code, state, ip_address: ipAddress || '', user_agent: userAgent || '' },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] CompleteOidcLogin error:', error);
+            reject(new UnauthorizedException('Unable to complete login. Please try again.'));
+          } else if (!response?.success) {
+            reject(new UnauthorizedException(response?.message || 'Login failed'));
+          } else {
+            resolve({
+              userId: response.user_id,
+              accessToken: response.access_token,
+              refreshToken: response.refresh_token,
+              twoFactorRequired: response.two_factor_required,
+              challengeToken: response.challenge_token,
+              identityLinked: response.identity_linked,
+            });
+          }
+        },
+      );
+    });
+  }
+
+  async listIdentities(userId: string): Promise<{ provider: string; email: string; createdAt: string }[]> {
+    return new Promise((resolve, reject) => {
+      this.authService.ListIdentities(
+        { user_id: userId },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] ListIdentities error:', error);
+            reject(new BadRequestException('Unable to load linked accounts. Please try again.'));
+          } else {
+            resolve(
+              (response?.identities || []).map((identity) => ({
+                provider: identity.provider,
+                email: identity.email,
+                createdAt: identity.created_at,
+              })),
+            );
+          }
+        },
+      );
+    });
+  }
+
+  async unlinkIdentity(userId: string, provider: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.authService.UnlinkIdentity(
+        { user_id: userId, provider },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] UnlinkIdentity error:', error);
+            reject(new BadRequestException('Unable to unlink provider. Please try again.'));
+          } else if (!response?.success) {
+            reject(new BadRequestException(response?.message || 'Failed to unlink provider'));
+          } else {
+            resolve();
+          }
+        },
+      );
+    });
+  }
+
+  async listSessions(userId: string, currentSessionId: string): Promise<ActiveSession[]> {
+    return new Promise((resolve, reject) => {
+      this.authService.ListSessions(
+        { user_id: userId, current_session_id: currentSessionId || '' },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] ListSessions error:', error);
+            reject(new BadRequestException('Unable to load sessions. Please try again.'));
+          } else if (!response?.success) {
+            reject(new BadRequestException(response?.message || 'Failed to load sessions'));
+          } else {
+            resolve(
+              (response.sessions || []).map((session) => ({
+                id: session.id,
+                userAgent: session.user_agent,
+                ipAddress: session.ip_address,
+                createdAt: session.created_at,
+                lastUsedAt: session.last_used_at,
+                expiresAt: session.expires_at,
+                current: session.current,
+              })),
+            );
+          }
+        },
+      );
+    });
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.authService.RevokeSession(
+        { user_id: userId, session_id: sessionId },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] RevokeSession error:', error);
+            reject(new BadRequestException('Unable to revoke session. Please try again.'));
+          } else if (!response?.success) {
+            reject(new NotFoundException(response?.message || 'Session not found'));
+          } else {
+            resolve();
+          }
+        },
+      );
+    });
+  }
+
+  async requestAccountDeletion(userId: string, password: string): Promise<AccountDeletion> {
+    return new Promise((resolve, reject) => {
+      this.authService.RequestAccountDeletion(
+        { user_id: userId, password: password || '' },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] RequestAccountDeletion error:', error);
+            reject(new BadRequestException('Unable to delete account. Please try again.'));
+          } else if (!response?.success) {
+            reject(new BadRequestException(response?.message || 'Failed to delete account'));
+          } else {
+            resolve({ status: response.status, scheduledFor: response.scheduled_for });
+          }
+        },
+      );
+    });
+  }
+
+  async cancelAccountDeletion(userId: string): Promise<AccountDeletion> {
+    return new Promise((resolve, reject) => {
+      this.authService.CancelAccountDeletion(
+        { user_id: userId },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] CancelAccountDeletion error:', error);
+            reject(new BadRequestException('Unable to cancel account deletion. Please try again.'));
+          } else if (!response?.success) {
+            reject(new BadRequestException(response?.message || 'Failed to cancel account deletion'));
+          } else {
+            resolve({ status: response.status, scheduledFor: response.scheduled_for });
+          }
+        },
+      );
+    });
+  }
+
+  /**
+   * Latest deletion request, or null if the user never asked
+   */
+  async getAccountDeletion(userId: string): Promise<AccountDeletion | null> {
+    return new Promise((resolve, reject) => {
+      this.authService.GetAccountDeletion(
+        { user_id: userId },
+        (error, response) => {
+          if (error) {
+            console.error('[AuthClientService] GetAccountDeletion error:', error);
+            reject(new BadRequestException('Unable to get account deletion status. Please try again.'));
+          } else if (!response?.success) {
+            reject(new BadRequestException(response?.message || 'Failed to get account deletion status'));
+          } else if (!response.status) {
+            resolve(null);
+          } else {
+            resolve({ status: response.status, scheduledFor: response.scheduled_for });
+          }
+        },
+      );
+    });
+  }
+
+  /**
+   * 429 with the lockout remaining, so clients know when to retry
+   */
+  private lockedOut(response: LoginResponse): HttpException {
+    return new HttpException(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        message: response.message || 'Too many failed login attempts',
+        retry_after_seconds: response.retry_after_seconds,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  /**
+   * Everything this service holds about the user, for a data export
+   */
+  async exportUserData(userId: string): Promise<{ data: Record<string, unknown>; media: string[] }> {
+    return new Promise((resolve, reject) => {
+      this.authService.ExportUserData({ user_id: userId }, (error, response) => {
+        if (error || !response?.success) {
+          reject(new Error(error?.message || response?.message || 'Failed to export user data'));
+        } else {
+          resolve({
+            data: response.data ? JSON.parse(response.data) : {},
+            media: response.media || [],
+          });
+        }
+      });
+    });
+  }
+}
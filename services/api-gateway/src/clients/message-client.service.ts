@@ -62,7 +62,7 @@ interface MessageServiceClient {
     }) => void,
   ): void;
   GetMessages(
-    data: { conversation_id: string; user_id: string; page?: number; limit?: number },
+    data: { conversation_id: string; user_id: string; page?: number; limit?: number; cursor?: string },
     callback: (error: any, response: {
       messages: Array<{
         id: string;
@@ -75,6 +75,7 @@ interface MessageServiceClient {
       }>;
       total: number;
       page: number;
+      next_cursor: string;
     }) => void,
   ): void;
   ReplyToMessage(
@@ -170,6 +171,10 @@ interface MessageServiceClient {
       message: string;
     }) => void,
   ): void;
+  ExportUserData(
+    data: { user_id: string },
+    callback: (error: any, response: { success: boolean; message: string; data: string; media: string[] }) => void,
+  ): void;
 }
 
 @Injectable()
@@ -358,7 +363,7 @@ export class MessageClientService implements OnModuleInit {
     });
   }
 
-  async getMessages(conversationId: string, userId: string, page: number = 1, limit: number = 50): Promise<{
+  async getMessages(conversationId: string, userId: string, page: number = 1, limit: number = 50, cursor?: string): Promise<{
     messages: Array<{
       id: string;
       conversationId: string;
@@ -371,10 +376,11 @@ export class MessageClientService implements OnModuleInit {
     }>;
     total: number;
     page: number;
+    nextCursor: string | null;
   }> {
     return new Promise((resolve, reject) => {
       this.messageService.GetMessages(
-        { conversation_id: conversationId, user_id: userId, page, limit },
+        { conversation_id: conversationId, user_id: userId, page, limit, cursor },
         (error, response) => {
           if (error || !response) {
             reject(error || new Error('Failed to get messages'));
@@ -392,6 +398,7 @@ export class MessageClientService implements OnModuleInit {
               })),
               total: response.total || 0,
               page: response.page || page,
+              nextCursor: response.next_cursor || null,
             });
           }
         },
@@ -702,5 +709,22 @@ export class MessageClientService implements OnModuleInit {
       );
     });
   }
-}
 
+  /**
+   * Everything this service holds about the user, for a data export
+   */
+  async exportUserData(userId: string): Promise<{ data: Record<string, unknown>; media: string[] }> {
+    return new Promise((resolve, reject) => {
+      this.messageService.ExportUserData({ user_id: userId }, (error, response) => {
+        if (error || !response?.success) {
+          reject(new Error(error?.message || response?.message || 'Failed to export user data'));
+        } else {
+          resolve({
+            data: response.data ? JSON.parse(response.data) : {},
+            media: response.media || [],
+          });
+        }
+      });
+    });
+  }
+}
@@ -46,6 +46,10 @@ interface NotificationServiceClient {
       }>;
     }) => void,
   ): void;
+  ExportUserData(
+    data: { user_id: string },
+    callback: (error: any, response: { success: boolean; message: string; data: string; media: string[] }) => void,
+  ): void;
 }
 
 @Injectable()
@@ -192,5 +196,22 @@ export class NotificationClientService implements OnModuleInit {
       );
     });
   }
-}
 
+  /**
+   * Everything this service holds about the user, for a data export
+   */
+  async exportUserData(userId: string): Promise<{ data: Record<string, unknown>; media: string[] }> {
+    return new Promise((resolve, reject) => {
+      this.notificationService.ExportUserData({ user_id: userId }, (error, response) => {
+        if (error || !response?.success) {
+          reject(new Error(error?.message || response?.message || 'Failed to export user data'));
+        } else {
+          resolve({
+            data: response.data ? JSON.parse(response.data) : {},
+            media: response.media || [],
+          });
+        }
+      });
+    });
+  }
+}
@@ -1,12 +1,170 @@
-import { Injectable, OnModuleInit } from '@nestjs/common';
+import { Injectable, OnModuleInit, ForbiddenException, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { join } from 'path';
 import * as grpc from '@grpc/grpc-js';
 import * as protoLoader from '@grpc/proto-loader';
 
+interface PostResponse {
+  id: string;
+  user_id: string;
+  content: string;
+  media_urls: string[];
+  likes_count: number;
+  comments_count: number;
+  created_at: string;
+  edited_at: string;
+  reposts_count: number;
+  repost_of_id: string;
+  is_quote: boolean;
+  repost_of?: PostResponse | null;
+  reaction_counts?: Record<string, number>;
+  status: string;
+  publish_at: string;
+  visibility: string;
+  mentions?: string[];
+  poll?: PollResponse | null;
+}
+
+interface PollResponse {
+  id: string;
+  post_id: string;
+  options: Array<{ index: number; text: string; votes: number }>;
+  multiple_choice: boolean;
+  closes_at: string;
+  closed: boolean;
+  results_visible: boolean;
+  total_voters: number;
+  viewer_votes: number[];
+}
+
+export interface PostDetails {
+  id: string;
+  userId: string;
+  content: string;
+  mediaUrls: string[];
+  likesCount: number;
+  commentsCount: number;
+  createdAt: string;
+  editedAt: string | null;
+  repostsCount: number;
+  // Set on reposts and quotes; null on a quote whose original was deleted
+  repostOfId: string | null;
+  isQuote: boolean;
+  repostOf: PostDetails | null;
+  reactionCounts: Record<string, number>;
+  status: PostStatus;
+  publishAt: string | null;
+  visibility: PostVisibility;
+  mentions: string[];
+  poll: PollDetails | null;
+}
+
+/**
+ * A poll as the viewer sees it. Vote counts are 0 until resultsVisible,
+ * i.e. until the viewer has voted or the poll has closed.
+ */
+export interface PollDetails {
+  id: string;
+  postId: string;
+  options: Array<{ index: number; text: string; votes: number }>;
+  multipleChoice: boolean;
+  closesAt: string | null;
+  closed: boolean;
+  resultsVisible: boolean;
+  totalVoters: number;
+  viewerVotes: number[];
+}
+
+export interface PollOptions {
+  options: string[];
+  multipleChoice?: boolean;
+  closesAt?: string;
+}
+
+/**
+ * A bookmarked post; collectionId is null while it's unsorted
+ */
+export interface SavedPost {
+  post: PostDetails;
+  collectionId: string | null;
+  savedAt: string;
+}
+
+export interface BookmarkCollection {
+  id: string;
+  name: string;
+  bookmarkCount: number;
+  createdAt: string;
+}
+
+export type PostStatus = 'draft' | 'scheduled' | 'published';
+
+export type PostVisibility = 'public' | 'followers' | 'mentioned' | 'private';
+
+export interface PostReaction {
+  userId: string;
+  reaction: string;
+  createdAt: string;
+}
+
+interface CollectionResponse {
+  id: string;
+  name: string;
+  bookmark_count: number;
+  created_at: string;
+}
+
+interface HashtagStatsResponse {
+  tag: string;
+  post_count: number;
+  comment_count: number;
+  last_used_at: string;
+}
+
+export interface SearchPostsParams {
+  query: string;
+  authorId?: string;
+  since?: string;
+  until?: string;
+  hasMedia?: boolean;
+  type?: 'all' | 'posts' | 'comments';
+  sort?: 'relevance' | 'recent';
+  cursor?: string;
+  limit?: number;
+  viewerId?: string;
+}
+
+export interface SearchHit {
+  type: 'post' | 'comment';
+  id: string;
+  postId: string;
+  userId: string;
+  content: string;
+  snippet: string;
+  mediaUrls: string[];
+  rank: number;
+  createdAt: string;
+}
+
+export interface HashtagStats {
+  tag: string;
+  postCount: number;
+  commentCount: number;
+  lastUsedAt: string | null;
+}
+
 interface PostServiceClient {
   CreatePost(
-    data: { user_id: string; content: string; media_urls?: string[] },
+    data: {
+      user_id: string;
+      content: string;
+      media_urls?: string[];
+      status?: string;
+      publish_at?: string;
+      visibility?: string;
+      mentions?: string[];
+      poll?: { options: string[]; multiple_choice: boolean; closes_at: string };
+    },
     callback: (error: any, response: {
       id: string;
       user_id: string;
@@ -15,50 +173,114 @@ interface PostServiceClient {
       likes_count: number;
       comments_count: number;
       created_at: string;
+      status: string;
+      publish_at: string;
+      visibility: string;
+      mentions: string[];
+      poll: PollResponse | null;
     }) => void,
   ): void;
+  GetScheduledPosts(
+    data: { user_id: string; status?: string; page?: number; limit?: number },
+    callback: (error: any, response: { posts: PostResponse[]; total: number; page: number }) => void,
+  ): void;
+  SchedulePost(
+    data: { post_id: string; user_id: string; publish_at: string },
+    callback: (error: any, response: PostResponse) => void,
+  ): void;
+  CancelScheduledPost(
+    data: { post_id: string; user_id: string },
+    callback: (error: any, response: PostResponse) => void,
+  ): void;
+  PublishPost(
+    data: { post_id: string; user_id: string },
+    callback: (error: any, response: PostResponse) => void,
+  ): void;
   GetPost(
-    data: { post_id: string },
-    callback: (error: any, response: {
-      id: string;
+    data: { post_id: string; viewer_id?: string },
+    callback: (error: any, response: PostResponse) => void,
+  ): void;
+  UpdatePost(
+    data: {
+      post_id: string;
       user_id: string;
       content: string;
-      media_urls: string[];
-      likes_count: number;
-      comments_count: number;
-      created_at: string;
-    }) => void,
+      media_urls?: string[];
+      keep_media?: boolean;
+      visibility?: string;
+      mentions?: string[];
+    },
+    callback: (error: any, response: PostResponse) => void,
   ): void;
-  GetUserPosts(
-    data: { user_id: string; page?: number; limit?: number },
+  GetPostRevisions(
+    data: { post_id: string; viewer_id: string },
     callback: (error: any, response: {
-      posts: Array<{
+      revisions: Array<{
         id: string;
-        user_id: string;
         content: string;
         media_urls: string[];
-        likes_count: number;
-        comments_count: number;
-        created_at: string;
+        published_at: string;
+        replaced_at: string;
       }>;
+    }) => void,
+  ): void;
+  GetUserPosts(
+    data: { user_id: string; page?: number; limit?: number; cursor?: string; viewer_id?: string },
+    callback: (error: any, response: {
+      posts: PostResponse[];
       total: number;
       page: number;
+      next_cursor: string;
     }) => void,
   ): void;
   GetFeed(
-    data: { user_id: string; following_ids?: string[]; page?: number; limit?: number },
+    data: { user_id: string; following_ids?: string[]; page?: number; limit?: number; mode?: string; cursor?: string },
+    callback: (error: any, response: {
+      posts: PostResponse[];
+      total: number;
+      page: number;
+      next_cursor: string;
+    }) => void,
+  ): void;
+  GetHashtagPosts(
+    data: { tag: string; page?: number; limit?: number; viewer_id?: string },
+    callback: (error: any, response: {
+      stats: HashtagStatsResponse;
+      posts: PostResponse[];
+      total: number;
+      page: number;
+    }) => void,
+  ): void;
+  GetHashtags(
+    data: { query?: string; limit?: number },
+    callback: (error: any, response: { hashtags: HashtagStatsResponse[] }) => void,
+  ): void;
+  SearchPosts(
+    data: {
+      query: string;
+      author_id?: string;
+      since?: string;
+      until?: string;
+      has_media?: string;
+      type?: string;
+      sort?: string;
+      cursor?: string;
+      limit?: number;
+      viewer_id?: string;
+    },
     callback: (error: any, response: {
-      posts: Array<{
+      results: Array<{
+        type: string;
         id: string;
+        post_id: string;
         user_id: string;
         content: string;
+        snippet: string;
         media_urls: string[];
-        likes_count: number;
-        comments_count: number;
+        rank: number;
         created_at: string;
       }>;
-      total: number;
-      page: number;
+      next_cursor: string;
     }) => void,
   ): void;
   LikePost(
@@ -69,6 +291,18 @@ interface PostServiceClient {
     data: { post_id: string; user_id: string },
     callback: (error: any, response: { success: boolean; message: string }) => void,
   ): void;
+  RepostPost(
+    data: { post_id: string; user_id: string },
+    callback: (error: any, response: PostResponse) => void,
+  ): void;
+  UndoRepost(
+    data: { post_id: string; user_id: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+  QuotePost(
+    data: { post_id: string; user_id: string; content: string; media_urls?: string[] },
+    callback: (error: any, response: PostResponse) => void,
+  ): void;
   CreateComment(
     data: { post_id: string; user_id: string; content: string; parent_comment_id?: string; mentions?: string[] },
     callback: (error: any, response: {
@@ -84,7 +318,7 @@ interface PostServiceClient {
     }) => void,
   ): void;
   GetComments(
-    data: { post_id: string; page?: number; limit?: number },
+    data: { post_id: string; page?: number; limit?: number; cursor?: string; sort?: string },
     callback: (error: any, response: {
       comments: Array<{
         id: string;
@@ -96,13 +330,15 @@ interface PostServiceClient {
         mentions: string[];
         reply_count: number;
         is_deleted: boolean;
+        likes_count: number;
       }>;
       total: number;
       page: number;
+      next_cursor: string;
     }) => void,
   ): void;
   GetReplies(
-    data: { comment_id: string; page?: number; limit?: number },
+    data: { comment_id: string; page?: number; limit?: number; cursor?: string; sort?: string; viewer_id: string },
     callback: (error: any, response: {
       replies: Array<{
         id: string;
@@ -114,13 +350,15 @@ interface PostServiceClient {
         mentions: string[];
         reply_count: number;
         is_deleted: boolean;
+        likes_count: number;
       }>;
       total: number;
       page: number;
+      next_cursor: string;
     }) => void,
   ): void;
   GetPresignedUploadUrl(
-    data: { file_name: string; content_type: string },
+    data: { file_name: string; content_type: string; user_id: string },
     callback: (error: any, response: {
       upload_url: string;
       object_name: string;
@@ -138,7 +376,73 @@ interface PostServiceClient {
   ): void;
   CheckUserLikedPosts(
     data: { user_id: string; post_ids: string[] },
-    callback: (error: any, response: { liked_posts: Record<string, boolean> }) => void,
+    callback: (error: any, response: { liked_posts: Record<string, boolean>; reactions: Record<string, string> }) => void,
+  ): void;
+  LikeComment(
+    data: { post_id: string; comment_id: string; user_id: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+  UnlikeComment(
+    data: { post_id: string; comment_id: string; user_id: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+  ReactToPost(
+    data: { post_id: string; user_id: string; reaction: string; comment_id?: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+  RemoveReaction(
+    data: { post_id: string; user_id: string; comment_id?: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+  GetReactions(
+    data: { post_id: string; comment_id?: string; reaction?: string; page?: number; limit?: number; viewer_id: string },
+    callback: (error: any, response: {
+      reactions: Array<{ user_id: string; reaction: string; created_at: string }>;
+      counts: Record<string, number>;
+      total: number;
+      page: number;
+    }) => void,
+  ): void;
+  VotePoll(
+    data: { post_id: string; user_id: string; option_indexes: number[] },
+    callback: (error: any, response: PollResponse) => void,
+  ): void;
+  GetPollResults(
+    data: { post_id: string; viewer_id: string },
+    callback: (error: any, response: PollResponse) => void,
+  ): void;
+  SavePost(
+    data: { post_id: string; user_id: string; collection_id?: string },
+    callback: (error: any, response: { post_id: string; collection_id: string; saved_at: string }) => void,
+  ): void;
+  UnsavePost(
+    data: { post_id: string; user_id: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+  ListSaved(
+    data: { user_id: string; collection_id?: string; page?: number; limit?: number; cursor?: string },
+    callback: (error: any, response: {
+      saved: Array<{ post: PostResponse; collection_id: string; saved_at: string }>;
+      total: number;
+      page: number;
+      next_cursor: string;
+    }) => void,
+  ): void;
+  CreateCollection(
+    data: { user_id: string; name: string },
+    callback: (error: any, response: CollectionResponse) => void,
+  ): void;
+  GetCollections(
+    data: { user_id: string },
+    callback: (error: any, response: { collections: CollectionResponse[] }) => void,
+  ): void;
+  DeleteCollection(
+    data: { collection_id: string; user_id: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+  ExportUserData(
+    data: { user_id: string },
+    callback: (error: any, response: { success: boolean; message: string; data: string; media: string[] }) => void,
   ): void;
 }
 
@@ -170,7 +474,22 @@ export class PostClientService implements OnModuleInit {
     console.log('[PostClientService] Connected to Post Service');
   }
 
-  async createPost(userId: string, content: string, mediaUrls: string[] = []): Promise<{
+  /**
+   * Publishes straight away unless a draft or scheduled status is given;
+   * scheduled posts need publishAt
+   */
+  async createPost(
+    userId: string,
+    content: string,
+    mediaUrls: string[] = [],
+    options: {
+      status?: PostStatus;
+      publishAt?: string;
+      visibility?: PostVisibility;
+      mentions?: string[];
+      poll?: PollOptions;
+    } = {},
+  ): Promise<{
     id: string;
     userId: string;
     content: string;
@@ -178,10 +497,30 @@ export class PostClientService implements OnModuleInit {
     likesCount: number;
     commentsCount: number;
     createdAt: string;
+    status: PostStatus;
+    publishAt: string | null;
+    visibility: PostVisibility;
+    mentions: string[];
+    poll: PollDetails | null;
   }> {
     return new Promise((resolve, reject) => {
       this.postService.CreatePost(
-        { user_id: userId, content, media_urls: mediaUrls },
+        {
+          user_id: userId,
+          content,
+          media_urls: mediaUrls,
+          status: options.status,
+          publish_at: options.publishAt,
+          visibility: options.visibility,
+          mentions: options.mentions || [],
+          poll: options.poll
+            ? {
+                options: options.poll.options,
+                multiple_choice: !!options.poll.multipleChoice,
+                closes_at: options.poll.closesAt || '',
+              }
+            : undefined,
+        },
         (error, response) => {
           if (error || !response) {
             reject(error || new Error('Failed to create post'));
@@ -194,6 +533,11 @@ export class PostClientService implements OnModuleInit {
               likesCount: response.likes_count || 0,
               commentsCount: response.comments_count || 0,
               createdAt: response.created_at,
+              status: (response.status || 'published') as PostStatus,
+              publishAt: response.publish_at || null,
+              visibility: (response.visibility || 'public') as PostVisibility,
+              mentions: response.mentions || [],
+              poll: response.poll ? this.mapPoll(response.poll) : null,
             });
           }
         },
@@ -201,69 +545,110 @@ export class PostClientService implements OnModuleInit {
     });
   }
 
-  async getPost(postId: string): Promise<{
+  /**
+   * With a `viewerId`, posts that user can't see come back as null, or as a
+   * ForbiddenException for followers-only posts
+   */
+  async getPost(postId: string, viewerId?: string): Promise<PostDetails | null> {
+    return new Promise((resolve, reject) => {
+      this.postService.GetPost(
+        { post_id: postId, viewer_id: viewerId },
+        (error, response) => {
+          if (error?.code === grpc.status.PERMISSION_DENIED) {
+            reject(new ForbiddenException(error.details || 'You cannot view this post'));
+          } else if (error || !response) {
+            resolve(null);
+          } else {
+            resolve(this.mapPost(response));
+          }
+        },
+      );
+    });
+  }
+
+  /**
+   * Leaving out mediaUrls keeps the post's current media, and leaving out
+   * the visibility keeps the current visibility
+   */
+  async updatePost(
+    postId: string,
+    userId: string,
+    content: string,
+    mediaUrls?: string[],
+    options: { visibility?: PostVisibility; mentions?: string[] } = {},
+  ): Promise<PostDetails> {
+    return new Promise((resolve, reject) => {
+      this.postService.UpdatePost(
+        {
+          post_id: postId,
+          user_id: userId,
+          content,
+          media_urls: mediaUrls || [],
+          keep_media: mediaUrls === undefined,
+          visibility: options.visibility,
+          mentions: options.mentions || [],
+        },
+        (error, response) => {
+          if (error || !response) {
+            reject(error || new Error('Failed to update post'));
+          } else {
+            resolve(this.mapPost(response));
+          }
+        },
+      );
+    });
+  }
+
+  async getPostRevisions(postId: string, viewerId: string): Promise<Array<{
     id: string;
-    userId: string;
     content: string;
     mediaUrls: string[];
-    likesCount: number;
-    commentsCount: number;
-    createdAt: string;
-  } | null> {
-    return new Promise((resolve) => {
-      this.postService.GetPost(
-        { post_id: postId },
+    publishedAt: string;
+    replacedAt: string;
+  }>> {
+    return new Promise((resolve, reject) => {
+      this.postService.GetPostRevisions(
+        { post_id: postId, viewer_id: viewerId },
         (error, response) => {
           if (error || !response) {
-            resolve(null);
+            reject(this.toAccessError(error, 'Failed to get post revisions'));
           } else {
-            resolve({
-              id: response.id,
-              userId: response.user_id,
-              content: response.content,
-              mediaUrls: response.media_urls || [],
-              likesCount: response.likes_count || 0,
-              commentsCount: response.comments_count || 0,
-              createdAt: response.created_at,
-            });
+            resolve(
+              (response.revisions || []).map((r: any) => ({
+                id: r.id,
+                content: r.content,
+                mediaUrls: r.media_urls || [],
+                publishedAt: r.published_at,
+                replacedAt: r.replaced_at,
+              })),
+            );
           }
         },
       );
     });
   }
 
-  async getUserPosts(userId: string, page: number = 1, limit: number = 20): Promise<{
-    posts: Array<{
-      id: string;
-      userId: string;
-      content: string;
-      mediaUrls: string[];
-      likesCount: number;
-      commentsCount: number;
-      createdAt: string;
-    }>;
+  /**
+   * Only posts `viewerId` can see; public posts only without one
+   */
+  async getUserPosts(userId: string, page: number = 1, limit: number = 20, cursor?: string, viewerId?: string): Promise<{
+    posts: PostDetails[];
     total: number;
     page: number;
+    nextCursor: string | null;
   }> {
     return new Promise((resolve, reject) => {
       this.postService.GetUserPosts(
-        { user_id: userId, page, limit },
+        { user_id: userId, page, limit, cursor, viewer_id: viewerId },
         (error, response) => {
           if (error || !response) {
-            reject(error || new Error('Failed to get posts'));
+            reject(this.toAccessError(error, 'Failed to get posts'));
           } else {
             resolve({
-              posts: (response.posts || []).map((p: any) => ({
-                id: p.id,
-                userId: p.user_id,
-                content: p.content,
-                mediaUrls: p.media_urls || [],
-                likesCount: p.likes_count || 0,
-                commentsCount: p.comments_count || 0,
-                createdAt: p.created_at,
-              })),
+              posts: (response.posts || []).map((p) => this.mapPost(p)),
               total: response.total || 0,
               page: response.page || page,
+              nextCursor: response.next_cursor || null,
             });
           }
         },
@@ -271,38 +656,182 @@ export class PostClientService implements OnModuleInit {
     });
   }
 
-  async getFeed(userId: string, followingIds: string[], page: number = 1, limit: number = 20): Promise<{
-    posts: Array<{
-      id: string;
-      userId: string;
-      content: string;
-      mediaUrls: string[];
-      likesCount: number;
-      commentsCount: number;
-      createdAt: string;
-    }>;
+  /**
+   * The user's own drafts and scheduled posts
+   */
+  async getScheduledPosts(
+    userId: string,
+    status?: 'draft' | 'scheduled',
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<{ posts: PostDetails[]; total: number; page: number }> {
+    return new Promise((resolve, reject) => {
+      this.postService.GetScheduledPosts(
+        { user_id: userId, status, page, limit },
+        (error, response) => {
+          if (error || !response) {
+            reject(error || new Error('Failed to get scheduled posts'));
+          } else {
+            resolve({
+              posts: (response.posts || []).map((p) => this.mapPost(p)),
+              total: response.total || 0,
+              page: response.page || page,
+            });
+          }
+        },
+      );
+    });
+  }
+
+  async schedulePost(postId: string, userId: string, publishAt: string): Promise<PostDetails> {
+    return new Promise((resolve, reject) => {
+      this.postService.SchedulePost(
+        { post_id: postId, user_id: userId, publish_at: publishAt },
+        (error, response) => {
+          if (error || !response) {
+            reject(error || new Error('Failed to schedule post'));
+          } else {
+            resolve(this.mapPost(response));
+          }
+        },
+      );
+    });
+  }
+
+  async cancelScheduledPost(postId: string, userId: string): Promise<PostDetails> {
+    return new Promise((resolve, reject) => {
+      this.postService.CancelScheduledPost(
+        { post_id: postId, user_id: userId },
+        (error, response) => {
+          if (error || !response) {
+            reject(error || new Error('Failed to cancel scheduled post'));
+          } else {
+            resolve(this.mapPost(response));
+          }
+        },
+      );
+    });
+  }
+
+  async publishPost(postId: string, userId: string): Promise<PostDetails> {
+    return new Promise((resolve, reject) => {
+      this.postService.PublishPost(
+        { post_id: postId, user_id: userId },
+        (error, response) => {
+          if (error || !response) {
+            reject(error || new Error('Failed to publish post'));
+          } else {
+            resolve(this.mapPost(response));
+          }
+        },
+      );
+    });
+  }
+
+  async getFeed(
+    userId: string,
+    followingIds: string[],
+    page: number = 1,
+    limit: number = 20,
+    mode: 'latest' | 'top' = 'latest',
+    cursor?: string,
+  ): Promise<{
+    posts: PostDetails[];
     total: number;
     page: number;
+    nextCursor: string | null;
   }> {
     return new Promise((resolve, reject) => {
       this.postService.GetFeed(
-        { user_id: userId, following_ids: followingIds, page, limit },
+        { user_id: userId, following_ids: followingIds, page, limit, mode, cursor },
         (error, response) => {
           if (error || !response) {
             reject(error || new Error('Failed to get feed'));
           } else {
             resolve({
-              posts: (response.posts || []).map((p: any) => ({
-                id: p.id,
-                userId: p.user_id,
-                content: p.content,
-                mediaUrls: p.media_urls || [],
-                likesCount: p.likes_count || 0,
-                commentsCount: p.comments_count || 0,
-                createdAt: p.created_at,
-              })),
+              posts: (response.posts || []).map((p) => this.mapPost(p)),
               total: response.total || 0,
               page: response.page || page,
+              nextCursor: response.next_cursor || null,
+            });
+          }
+        },
+      );
+    });
+  }
+
+  async getHashtagPosts(tag: string, page: number = 1, limit: number = 20, viewerId?: string): Promise<{
+    stats: HashtagStats;
+    posts: PostDetails[];
+    total: number;
+    page: number;
+  }> {
+    return new Promise((resolve, reject) => {
+      this.postService.GetHashtagPosts(
+        { tag, page, limit, viewer_id: viewerId },
+        (error, response) => {
+          if (error || !response) {
+            reject(error || new Error('Failed to get hashtag posts'));
+          } else {
+            resolve({
+              stats: this.mapHashtagStats(response.stats, tag),
+              posts: (response.posts || []).map((p) => this.mapPost(p)),
+              total: response.total || 0,
+              page: response.page || page,
+            });
+          }
+        },
+      );
+    });
+  }
+
+  async getHashtags(query: string = '', limit: number = 10): Promise<HashtagStats[]> {
+    return new Promise((resolve, reject) => {
+      this.postService.GetHashtags(
+        { query, limit },
+        (error, response) => {
+          if (error || !response) {
+            reject(error || new Error('Failed to get hashtags'));
+          } else {
+            resolve((response.hashtags || []).map((h) => this.mapHashtagStats(h, h.tag)));
+          }
+        },
+      );
+    });
+  }
+
+  async searchPosts(params: SearchPostsParams): Promise<{ results: SearchHit[]; nextCursor: string | null }> {
+    return new Promise((resolve, reject) => {
+      this.postService.SearchPosts(
+        {
+          query: params.query,
+          author_id: params.authorId || '',
+          since: params.since || '',
+          until: params.until || '',
+          has_media: params.hasMedia === undefined ? '' : String(params.hasMedia),
+          type: params.type === 'all' ? '' : params.type || '',
+          sort: params.sort || '',
+          cursor: params.cursor || '',
+          limit: params.limit || 20,
+          viewer_id: params.viewerId || '',
+        },
+        (error, response) => {
+          if (error || !response) {
+            reject(this.toSearchError(error));
+          } else {
+            resolve({
+              results: (response.results || []).map((r: any) => ({
+                type: r.type,
+                id: r.id,
+                postId: r.post_id,
+                userId: r.user_id,
+                content: r.content,
+                snippet: r.snippet,
+                mediaUrls: r.media_urls || [],
+                rank: r.rank || 0,
+                createdAt: r.created_at,
+              })),
+              nextCursor: response.next_cursor || null,
             });
           }
         },
@@ -364,6 +893,303 @@ export class PostClientService implements OnModuleInit {
     });
   }
 
+  async likeComment(postId: string, commentId: string, userId: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.postService.LikeComment(
+        { post_id: postId, comment_id: commentId, user_id: userId },
+        (error) => {
+          // Already liked, treat as success
+          if (error && error.code !== grpc.status.ALREADY_EXISTS) {
+            reject(this.toReactionError(error, 'Failed to like comment'));
+          } else {
+            resolve(true);
+          }
+        },
+      );
+    });
+  }
+
+  async unlikeComment(postId: string, commentId: string, userId: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.postService.UnlikeComment(
+        { post_id: postId, comment_id: commentId, user_id: userId },
+        (error) => {
+          if (error) {
+            reject(this.toReactionError(error, 'Failed to unlike comment'));
+          } else {
+            resolve(true);
+          }
+        },
+      );
+    });
+  }
+
+  /**
+   * React to a post, or to one of its comments when commentId is given.
+   * Replaces any earlier reaction.
+   */
+  async reactToPost(postId: string, userId: string, reaction: string, commentId?: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.postService.ReactToPost(
+        { post_id: postId, user_id: userId, reaction, comment_id: commentId },
+        (error) => {
+          if (error) {
+            reject(this.toReactionError(error, 'Failed to save reaction'));
+          } else {
+            resolve(true);
+          }
+        },
+      );
+    });
+  }
+
+  async removeReaction(postId: string, userId: string, commentId?: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.postService.RemoveReaction(
+        { post_id: postId, user_id: userId, comment_id: commentId },
+        (error) => {
+          if (error) {
+            reject(this.toReactionError(error, 'Failed to remove reaction'));
+          } else {
+            resolve(true);
+          }
+        },
+      );
+    });
+  }
+
+  async getReactions(
+    postId: string,
+    viewerId: string,
+    options: { commentId?: string; reaction?: string; page?: number; limit?: number } = {},
+  ): Promise<{ reactions: PostReaction[]; counts: Record<string, number>; total: number; page: number }> {
+    return new Promise((resolve, reject) => {
+      this.postService.GetReactions(
+        {
+          post_id: postId,
+          comment_id: options.commentId,
+          reaction: options.reaction,
+          page: options.page,
+          limit: options.limit,
+          viewer_id: viewerId,
+        },
+        (error, response) => {
+          if (error || !response) {
+            reject(this.toAccessError(error, 'Failed to get reactions'));
+          } else {
+            resolve({
+              reactions: (response.reactions || []).map((reaction) => ({
+                userId: reaction.user_id,
+                reaction: reaction.reaction,
+                createdAt: reaction.created_at,
+              })),
+              counts: response.counts || {},
+              total: response.total || 0,
+              page: response.page || 1,
+            });
+          }
+        },
+      );
+    });
+  }
+
+  /**
+   * Vote in a post's poll; one option unless it's multiple choice. Votes
+   * can't be changed.
+   */
+  async votePoll(postId: string, userId: string, optionIndexes: number[]): Promise<PollDetails> {
+    return new Promise((resolve, reject) => {
+      this.postService.VotePoll(
+        { post_id: postId, user_id: userId, option_indexes: optionIndexes },
+        (error, response) => {
+          if (error || !response) {
+            reject(this.toPollError(error));
+          } else {
+            resolve(this.mapPoll(response));
+          }
+        },
+      );
+    });
+  }
+
+  async getPollResults(postId: string, viewerId: string): Promise<PollDetails> {
+    return new Promise((resolve, reject) => {
+      this.postService.GetPollResults(
+        { post_id: postId, viewer_id: viewerId },
+        (error, response) => {
+          if (error || !response) {
+            reject(this.toPollError(error));
+          } else {
+            resolve(this.mapPoll(response));
+          }
+        },
+      );
+    });
+  }
+
+  async savePost(postId: string, userId: string, collectionId?: string): Promise<{
+    postId: string;
+    collectionId: string | null;
+    savedAt: string;
+  }> {
+    return new Promise((resolve, reject) => {
+      this.postService.SavePost(
+        { post_id: postId, user_id: userId, collection_id: collectionId },
+        (error, response) => {
+          if (error || !response) {
+            reject(this.toBookmarkError(error));
+          } else {
+            resolve({
+              postId: response.post_id,
+              collectionId: response.collection_id || null,
+              savedAt: response.saved_at,
+            });
+          }
+        },
+      );
+    });
+  }
+
+  async unsavePost(postId: string, userId: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.postService.UnsavePost(
+        { post_id: postId, user_id: userId },
+        (error, response) => {
+          if (error) {
+            reject(error);
+          } else if (!response?.success) {
+            reject(new Error(response?.message || 'Unsave failed'));
+          } else {
+            resolve(true);
+          }
+        },
+      );
+    });
+  }
+
+  async listSaved(
+    userId: string,
+    options: { collectionId?: string; page?: number; limit?: number; cursor?: string } = {},
+  ): Promise<{
+    saved: SavedPost[];
+    total: number;
+    page: number;
+    nextCursor: string | null;
+  }> {
+    const { collectionId, page = 1, limit = 20, cursor } = options;
+    return new Promise((resolve, reject) => {
+      this.postService.ListSaved(
+        { user_id: userId, collection_id: collectionId, page, limit, cursor },
+        (error, response) => {
+          if (error || !response) {
+            reject(this.toBookmarkError(error));
+          } else {
+            resolve({
+              saved: (response.saved || []).map((entry) => ({
+                post: this.mapPost(entry.post),
+                collectionId: entry.collection_id || null,
+                savedAt: entry.saved_at,
+              })),
+              total: response.total || 0,
+              page: response.page || page,
+              nextCursor: response.next_cursor || null,
+            });
+          }
+        },
+      );
+    });
+  }
+
+  async createCollection(userId: string, name: string): Promise<BookmarkCollection> {
+    return new Promise((resolve, reject) => {
+      this.postService.CreateCollection(
+        { user_id: userId, name },
+        (error, response) => {
+          if (error || !response) {
+            reject(this.toBookmarkError(error));
+          } else {
+            resolve(this.mapCollection(response));
+          }
+        },
+      );
+    });
+  }
+
+  async getCollections(userId: string): Promise<BookmarkCollection[]> {
+    return new Promise((resolve, reject) => {
+      this.postService.GetCollections(
+        { user_id: userId },
+        (error, response) => {
+          if (error || !response) {
+            reject(error || new Error('Failed to get collections'));
+          } else {
+            resolve((response.collections || []).map((collection) => this.mapCollection(collection)));
+          }
+        },
+      );
+    });
+  }
+
+  async deleteCollection(collectionId: string, userId: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.postService.DeleteCollection(
+        { collection_id: collectionId, user_id: userId },
+        (error, response) => {
+          if (error || !response?.success) {
+            reject(this.toBookmarkError(error));
+          } else {
+            resolve(true);
+          }
+        },
+      );
+    });
+  }
+
+  async repostPost(postId: string, userId: string): Promise<PostDetails> {
+    return new Promise((resolve, reject) => {
+      this.postService.RepostPost(
+        { post_id: postId, user_id: userId },
+        (error, response) => {
+          if (error || !response) {
+            reject(this.toRepostError(error, 'Failed to repost'));
+          } else {
+            resolve(this.mapPost(response));
+          }
+        },
+      );
+    });
+  }
+
+  async undoRepost(postId: string, userId: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.postService.UndoRepost(
+        { post_id: postId, user_id: userId },
+        (error) => {
+          if (error) {
+            reject(this.toRepostError(error, 'Failed to remove repost'));
+          } else {
+            resolve(true);
+          }
+        },
+      );
+    });
+  }
+
+  async quotePost(postId: string, userId: string, content: string, mediaUrls: string[] = []): Promise<PostDetails> {
+    return new Promise((resolve, reject) => {
+      this.postService.QuotePost(
+        { post_id: postId, user_id: userId, content, media_urls: mediaUrls },
+        (error, response) => {
+          if (error || !response) {
+            reject(this.toRepostError(error, 'Failed to quote post'));
+          } else {
+            resolve(this.mapPost(response));
+          }
+        },
+      );
+    });
+  }
+
   async createComment(
     postId: string,
     userId: string,
@@ -411,7 +1237,7 @@ export class PostClientService implements OnModuleInit {
     });
   }
 
-  async getComments(postId: string, page: number = 1, limit: number = 20): Promise<{
+  async getComments(postId: string, page: number = 1, limit: number = 20, cursor?: string, sort?: string): Promise<{
     comments: Array<{
       id: string;
       postId: string;
@@ -422,13 +1248,15 @@ export class PostClientService implements OnModuleInit {
       mentions: string[];
       replyCount: number;
       isDeleted: boolean;
+      likesCount: number;
     }>;
     total: number;
     page: number;
+    nextCursor: string | null;
   }> {
     return new Promise((resolve, reject) => {
       this.postService.GetComments(
-        { post_id: postId, page, limit },
+        { post_id: postId, page, limit, cursor, sort },
         (error, response) => {
           if (error || !response) {
             reject(error || new Error('Failed to get comments'));
@@ -444,9 +1272,11 @@ export class PostClientService implements OnModuleInit {
                 mentions: c.mentions || [],
                 replyCount: c.reply_count || 0,
                 isDeleted: c.is_deleted || false,
+                likesCount: c.likes_count || 0,
               })),
               total: response.total || 0,
               page: response.page || page,
+              nextCursor: response.next_cursor || null,
             });
           }
         },
@@ -454,7 +1284,7 @@ export class PostClientService implements OnModuleInit {
     });
   }
 
-  async getReplies(commentId: string, page: number = 1, limit: number = 20): Promise<{
+  async getReplies(commentId: string, viewerId: string, page: number = 1, limit: number = 20, cursor?: string, sort?: string): Promise<{
     replies: Array<{
       id: string;
       postId: string;
@@ -465,16 +1295,18 @@ export class PostClientService implements OnModuleInit {
       mentions: string[];
       replyCount: number;
       isDeleted: boolean;
+      likesCount: number;
     }>;
     total: number;
     page: number;
+    nextCursor: string | null;
   }> {
     return new Promise((resolve, reject) => {
       this.postService.GetReplies(
-        { comment_id: commentId, page, limit },
+        { comment_id: commentId, page, limit, cursor, sort, viewer_id: viewerId },
         (error, response) => {
           if (error || !response) {
-            reject(error || new Error('Failed to get replies'));
+            reject(this.toAccessError(error, 'Failed to get replies'));
           } else {
             resolve({
               replies: (response.replies || []).map((r: any) => ({
@@ -487,9 +1319,11 @@ export class PostClientService implements OnModuleInit {
                 mentions: r.mentions || [],
                 replyCount: r.reply_count || 0,
                 isDeleted: r.is_deleted || false,
+                likesCount: r.likes_count || 0,
               })),
               total: response.total || 0,
               page: response.page || page,
+              nextCursor: response.next_cursor || null,
             });
           }
         },
@@ -497,14 +1331,14 @@ export class PostClientService implements OnModuleInit {
     });
   }
 
-  async getPresignedUploadUrl(fileName: string, contentType: string): Promise<{
+  async getPresignedUploadUrl(fileName: string, contentType: string, userId: string): Promise<{
     uploadUrl: string;
     objectName: string;
     accessUrl: string;
   }> {
     return new Promise((resolve, reject) => {
       this.postService.GetPresignedUploadUrl(
-        { file_name: fileName, content_type: contentType },
+        { file_name: fileName, content_type: contentType, user_id: userId },
         (error, response) => {
           if (error || !response?.success) {
             reject(error || new Error('Failed to get presigned URL'));
@@ -564,5 +1398,184 @@ export class PostClientService implements OnModuleInit {
       );
     });
   }
-}
 
+  /**
+   * The user's reaction to each post, for posts they've reacted to
+   */
+  async getUserReactions(postIds: string[], userId: string): Promise<Record<string, string>> {
+    return new Promise((resolve, reject) => {
+      this.postService.CheckUserLikedPosts(
+        { user_id: userId, post_ids: postIds },
+        (error, response) => {
+          if (error || !response) {
+            reject(error || new Error('Failed to check reactions'));
+          } else {
+            resolve(response.reactions || {});
+          }
+        },
+      );
+    });
+  }
+
+  /**
+   * Everything this service holds about the user, for a data export
+   */
+  async exportUserData(userId: string): Promise<{ data: Record<string, unknown>; media: string[] }> {
+    return new Promise((resolve, reject) => {
+      this.postService.ExportUserData({ user_id: userId }, (error, response) => {
+        if (error || !response?.success) {
+          reject(new Error(error?.message || response?.message || 'Failed to export user data'));
+        } else {
+          resolve({
+            data: response.data ? JSON.parse(response.data) : {},
+            media: response.media || [],
+          });
+        }
+      });
+    });
+  }
+
+  private mapPost(post: PostResponse): PostDetails {
+    return {
+      id: post.id,
+      userId: post.user_id,
+      content: post.content,
+      mediaUrls: post.media_urls || [],
+      likesCount: post.likes_count || 0,
+      commentsCount: post.comments_count || 0,
+      createdAt: post.created_at,
+      editedAt: post.edited_at || null,
+      repostsCount: post.reposts_count || 0,
+      repostOfId: post.repost_of_id || null,
+      isQuote: post.is_quote || false,
+      repostOf: post.repost_of ? this.mapPost(post.repost_of) : null,
+      reactionCounts: post.reaction_counts || {},
+      status: (post.status || 'published') as PostStatus,
+      publishAt: post.publish_at || null,
+      visibility: (post.visibility || 'public') as PostVisibility,
+      mentions: post.mentions || [],
+      poll: post.poll ? this.mapPoll(post.poll) : null,
+    };
+  }
+
+  private mapPoll(poll: PollResponse): PollDetails {
+    return {
+      id: poll.id,
+      postId: poll.post_id,
+      options: (poll.options || []).map((option) => ({
+        index: option.index || 0,
+        text: option.text,
+        votes: option.votes || 0,
+      })),
+      multipleChoice: poll.multiple_choice || false,
+      closesAt: poll.closes_at || null,
+      closed: poll.closed || false,
+      resultsVisible: poll.results_visible || false,
+      totalVoters: poll.total_voters || 0,
+      viewerVotes: poll.viewer_votes || [],
+    };
+  }
+
+  /**
+   * The post service answers poll calls with status codes, turned into the
+   * matching HTTP errors here
+   */
+  private toPollError(error: any): Error {
+    switch (error?.code) {
+      case grpc.status.NOT_FOUND:
+        return new NotFoundException(error.details || 'Poll not found');
+      case grpc.status.PERMISSION_DENIED:
+        return new ForbiddenException(error.details || 'You cannot view this post');
+      case grpc.status.INVALID_ARGUMENT:
+        return new BadRequestException(error.details || 'Invalid vote');
+      case grpc.status.ALREADY_EXISTS:
+        return new ConflictException(error.details || 'You have already voted in this poll');
+      default:
+        return error || new Error('Poll request failed');
+    }
+  }
+
+  private mapCollection(collection: CollectionResponse): BookmarkCollection {
+    return {
+      id: collection.id,
+      name: collection.name,
+      bookmarkCount: collection.bookmark_count || 0,
+      createdAt: collection.created_at,
+    };
+  }
+
+  private toBookmarkError(error: any): Error {
+    switch (error?.code) {
+      case grpc.status.NOT_FOUND:
+        return new NotFoundException(error.details || 'Not found');
+      case grpc.status.PERMISSION_DENIED:
+        return new ForbiddenException(error.details || 'You cannot view this post');
+      case grpc.status.INVALID_ARGUMENT:
+        return new BadRequestException(error.details || 'Invalid request');
+      case grpc.status.ALREADY_EXISTS:
+        return new ConflictException(error.details || 'You already have a collection with this name');
+      default:
+        return error || new Error('Bookmark request failed');
+    }
+  }
+
+  private toRepostError(error: any, fallback: string): Error {
+    switch (error?.code) {
+      case grpc.status.NOT_FOUND:
+        return new NotFoundException(error.details || 'Post not found');
+      case grpc.status.PERMISSION_DENIED:
+        return new ForbiddenException(error.details || 'You cannot view this post');
+      case grpc.status.INVALID_ARGUMENT:
+        return new BadRequestException(error.details || 'Only public posts can be reposted');
+      case grpc.status.ALREADY_EXISTS:
+        return new ConflictException(error.details || 'Post already reposted');
+      default:
+        return error || new Error(fallback);
+    }
+  }
+
+  private toReactionError(error: any, fallback: string): Error {
+    switch (error?.code) {
+      case grpc.status.NOT_FOUND:
+        return new NotFoundException(error.details || 'Not found');
+      case grpc.status.PERMISSION_DENIED:
+        return new ForbiddenException(error.details || 'You cannot view this post');
+      case grpc.status.INVALID_ARGUMENT:
+        return new BadRequestException(error.details || 'Invalid reaction');
+      default:
+        return error || new Error(fallback);
+    }
+  }
+
+  private toSearchError(error: any): Error {
+    switch (error?.code) {
+      case grpc.status.INVALID_ARGUMENT:
+        return new BadRequestException(error.details || 'Invalid search');
+      default:
+        return error || new Error('Failed to search posts');
+    }
+  }
+
+  /**
+   * Reads that need the viewer to see the post come back as 403 or 404
+   */
+  private toAccessError(error: any, fallback: string): Error {
+    switch (error?.code) {
+      case grpc.status.NOT_FOUND:
+        return new NotFoundException(error.details || 'Not found');
+      case grpc.status.PERMISSION_DENIED:
+        return new ForbiddenException(error.details || 'You cannot view this post');
+      default:
+        return error || new Error(fallback);
+    }
+  }
+
+  private mapHashtagStats(stats: HashtagStatsResponse | undefined, tag: string): HashtagStats {
+    return {
+      tag: stats?.tag || tag,
+      postCount: stats?.post_count || 0,
+      commentCount: stats?.comment_count || 0,
+      lastUsedAt: stats?.last_used_at || null,
+    };
+  }
+}
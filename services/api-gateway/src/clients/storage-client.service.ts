@@ -0,0 +1,182 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'path';
+import { once } from 'events';
+import { Readable } from 'stream';
+import * as grpc from '@grpc/grpc-js';
+import * as protoLoader from '@grpc/proto-loader';
+
+interface StorageServiceClient {
+  UploadFileStream(
+    callback: (error: any, response: {
+      object_name: string;
+      file_hash: string;
+      access_url: string;
+      thumbnail_object_name: string;
+      is_new: boolean;
+      success: boolean;
+      error: string;
+    }) => void,
+  ): grpc.ClientWritableStream<{
+    chunk: Buffer;
+    file_name?: string;
+    mime_type?: string;
+    service_name?: string;
+    file_type?: string;
+    owner_id?: string;
+  }>;
+
+  GetAccessUrl(
+    data: {
+      object_name: string;
+      expires_in?: number;
+    },
+    callback: (error: any, response: {
+      access_url: string;
+      success: boolean;
+      error: string;
+    }) => void,
+  ): void;
+
+  DeleteFile(
+    data: {
+      object_name: string;
+      service_name: string;
+    },
+    callback: (error: any, response: {
+      success: boolean;
+      error: string;
+    }) => void,
+  ): void;
+}
+
+@Injectable()
+export class StorageClientService implements OnModuleInit {
+  private storageService: StorageServiceClient;
+
+  constructor(private configService: ConfigService) {}
+
+  async onModuleInit() {
+    const storageServiceUrl = this.configService.get<string>('STORAGE_SERVICE_GRPC_URL') || 'localhost:5005';
+    const protoPath = join(__dirname, '../../../../shared/protos/storage.proto');
+
+    const packageDefinition = protoLoader.loadSync(protoPath, {
+      keepCase: true,
+      longs: String,
+      enums: String,
+      defaults: true,
+      oneofs: true,
+    });
+
+    const storageProto = grpc.loadPackageDefinition(packageDefinition).storage as any;
+
+    this.storageService = new storageProto.StorageService(
+      storageServiceUrl,
+      grpc.credentials.createInsecure(),
+    ) as StorageServiceClient;
+
+    console.log('[StorageClientService] Connected to Storage Service');
+  }
+
+  /**
+   * Upload a file chunk by chunk as the stream produces it, so it never has
+   * to fit in memory or in one message
+   */
+  async uploadFileStream(
+    source: Readable,
+    fileName: string,
+    mimeType: string,
+    serviceName: string,
+    fileType: string,
+    ownerId?: string,
+  ): Promise<{ objectName: string; accessUrl: string }> {
+    return new Promise((resolve, reject) => {
+      // Storage may answer early (file too large); stop sending when it does
+      const answered = new AbortController();
+
+      const call = this.storageService.UploadFileStream((error, response) => {
+        answered.abort();
+        if (error || !response?.success) {
+          console.error('[StorageClientService] Failed to upload file:', error || response?.error);
+          reject(new Error(error?.message || response?.error || 'Failed to upload file'));
+        } else {
+          resolve({
+            objectName: response.object_name,
+            accessUrl: response.access_url,
+          });
+        }
+      });
+
+      const send = async () => {
+        call.write({
+          chunk: Buffer.alloc(0),
+          file_name: fileName,
+          mime_type: mimeType,
+          service_name: serviceName,
+          file_type: fileType,
+          owner_id: ownerId,
+        });
+
+        for await (const chunk of source) {
+          if (answered.signal.aborted) {
+            break;
+          }
+          if (!call.write({ chunk: Buffer.from(chunk) })) {
+            await once(call, 'drain', { signal: answered.signal });
+          }
+        }
+
+        call.end();
+      };
+
+      send().catch((error) => {
+        source.destroy();
+        if (!answered.signal.aborted) {
+          call.cancel();
+          reject(error);
+        }
+      });
+    });
+  }
+
+  async getFileAccessUrl(
+    objectName: string,
+    expiresIn: number = 7 * 24 * 60 * 60,
+  ): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.storageService.GetAccessUrl(
+        {
+          object_name: objectName,
+          expires_in: expiresIn,
+        },
+        (error, response) => {
+          if (error || !response?.success) {
+            console.error('[StorageClientService] Failed to get access URL:', error || response?.error);
+            reject(new Error(error?.message || response?.error || 'Failed to get access URL'));
+          } else {
+            resolve(response.access_url);
+          }
+        },
+      );
+    });
+  }
+
+  async deleteFile(objectName: string, serviceName: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.storageService.DeleteFile(
+        {
+          object_name: objectName,
+          service_name: serviceName,
+        },
+        (error, response) => {
+          if (error || !response?.success) {
+            console.error('[StorageClientService] Failed to delete file:', error || response?.error);
+            reject(new Error(error?.message || response?.error || 'Failed to delete file'));
+          } else {
+            resolve();
+          }
+        },
+      );
+    });
+  }
+}
@@ -7,20 +7,60 @@ import * as protoLoader from '@grpc/proto-loader';
 interface UserServiceClient {
   GetUserProfile(
     data: { user_id: string },
-    callback: (error: any, response: { id: string; user_id: string; username: string; bio: string; profile_picture: string; created_at: string }) => void,
+    callback: (error: any, response: { id: string; user_id: string; username: string; bio: string; profile_picture: string; created_at: string; is_private: boolean }) => void,
   ): void;
   UpdateProfile(
     data: { user_id: string; username?: string; bio?: string; profile_picture?: string },
     callback: (error: any, response: { id: string; user_id: string; username: string; bio: string; profile_picture: string; created_at: string }) => void,
   ): void;
+  SetAccountPrivacy(
+    data: { user_id: string; is_private: boolean },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
   FollowUser(
     data: { follower_id: string; following_id: string },
-    callback: (error: any, response: { success: boolean; message: string }) => void,
+    callback: (error: any, response: { success: boolean; message: string; requested: boolean }) => void,
   ): void;
   UnfollowUser(
     data: { follower_id: string; following_id: string },
     callback: (error: any, response: { success: boolean; message: string }) => void,
   ): void;
+  GetFollowRequests(
+    data: { user_id: string; page?: number; limit?: number },
+    callback: (error: any, response: { requests: Array<{ requester_id: string; username: string; profile_picture: string; created_at: string }>; total: number; page: number }) => void,
+  ): void;
+  AcceptFollowRequest(
+    data: { user_id: string; requester_id: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+  RejectFollowRequest(
+    data: { user_id: string; requester_id: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+  BlockUser(
+    data: { user_id: string; target_user_id: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+  UnblockUser(
+    data: { user_id: string; target_user_id: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+  MuteUser(
+    data: { user_id: string; target_user_id: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+  UnmuteUser(
+    data: { user_id: string; target_user_id: string },
+    callback: (error: any, response: { success: boolean; message: string }) => void,
+  ): void;
+  GetBlockedUsers(
+    data: { user_id: string; page?: number; limit?: number },
+    callback: (error: any, response: { users: Array<{ id: string; user_id: string; username: string; bio: string; profile_picture: string }>; total: number; page: number }) => void,
+  ): void;
+  GetMutedUsers(
+    data: { user_id: string; page?: number; limit?: number },
+    callback: (error: any, response: { users: Array<{ id: string; user_id: string; username: string; bio: string; profile_picture: string }>; total: number; page: number }) => void,
+  ): void;
   GetFollowing(
     data: { user_id: string; page?: number; limit?: number },
     callback: (error: any, response: { following: Array<{ id: string; user_id: string; username: string; bio: string; profile_picture: string }>; total: number; page: number }) => void,
@@ -29,6 +69,10 @@ interface UserServiceClient {
     data: { query: string; current_user_id: string; page?: number; limit?: number },
     callback: (error: any, response: { users: Array<{ id: string; user_id: string; username: string; bio: string; profile_picture: string; followers_count: number; following_count: number; is_following: boolean }>; total: number; page: number }) => void,
   ): void;
+  ExportUserData(
+    data: { user_id: string },
+    callback: (error: any, response: { success: boolean; message: string; data: string; media: string[] }) => void,
+  ): void;
 }
 
 @Injectable()
@@ -66,6 +110,7 @@ export class UserClientService implements OnModuleInit {
     bio: string;
     profilePicture: string;
     createdAt: string;
+    isPrivate: boolean;
   } | null> {
     return new Promise((resolve) => {
       this.userService.GetUserProfile(
@@ -81,6 +126,7 @@ export class UserClientService implements OnModuleInit {
               bio: response.bio,
               profilePicture: response.profile_picture,
               createdAt: response.created_at,
+              isPrivate: response.is_private || false,
             });
           }
         },
@@ -111,7 +157,26 @@ export class UserClientService implements OnModuleInit {
     });
   }
 
-  async followUser(followerId: string, followingId: string): Promise<boolean> {
+  async setAccountPrivacy(userId: string, isPrivate: boolean): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.userService.SetAccountPrivacy(
+        { user_id: userId, is_private: isPrivate },
+        (error, response) => {
+          if (error || !response?.success) {
+            reject(error || new Error(response?.message || 'Failed to update account privacy'));
+          } else {
+            resolve(true);
+          }
+        },
+      );
+    });
+  }
+
+  /**
+   * `requested` is true when the account is private and a follow request
+   * was sent instead
+   */
+  async followUser(followerId: string, followingId: string): Promise<{ requested: boolean }> {
     return new Promise((resolve, reject) => {
       this.userService.FollowUser(
         { follower_id: followerId, following_id: followingId },
@@ -119,19 +184,23 @@ export class UserClientService implements OnModuleInit {
           if (error) {
             // If already following, treat as success (idempotent)
             if (error.message?.includes('Already following') || error.message?.includes('already following')) {
-              resolve(true);
+              resolve({ requested: false });
               return;
             }
             reject(error);
           } else if (!response?.success) {
-            // If already following, treat as success
+            // If already following or already asked, treat as success
             if (response?.message?.includes('Already following') || response?.message?.includes('already following')) {
-              resolve(true);
+              resolve({ requested: false });
+              return;
+            }
+            if (response?.message?.includes('request already sent')) {
+              resolve({ requested: true });
               return;
             }
             reject(new Error(response?.message || 'Follow failed'));
           } else {
-            resolve(true);
+            resolve({ requested: response.requested || false });
           }
         },
       );
@@ -165,6 +234,180 @@ export class UserClientService implements OnModuleInit {
     });
   }
 
+  async getFollowRequests(userId: string, page: number = 1, limit: number = 20): Promise<{
+    requests: Array<{ requesterId: string; username: string; profilePicture: string; createdAt: string }>;
+    total: number;
+    page: number;
+  }> {
+    return new Promise((resolve, reject) => {
+      this.userService.GetFollowRequests(
+        { user_id: userId, page, limit },
+        (error, response) => {
+          if (error || !response) {
+            reject(error || new Error('Failed to get follow requests'));
+          } else {
+            resolve({
+              requests: (response.requests || []).map((r) => ({
+                requesterId: r.requester_id,
+                username: r.username || '',
+                profilePicture: r.profile_picture || '',
+                createdAt: r.created_at,
+              })),
+              total: response.total || 0,
+              page: response.page || page,
+            });
+          }
+        },
+      );
+    });
+  }
+
+  async acceptFollowRequest(userId: string, requesterId: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.userService.AcceptFollowRequest(
+        { user_id: userId, requester_id: requesterId },
+        (error, response) => {
+          if (error || !response?.success) {
+            reject(error || new Error(response?.message || 'Failed to accept follow request'));
+          } else {
+            resolve(true);
+          }
+        },
+      );
+    });
+  }
+
+  async rejectFollowRequest(userId: string, requesterId: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.userService.RejectFollowRequest(
+        { user_id: userId, requester_id: requesterId },
+        (error, response) => {
+          if (error || !response?.success) {
+            reject(error || new Error(response?.message || 'Failed to reject follow request'));
+          } else {
+            resolve(true);
+          }
+        },
+      );
+    });
+  }
+
+  async blockUser(userId: string, targetUserId: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.userService.BlockUser(
+        { user_id: userId, target_user_id: targetUserId },
+        (error, response) => {
+          if (error || !response?.success) {
+            reject(error || new Error(response?.message || 'Failed to block user'));
+          } else {
+            resolve(true);
+          }
+        },
+      );
+    });
+  }
+
+  async unblockUser(userId: string, targetUserId: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.userService.UnblockUser(
+        { user_id: userId, target_user_id: targetUserId },
+        (error, response) => {
+          if (error || !response?.success) {
+            reject(error || new Error(response?.message || 'Failed to unblock user'));
+          } else {
+            resolve(true);
+          }
+        },
+      );
+    });
+  }
+
+  async muteUser(userId: string, targetUserId: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.userService.MuteUser(
+        { user_id: userId, target_user_id: targetUserId },
+        (error, response) => {
+          if (error || !response?.success) {
+            reject(error || new Error(response?.message || 'Failed to mute user'));
+          } else {
+            resolve(true);
+          }
+        },
+      );
+    });
+  }
+
+  async unmuteUser(userId: string, targetUserId: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.userService.UnmuteUser(
+        { user_id: userId, target_user_id: targetUserId },
+        (error, response) => {
+          if (error || !response?.success) {
+            reject(error || new Error(response?.message || 'Failed to unmute user'));
+          } else {
+            resolve(true);
+          }
+        },
+      );
+    });
+  }
+
+  async getBlockedUsers(userId: string, page: number = 1, limit: number = 20): Promise<{
+    users: Array<{ userId: string; username: string; bio: string; profilePicture: string }>;
+    total: number;
+    page: number;
+  }> {
+    return new Promise((resolve, reject) => {
+      this.userService.GetBlockedUsers(
+        { user_id: userId, page, limit },
+        (error, response) => {
+          if (error || !response) {
+            reject(error || new Error('Failed to get blocked users'));
+          } else {
+            resolve({
+              users: (response.users || []).map((u) => ({
+                userId: u.user_id,
+                username: u.username,
+                bio: u.bio || '',
+                profilePicture: u.profile_picture || '',
+              })),
+              total: response.total || 0,
+              page: response.page || page,
+            });
+          }
+        },
+      );
+    });
+  }
+
+  async getMutedUsers(userId: string, page: number = 1, limit: number = 20): Promise<{
+    users: Array<{ userId: string; username: string; bio: string; profilePicture: string }>;
+    total: number;
+    page: number;
+  }> {
+    return new Promise((resolve, reject) => {
+      this.userService.GetMutedUsers(
+        { user_id: userId, page, limit },
+        (error, response) => {
+          if (error || !response) {
+            reject(error || new Error('Failed to get muted users'));
+          } else {
+            resolve({
+              users: (response.users || []).map((u) => ({
+                userId: u.user_id,
+                username: u.username,
+                bio: u.bio || '',
+                profilePicture: u.profile_picture || '',
+              })),
+              total: response.total || 0,
+              page: response.page || page,
+            });
+          }
+        },
+      );
+    });
+  }
+
   async getFollowingIds(userId: string): Promise<string[]> {
     return new Promise((resolve) => {
       this.userService.GetFollowing(
@@ -222,5 +465,22 @@ export class UserClientService implements OnModuleInit {
       );
     });
   }
-}
 
+  /**
+   * Everything this service holds about the user, for a data export
+   */
+  async exportUserData(userId: string): Promise<{ data: Record<string, unknown>; media: string[] }> {
+    return new Promise((resolve, reject) => {
+      this.userService.ExportUserData({ user_id: userId }, (error, response) => {
+        if (error || !response?.success) {
+          reject(new Error(error?.message || response?.message || 'Failed to export user data'));
+        } else {
+          resolve({
+            data: response.data ? JSON.parse(response.data) : {},
+            media: response.media || [],
+          });
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,305 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import JSZip from 'jszip';
+import { CacheService } from '../cache/cache.service';
+import { AuthClientService } from '../clients/auth-client.service';
+import { UserClientService } from '../clients/user-client.service';
+import { PostClientService } from '../clients/post-client.service';
+import { MessageClientService } from '../clients/message-client.service';
+import { NotificationClientService } from '../clients/notification-client.service';
+import { StorageClientService } from '../clients/storage-client.service';
+import { EventPublisherService } from '../events/event-publisher.service';
+
+const CACHE_PREFIX = 'gateway';
+// Export records outlive the download link so a fresh one can be issued
+const EXPORT_RECORD_TTL = 30 * 24 * 60 * 60;
+// A job that hasn't finished by then is assumed dead and may be retried
+const EXPORT_LOCK_TTL = 60 * 60;
+// Below the storage service's 100MB limit for archives, leaving room for
+// the ZIP's own headers
+const DEFAULT_MAX_EXPORT_BYTES = 95 * 1024 * 1024;
+
+export type DataExportStatus = 'pending' | 'processing' | 'ready' | 'failed';
+
+export interface DataExport {
+  id: string;
+  userId: string;
+  status: DataExportStatus;
+  objectName: string | null;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+/**
+ * Data Export Service
+ * Builds a ZIP of everything the services hold about a user (one JSON file
+ * per service plus their media), streams it to storage and tells the user
+ * where to download it. Jobs run in the background; their state is kept in
+ * Redis and only one may run per user at a time.
+ */
+@Injectable()
+export class DataExportService {
+  private readonly cooldown: number;
+  private readonly linkExpiresIn: number;
+  private readonly maxBytes: number;
+
+  constructor(
+    private cacheService: CacheService,
+    private authClient: AuthClientService,
+    private userClient: UserClientService,
+    private postClient: PostClientService,
+    private messageClient: MessageClientService,
+    private notificationClient: NotificationClientService,
+    private storageClient: StorageClientService,
+    private eventPublisher: EventPublisherService,
+    private configService: ConfigService,
+  ) {
+    this.cooldown = parseInt(this.configService.get<string>('DATA_EXPORT_COOLDOWN_SECONDS') || '86400', 10);
+    this.linkExpiresIn = parseInt(this.configService.get<string>('DATA_EXPORT_LINK_EXPIRES_IN') || '86400', 10);
+    this.maxBytes = parseInt(
+      this.configService.get<string>('DATA_EXPORT_MAX_BYTES') || String(DEFAULT_MAX_EXPORT_BYTES),
+      10,
+    );
+  }
+
+  /**
+   * Start an export. Asking again while one is running returns that one.
+   */
+  async requestExport(userId: string): Promise<DataExport> {
+    const previous = await this.getExport(userId);
+
+    if (previous?.status === 'ready' && Date.parse(previous.createdAt) + this.cooldown * 1000 > Date.now()) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: 'A data export was created recently, download that one instead',
+          retry_after_seconds: Math.ceil((Date.parse(previous.createdAt) + this.cooldown * 1000 - Date.now()) / 1000),
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    // Atomic so two requests (or two gateway instances) can't both start one
+    const locked = await this.cacheService
+      .getClient()
+      .set(`${CACHE_PREFIX}:${this.lockKey(userId)}`, '1', 'EX', EXPORT_LOCK_TTL, 'NX');
+
+    if (!locked) {
+      if (previous && (previous.status === 'pending' || previous.status === 'processing')) {
+        return previous;
+      }
+      throw new HttpException('A data export is already in progress', HttpStatus.CONFLICT);
+    }
+
+    const job: DataExport = {
+      id: randomUUID(),
+      userId,
+      status: 'pending',
+      objectName: null,
+      error: null,
+      createdAt: new Date().toISOString(),
+      completedAt: null,
+    };
+    await this.saveExport(job);
+
+    // Not awaited: the request returns straight away and the user is
+    // notified when the archive is ready
+    this.runExport(job, previous?.objectName || null)
+      .catch((error) => console.error(`[DataExportService] Export ${job.id} failed:`, error))
+      .finally(() => this.cacheService.delete(this.lockKey(userId), CACHE_PREFIX));
+
+    return job;
+  }
+
+  /**
+   * Latest export for the user, if any
+   */
+  async getExport(userId: string): Promise<DataExport | null> {
+    return this.cacheService.get<DataExport>(this.exportKey(userId), CACHE_PREFIX);
+  }
+
+  /**
+   * Fresh time-limited download link for a finished export
+   */
+  async getDownloadUrl(job: DataExport): Promise<{ downloadUrl: string; expiresAt: Date }> {
+    if (job.status !== 'ready' || !job.objectName) {
+      throw new HttpException('Data export is not ready', HttpStatus.CONFLICT);
+    }
+
+    const downloadUrl = await this.storageClient.getFileAccessUrl(job.objectName, this.linkExpiresIn);
+    return { downloadUrl, expiresAt: new Date(Date.now() + this.linkExpiresIn * 1000) };
+  }
+
+  private async runExport(job: DataExport, previousObjectName: string | null): Promise<void> {
+    await this.saveExport({ ...job, status: 'processing' });
+
+    try {
+      const archive = await this.buildArchive(job);
+
+      // Compressed as it's uploaded, so the finished ZIP is never in memory
+      const { objectName } = await this.storageClient.uploadFileStream(
+        new Readable().wrap(
+          archive.zip.generateNodeStream({ type: 'nodebuffer', streamFiles: true, compression: 'DEFLATE' }),
+        ),
+        `data-export-${job.id}.zip`,
+        'application/zip',
+        'exports',
+        'archive',
+        job.userId,
+      );
+
+      const ready: DataExport = {
+        ...job,
+        status: 'ready',
+        objectName,
+        completedAt: new Date().toISOString(),
+      };
+      await this.saveExport(ready);
+
+      // Only the latest archive is kept
+      if (previousObjectName && previousObjectName !== objectName) {
+        await this.storageClient.deleteFile(previousObjectName, 'exports').catch((error) =>
+          console.error(`[DataExportService] Failed to delete previous export ${previousObjectName}:`, error),
+        );
+      }
+
+      const { downloadUrl, expiresAt } = await this.getDownloadUrl(ready);
+      await this.eventPublisher.publishDataExportReady(job.userId, archive.email, job.id, downloadUrl, expiresAt);
+
+      console.log(`[DataExportService] Export ${job.id} ready for user: ${job.userId}`);
+    } catch (error: any) {
+      // Keep pointing at the last archive so the next export still cleans it up
+      await this.saveExport({
+        ...job,
+        objectName: previousObjectName,
+        status: 'failed',
+        error: error?.message || 'Export failed',
+        completedAt: new Date().toISOString(),
+      });
+      throw error;
+    }
+  }
+
+  private async buildArchive(job: DataExport): Promise<{ zip: JSZip; email: string }> {
+    // Any service failing fails the export; a partial archive would look complete
+    const [auth, user, posts, messages, notifications] = await Promise.all([
+      this.authClient.exportUserData(job.userId),
+      this.userClient.exportUserData(job.userId),
+      this.postClient.exportUserData(job.userId),
+      this.messageClient.exportUserData(job.userId),
+      this.notificationClient.exportUserData(job.userId),
+    ]);
+
+    const files: Record<string, string> = {
+      'account.json': JSON.stringify(auth.data, null, 2),
+      'profile.json': JSON.stringify(user.data, null, 2),
+      'posts.json': JSON.stringify(posts.data, null, 2),
+      'messages.json': JSON.stringify(messages.data, null, 2),
+      'notifications.json': JSON.stringify(notifications.data, null, 2),
+    };
+
+    const zip = new JSZip();
+    let dataBytes = 0;
+    for (const [name, content] of Object.entries(files)) {
+      zip.file(name, content);
+      dataBytes += Buffer.byteLength(content);
+    }
+
+    // Media gets whatever the data leaves of the limit
+    const media = Array.from(
+      new Set([...user.media, ...posts.media, ...messages.media, ...notifications.media]),
+    );
+    const { included, skipped } = await this.addMedia(zip, media, this.maxBytes - dataBytes);
+
+    zip.file(
+      'manifest.json',
+      JSON.stringify(
+        {
+          export_id: job.id,
+          user_id: job.userId,
+          created_at: new Date().toISOString(),
+          media: included,
+          skipped_media: skipped,
+        },
+        null,
+        2,
+      ),
+    );
+
+    const account = (auth.data.account || {}) as { email?: string };
+
+    return { zip, email: account.email || '' };
+  }
+
+  /**
+   * Media goes in under media/<object name> until `maxBytes` is reached;
+   * the rest is listed in the manifest as skipped
+   */
+  private async addMedia(
+    zip: JSZip,
+    objectNames: string[],
+    maxBytes: number,
+  ): Promise<{ included: string[]; skipped: Array<{ object_name: string; reason: string }> }> {
+    const included: string[] = [];
+    const skipped: Array<{ object_name: string; reason: string }> = [];
+    let totalBytes = 0;
+
+    for (const objectName of objectNames) {
+      try {
+        // Object names only ever come from our own services, and bytes only
+        // ever come from the storage service's own links
+        const url = await this.storageClient.getFileAccessUrl(objectName, 10 * 60);
+        const response = await fetch(url);
+
+        if (!response.ok) {
+          skipped.push({ object_name: objectName, reason: `Storage returned ${response.status}` });
+          continue;
+        }
+
+        const declaredLength = parseInt(response.headers.get('content-length') || '0', 10);
+        if (totalBytes + declaredLength > maxBytes) {
+          await response.body?.cancel();
+          skipped.push({ object_name: objectName, reason: 'Export size limit reached' });
+          continue;
+        }
+
+        const bytes = Buffer.from(await response.arrayBuffer());
+        if (totalBytes + bytes.length > maxBytes) {
+          skipped.push({ object_name: objectName, reason: 'Export size limit reached' });
+          continue;
+        }
+
+        totalBytes += bytes.length;
+        // Profile pictures are free text, so keep entries inside media/
+        const entryName = objectName
+          .split('/')
+          .filter((part) => part && part !== '.' && part !== '..')
+          .join('/');
+        zip.file(`media/${entryName}`, bytes);
+        included.push(objectName);
+      } catch (error: any) {
+        skipped.push({ object_name: objectName, reason: error?.message || 'Download failed' });
+      }
+    }
+
+    return { included, skipped };
+  }
+
+  private async saveExport(job: DataExport): Promise<void> {
+    await this.cacheService.set(this.exportKey(job.userId), job, {
+      ttl: EXPORT_RECORD_TTL,
+      prefix: CACHE_PREFIX,
+    });
+  }
+
+  private exportKey(userId: string): string {
+    return `export:${userId}`;
+  }
+
+  private lockKey(userId: string): string {
+    return `export:lock:${userId}`;
+  }
+}
@@ -4,6 +4,7 @@ import { MessageClientService } from '../clients/message-client.service';
 import { UserClientService } from '../clients/user-client.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { CurrentUser, CurrentUser as CurrentUserType } from '../auth/current-user.decorator';
+import { isValidCursor } from '../utils/cursor';
 
 @Controller('api/conversations')
 @UseGuards(JwtAuthGuard)
@@ -118,12 +119,19 @@ export class MessagesController {
     @CurrentUser() currentUser: CurrentUserType,
     @Query('page') page?: string,
     @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
   ) {
+    if (cursor && !isValidCursor(cursor)) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    // `cursor` (from next_cursor) loads older messages; `page` still works
     const result = await this.messageClient.getMessages(
       conversationId,
       currentUser.userId,
       parseInt(page || '1', 10),
       parseInt(limit || '50', 10),
+      cursor || undefined,
     );
     
     const enrichedMessages = await Promise.all(
@@ -146,8 +154,10 @@ export class MessagesController {
     );
     
     return {
-      ...result,
       messages: enrichedMessages,
+      total: result.total,
+      page: result.page,
+      next_cursor: result.nextCursor,
     };
   }
 
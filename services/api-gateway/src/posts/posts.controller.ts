@@ -1,9 +1,13 @@
-import { Controller, Get, Post, Delete, Param, Body, Query, UseGuards } from '@nestjs/common';
-import { PostClientService } from '../clients/post-client.service';
+import { Controller, Get, Post, Put, Delete, Param, Body, Query, UseGuards, NotFoundException, BadRequestException, ParseUUIDPipe } from '@nestjs/common';
+import { PostClientService, PostDetails, PostStatus, PostVisibility, PollDetails, BookmarkCollection } from '../clients/post-client.service';
 import { UserClientService } from '../clients/user-client.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { CurrentUser, CurrentUser as CurrentUserType } from '../auth/current-user.decorator';
 import { extractMentions, validateMentions } from '../utils/mention-parser';
+import { isValidCursor } from '../utils/cursor';
+import { REACTION_TYPES, isReactionType } from '../utils/reactions';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 @Controller('api/posts')
 @UseGuards(JwtAuthGuard)
@@ -13,12 +17,29 @@ export class PostsController {
     private userClient: UserClientService,
   ) {}
 
+  /**
+   * Home feed. mode=latest (default) is newest first; mode=top ranks recent
+   * posts by engagement and how often you interact with each author.
+   * The latest feed can be paged with `cursor` (from next_cursor) instead of `page`.
+   */
   @Get('feed')
   async getFeed(
     @CurrentUser() currentUser: CurrentUserType,
     @Query('page') page?: string,
     @Query('limit') limit?: string,
+    @Query('mode') mode?: string,
+    @Query('cursor') cursor?: string,
   ) {
+    if (mode && mode !== 'latest' && mode !== 'top') {
+      throw new BadRequestException('mode must be latest or top');
+    }
+    if (cursor && mode === 'top') {
+      throw new BadRequestException('cursor is only supported for the latest feed');
+    }
+    if (cursor && !isValidCursor(cursor)) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
     // Get user's following list 
     const followingIds = await this.userClient.getFollowingIds(currentUser.userId);
     
@@ -28,117 +49,446 @@ export class PostsController {
       followingIds || [],
       parseInt(page || '1', 10),
       parseInt(limit || '20', 10),
+      mode === 'top' ? 'top' : 'latest',
+      cursor || undefined,
     );
 
-    const posts = result.posts || [];
-
-    // Check which posts the user has liked
-    const postIds = posts.map(p => p.id);
-    let likedPostsMap: Record<string, boolean> = {};
-    if (postIds.length > 0) {
-      try {
-        likedPostsMap = await this.postClient.checkUserLikedPosts(postIds, currentUser.userId);
-      } catch (error) {
-        console.error('Error checking liked posts:', error);
-        // Continue with all false if check fails
-      }
-    }
-
-    // Batch fetch user profiles 
-    const uniqueUserIds = [...new Set(posts.map(p => p.userId))];
-    const userProfilesMap: Record<string, any> = {};
-    
-    if (uniqueUserIds.length > 0) {
-      // Batch fetch all user profiles in parallel
-      await Promise.all(
-        uniqueUserIds.map(async (userId) => {
-          try {
-            const profile = await this.userClient.getProfile(userId);
-            if (profile) {
-              userProfilesMap[userId] = profile;
-            }
-          } catch (error) {
-            // Profile fetch failed, will use null
-            console.error(`Failed to fetch profile for user ${userId}:`, error);
-          }
-        })
-      );
-    }
-
-    // TODO:  Create a Set of following IDs for quick lookup
-    const followingIdsSet = new Set(followingIds || []);
-
-    // Enrich posts with user info 
-    const enrichedPosts = posts.map((post) => {
-      const userProfile = userProfilesMap[post.userId];
-      // Check if current user follows this post author 
-      const isFollowing = post.userId !== currentUser.userId && followingIdsSet.has(post.userId);
-      
-      return {
-        id: post.id,
-        user_id: post.userId,
-        content: post.content,
-        created_at: post.createdAt || new Date().toISOString(),
-        user: userProfile ? {
-          username: userProfile.username || '',
-          profile_picture: userProfile.profilePicture || '',
-        } : null,
-        user_liked: likedPostsMap[post.id] || false,
-        is_following: isFollowing,
-        media_urls: post.mediaUrls || [],
-        likes_count: post.likesCount || 0,
-        comments_count: post.commentsCount || 0,
-      };
-    });
+    const enrichedPosts = await this.enrichPosts(result.posts || [], currentUser.userId, followingIds || []);
 
     return {
       posts: enrichedPosts,
       total: result.total || 0,
       page: result.page || parseInt(page || '1', 10),
+      mode: mode || 'latest',
+      next_cursor: result.nextCursor,
     };
   }
 
+  /**
+   * A user's posts, leaving out the ones you aren't in the audience of
+   */
   @Get('user/:userId')
   async getUserPosts(
     @Param('userId') userId: string,
+    @CurrentUser() currentUser: CurrentUserType,
     @Query('page') page?: string,
     @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
   ) {
+    if (cursor && !isValidCursor(cursor)) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
     const result = await this.postClient.getUserPosts(
       userId,
       parseInt(page || '1', 10),
       parseInt(limit || '20', 10),
+      cursor || undefined,
+      currentUser.userId,
     );
 
     return {
       posts: result.posts,
       total: result.total,
       page: result.page,
+      next_cursor: result.nextCursor,
+    };
+  }
+
+  /**
+   * Most used hashtags, or those starting with `q` for autocomplete
+   */
+  @Get('tags')
+  async getHashtags(
+    @Query('q') query?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const hashtags = await this.postClient.getHashtags(
+      (query || '').trim().replace(/^#/, ''),
+      parseInt(limit || '10', 10),
+    );
+
+    return {
+      hashtags: hashtags.map((hashtag) => ({
+        tag: hashtag.tag,
+        post_count: hashtag.postCount,
+        comment_count: hashtag.commentCount,
+        last_used_at: hashtag.lastUsedAt,
+      })),
+    };
+  }
+
+  @Get('tags/:tag')
+  async getHashtagPosts(
+    @Param('tag') tag: string,
+    @CurrentUser() currentUser: CurrentUserType,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    if (!/^#?\w{1,100}$/.test(tag) || /^#?\d+$/.test(tag)) {
+      throw new BadRequestException('Invalid hashtag');
+    }
+
+    const [result, followingIds] = await Promise.all([
+      this.postClient.getHashtagPosts(
+        tag,
+        parseInt(page || '1', 10),
+        parseInt(limit || '20', 10),
+        currentUser.userId,
+      ),
+      this.userClient.getFollowingIds(currentUser.userId),
+    ]);
+
+    return {
+      tag: result.stats.tag,
+      post_count: result.stats.postCount,
+      comment_count: result.stats.commentCount,
+      last_used_at: result.stats.lastUsedAt,
+      posts: await this.enrichPosts(result.posts, currentUser.userId, followingIds || []),
+      total: result.total,
+      page: result.page,
+    };
+  }
+
+  /**
+   * Your drafts and scheduled posts; `status` narrows it to one or the other
+   */
+  @Get('scheduled')
+  async getScheduledPosts(
+    @CurrentUser() currentUser: CurrentUserType,
+    @Query('status') status?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    if (status && status !== 'draft' && status !== 'scheduled') {
+      throw new BadRequestException('status must be draft or scheduled');
+    }
+
+    const result = await this.postClient.getScheduledPosts(
+      currentUser.userId,
+      status as 'draft' | 'scheduled' | undefined,
+      parseInt(page || '1', 10),
+      parseInt(limit || '20', 10),
+    );
+
+    return {
+      posts: result.posts,
+      total: result.total,
+      page: result.page,
+    };
+  }
+
+  /**
+   * Edit a draft or scheduled post. Any of content, media_urls and
+   * publish_at can be given; a new publish_at schedules a draft.
+   */
+  @Put('scheduled/:id')
+  async updateScheduledPost(
+    @Param('id') postId: string,
+    @CurrentUser() currentUser: CurrentUserType,
+    @Body() body: { content?: string; media_urls?: string[]; publish_at?: string },
+  ) {
+    if (body.content !== undefined && (typeof body.content !== 'string' || !body.content.trim())) {
+      throw new BadRequestException('content cannot be empty');
+    }
+    if (body.publish_at !== undefined) {
+      this.validatePublishAt(body.publish_at);
+    }
+
+    const existing = await this.getOwnUnpublishedPost(postId, currentUser.userId);
+
+    if (body.content !== undefined || body.media_urls !== undefined) {
+      const content = body.content ?? existing.content;
+      await this.postClient.updatePost(postId, currentUser.userId, content, body.media_urls, {
+        mentions: await this.resolveMentions(content),
+      });
+    }
+    if (body.publish_at !== undefined) {
+      return this.postClient.schedulePost(postId, currentUser.userId, body.publish_at);
+    }
+
+    return this.postClient.getPost(postId);
+  }
+
+  /**
+   * Take a post off the schedule. It's kept as a draft.
+   */
+  @Post('scheduled/:id/cancel')
+  async cancelScheduledPost(@Param('id') postId: string, @CurrentUser() currentUser: CurrentUserType) {
+    const existing = await this.getOwnUnpublishedPost(postId, currentUser.userId);
+    if (existing.status !== 'scheduled') {
+      throw new BadRequestException('Post is not scheduled');
+    }
+
+    return this.postClient.cancelScheduledPost(postId, currentUser.userId);
+  }
+
+  @Post('scheduled/:id/publish')
+  async publishScheduledPost(@Param('id') postId: string, @CurrentUser() currentUser: CurrentUserType) {
+    await this.getOwnUnpublishedPost(postId, currentUser.userId);
+    return this.postClient.publishPost(postId, currentUser.userId);
+  }
+
+  /**
+   * Your saved posts, most recently saved first, as feed items.
+   * `collection_id` narrows it to one collection; pages by `cursor` or `page`.
+   */
+  @Get('saved')
+  async getSavedPosts(
+    @CurrentUser() currentUser: CurrentUserType,
+    @Query('collection_id') collectionId?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
+  ) {
+    if (collectionId && !UUID_PATTERN.test(collectionId)) {
+      throw new BadRequestException('Invalid collection_id');
+    }
+    if (cursor && !isValidCursor(cursor)) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    const [result, followingIds] = await Promise.all([
+      this.postClient.listSaved(currentUser.userId, {
+        collectionId: collectionId || undefined,
+        page: parseInt(page || '1', 10),
+        limit: parseInt(limit || '20', 10),
+        cursor: cursor || undefined,
+      }),
+      this.userClient.getFollowingIds(currentUser.userId),
+    ]);
+
+    const enrichedPosts = await this.enrichPosts(
+      result.saved.map((entry) => entry.post),
+      currentUser.userId,
+      followingIds || [],
+    );
+
+    return {
+      posts: enrichedPosts.map((post, index) => ({
+        ...post,
+        collection_id: result.saved[index].collectionId,
+        saved_at: result.saved[index].savedAt,
+      })),
+      total: result.total,
+      page: result.page,
+      next_cursor: result.nextCursor,
     };
   }
 
+  @Get('saved/collections')
+  async getCollections(@CurrentUser() currentUser: CurrentUserType) {
+    const collections = await this.postClient.getCollections(currentUser.userId);
+    return { collections: collections.map((collection) => this.toCollection(collection)) };
+  }
+
+  @Post('saved/collections')
+  async createCollection(
+    @CurrentUser() currentUser: CurrentUserType,
+    @Body() body: { name: string },
+  ) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      throw new BadRequestException('name is required');
+    }
+
+    const collection = await this.postClient.createCollection(currentUser.userId, body.name);
+    return this.toCollection(collection);
+  }
+
+  /**
+   * The posts in it stay saved, just outside any collection
+   */
+  @Delete('saved/collections/:collectionId')
+  async deleteCollection(
+    @Param('collectionId', ParseUUIDPipe) collectionId: string,
+    @CurrentUser() currentUser: CurrentUserType,
+  ) {
+    await this.postClient.deleteCollection(collectionId, currentUser.userId);
+    return { success: true, message: 'Collection deleted successfully' };
+  }
+
+  /**
+   * 403 for a followers-only post you don't follow the author of; 404 for
+   * anything else you can't see, including other people's drafts
+   */
   @Get(':id')
-  async getPost(@Param('id') postId: string) {
-    const post = await this.postClient.getPost(postId);
+  async getPost(@Param('id') postId: string, @CurrentUser() currentUser: CurrentUserType) {
+    const post = await this.postClient.getPost(postId, currentUser.userId);
     if (!post) {
-      throw new Error('Post not found');
+      throw new NotFoundException('Post not found');
     }
     return post;
   }
 
+  /**
+   * Edit a post. Leaving out media_urls keeps the current media, and
+   * leaving out visibility keeps the current audience.
+   */
+  @Put(':id')
+  async updatePost(
+    @Param('id') postId: string,
+    @CurrentUser() currentUser: CurrentUserType,
+    @Body() body: { content: string; media_urls?: string[]; visibility?: string },
+  ) {
+    if (typeof body.content !== 'string' || !body.content.trim()) {
+      throw new BadRequestException('content is required');
+    }
+    this.validateVisibility(body.visibility);
+
+    // Someone else's post is reported as missing, so private and unpublished
+    // posts aren't revealed
+    const existing = await this.postClient.getPost(postId);
+    if (!existing || existing.userId !== currentUser.userId) {
+      throw new NotFoundException('Post not found');
+    }
+    if (existing.repostOfId && !existing.isQuote) {
+      throw new BadRequestException('Reposts cannot be edited');
+    }
+
+    return this.postClient.updatePost(postId, currentUser.userId, body.content, body.media_urls, {
+      visibility: body.visibility as PostVisibility | undefined,
+      mentions: await this.resolveMentions(body.content),
+    });
+  }
+
+  /**
+   * Earlier versions of an edited post, newest first
+   */
+  @Get(':id/revisions')
+  async getPostRevisions(@Param('id') postId: string, @CurrentUser() currentUser: CurrentUserType) {
+    const post = await this.postClient.getPost(postId, currentUser.userId);
+    if (!post) {
+      throw new NotFoundException('Post not found');
+    }
+
+    const revisions = await this.postClient.getPostRevisions(postId, currentUser.userId);
+    return {
+      post_id: post.id,
+      edited: !!post.editedAt,
+      edited_at: post.editedAt,
+      revisions: revisions.map((revision) => ({
+        id: revision.id,
+        content: revision.content,
+        media_urls: revision.mediaUrls,
+        published_at: revision.publishedAt,
+        replaced_at: revision.replacedAt,
+      })),
+    };
+  }
+
+  /**
+   * Publish a post, or keep it back with status "draft" or "scheduled"
+   * (with a future publish_at). visibility is public (default), followers,
+   * mentioned (only the users @mentioned in it) or private. A poll takes
+   * 2-10 options and an optional closes_at.
+   */
   @Post()
   async createPost(
     @CurrentUser() currentUser: CurrentUserType,
-    @Body() body: { content: string; media_urls?: string[] },
+    @Body() body: {
+      content: string;
+      media_urls?: string[];
+      status?: string;
+      publish_at?: string;
+      visibility?: string;
+      poll?: { options: string[]; multiple_choice?: boolean; closes_at?: string };
+    },
   ) {
+    if (body.status && body.status !== 'published' && body.status !== 'draft' && body.status !== 'scheduled') {
+      throw new BadRequestException('status must be published, draft or scheduled');
+    }
+    if (body.status === 'scheduled') {
+      this.validatePublishAt(body.publish_at);
+    } else if (body.publish_at !== undefined) {
+      throw new BadRequestException('publish_at is only allowed for scheduled posts');
+    }
+    this.validateVisibility(body.visibility);
+    if (body.poll !== undefined) {
+      this.validatePoll(body.poll);
+    }
+
     const post = await this.postClient.createPost(
       currentUser.userId,
       body.content,
       body.media_urls || [],
+      {
+        status: body.status as PostStatus | undefined,
+        publishAt: body.publish_at,
+        visibility: body.visibility as PostVisibility | undefined,
+        mentions: await this.resolveMentions(body.content || ''),
+        poll: body.poll
+          ? {
+              options: body.poll.options,
+              multipleChoice: body.poll.multiple_choice,
+              closesAt: body.poll.closes_at,
+            }
+          : undefined,
+      },
     );
     return post;
   }
 
+  /**
+   * The post's poll. Vote counts stay hidden until you've voted or the
+   * poll has closed.
+   */
+  @Get(':id/poll')
+  async getPoll(@Param('id') postId: string, @CurrentUser() currentUser: CurrentUserType) {
+    const poll = await this.postClient.getPollResults(postId, currentUser.userId);
+    return this.toPoll(poll);
+  }
+
+  /**
+   * Vote with the indexes of the options picked: exactly one unless the
+   * poll is multiple choice. A vote can't be changed.
+   */
+  @Post(':id/poll/vote')
+  async votePoll(
+    @Param('id') postId: string,
+    @CurrentUser() currentUser: CurrentUserType,
+    @Body() body: { option_indexes: number[] },
+  ) {
+    if (
+      !Array.isArray(body.option_indexes) ||
+      body.option_indexes.length === 0 ||
+      !body.option_indexes.every((index) => Number.isInteger(index) && index >= 0)
+    ) {
+      throw new BadRequestException('option_indexes must be a non-empty list of option indexes');
+    }
+
+    const poll = await this.postClient.votePoll(postId, currentUser.userId, body.option_indexes);
+    return this.toPoll(poll);
+  }
+
+  /**
+   * Save a post, optionally into one of your collections. Saving a post
+   * that's already saved moves it to the given collection.
+   */
+  @Post(':id/save')
+  async savePost(
+    @Param('id') postId: string,
+    @CurrentUser() currentUser: CurrentUserType,
+    @Body() body: { collection_id?: string },
+  ) {
+    const collectionId = body?.collection_id;
+    if (collectionId !== undefined && collectionId !== null && (typeof collectionId !== 'string' || !UUID_PATTERN.test(collectionId))) {
+      throw new BadRequestException('Invalid collection_id');
+    }
+
+    const bookmark = await this.postClient.savePost(postId, currentUser.userId, collectionId || undefined);
+    return {
+      post_id: bookmark.postId,
+      collection_id: bookmark.collectionId,
+      saved_at: bookmark.savedAt,
+    };
+  }
+
+  @Delete(':id/save')
+  async unsavePost(@Param('id') postId: string, @CurrentUser() currentUser: CurrentUserType) {
+    await this.postClient.unsavePost(postId, currentUser.userId);
+    return { success: true, message: 'Post removed from saved' };
+  }
+
   @Post(':id/like')
   async likePost(@Param('id') postId: string, @CurrentUser() currentUser: CurrentUserType) {
     await this.postClient.likePost(postId, currentUser.userId);
@@ -151,17 +501,167 @@ export class PostsController {
     return { success: true, message: 'Post unliked successfully' };
   }
 
+  /**
+   * React with one of like, love, haha, wow, sad or angry. Reacting again
+   * changes your reaction.
+   */
+  @Put(':id/reaction')
+  async reactToPost(
+    @Param('id') postId: string,
+    @CurrentUser() currentUser: CurrentUserType,
+    @Body() body: { type: string },
+  ) {
+    if (!isReactionType(body.type)) {
+      throw new BadRequestException(`type must be one of ${REACTION_TYPES.join(', ')}`);
+    }
+
+    await this.postClient.reactToPost(postId, currentUser.userId, body.type);
+    return { success: true, message: 'Reaction saved successfully', reaction: body.type };
+  }
+
+  @Delete(':id/reaction')
+  async removeReaction(@Param('id') postId: string, @CurrentUser() currentUser: CurrentUserType) {
+    await this.postClient.removeReaction(postId, currentUser.userId);
+    return { success: true, message: 'Reaction removed successfully' };
+  }
+
+  /**
+   * Who reacted to the post and with what; `type` narrows it to one reaction
+   */
+  @Get(':id/reactions')
+  async getReactions(
+    @Param('id') postId: string,
+    @CurrentUser() currentUser: CurrentUserType,
+    @Query('type') type?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const post = await this.postClient.getPost(postId, currentUser.userId);
+    if (!post) {
+      throw new NotFoundException('Post not found');
+    }
+
+    return this.listReactions(postId, currentUser.userId, undefined, type, page, limit);
+  }
+
+  @Post(':postId/comments/:commentId/like')
+  async likeComment(
+    @Param('postId') postId: string,
+    @Param('commentId') commentId: string,
+    @CurrentUser() currentUser: CurrentUserType,
+  ) {
+    await this.postClient.likeComment(postId, commentId, currentUser.userId);
+    return { success: true, message: 'Comment liked successfully' };
+  }
+
+  @Delete(':postId/comments/:commentId/like')
+  async unlikeComment(
+    @Param('postId') postId: string,
+    @Param('commentId') commentId: string,
+    @CurrentUser() currentUser: CurrentUserType,
+  ) {
+    await this.postClient.unlikeComment(postId, commentId, currentUser.userId);
+    return { success: true, message: 'Comment unliked successfully' };
+  }
+
+  @Put(':postId/comments/:commentId/reaction')
+  async reactToComment(
+    @Param('postId') postId: string,
+    @Param('commentId') commentId: string,
+    @CurrentUser() currentUser: CurrentUserType,
+    @Body() body: { type: string },
+  ) {
+    if (!isReactionType(body.type)) {
+      throw new BadRequestException(`type must be one of ${REACTION_TYPES.join(', ')}`);
+    }
+
+    await this.postClient.reactToPost(postId, currentUser.userId, body.type, commentId);
+    return { success: true, message: 'Reaction saved successfully', reaction: body.type };
+  }
+
+  @Delete(':postId/comments/:commentId/reaction')
+  async removeCommentReaction(
+    @Param('postId') postId: string,
+    @Param('commentId') commentId: string,
+    @CurrentUser() currentUser: CurrentUserType,
+  ) {
+    await this.postClient.removeReaction(postId, currentUser.userId, commentId);
+    return { success: true, message: 'Reaction removed successfully' };
+  }
+
+  @Get(':postId/comments/:commentId/reactions')
+  async getCommentReactions(
+    @Param('postId') postId: string,
+    @Param('commentId') commentId: string,
+    @CurrentUser() currentUser: CurrentUserType,
+    @Query('type') type?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const post = await this.postClient.getPost(postId, currentUser.userId);
+    if (!post) {
+      throw new NotFoundException('Post not found');
+    }
+
+    return this.listReactions(postId, currentUser.userId, commentId, type, page, limit);
+  }
+
+  /**
+   * Share a post with your followers. Reposting a repost reposts the original.
+   */
+  @Post(':id/repost')
+  async repostPost(@Param('id') postId: string, @CurrentUser() currentUser: CurrentUserType) {
+    await this.getRepostablePost(postId, currentUser.userId);
+
+    return this.postClient.repostPost(postId, currentUser.userId);
+  }
+
+  @Delete(':id/repost')
+  async undoRepost(@Param('id') postId: string, @CurrentUser() currentUser: CurrentUserType) {
+    await this.postClient.undoRepost(postId, currentUser.userId);
+    return { success: true, message: 'Repost removed successfully' };
+  }
+
+  /**
+   * Repost with your own comment on top
+   */
+  @Post(':id/quote')
+  async quotePost(
+    @Param('id') postId: string,
+    @CurrentUser() currentUser: CurrentUserType,
+    @Body() body: { content: string; media_urls?: string[] },
+  ) {
+    if (typeof body.content !== 'string' || !body.content.trim()) {
+      throw new BadRequestException('content is required');
+    }
+
+    await this.getRepostablePost(postId, currentUser.userId);
+
+    return this.postClient.quotePost(postId, currentUser.userId, body.content, body.media_urls || []);
+  }
+
   @Get(':id/comments')
   async getComments(
     @Param('id') postId: string,
     @CurrentUser() currentUser: CurrentUserType,
     @Query('page') page?: string,
     @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
+    @Query('sort') sort?: string,
   ) {
+    this.validateCommentSort(sort, cursor);
+
+    const post = await this.postClient.getPost(postId, currentUser.userId);
+    if (!post) {
+      throw new NotFoundException('Post not found');
+    }
+
     const result = await this.postClient.getComments(
       postId,
       parseInt(page || '1', 10),
       parseInt(limit || '20', 10),
+      cursor || undefined,
+      sort || undefined,
     );
     
     // Collect all unique user IDs from mentions across all comments
@@ -208,6 +708,7 @@ export class PostsController {
             mention_usernames: mentionUsernames,
             reply_count: comment.replyCount || 0,
             is_deleted: comment.isDeleted || false,
+            likes_count: comment.likesCount || 0,
             user: userProfile ? {
               username: userProfile.username || '',
               profile_picture: userProfile.profilePicture || '',
@@ -229,6 +730,7 @@ export class PostsController {
             mention_usernames: mentionUsernames,
             reply_count: comment.replyCount || 0,
             is_deleted: comment.isDeleted || false,
+            likes_count: comment.likesCount || 0,
             user: null,
           };
         }
@@ -239,6 +741,7 @@ export class PostsController {
       comments: enrichedComments,
       total: result.total,
       page: result.page,
+      next_cursor: result.nextCursor,
     };
   }
 
@@ -292,11 +795,19 @@ export class PostsController {
     @CurrentUser() currentUser: CurrentUserType,
     @Query('page') page?: string,
     @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
+    @Query('sort') sort?: string,
   ) {
+    this.validateCommentSort(sort, cursor);
+
+    // Post service checks the viewer can see the post the comment is on
     const result = await this.postClient.getReplies(
       commentId,
+      currentUser.userId,
       parseInt(page || '1', 10),
       parseInt(limit || '20', 10),
+      cursor || undefined,
+      sort || undefined,
     );
     
     // Collect all unique user IDs from mentions across all replies
@@ -343,6 +854,7 @@ export class PostsController {
             mention_usernames: mentionUsernames,
             reply_count: reply.replyCount || 0,
             is_deleted: reply.isDeleted || false,
+            likes_count: reply.likesCount || 0,
             user: userProfile ? {
               username: userProfile.username || '',
               profile_picture: userProfile.profilePicture || '',
@@ -364,6 +876,7 @@ export class PostsController {
             mention_usernames: mentionUsernames,
             reply_count: reply.replyCount || 0,
             is_deleted: reply.isDeleted || false,
+            likes_count: reply.likesCount || 0,
             user: null,
           };
         }
@@ -374,6 +887,7 @@ export class PostsController {
       replies: enrichedReplies,
       total: result.total,
       page: result.page,
+      next_cursor: result.nextCursor,
     };
   }
 
@@ -392,7 +906,7 @@ export class PostsController {
     @CurrentUser() currentUser: CurrentUserType,
     @Body() body: { file_name: string; content_type: string },
   ) {
-    const result = await this.postClient.getPresignedUploadUrl(body.file_name, body.content_type);
+    const result = await this.postClient.getPresignedUploadUrl(body.file_name, body.content_type, currentUser.userId);
     return result;
   }
 
@@ -401,6 +915,292 @@ export class PostsController {
     await this.postClient.deletePost(postId, currentUser.userId);
     return { success: true, message: 'Post deleted successfully' };
   }
-}
 
+  private validatePublishAt(publishAt?: string): void {
+    const time = publishAt ? Date.parse(publishAt) : NaN;
+    if (Number.isNaN(time)) {
+      throw new BadRequestException('publish_at must be an ISO 8601 date');
+    }
+    if (time <= Date.now()) {
+      throw new BadRequestException('publish_at must be in the future');
+    }
+  }
+
+  private validatePoll(poll: { options: string[]; multiple_choice?: boolean; closes_at?: string }): void {
+    if (
+      !poll ||
+      !Array.isArray(poll.options) ||
+      poll.options.length < 2 ||
+      poll.options.length > 10 ||
+      !poll.options.every((option) => typeof option === 'string' && option.trim())
+    ) {
+      throw new BadRequestException('poll.options must have between 2 and 10 options');
+    }
+    if (poll.multiple_choice !== undefined && typeof poll.multiple_choice !== 'boolean') {
+      throw new BadRequestException('poll.multiple_choice must be true or false');
+    }
+    if (poll.closes_at !== undefined) {
+      const time = Date.parse(poll.closes_at);
+      if (Number.isNaN(time)) {
+        throw new BadRequestException('poll.closes_at must be an ISO 8601 date');
+      }
+      if (time <= Date.now()) {
+        throw new BadRequestException('poll.closes_at must be in the future');
+      }
+    }
+  }
 
+  private validateVisibility(visibility?: string): void {
+    if (visibility !== undefined && !['public', 'followers', 'mentioned', 'private'].includes(visibility)) {
+      throw new BadRequestException('visibility must be public, followers, mentioned or private');
+    }
+  }
+
+  /**
+   * User ids of the users @mentioned in a post, who make up the audience of
+   * a mentioned-only post
+   */
+  private async resolveMentions(content: string): Promise<string[]> {
+    const mentionedUsernames = extractMentions(content);
+    const mentionedUserIds = mentionedUsernames.length > 0
+      ? await validateMentions(mentionedUsernames, this.userClient)
+      : [];
+
+    // Same cap as comments
+    return mentionedUserIds.slice(0, 10);
+  }
+
+  /**
+   * Reposts and quotes share a post with a new audience, so only public
+   * posts can be reposted
+   */
+  private async getRepostablePost(postId: string, userId: string): Promise<PostDetails> {
+    const post = await this.postClient.getPost(postId, userId);
+    if (!post || post.status !== 'published') {
+      throw new NotFoundException('Post not found');
+    }
+    const original = post.repostOf && !post.isQuote ? post.repostOf : post;
+    if (original.visibility !== 'public') {
+      throw new BadRequestException('Only public posts can be reposted');
+    }
+    return post;
+  }
+
+  /**
+   * Someone else's drafts are reported as missing rather than forbidden so
+   * their existence isn't revealed
+   */
+  private async getOwnUnpublishedPost(postId: string, userId: string): Promise<PostDetails> {
+    const post = await this.postClient.getPost(postId);
+    if (!post || post.userId !== userId) {
+      throw new NotFoundException('Post not found');
+    }
+    if (post.status === 'published') {
+      throw new BadRequestException('Post is already published');
+    }
+    return post;
+  }
+
+  /**
+   * sort=oldest (default), newest or top (most liked first). Top is paged by
+   * number only since like counts move while a thread is being read.
+   */
+  private validateCommentSort(sort?: string, cursor?: string): void {
+    if (sort && sort !== 'top' && sort !== 'newest' && sort !== 'oldest') {
+      throw new BadRequestException('sort must be top, newest or oldest');
+    }
+    if (cursor && sort === 'top') {
+      throw new BadRequestException('cursor is not supported when sorting by top');
+    }
+    if (cursor && !isValidCursor(cursor)) {
+      throw new BadRequestException('Invalid cursor');
+    }
+  }
+
+  private async listReactions(
+    postId: string,
+    viewerId: string,
+    commentId: string | undefined,
+    type?: string,
+    page?: string,
+    limit?: string,
+  ) {
+    if (type && !isReactionType(type)) {
+      throw new BadRequestException(`type must be one of ${REACTION_TYPES.join(', ')}`);
+    }
+
+    const result = await this.postClient.getReactions(postId, viewerId, {
+      commentId,
+      reaction: type,
+      page: parseInt(page || '1', 10),
+      limit: parseInt(limit || '20', 10),
+    });
+
+    const userProfilesMap: Record<string, any> = {};
+    await Promise.all(
+      [...new Set(result.reactions.map((reaction) => reaction.userId))].map(async (userId) => {
+        try {
+          const profile = await this.userClient.getProfile(userId);
+          if (profile) {
+            userProfilesMap[userId] = profile;
+          }
+        } catch (error) {
+          console.error(`Failed to fetch profile for user ${userId}:`, error);
+        }
+      }),
+    );
+
+    return {
+      counts: result.counts,
+      reactions: result.reactions.map((reaction) => {
+        const userProfile = userProfilesMap[reaction.userId];
+        return {
+          user_id: reaction.userId,
+          reaction: reaction.reaction,
+          created_at: reaction.createdAt,
+          user: userProfile ? {
+            username: userProfile.username || '',
+            profile_picture: userProfile.profilePicture || '',
+          } : null,
+        };
+      }),
+      total: result.total,
+      page: result.page,
+    };
+  }
+
+  /**
+   * Feed items: posts with their author's profile and whether you've
+   * liked them or follow their author
+   */
+  private async enrichPosts(posts: PostDetails[], userId: string, followingIds: string[]) {
+    // Check which posts the user has reacted to, and how
+    const postIds = posts.map(p => p.id);
+    let userReactions: Record<string, string> = {};
+    if (postIds.length > 0) {
+      try {
+        userReactions = await this.postClient.getUserReactions(postIds, userId);
+      } catch (error) {
+        console.error('Error checking liked posts:', error);
+        // Continue with all false if check fails
+      }
+    }
+
+    // Batch fetch user profiles, including the authors of reposted posts
+    const uniqueUserIds = [...new Set(posts.flatMap(p => p.repostOf ? [p.userId, p.repostOf.userId] : [p.userId]))];
+    const userProfilesMap: Record<string, any> = {};
+
+    if (uniqueUserIds.length > 0) {
+      // Batch fetch all user profiles in parallel
+      await Promise.all(
+        uniqueUserIds.map(async (authorId) => {
+          try {
+            const profile = await this.userClient.getProfile(authorId);
+            if (profile) {
+              userProfilesMap[authorId] = profile;
+            }
+          } catch (error) {
+            // Profile fetch failed, will use null
+            console.error(`Failed to fetch profile for user ${authorId}:`, error);
+          }
+        })
+      );
+    }
+
+    const followingIdsSet = new Set(followingIds);
+
+    // Enrich posts with user info
+    return posts.map((post) => {
+      const userProfile = userProfilesMap[post.userId];
+      // Check if current user follows this post author
+      const isFollowing = post.userId !== userId && followingIdsSet.has(post.userId);
+
+      return {
+        id: post.id,
+        user_id: post.userId,
+        content: post.content,
+        created_at: post.createdAt || new Date().toISOString(),
+        user: userProfile ? {
+          username: userProfile.username || '',
+          profile_picture: userProfile.profilePicture || '',
+        } : null,
+        user_liked: !!userReactions[post.id],
+        user_reaction: userReactions[post.id] || null,
+        is_following: isFollowing,
+        media_urls: post.mediaUrls || [],
+        likes_count: post.likesCount || 0,
+        reaction_counts: post.reactionCounts,
+        comments_count: post.commentsCount || 0,
+        edited: !!post.editedAt,
+        edited_at: post.editedAt,
+        reposts_count: post.repostsCount,
+        is_quote: post.isQuote,
+        repost_of: this.toRepostOf(post, userProfilesMap),
+        poll: this.toPoll(post.poll),
+      };
+    });
+  }
+
+  /**
+   * The reposted or quoted post as shown inside a feed item, with its
+   * author's profile. Null for ordinary posts; an original that was deleted
+   * or that the viewer can no longer see gets a placeholder.
+   */
+  private toRepostOf(post: PostDetails, userProfilesMap: Record<string, any>) {
+    if (!post.repostOf) {
+      return post.isQuote || post.repostOfId ? { unavailable: true } : null;
+    }
+
+    const original = post.repostOf;
+    const originalAuthor = userProfilesMap[original.userId];
+    return {
+      id: original.id,
+      user_id: original.userId,
+      content: original.content,
+      created_at: original.createdAt,
+      user: originalAuthor ? {
+        username: originalAuthor.username || '',
+        profile_picture: originalAuthor.profilePicture || '',
+      } : null,
+      media_urls: original.mediaUrls,
+      likes_count: original.likesCount,
+      comments_count: original.commentsCount,
+      reposts_count: original.repostsCount,
+      edited: !!original.editedAt,
+      poll: this.toPoll(original.poll),
+    };
+  }
+
+  private toCollection(collection: BookmarkCollection) {
+    return {
+      id: collection.id,
+      name: collection.name,
+      bookmark_count: collection.bookmarkCount,
+      created_at: collection.createdAt,
+    };
+  }
+
+  /**
+   * A poll as shown in feed items; votes are null while results are hidden
+   */
+  private toPoll(poll: PollDetails | null) {
+    if (!poll) {
+      return null;
+    }
+
+    return {
+      id: poll.id,
+      options: poll.options.map((option) => ({
+        index: option.index,
+        text: option.text,
+        votes: poll.resultsVisible ? option.votes : null,
+      })),
+      multiple_choice: poll.multipleChoice,
+      closes_at: poll.closesAt,
+      closed: poll.closed,
+      results_visible: poll.resultsVisible,
+      total_voters: poll.resultsVisible ? poll.totalVoters : null,
+      viewer_votes: poll.viewerVotes,
+    };
+  }
+}
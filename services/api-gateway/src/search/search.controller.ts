@@ -0,0 +1,124 @@
+import { Controller, Get, Query, UseGuards, BadRequestException } from '@nestjs/common';
+import { PostClientService } from '../clients/post-client.service';
+import { UserClientService } from '../clients/user-client.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser, CurrentUser as CurrentUserType } from '../auth/current-user.decorator';
+import { isValidCursor } from '../utils/cursor';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+@Controller('api/search')
+@UseGuards(JwtAuthGuard)
+export class SearchController {
+  constructor(
+    private postClient: PostClientService,
+    private userClient: UserClientService,
+  ) {}
+
+  /**
+   * Full-text search over posts and comments.
+   * Filters: author (username) or author_id, since/until (ISO dates),
+   * has_media, type=posts|comments, sort=relevance|recent. Pass next_cursor
+   * back as `cursor` for the next page.
+   */
+  @Get()
+  async search(
+    @CurrentUser() currentUser: CurrentUserType,
+    @Query('q') query?: string,
+    @Query('author') author?: string,
+    @Query('author_id') authorId?: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+    @Query('has_media') hasMedia?: string,
+    @Query('type') type?: string,
+    @Query('sort') sort?: string,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: string,
+  ) {
+    if (!query || !query.trim()) {
+      throw new BadRequestException('q is required');
+    }
+    if (query.length > 200) {
+      throw new BadRequestException('q must be at most 200 characters');
+    }
+    if (authorId && !UUID_PATTERN.test(authorId)) {
+      throw new BadRequestException('author_id must be a UUID');
+    }
+    if ((since && isNaN(Date.parse(since))) || (until && isNaN(Date.parse(until)))) {
+      throw new BadRequestException('since and until must be ISO dates');
+    }
+    if (hasMedia && hasMedia !== 'true' && hasMedia !== 'false') {
+      throw new BadRequestException('has_media must be true or false');
+    }
+    if (type && !['all', 'posts', 'comments'].includes(type)) {
+      throw new BadRequestException('type must be all, posts or comments');
+    }
+    if (sort && !['relevance', 'recent'].includes(sort)) {
+      throw new BadRequestException('sort must be relevance or recent');
+    }
+    if (cursor && !isValidCursor(cursor)) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    // Usernames are resolved here; the post service only knows user ids
+    if (author && !authorId) {
+      const username = author.replace(/^@/, '').toLowerCase();
+      const searchResult = await this.userClient.searchUsers(username, '', 1, 1);
+      const user = searchResult.users.find((u) => u.username.toLowerCase() === username);
+
+      if (!user) {
+        return { results: [], next_cursor: null };
+      }
+      authorId = user.userId;
+    }
+
+    const result = await this.postClient.searchPosts({
+      query: query.trim(),
+      authorId,
+      since: since ? new Date(since).toISOString() : undefined,
+      until: until ? new Date(until).toISOString() : undefined,
+      hasMedia: hasMedia ? hasMedia === 'true' : undefined,
+      type: type as 'all' | 'posts' | 'comments' | undefined,
+      sort: sort as 'relevance' | 'recent' | undefined,
+      cursor,
+      limit: parseInt(limit || '20', 10),
+      viewerId: currentUser.userId,
+    });
+
+    const userProfilesMap: Record<string, any> = {};
+    await Promise.all(
+      [...new Set(result.results.map((hit) => hit.userId))].map(async (userId) => {
+        try {
+          const profile = await this.userClient.getProfile(userId);
+          if (profile) {
+            userProfilesMap[userId] = profile;
+          }
+        } catch (error) {
+          console.error(`Failed to fetch profile for user ${userId}:`, error);
+        }
+      }),
+    );
+
+    return {
+      results: result.results.map((hit) => {
+        const userProfile = userProfilesMap[hit.userId];
+        return {
+          type: hit.type,
+          id: hit.id,
+          post_id: hit.postId,
+          user_id: hit.userId,
+          content: hit.content,
+          snippet: hit.snippet,
+          media_urls: hit.mediaUrls,
+          rank: hit.rank,
+          created_at: hit.createdAt,
+          user: userProfile ? {
+            username: userProfile.username || '',
+            profile_picture: userProfile.profilePicture || '',
+          } : null,
+        };
+      }),
+      next_cursor: result.nextCursor,
+    };
+  }
+}
@@ -1,12 +1,18 @@
-import { Controller, Get, Put, Post, Param, Body, Query, UseGuards } from '@nestjs/common';
+import { Controller, Get, Put, Post, Delete, Param, Body, Query, UseGuards, HttpCode, HttpStatus, BadRequestException, NotFoundException, ForbiddenException } from '@nestjs/common';
 import { UserClientService } from '../clients/user-client.service';
+import { AuthClientService, AccountDeletion } from '../clients/auth-client.service';
+import { DataExportService, DataExport } from '../exports/data-export.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { CurrentUser, CurrentUser as CurrentUserType } from '../auth/current-user.decorator';
 
 @Controller('api/users')
 @UseGuards(JwtAuthGuard)
 export class UsersController {
-  constructor(private userClient: UserClientService) {}
+  constructor(
+    private userClient: UserClientService,
+    private authClient: AuthClientService,
+    private dataExportService: DataExportService,
+  ) {}
 
   @Get('search')
   async searchUsers(
@@ -36,10 +42,70 @@ export class UsersController {
       username: profile.username,
       bio: profile.bio,
       profile_picture: profile.profilePicture,
+      is_private: profile.isPrivate,
       created_at: profile.createdAt,
     };
   }
 
+  /**
+   * Make your account private, so new followers need your approval and
+   * only followers see your posts, or public again. Going public accepts
+   * every pending follow request.
+   */
+  @Put('me/privacy')
+  async setAccountPrivacy(
+    @CurrentUser() currentUser: CurrentUserType,
+    @Body() body: { is_private: boolean },
+  ) {
+    if (typeof body.is_private !== 'boolean') {
+      throw new BadRequestException('is_private must be true or false');
+    }
+
+    await this.userClient.setAccountPrivacy(currentUser.userId, body.is_private);
+    return { success: true, is_private: body.is_private };
+  }
+
+  @Get('me/follow-requests')
+  async getFollowRequests(
+    @CurrentUser() currentUser: CurrentUserType,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const result = await this.userClient.getFollowRequests(
+      currentUser.userId,
+      page ? parseInt(page, 10) : 1,
+      limit ? parseInt(limit, 10) : 20,
+    );
+    return {
+      requests: result.requests.map((request) => ({
+        requester_id: request.requesterId,
+        username: request.username,
+        profile_picture: request.profilePicture,
+        created_at: request.createdAt,
+      })),
+      total: result.total,
+      page: result.page,
+    };
+  }
+
+  @Post('me/follow-requests/:requesterId/accept')
+  async acceptFollowRequest(
+    @Param('requesterId') requesterId: string,
+    @CurrentUser() currentUser: CurrentUserType,
+  ) {
+    await this.answerFollowRequest(() => this.userClient.acceptFollowRequest(currentUser.userId, requesterId));
+    return { success: true, message: 'Follow request accepted' };
+  }
+
+  @Post('me/follow-requests/:requesterId/reject')
+  async rejectFollowRequest(
+    @Param('requesterId') requesterId: string,
+    @CurrentUser() currentUser: CurrentUserType,
+  ) {
+    await this.answerFollowRequest(() => this.userClient.rejectFollowRequest(currentUser.userId, requesterId));
+    return { success: true, message: 'Follow request rejected' };
+  }
+
   @Put(':id')
   async updateProfile(
     @Param('id') userId: string,
@@ -65,6 +131,7 @@ export class UsersController {
       username: profile!.username,
       bio: profile!.bio,
       profile_picture: profile!.profilePicture,
+      is_private: profile!.isPrivate,
       created_at: profile!.createdAt,
     };
   }
@@ -75,13 +142,19 @@ export class UsersController {
     @CurrentUser() currentUser: CurrentUserType,
   ) {
     try {
-      await this.userClient.followUser(currentUser.userId, followingId);
-      return { success: true, message: 'User followed successfully' };
+      const { requested } = await this.userClient.followUser(currentUser.userId, followingId);
+      if (requested) {
+        return { success: true, requested: true, message: 'Follow request sent' };
+      }
+      return { success: true, requested: false, message: 'User followed successfully' };
     } catch (error: any) {
       // If already following, treat as success
       if (error?.message?.includes('Already following') || error?.message?.includes('already following')) {
         return { success: true, message: 'User already followed' };
       }
+      if (error?.message?.includes('cannot follow')) {
+        throw new ForbiddenException(error.message);
+      }
       throw error;
     }
   }
@@ -103,6 +176,96 @@ export class UsersController {
     }
   }
 
+  /**
+   * Blocking removes follows both ways and stops follows, comments,
+   * mentions and direct messages between the two users
+   */
+  @Post(':id/block')
+  async blockUser(
+    @Param('id') targetUserId: string,
+    @CurrentUser() currentUser: CurrentUserType,
+  ) {
+    await this.changeRelationship(() => this.userClient.blockUser(currentUser.userId, targetUserId));
+    return { success: true, message: 'User blocked' };
+  }
+
+  @Delete(':id/block')
+  async unblockUser(
+    @Param('id') targetUserId: string,
+    @CurrentUser() currentUser: CurrentUserType,
+  ) {
+    await this.changeRelationship(() => this.userClient.unblockUser(currentUser.userId, targetUserId));
+    return { success: true, message: 'User unblocked' };
+  }
+
+  /**
+   * Muting only hides the user's posts and notifications from you; they
+   * aren't told and can still interact with you
+   */
+  @Post(':id/mute')
+  async muteUser(
+    @Param('id') targetUserId: string,
+    @CurrentUser() currentUser: CurrentUserType,
+  ) {
+    await this.changeRelationship(() => this.userClient.muteUser(currentUser.userId, targetUserId));
+    return { success: true, message: 'User muted' };
+  }
+
+  @Delete(':id/mute')
+  async unmuteUser(
+    @Param('id') targetUserId: string,
+    @CurrentUser() currentUser: CurrentUserType,
+  ) {
+    await this.changeRelationship(() => this.userClient.unmuteUser(currentUser.userId, targetUserId));
+    return { success: true, message: 'User unmuted' };
+  }
+
+  @Get('me/blocked')
+  async getBlockedUsers(
+    @CurrentUser() currentUser: CurrentUserType,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const result = await this.userClient.getBlockedUsers(
+      currentUser.userId,
+      page ? parseInt(page, 10) : 1,
+      limit ? parseInt(limit, 10) : 20,
+    );
+    return {
+      users: result.users.map((user) => ({
+        user_id: user.userId,
+        username: user.username,
+        bio: user.bio,
+        profile_picture: user.profilePicture,
+      })),
+      total: result.total,
+      page: result.page,
+    };
+  }
+
+  @Get('me/muted')
+  async getMutedUsers(
+    @CurrentUser() currentUser: CurrentUserType,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const result = await this.userClient.getMutedUsers(
+      currentUser.userId,
+      page ? parseInt(page, 10) : 1,
+      limit ? parseInt(limit, 10) : 20,
+    );
+    return {
+      users: result.users.map((user) => ({
+        user_id: user.userId,
+        username: user.username,
+        bio: user.bio,
+        profile_picture: user.profilePicture,
+      })),
+      total: result.total,
+      page: result.page,
+    };
+  }
+
   @Get('me/followers')
   async getFollowers(
     @CurrentUser() currentUser: CurrentUserType,
@@ -128,6 +291,112 @@ export class UsersController {
       page: result.page,
     };
   }
-}
 
+  /**
+   * Schedule the account for deletion. Everything is erased across services
+   * once the grace period ends, unless cancelled first.
+   */
+  @Delete('me')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async deleteAccount(
+    @CurrentUser() currentUser: CurrentUserType,
+    @Body() body: { password?: string },
+  ) {
+    const deletion = await this.authClient.requestAccountDeletion(currentUser.userId, body?.password || '');
+    return { success: true, deletion: this.toDeletionResponse(deletion) };
+  }
+
+  @Post('me/deletion/cancel')
+  @HttpCode(HttpStatus.OK)
+  async cancelAccountDeletion(@CurrentUser() currentUser: CurrentUserType) {
+    const deletion = await this.authClient.cancelAccountDeletion(currentUser.userId);
+    return { success: true, deletion: this.toDeletionResponse(deletion) };
+  }
+
+  @Get('me/deletion')
+  async getAccountDeletion(@CurrentUser() currentUser: CurrentUserType) {
+    const deletion = await this.authClient.getAccountDeletion(currentUser.userId);
+    return { deletion: deletion ? this.toDeletionResponse(deletion) : null };
+  }
+
+  /**
+   * Start building an archive of everything we hold about the user. They
+   * are notified with a download link when it is ready.
+   */
+  @Post('me/export')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async requestDataExport(@CurrentUser() currentUser: CurrentUserType) {
+    const job = await this.dataExportService.requestExport(currentUser.userId);
+    return { success: true, export: this.toExportResponse(job) };
+  }
 
+  /**
+   * Latest export; a finished one comes with a fresh download link
+   */
+  @Get('me/export')
+  async getDataExport(@CurrentUser() currentUser: CurrentUserType) {
+    const job = await this.dataExportService.getExport(currentUser.userId);
+    if (!job) {
+      return { export: null };
+    }
+
+    if (job.status !== 'ready') {
+      return { export: this.toExportResponse(job) };
+    }
+
+    const { downloadUrl, expiresAt } = await this.dataExportService.getDownloadUrl(job);
+    return {
+      export: {
+        ...this.toExportResponse(job),
+        download_url: downloadUrl,
+        download_expires_at: expiresAt.toISOString(),
+      },
+    };
+  }
+
+  private toExportResponse(job: DataExport) {
+    return {
+      id: job.id,
+      status: job.status,
+      error: job.error,
+      created_at: job.createdAt,
+      completed_at: job.completedAt,
+    };
+  }
+
+  private toDeletionResponse(deletion: AccountDeletion) {
+    return {
+      status: deletion.status,
+      scheduled_for: deletion.scheduledFor,
+    };
+  }
+
+  /**
+   * Blocking and muting are idempotent: repeating one, or undoing one that
+   * isn't there, still succeeds
+   */
+  private async changeRelationship(action: () => Promise<boolean>): Promise<void> {
+    try {
+      await action();
+    } catch (error: any) {
+      if (error?.message?.includes('already') || error?.message?.includes('not found')) {
+        return;
+      }
+      if (error?.message?.includes('Cannot')) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  private async answerFollowRequest(action: () => Promise<boolean>): Promise<void> {
+    try {
+      await action();
+    } catch (error: any) {
+      if (error?.message?.includes('not found')) {
+        throw new NotFoundException('Follow request not found');
+      }
+      throw error;
+    }
+  }
+}
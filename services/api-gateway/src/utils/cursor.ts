@@ -0,0 +1,7 @@
+/**
+ * Pagination cursors are opaque to the gateway; this only rejects values
+ * that can't have come from a next_cursor before they're sent on
+ */
+export function isValidCursor(cursor: string): boolean {
+  return /^[A-Za-z0-9_-]{1,512}$/.test(cursor);
+}
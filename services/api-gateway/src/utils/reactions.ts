@@ -0,0 +1,8 @@
+/**
+ * Reaction types the post service accepts; keep in step with its list
+ */
+export const REACTION_TYPES = ['like', 'love', 'haha', 'wow', 'sad', 'angry'];
+
+export function isReactionType(value: unknown): value is string {
+  return typeof value === 'string' && REACTION_TYPES.includes(value);
+}
@@ -4,9 +4,25 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { JwtModule } from '@nestjs/jwt';
 import { databaseConfig } from './config/database.config';
 import { User } from './entities/user.entity';
+import { Session } from './entities/session.entity';
+import { AccountToken } from './entities/account-token.entity';
+import { RecoveryCode } from './entities/recovery-code.entity';
+import { SigningKey } from './entities/signing-key.entity';
+import { ExternalIdentity } from './entities/external-identity.entity';
+import { AccountDeletion } from './entities/account-deletion.entity';
 import { AuthController } from './auth/auth.controller';
 import { AuthService } from './auth/auth.service';
+import { SessionService } from './auth/session.service';
+import { AccountTokenService } from './auth/account-token.service';
+import { TwoFactorService } from './auth/two-factor.service';
+import { LoginAttemptService } from './auth/login-attempt.service';
+import { SigningKeyService } from './auth/signing-key.service';
+import { TokenDenylistService } from './auth/token-denylist.service';
+import { OidcService } from './auth/oidc.service';
+import { AccountDeletionService } from './auth/account-deletion.service';
 import { EventPublisherService } from './events/event-publisher.service';
+import { AuthEventsConsumer } from './events/auth-events.consumer';
+import { CacheModule } from './cache/cache.module';
 
 @Module({
   imports: [
@@ -19,10 +35,12 @@ import { EventPublisherService } from './events/event-publisher.service';
       useFactory: (configService: ConfigService) => databaseConfig(configService),
       inject: [ConfigService],
     }),
-    TypeOrmModule.forFeature([User]),
+    TypeOrmModule.forFeature([User, Session, AccountToken, RecoveryCode, SigningKey, ExternalIdentity, AccountDeletion]),
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: (configService: ConfigService) => {
+        // The shared secret only signs short-lived 2FA challenge tokens now;
+        // access tokens are signed by SigningKeyService
         const expiresIn = configService.get<string>('JWT_EXPIRES_IN') || '1h';
         return {
           secret: configService.get<string>('JWT_SECRET') || 'your-secret-key',
@@ -34,8 +52,21 @@ import { EventPublisherService } from './events/event-publisher.service';
       },
       inject: [ConfigService],
     }),
+    CacheModule,
   ],
   controllers: [AuthController],
-  providers: [AuthService, EventPublisherService],
+  providers: [
+    AuthService,
+    SessionService,
+    AccountTokenService,
+    TwoFactorService,
+    LoginAttemptService,
+    SigningKeyService,
+    TokenDenylistService,
+    OidcService,
+    AccountDeletionService,
+    EventPublisherService,
+    AuthEventsConsumer,
+  ],
 })
 export class AppModule {}
@@ -0,0 +1,245 @@
+import { Injectable, OnModuleInit, OnModuleDestroy, BadRequestException, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In, LessThanOrEqual } from 'typeorm';
+import * as bcrypt from 'bcryptjs';
+import { User } from '../entities/user.entity';
+import { Session } from '../entities/session.entity';
+import { AccountToken } from '../entities/account-token.entity';
+import { RecoveryCode } from '../entities/recovery-code.entity';
+import { ExternalIdentity } from '../entities/external-identity.entity';
+import { AccountDeletion, AccountDeletionStatus } from '../entities/account-deletion.entity';
+import { EventPublisherService } from '../events/event-publisher.service';
+import { SessionService } from './session.service';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Every service holding user data reports back with user.deletion_completed
+const ERASING_SERVICES = ['auth', 'user', 'post', 'message', 'notification', 'storage'];
+
+/**
+ * Account Deletion Service
+ * Deletion is scheduled ACCOUNT_DELETION_GRACE_DAYS ahead and can be cancelled
+ * until then. Once due, `user.deleted` is published for the other services to
+ * erase their data, the auth records are removed, and the deletion is marked
+ * completed when every service has reported back.
+ */
+@Injectable()
+export class AccountDeletionService implements OnModuleInit, OnModuleDestroy {
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private readonly gracePeriod: number;
+
+  constructor(
+    @InjectRepository(AccountDeletion)
+    private accountDeletionRepository: Repository<AccountDeletion>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    @InjectRepository(Session)
+    private sessionRepository: Repository<Session>,
+    @InjectRepository(AccountToken)
+    private accountTokenRepository: Repository<AccountToken>,
+    @InjectRepository(RecoveryCode)
+    private recoveryCodeRepository: Repository<RecoveryCode>,
+    @InjectRepository(ExternalIdentity)
+    private externalIdentityRepository: Repository<ExternalIdentity>,
+    private sessionService: SessionService,
+    private eventPublisher: EventPublisherService,
+    private configService: ConfigService,
+  ) {
+    // Seconds
+    this.gracePeriod =
+      parseInt(this.configService.get<string>('ACCOUNT_DELETION_GRACE_DAYS') || '30', 10) * 24 * 60 * 60;
+  }
+
+  onModuleInit() {
+    this.sweepTimer = setInterval(() => {
+      this.processDueDeletions().catch((error) =>
+        console.error('[AccountDeletionService] Failed to process due deletions:', error),
+      );
+    }, SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+  }
+
+  /**
+   * Schedule the user's account for deletion. Asking again while a deletion
+   * is pending returns the existing one.
+   */
+  async requestDeletion(userId: string, password?: string): Promise<AccountDeletion> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    // Accounts created through a provider have no password to confirm with
+    if (user.passwordHash) {
+      if (!password || !(await bcrypt.compare(password, user.passwordHash))) {
+        throw new UnauthorizedException('Invalid password');
+      }
+    }
+
+    const pending = await this.findPending(userId);
+    if (pending) {
+      return pending;
+    }
+
+    const deletion = await this.accountDeletionRepository.save(
+      this.accountDeletionRepository.create({
+        userId,
+        status: AccountDeletionStatus.SCHEDULED,
+        scheduledFor: new Date(Date.now() + this.gracePeriod * 1000),
+        completedServices: [],
+      }),
+    );
+
+    await this.eventPublisher.publishAccountDeletionScheduled(user.id, user.email, deletion.scheduledFor);
+
+    return deletion;
+  }
+
+  async cancelDeletion(userId: string): Promise<AccountDeletion> {
+    const deletion = await this.findPending(userId);
+
+    if (!deletion) {
+      throw new NotFoundException('No account deletion is pending');
+    }
+
+    if (deletion.status !== AccountDeletionStatus.SCHEDULED) {
+      throw new BadRequestException('Account deletion is already in progress');
+    }
+
+    // Conditional so a sweep that just claimed it wins
+    const result = await this.accountDeletionRepository.update(
+      { id: deletion.id, status: AccountDeletionStatus.SCHEDULED },
+      { status: AccountDeletionStatus.CANCELLED, cancelledAt: new Date() },
+    );
+
+    if (!result.affected) {
+      throw new BadRequestException('Account deletion is already in progress');
+    }
+
+    return { ...deletion, status: AccountDeletionStatus.CANCELLED, cancelledAt: new Date() };
+  }
+
+  /**
+   * Latest deletion request for the user, if any
+   */
+  async getDeletion(userId: string): Promise<AccountDeletion | null> {
+    return this.accountDeletionRepository.findOne({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Called for each user.deletion_completed event
+   */
+  async markServiceCompleted(userId: string, service: string): Promise<void> {
+    const deletion = await this.accountDeletionRepository.findOne({
+      where: { userId, status: AccountDeletionStatus.IN_PROGRESS },
+      order: { createdAt: 'DESC' },
+    });
+
+    if (!deletion) {
+      console.error(`[AccountDeletionService] No deletion in progress for user ${userId} (reported by ${service})`);
+      return;
+    }
+
+    // Appended in SQL since reports from different services arrive concurrently
+    await this.accountDeletionRepository
+      .createQueryBuilder()
+      .update(AccountDeletion)
+      .set({ completedServices: () => `completed_services || jsonb_build_array(CAST(:service AS text))` })
+      .where('id = :id', { id: deletion.id })
+      .andWhere('NOT (completed_services @> jsonb_build_array(CAST(:service AS text)))', { service })
+      .execute();
+
+    const updated = await this.accountDeletionRepository.findOne({
+      where: { id: deletion.id },
+    });
+
+    const remaining = ERASING_SERVICES.filter((name) => !updated?.completedServices.includes(name));
+    if (remaining.length > 0) {
+      return;
+    }
+
+    await this.accountDeletionRepository.update(
+      { id: deletion.id, status: AccountDeletionStatus.IN_PROGRESS },
+      { status: AccountDeletionStatus.COMPLETED, completedAt: new Date() },
+    );
+
+    console.log(`[AccountDeletionService] Account deletion completed for user: ${userId}`);
+  }
+
+  private async processDueDeletions(): Promise<void> {
+    const due = await this.accountDeletionRepository.find({
+      where: {
+        status: AccountDeletionStatus.SCHEDULED,
+        scheduledFor: LessThanOrEqual(new Date()),
+      },
+    });
+
+    for (const deletion of due) {
+      // Claim it first so only one instance erases the account
+      const claimed = await this.accountDeletionRepository.update(
+        { id: deletion.id, status: AccountDeletionStatus.SCHEDULED },
+        { status: AccountDeletionStatus.IN_PROGRESS, startedAt: new Date() },
+      );
+
+      if (!claimed.affected) {
+        continue;
+      }
+
+      try {
+        await this.eraseAccount(deletion);
+      } catch (error) {
+        console.error(`[AccountDeletionService] Failed to erase account ${deletion.userId}, will retry:`, error);
+        // Every step is safe to repeat, so just hand it back to the next sweep
+        await this.accountDeletionRepository.update(
+          { id: deletion.id },
+          { status: AccountDeletionStatus.SCHEDULED, startedAt: null },
+        );
+      }
+    }
+  }
+
+  private async eraseAccount(deletion: AccountDeletion): Promise<void> {
+    const user = await this.userRepository.findOne({
+      where: { id: deletion.userId },
+    });
+
+    // Other services only need the id; the email is for the goodbye message
+    await this.eventPublisher.publishUserDeleted(deletion.userId, user?.email || null);
+
+    // Denylist outstanding access tokens before the sessions disappear
+    await this.sessionService.revokeAllSessions(deletion.userId);
+
+    await this.sessionRepository.delete({ userId: deletion.userId });
+    await this.accountTokenRepository.delete({ userId: deletion.userId });
+    await this.recoveryCodeRepository.delete({ userId: deletion.userId });
+    await this.externalIdentityRepository.delete({ userId: deletion.userId });
+    await this.userRepository.delete({ id: deletion.userId });
+
+    console.log(`[AccountDeletionService] Erased auth data for user: ${deletion.userId}`);
+
+    await this.markServiceCompleted(deletion.userId, 'auth');
+  }
+
+  private async findPending(userId: string): Promise<AccountDeletion | null> {
+    return this.accountDeletionRepository.findOne({
+      where: {
+        userId,
+        status: In([AccountDeletionStatus.SCHEDULED, AccountDeletionStatus.IN_PROGRESS]),
+      },
+      order: { createdAt: 'DESC' },
+    });
+  }
+}
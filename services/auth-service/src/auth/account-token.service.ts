@@ -0,0 +1,91 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, IsNull } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { AccountToken, AccountTokenType } from '../entities/account-token.entity';
+
+/**
+ * Account Token Service
+ * Issues and consumes the single-use tokens sent by email
+ * (email verification, password reset)
+ */
+@Injectable()
+export class AccountTokenService {
+  private readonly ttl: Record<AccountTokenType, number>;
+
+  constructor(
+    @InjectRepository(AccountToken)
+    private accountTokenRepository: Repository<AccountToken>,
+    private configService: ConfigService,
+  ) {
+    // Seconds
+    this.ttl = {
+      [AccountTokenType.EMAIL_VERIFICATION]: parseInt(
+        this.configService.get<string>('EMAIL_VERIFICATION_EXPIRES_IN') || '86400',
+        10,
+      ),
+      [AccountTokenType.PASSWORD_RESET]: parseInt(
+        this.configService.get<string>('PASSWORD_RESET_EXPIRES_IN') || '3600',
+        10,
+      ),
+    };
+  }
+
+  /**
+   * Create a new token, invalidating any earlier unused token of the same type
+   */
+  async issueToken(userId: string, type: AccountTokenType): Promise<string> {
+    await this.accountTokenRepository.update(
+      { userId, type, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+
+    const token = randomBytes(32).toString('base64url');
+
+    const accountToken = this.accountTokenRepository.create({
+      userId,
+      type,
+      tokenHash: this.hashToken(token),
+      expiresAt: new Date(Date.now() + this.ttl[type] * 1000),
+      usedAt: null,
+    });
+
+    await this.accountTokenRepository.save(accountToken);
+
+    return token;
+  }
+
+  /**
+   * Mark a token as used and return the user it belongs to
+   */
+  async consumeToken(token: string, type: AccountTokenType): Promise<string> {
+    if (!token) {
+      throw new BadRequestException('Token is required');
+    }
+
+    const accountToken = await this.accountTokenRepository.findOne({
+      where: { tokenHash: this.hashToken(token), type },
+    });
+
+    if (!accountToken || accountToken.usedAt || accountToken.expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('Token is invalid or has expired');
+    }
+
+    // Conditional update so two concurrent requests cannot both use the token
+    const result = await this.accountTokenRepository.update(
+      { id: accountToken.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+
+    if (!result.affected) {
+      throw new BadRequestException('Token is invalid or has expired');
+    }
+
+    return accountToken.userId;
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
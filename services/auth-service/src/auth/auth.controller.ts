@@ -1,10 +1,20 @@
 import { Controller } from '@nestjs/common';
 import { GrpcMethod } from '@nestjs/microservices';
 import { AuthService } from './auth.service';
+import { TwoFactorService } from './two-factor.service';
+import { AccountLockedException } from './login-attempt.service';
+import { SigningKeyService } from './signing-key.service';
+import { AccountDeletionService } from './account-deletion.service';
+import { AccountDeletion } from '../entities/account-deletion.entity';
 
 @Controller()
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly signingKeyService: SigningKeyService,
+    private readonly accountDeletionService: AccountDeletionService,
+  ) {}
 
   @GrpcMethod('AuthService', 'Register')
   async register(data: { email: string; password: string; username: string }) {
@@ -29,12 +39,27 @@ export class AuthController {
   }
 
   @GrpcMethod('AuthService', 'Login')
-  async login(data: { email: string; password: string }) {
+  async login(data: { email: string; password: string; ip_address?: string; user_agent?: string }) {
     try {
-      const { userId, accessToken } = await this.authService.login(
+      const { userId, accessToken, refreshToken, challengeToken } = await this.authService.login(
         data.email,
         data.password,
+        data.ip_address || undefined,
+        data.user_agent || undefined,
       );
+
+      if (challengeToken) {
+        return {
+          success: true,
+          access_token: '',
+          refresh_token: '',
+          user_id: userId,
+          message: 'Two-factor authentication required',
+          two_factor_required: true,
+          challenge_token: challengeToken,
+          retry_after_seconds: 0,
+        };
+      }
       
       if (!accessToken || !userId) {
         // console.error('[AuthController] Missing token or userId:', { accessToken: !!accessToken, userId: !!userId });
@@ -44,8 +69,12 @@ export class AuthController {
       const response = {
         success: true,
         access_token: accessToken,
+        refresh_token: refreshToken,
         user_id: userId,
         message: 'Login successful',
+        two_factor_required: false,
+        challenge_token: '',
+        retry_after_seconds: 0,
       };
       
       // console.log('[AuthController] Returning response:', {
@@ -63,8 +92,211 @@ export class AuthController {
       return {
         success: false,
         access_token: '',
+        refresh_token: '',
         user_id: '',
         message: error instanceof Error ? error.message : 'Login failed',
+        two_factor_required: false,
+        challenge_token: '',
+        retry_after_seconds: error instanceof AccountLockedException ? error.retryAfterSeconds : 0,
+      };
+    }
+  }
+
+  @GrpcMethod('AuthService', 'VerifyTwoFactorLogin')
+  async verifyTwoFactorLogin(data: { challenge_token: string; code: string; ip_address?: string; user_agent?: string }) {
+    try {
+      const { userId, accessToken, refreshToken } = await this.authService.verifyTwoFactorLogin(
+        data.challenge_token,
+        data.code,
+        data.ip_address || undefined,
+        data.user_agent || undefined,
+      );
+      return {
+        success: true,
+        access_token: accessToken,
+        refresh_token: refreshToken,
+        user_id: userId,
+        message: 'Login successful',
+        two_factor_required: false,
+        challenge_token: '',
+        retry_after_seconds: 0,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        access_token: '',
+        refresh_token: '',
+        user_id: '',
+        message: error instanceof Error ? error.message : 'Two-factor verification failed',
+        two_factor_required: false,
+        challenge_token: '',
+        retry_after_seconds: error instanceof AccountLockedException ? error.retryAfterSeconds : 0,
+      };
+    }
+  }
+
+  @GrpcMethod('AuthService', 'EnrollTwoFactor')
+  async enrollTwoFactor(data: { user_id: string }) {
+    try {
+      const { secret, otpauthUrl } = await this.twoFactorService.enroll(data.user_id);
+      return {
+        success: true,
+        secret,
+        otpauth_url: otpauthUrl,
+        message: 'Scan the code with your authenticator app, then confirm',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        secret: '',
+        otpauth_url: '',
+        message: error instanceof Error ? error.message : 'Two-factor enrollment failed',
+      };
+    }
+  }
+
+  @GrpcMethod('AuthService', 'ConfirmTwoFactor')
+  async confirmTwoFactor(data: { user_id: string; code: string }) {
+    try {
+      const recoveryCodes = await this.twoFactorService.confirm(data.user_id, data.code);
+      return {
+        success: true,
+        recovery_codes: recoveryCodes,
+        message: 'Two-factor authentication enabled',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        recovery_codes: [],
+        message: error instanceof Error ? error.message : 'Two-factor confirmation failed',
+      };
+    }
+  }
+
+  @GrpcMethod('AuthService', 'DisableTwoFactor')
+  async disableTwoFactor(data: { user_id: string; code: string }) {
+    try {
+      await this.twoFactorService.disable(data.user_id, data.code);
+      return {
+        success: true,
+        message: 'Two-factor authentication disabled',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to disable two-factor authentication',
+      };
+    }
+  }
+
+  @GrpcMethod('AuthService', 'RegenerateRecoveryCodes')
+  async regenerateRecoveryCodes(data: { user_id: string; code: string }) {
+    try {
+      const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(data.user_id, data.code);
+      return {
+        success: true,
+        recovery_codes: recoveryCodes,
+        message: 'Recovery codes regenerated',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        recovery_codes: [],
+        message: error instanceof Error ? error.message : 'Failed to regenerate recovery codes',
+      };
+    }
+  }
+
+  @GrpcMethod('AuthService', 'RefreshToken')
+  async refreshToken(data: { refresh_token: string; ip_address?: string; user_agent?: string }) {
+    try {
+      const { userId, accessToken, refreshToken } = await this.authService.refreshToken(
+        data.refresh_token,
+        {
+          ipAddress: data.ip_address || undefined,
+          userAgent: data.user_agent || undefined,
+        },
+      );
+      return {
+        success: true,
+        access_token: accessToken,
+        refresh_token: refreshToken,
+        user_id: userId,
+        message: 'Token refreshed successfully',
+        two_factor_required: false,
+        challenge_token: '',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        access_token: '',
+        refresh_token: '',
+        user_id: '',
+        message: error instanceof Error ? error.message : 'Token refresh failed',
+        two_factor_required: false,
+        challenge_token: '',
+      };
+    }
+  }
+
+  @GrpcMethod('AuthService', 'Logout')
+  async logout(data: { user_id: string; session_id: string }) {
+    const revoked = await this.authService.logout(data.user_id, data.session_id);
+    return {
+      success: true,
+      revoked_count: revoked ? 1 : 0,
+      message: 'Logged out successfully',
+    };
+  }
+
+  @GrpcMethod('AuthService', 'LogoutAll')
+  async logoutAll(data: { user_id: string }) {
+    const revokedCount = await this.authService.logoutAll(data.user_id);
+    return {
+      success: true,
+      revoked_count: revokedCount,
+      message: 'Logged out of all devices',
+    };
+  }
+
+  @GrpcMethod('AuthService', 'ListSessions')
+  async listSessions(data: { user_id: string; current_session_id?: string }) {
+    try {
+      const sessions = await this.authService.getActiveSessions(data.user_id);
+      return {
+        success: true,
+        sessions: sessions.map((session) => ({
+          id: session.id,
+          user_agent: session.userAgent || '',
+          ip_address: session.ipAddress || '',
+          created_at: session.createdAt.toISOString(),
+          last_used_at: (session.lastUsedAt || session.createdAt).toISOString(),
+          expires_at: session.expiresAt.toISOString(),
+          current: session.id === data.current_session_id,
+        })),
+        message: '',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        sessions: [],
+        message: error instanceof Error ? error.message : 'Failed to list sessions',
+      };
+    }
+  }
+
+  @GrpcMethod('AuthService', 'RevokeSession')
+  async revokeSession(data: { user_id: string; session_id: string }) {
+    try {
+      await this.authService.revokeSession(data.user_id, data.session_id);
+      return {
+        success: true,
+        message: 'Session revoked',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to revoke session',
       };
     }
   }
@@ -77,15 +309,69 @@ export class AuthController {
         valid: true,
         user_id: result.userId,
         email: result.email,
+        session_id: result.sessionId,
+        role: result.role,
       };
     }
     return {
       valid: false,
       user_id: '',
       email: '',
+      session_id: '',
+      role: '',
+    };
+  }
+
+  @GrpcMethod('AuthService', 'VerifyEmail')
+  async verifyEmail(data: { token: string }) {
+    try {
+      await this.authService.verifyEmail(data.token);
+      return {
+        success: true,
+        message: 'Email verified successfully',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Email verification failed',
+      };
+    }
+  }
+
+  @GrpcMethod('AuthService', 'ResendVerification')
+  async resendVerification(data: { email: string }) {
+    await this.authService.resendVerification(data.email);
+    return {
+      success: true,
+      message: 'If the account exists and is unverified, a verification email has been sent',
+    };
+  }
+
+  @GrpcMethod('AuthService', 'RequestPasswordReset')
+  async requestPasswordReset(data: { email: string }) {
+    await this.authService.requestPasswordReset(data.email);
+    return {
+      success: true,
+      message: 'If the account exists, a password reset email has been sent',
     };
   }
 
+  @GrpcMethod('AuthService', 'ResetPassword')
+  async resetPassword(data: { token: string; new_password: string }) {
+    try {
+      await this.authService.resetPassword(data.token, data.new_password);
+      return {
+        success: true,
+        message: 'Password reset successfully',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Password reset failed',
+      };
+    }
+  }
+
   @GrpcMethod('AuthService', 'GetUserById')
   async getUserById(data: { user_id: string }) {
     const user = await this.authService.getUserById(data.user_id);
@@ -94,12 +380,228 @@ export class AuthController {
         id: user.id,
         email: user.email,
         created_at: user.createdAt.toISOString(),
+        email_verified: user.emailVerified,
+        role: user.role,
       };
     }
     return {
       id: '',
       email: '',
       created_at: '',
+      email_verified: false,
+      role: '',
+    };
+  }
+
+  @GrpcMethod('AuthService', 'SetUserRole')
+  async setUserRole(data: { actor_id: string; user_id: string; role: string }) {
+    try {
+      const user = await this.authService.setUserRole(data.actor_id, data.user_id, data.role);
+      return {
+        success: true,
+        user_id: user.id,
+        role: user.role,
+        message: 'Role updated successfully',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        user_id: '',
+        role: '',
+        message: error instanceof Error ? error.message : 'Failed to update role',
+      };
+    }
+  }
+
+  @GrpcMethod('AuthService', 'GetSigningKeys')
+  async getSigningKeys() {
+    return {
+      keys: this.signingKeyService.getPublicKeys(),
+    };
+  }
+
+  @GrpcMethod('AuthService', 'RotateSigningKeys')
+  async rotateSigningKeys(data: { actor_id: string }) {
+    try {
+      const kid = await this.authService.rotateSigningKeys(data.actor_id);
+      return {
+        success: true,
+        kid,
+        message: 'Signing key rotated successfully',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        kid: '',
+        message: error instanceof Error ? error.message : 'Failed to rotate signing key',
+      };
+    }
+  }
+
+  @GrpcMethod('AuthService', 'ListOidcProviders')
+  async listOidcProviders() {
+    return {
+      providers: this.authService.getOidcProviders(),
+    };
+  }
+
+  @GrpcMethod('AuthService', 'StartOidcLogin')
+  async startOidcLogin(data: { provider: string; link_user_id?: string }) {
+    try {
+      const authorizationUrl = await this.authService.startOidcLogin(
+        data.provider,
+        data.link_user_id || undefined,
+      );
+      return {
+        success: true,
+        authorization_url: authorizationUrl,
+        message: 'Redirect to provider',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        authorization_url: '',
+        message: error instanceof Error ? error.message : 'Failed to start login',
+      };
+    }
+  }
+
+  @GrpcMethod('AuthService', 'CompleteOidcLogin')
+  async completeOidcLogin(data: { provider: string; code: string; state: string; ip_address?: string; user_agent?: string }) {
+    try {
+      const { userId, accessToken, refreshToken, challengeToken, linked } =
+        await this.authService.completeOidcLogin(data.provider, data.code, data.state, {
+          ipAddress: data.ip_address || undefined,
+          userAgent: data.user_agent || undefined,
+        });
+      return {
+        success: true,
+        access_token: accessToken,
+        refresh_token: refreshToken,
+        user_id: userId,
+        message: linked ? 'Account linked successfully' : challengeToken ? 'Two-factor authentication required' : 'Login successful',
+        two_factor_required: !!challengeToken,
+        challenge_token: challengeToken || '',
+        identity_linked: !!linked,
+      };
+    } catch (error) {
+      console.error('[AuthController] OIDC login error:', error);
+      return {
+        success: false,
+        access_token: '',
+        refresh_token: '',
+        user_id: '',
+        message: error instanceof Error ? error.message : 'Login failed',
+        two_factor_required: false,
+        challenge_token: '',
+        identity_linked: false,
+      };
+    }
+  }
+
+  @GrpcMethod('AuthService', 'ListIdentities')
+  async listIdentities(data: { user_id: string }) {
+    const identities = await this.authService.getIdentities(data.user_id);
+    return {
+      identities: identities.map((identity) => ({
+        provider: identity.provider,
+        email: identity.email || '',
+        created_at: identity.createdAt.toISOString(),
+      })),
+    };
+  }
+
+  @GrpcMethod('AuthService', 'UnlinkIdentity')
+  async unlinkIdentity(data: { user_id: string; provider: string }) {
+    try {
+      await this.authService.unlinkIdentity(data.user_id, data.provider);
+      return {
+        success: true,
+        message: 'Provider unlinked successfully',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to unlink provider',
+      };
+    }
+  }
+
+  @GrpcMethod('AuthService', 'RequestAccountDeletion')
+  async requestAccountDeletion(data: { user_id: string; password: string }) {
+    try {
+      const deletion = await this.accountDeletionService.requestDeletion(data.user_id, data.password);
+      return {
+        success: true,
+        message: 'Account scheduled for deletion',
+        ...this.toDeletionResponse(deletion),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to schedule account deletion',
+      };
+    }
+  }
+
+  @GrpcMethod('AuthService', 'CancelAccountDeletion')
+  async cancelAccountDeletion(data: { user_id: string }) {
+    try {
+      const deletion = await this.accountDeletionService.cancelDeletion(data.user_id);
+      return {
+        success: true,
+        message: 'Account deletion cancelled',
+        ...this.toDeletionResponse(deletion),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to cancel account deletion',
+      };
+    }
+  }
+
+  @GrpcMethod('AuthService', 'GetAccountDeletion')
+  async getAccountDeletion(data: { user_id: string }) {
+    try {
+      const deletion = await this.accountDeletionService.getDeletion(data.user_id);
+      return {
+        success: true,
+        message: deletion ? '' : 'No account deletion requested',
+        ...(deletion ? this.toDeletionResponse(deletion) : {}),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to get account deletion',
+      };
+    }
+  }
+
+  @GrpcMethod('AuthService', 'ExportUserData')
+  async exportUserData(data: { user_id: string }) {
+    try {
+      const exported = await this.authService.exportUserData(data.user_id);
+      return {
+        success: true,
+        message: '',
+        data: JSON.stringify(exported),
+        media: [],
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to export user data',
+        data: '',
+        media: [],
+      };
+    }
+  }
+
+  private toDeletionResponse(deletion: AccountDeletion) {
+    return {
+      status: deletion.status,
+      scheduled_for: deletion.scheduledFor.toISOString(),
     };
   }
 }
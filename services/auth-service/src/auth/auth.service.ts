@@ -1,19 +1,59 @@
-import { Injectable, ConflictException, UnauthorizedException } from '@nestjs/common';
+import { Injectable, ConflictException, UnauthorizedException, BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
 import * as bcrypt from 'bcryptjs';
-import { User } from '../entities/user.entity';
+import { randomUUID } from 'crypto';
+import { User, UserRole } from '../entities/user.entity';
+import { Session } from '../entities/session.entity';
+import { ExternalIdentity } from '../entities/external-identity.entity';
+import { AccountTokenType } from '../entities/account-token.entity';
 import { EventPublisherService } from '../events/event-publisher.service';
+import { SessionService, SessionContext } from './session.service';
+import { AccountTokenService } from './account-token.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginAttemptService } from './login-attempt.service';
+import { SigningKeyService } from './signing-key.service';
+import { TokenDenylistService } from './token-denylist.service';
+import { OidcService, OidcProfile } from './oidc.service';
+
+const TWO_FACTOR_CHALLENGE_TYPE = '2fa_challenge';
 
 @Injectable()
 export class AuthService {
+  private readonly twoFactorChallengeTtl: number;
+  private readonly adminEmails: Set<string>;
+
   constructor(
     @InjectRepository(User)
     private userRepository: Repository<User>,
+    @InjectRepository(ExternalIdentity)
+    private externalIdentityRepository: Repository<ExternalIdentity>,
     private jwtService: JwtService,
     private eventPublisher: EventPublisherService,
-  ) {}
+    private sessionService: SessionService,
+    private accountTokenService: AccountTokenService,
+    private twoFactorService: TwoFactorService,
+    private loginAttemptService: LoginAttemptService,
+    private signingKeyService: SigningKeyService,
+    private tokenDenylistService: TokenDenylistService,
+    private oidcService: OidcService,
+    private configService: ConfigService,
+  ) {
+    this.twoFactorChallengeTtl = parseInt(
+      this.configService.get<string>('TWO_FACTOR_CHALLENGE_EXPIRES_IN') || '300',
+      10,
+    );
+
+    // Accounts with these emails become admins once the email is verified (bootstraps the first admin)
+    this.adminEmails = new Set(
+      (this.configService.get<string>('ADMIN_EMAILS') || '')
+        .split(',')
+        .map((email) => email.trim().toLowerCase())
+        .filter(Boolean),
+    );
+  }
 
   async register(email: string, password: string, username?: string): Promise<{ userId: string }> {
     const existingUser = await this.userRepository.findOne({
@@ -30,6 +70,7 @@ export class AuthService {
     const user = this.userRepository.create({
       email,
       passwordHash,
+      role: UserRole.USER,
     });
 
     const savedUser = await this.userRepository.save(user);
@@ -37,12 +78,111 @@ export class AuthService {
     // Publish user.created event for profile creation
     await this.eventPublisher.publishUserCreated(savedUser.id, savedUser.email, username);
 
+    await this.sendVerificationEmail(savedUser);
+
     return { userId: savedUser.id };
   }
 
-  async login(email: string, password: string): Promise<{ userId: string; accessToken: string }> {
+  async verifyEmail(token: string): Promise<{ userId: string }> {
+    const userId = await this.accountTokenService.consumeToken(token, AccountTokenType.EMAIL_VERIFICATION);
+
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new BadRequestException('Token is invalid or has expired');
+    }
+
+    if (!user.emailVerified) {
+      this.markEmailVerified(user);
+      await this.userRepository.save(user);
+    }
+
+    return { userId: user.id };
+  }
+
+  async resendVerification(email: string): Promise<void> {
+    const user = await this.userRepository.findOne({
+      where: { email },
+    });
+
+    // Silently succeed so the endpoint can't be used to probe for accounts
+    if (!user || user.emailVerified) {
+      return;
+    }
+
+    await this.sendVerificationEmail(user);
+  }
+
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.userRepository.findOne({
+      where: { email },
+    });
+
+    // Silently succeed so the endpoint can't be used to probe for accounts
+    if (!user) {
+      return;
+    }
+
+    const token = await this.accountTokenService.issueToken(user.id, AccountTokenType.PASSWORD_RESET);
+    await this.eventPublisher.publishPasswordResetRequested(user.id, user.email, token);
+  }
+
+  async resetPassword(token: string, newPassword: string): Promise<{ userId: string }> {
+    if (!newPassword || newPassword.length < 8) {
+      throw new BadRequestException('Password must be at least 8 characters long');
+    }
+
+    const userId = await this.accountTokenService.consumeToken(token, AccountTokenType.PASSWORD_RESET);
+
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new BadRequestException('Token is invalid or has expired');
+    }
+
+    const saltRounds = 10;
+    user.passwordHash = await bcrypt.hash(newPassword, saltRounds);
+
+    // The reset link proves ownership of the mailbox
+    if (!user.emailVerified) {
+      this.markEmailVerified(user);
+    }
+
+    await this.userRepository.save(user);
+
+    // Whoever had the old password must not keep their sessions
+    await this.sessionService.revokeAllSessions(user.id);
+
+    return { userId: user.id };
+  }
+
+  /**
+   * Admin emails only get the role once ownership of the mailbox is proven,
+   * so nobody can claim it by registering the address first
+   */
+  private markEmailVerified(user: User): void {
+    user.emailVerified = true;
+    user.emailVerifiedAt = new Date();
+    if (this.adminEmails.has(user.email.toLowerCase())) {
+      user.role = UserRole.ADMIN;
+    }
+  }
+
+  private async sendVerificationEmail(user: User): Promise<void> {
+    const token = await this.accountTokenService.issueToken(user.id, AccountTokenType.EMAIL_VERIFICATION);
+    await this.eventPublisher.publishVerificationRequested(user.id, user.email, token);
+  }
+
+  async login(email: string, password: string, ipAddress?: string, userAgent?: string): Promise<{ userId: string; accessToken: string; refreshToken: string; challengeToken?: string }> {
     // console.log('[AuthService] Login attempt for:', email);
-    
+
+    // Refuse before touching the password so a locked account can't be probed
+    await this.loginAttemptService.assertNotLocked(email, ipAddress);
+
     // Find user
     const user = await this.userRepository.findOne({
       where: { email },
@@ -50,52 +190,375 @@ export class AuthService {
 
     if (!user) {
       console.error('[AuthService] User not found:', email);
+      await this.recordFailedLogin(email, null, ipAddress);
       throw new UnauthorizedException('Invalid credentials');
     }
 
     // console.log('[AuthService] User found:', { id: user.id, email: user.email });
 
-    // Verify password
-    const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
+    // Verify password (accounts created through a provider may not have one)
+    const isPasswordValid = !!user.passwordHash && (await bcrypt.compare(password, user.passwordHash));
 
     if (!isPasswordValid) {
       console.error('[AuthService] Invalid password for:', email);
+      await this.recordFailedLogin(email, user, ipAddress);
       throw new UnauthorizedException('Invalid credentials');
     }
 
     // console.log('[AuthService] Password valid, generating token...');
 
-    // Generate JWT token
-    const payload = { sub: user.id, email: user.email };
-    // console.log('[AuthService] JWT payload:', payload);
-    // console.log('[AuthService] JWT service available:', !!this.jwtService);
-    
-    const accessToken = this.jwtService.sign(payload);
-    // console.log('[AuthService] Token generated:', { 
-    //   hasToken: !!accessToken, 
-    //   tokenLength: accessToken?.length,
-    //   tokenPreview: accessToken?.substring(0, 20) + '...'
-    // });
-
-    const result = {
+    // Password alone isn't enough - hand back a short-lived challenge for the second step
+    if (user.twoFactorEnabled) {
+      return this.createTwoFactorChallenge(user);
+    }
+
+    await this.loginAttemptService.recordSuccess(email);
+
+    return this.startSession(user, { ipAddress, userAgent });
+  }
+
+  private createTwoFactorChallenge(user: User): { userId: string; accessToken: string; refreshToken: string; challengeToken: string } {
+    const challengeToken = this.jwtService.sign(
+      { sub: user.id, typ: TWO_FACTOR_CHALLENGE_TYPE },
+      { expiresIn: this.twoFactorChallengeTtl },
+    );
+
+    return {
+      userId: user.id,
+      accessToken: '',
+      refreshToken: '',
+      challengeToken,
+    };
+  }
+
+  getOidcProviders(): string[] {
+    return this.oidcService.getProviderNames();
+  }
+
+  /**
+   * Start an external login. With `linkUserId` the identity is linked to that
+   * (already logged in) user instead of logging in.
+   */
+  async startOidcLogin(provider: string, linkUserId?: string): Promise<string> {
+    if (linkUserId && !(await this.getUserById(linkUserId))) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    return this.oidcService.createAuthorizationUrl(provider, linkUserId);
+  }
+
+  async completeOidcLogin(
+    provider: string,
+    code: string,
+    state: string,
+    context: SessionContext = {},
+  ): Promise<{ userId: string; accessToken: string; refreshToken: string; challengeToken?: string; linked?: boolean }> {
+    const profile = await this.oidcService.completeAuthorization(provider, code, state);
+
+    if (profile.linkUserId) {
+      await this.linkIdentity(profile.linkUserId, profile);
+      return { userId: profile.linkUserId, accessToken: '', refreshToken: '', linked: true };
+    }
+
+    const user = await this.findOrCreateOidcUser(profile);
+
+    // The provider stands in for the password, not for the second factor
+    if (user.twoFactorEnabled) {
+      return this.createTwoFactorChallenge(user);
+    }
+
+    return this.startSession(user, context);
+  }
+
+  async getIdentities(userId: string): Promise<ExternalIdentity[]> {
+    return this.externalIdentityRepository.find({
+      where: { userId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async unlinkIdentity(userId: string, provider: string): Promise<void> {
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const identities = await this.getIdentities(userId);
+    const identity = identities.find((candidate) => candidate.provider === provider);
+
+    if (!identity) {
+      throw new NotFoundException(`No ${provider} account is linked`);
+    }
+
+    // Never leave an account without any way to log in
+    if (!user.passwordHash && identities.length === 1) {
+      throw new BadRequestException('Set a password before unlinking your only login provider');
+    }
+
+    await this.externalIdentityRepository.delete({ id: identity.id });
+  }
+
+  private async findOrCreateOidcUser(profile: OidcProfile): Promise<User> {
+    const identity = await this.externalIdentityRepository.findOne({
+      where: { provider: profile.provider, subject: profile.subject },
+    });
+
+    if (identity) {
+      const linkedUser = await this.getUserById(identity.userId);
+      if (!linkedUser) {
+        throw new UnauthorizedException('User not found');
+      }
+      return linkedUser;
+    }
+
+    if (!profile.email) {
+      throw new BadRequestException('Your provider did not share an email address');
+    }
+
+    let user = await this.userRepository.findOne({
+      where: { email: profile.email },
+    });
+
+    if (user) {
+      // Only trust the provider to prove ownership of an existing account if it verified the email
+      if (!profile.emailVerified) {
+        throw new ConflictException(
+          'An account with this email already exists. Log in with your password and link the provider from your settings.',
+        );
+      }
+
+      // Whoever registered it may not own the mailbox and would keep their
+      // password and sessions once it's linked
+      if (!user.emailVerified) {
+        throw new ConflictException(
+          'An account with this email already exists but was never verified. Reset its password to claim it, then link the provider from your settings.',
+        );
+      }
+    } else {
+      user = await this.userRepository.save(
+        this.userRepository.create({
+          email: profile.email,
+          passwordHash: null,
+          emailVerified: profile.emailVerified,
+          emailVerifiedAt: profile.emailVerified ? new Date() : null,
+          role: profile.emailVerified && this.adminEmails.has(profile.email.toLowerCase()) ? UserRole.ADMIN : UserRole.USER,
+        }),
+      );
+
+      // Same path as password registration so user-service creates the profile
+      await this.eventPublisher.publishUserCreated(user.id, user.email);
+
+      if (!user.emailVerified) {
+        await this.sendVerificationEmail(user);
+      }
+    }
+
+    await this.externalIdentityRepository.save(
+      this.externalIdentityRepository.create({
+        userId: user.id,
+        provider: profile.provider,
+        subject: profile.subject,
+        email: profile.email,
+      }),
+    );
+
+    return user;
+  }
+
+  private async linkIdentity(userId: string, profile: OidcProfile): Promise<void> {
+    const existing = await this.externalIdentityRepository.findOne({
+      where: { provider: profile.provider, subject: profile.subject },
+    });
+
+    if (existing) {
+      if (existing.userId !== userId) {
+        throw new ConflictException(`This ${profile.provider} account is already linked to another user`);
+      }
+      return;
+    }
+
+    const alreadyLinked = await this.externalIdentityRepository.findOne({
+      where: { userId, provider: profile.provider },
+    });
+
+    if (alreadyLinked) {
+      throw new ConflictException(`A different ${profile.provider} account is already linked`);
+    }
+
+    await this.externalIdentityRepository.save(
+      this.externalIdentityRepository.create({
+        userId,
+        provider: profile.provider,
+        subject: profile.subject,
+        email: profile.email,
+      }),
+    );
+  }
+
+  async verifyTwoFactorLogin(challengeToken: string, code: string, ipAddress?: string, userAgent?: string): Promise<{ userId: string; accessToken: string; refreshToken: string }> {
+    let payload: { sub: string; typ?: string };
+    try {
+      payload = this.jwtService.verify(challengeToken);
+    } catch (error) {
+      throw new UnauthorizedException('Challenge expired, please log in again');
+    }
+
+    if (payload.typ !== TWO_FACTOR_CHALLENGE_TYPE) {
+      throw new UnauthorizedException('Invalid challenge token');
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { id: payload.sub },
+    });
+
+    if (!user || !user.twoFactorEnabled) {
+      throw new UnauthorizedException('Invalid challenge token');
+    }
+
+    // Wrong codes count against the same limit as wrong passwords
+    await this.loginAttemptService.assertNotLocked(user.email, ipAddress);
+
+    if (!(await this.twoFactorService.verifyCode(user, code))) {
+      console.error('[AuthService] Invalid two-factor code for:', user.email);
+      await this.recordFailedLogin(user.email, user, ipAddress);
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+
+    await this.loginAttemptService.recordSuccess(user.email);
+
+    return this.startSession(user, { ipAddress, userAgent });
+  }
+
+  /**
+   * Count a failed attempt and warn the owner the first time their account gets locked
+   */
+  private async recordFailedLogin(email: string, user: User | null, ipAddress?: string): Promise<void> {
+    const lock = await this.loginAttemptService.recordFailure(email, ipAddress);
+
+    if (lock && user) {
+      await this.eventPublisher.publishLoginLocked(
+        user.id,
+        user.email,
+        ipAddress,
+        lock.failedAttempts,
+        lock.lockedUntil,
+      );
+    }
+  }
+
+  /**
+   * Every login opens a new session so it can be refreshed and revoked on its
+   * own. Logins from a device we haven't seen before are reported to the user.
+   */
+  private async startSession(
+    user: User,
+    context: SessionContext = {},
+  ): Promise<{ userId: string; accessToken: string; refreshToken: string }> {
+    const { session, refreshToken, isNewDevice } = await this.sessionService.createSession(user.id, context);
+
+    const accessToken = await this.signAccessToken(user, session);
+
+    if (isNewDevice) {
+      await this.eventPublisher.publishNewDeviceLogin(
+        user.id,
+        user.email,
+        session.id,
+        session.ipAddress,
+        session.userAgent,
+      );
+    }
+
+    return {
+      userId: user.id,
+      accessToken,
+      refreshToken,
+    };
+  }
+
+  async refreshToken(
+    refreshToken: string,
+    context: SessionContext = {},
+  ): Promise<{ userId: string; accessToken: string; refreshToken: string }> {
+    const { session, refreshToken: newRefreshToken } = await this.sessionService.rotateSession(refreshToken, context);
+
+    const user = await this.userRepository.findOne({
+      where: { id: session.userId },
+    });
+
+    if (!user) {
+      await this.sessionService.revokeSession(session.userId, session.id);
+      throw new UnauthorizedException('User not found');
+    }
+
+    // Re-read from the user row so role changes apply from the next refresh
+    const accessToken = await this.signAccessToken(user, session);
+
+    return {
       userId: user.id,
       accessToken,
+      refreshToken: newRefreshToken,
     };
-    
-    // console.log('[AuthService] Returning:', { 
-    //   userId: result.userId, 
-    //   hasToken: !!result.accessToken 
-    // });
+  }
 
-    return result;
+  /**
+   * Access tokens are signed with the rotating RSA key and carry a `jti` so
+   * they can be denylisted individually
+   */
+  private async signAccessToken(user: User, session: Session): Promise<string> {
+    const jti = randomUUID();
+    const accessToken = this.signingKeyService.sign(
+      { sub: user.id, email: user.email, sid: session.id, role: user.role },
+      { jwtid: jti },
+    );
+
+    const { exp } = this.jwtService.decode<{ exp: number }>(accessToken);
+    await this.sessionService.recordAccessToken(session, jti, new Date(exp * 1000));
+
+    return accessToken;
   }
 
-  async validateToken(token: string): Promise<{ userId: string; email: string } | null> {
+  async logout(userId: string, sessionId: string): Promise<boolean> {
+    return this.sessionService.revokeSession(userId, sessionId);
+  }
+
+  async logoutAll(userId: string): Promise<number> {
+    return this.sessionService.revokeAllSessions(userId);
+  }
+
+  async getActiveSessions(userId: string): Promise<Session[]> {
+    return this.sessionService.getActiveSessions(userId);
+  }
+
+  /**
+   * Revoke one of the user's own sessions
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const revoked = await this.sessionService.revokeSession(userId, sessionId);
+
+    if (!revoked) {
+      throw new NotFoundException('Session not found');
+    }
+  }
+
+  async validateToken(token: string): Promise<{ userId: string; email: string; sessionId: string; role: UserRole } | null> {
     try {
-      const payload = this.jwtService.verify(token);
+      const payload = await this.signingKeyService.verify(token);
+
+      if (!payload.jti || (await this.tokenDenylistService.isRevoked(payload.jti))) {
+        return null;
+      }
+
+      // Tokens are only as valid as the session they were issued for
+      if (!payload.sid || !(await this.sessionService.isSessionActive(payload.sid))) {
+        return null;
+      }
+
       return {
         userId: payload.sub,
         email: payload.email,
+        sessionId: payload.sid,
+        // Tokens issued before roles existed carry no role claim
+        role: payload.role || UserRole.USER,
       };
     } catch (error) {
       return null;
@@ -107,5 +570,94 @@ export class AuthService {
       where: { id: userId },
     });
   }
-}
 
+  /**
+   * Force a signing key rotation, e.g. after a suspected key compromise
+   */
+  async rotateSigningKeys(actorId: string): Promise<string> {
+    const actor = await this.getUserById(actorId);
+    if (!actor || actor.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can rotate signing keys');
+    }
+
+    const key = await this.signingKeyService.rotate();
+    return key.id;
+  }
+
+  /**
+   * Change a user's role. The user's sessions are revoked so the new role
+   * can't be outlived by tokens carrying the old one.
+   */
+  async setUserRole(actorId: string, userId: string, role: string): Promise<User> {
+    if (!Object.values(UserRole).includes(role as UserRole)) {
+      throw new BadRequestException(`Role must be one of: ${Object.values(UserRole).join(', ')}`);
+    }
+
+    const actor = await this.getUserById(actorId);
+    if (!actor || actor.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can change roles');
+    }
+
+    // Stops the last admin from accidentally locking everyone out
+    if (actorId === userId) {
+      throw new BadRequestException('You cannot change your own role');
+    }
+
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (user.role !== role) {
+      user.role = role as UserRole;
+      await this.userRepository.save(user);
+      await this.sessionService.revokeAllSessions(user.id);
+    }
+
+    return user;
+  }
+
+  /**
+   * Personal data export: the account record, linked providers and login
+   * history. Secrets (password hash, TOTP secret, token hashes) are left out.
+   */
+  async exportUserData(userId: string): Promise<Record<string, unknown>> {
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const [identities, sessions] = await Promise.all([
+      this.getIdentities(userId),
+      this.sessionService.getSessions(userId),
+    ]);
+
+    return {
+      account: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        email_verified: user.emailVerified,
+        email_verified_at: user.emailVerifiedAt?.toISOString() || null,
+        two_factor_enabled: user.twoFactorEnabled,
+        has_password: !!user.passwordHash,
+        created_at: user.createdAt.toISOString(),
+        updated_at: user.updatedAt.toISOString(),
+      },
+      identities: identities.map((identity) => ({
+        provider: identity.provider,
+        email: identity.email,
+        created_at: identity.createdAt.toISOString(),
+      })),
+      sessions: sessions.map((session) => ({
+        id: session.id,
+        created_at: session.createdAt.toISOString(),
+        expires_at: session.expiresAt.toISOString(),
+        revoked_at: session.revokedAt?.toISOString() || null,
+        user_agent: session.userAgent,
+        ip_address: session.ipAddress,
+        last_used_at: session.lastUsedAt?.toISOString() || null,
+      })),
+    };
+  }
+}
@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CacheService } from '../cache/cache.service';
+import { AccountLockedException, LoginAttemptService } from './login-attempt.service';
+
+/**
+ * Just enough of CacheService, backed by a Map (TTLs are recorded, not enforced)
+ */
+class InMemoryCache {
+  readonly store = new Map<string, unknown>();
+  readonly ttls = new Map<string, number>();
+
+  async mget<T>(keys: string[], prefix: string): Promise<(T | null)[]> {
+    return keys.map((key) => (this.store.get(`${prefix}:${key}`) as T) ?? null);
+  }
+
+  async increment(key: string, prefix: string): Promise<number> {
+    const value = ((this.store.get(`${prefix}:${key}`) as number) || 0) + 1;
+    this.store.set(`${prefix}:${key}`, value);
+    return value;
+  }
+
+  async expire(key: string, ttl: number, prefix: string): Promise<void> {
+    this.ttls.set(`${prefix}:${key}`, ttl);
+  }
+
+  async set(key: string, value: unknown, options: { ttl: number; prefix: string }): Promise<void> {
+    this.store.set(`${options.prefix}:${key}`, value);
+    this.ttls.set(`${options.prefix}:${key}`, options.ttl);
+  }
+
+  async delete(key: string, prefix: string): Promise<void> {
+    this.store.delete(`${prefix}:${key}`);
+  }
+}
+
+describe('LoginAttemptService', () => {
+  let service: LoginAttemptService;
+  let cache: InMemoryCache;
+
+  const config: Record<string, string> = {
+    LOGIN_MAX_ATTEMPTS: '3',
+    LOGIN_IP_MAX_ATTEMPTS: '5',
+    LOGIN_LOCKOUT_BASE_SECONDS: '60',
+    LOGIN_LOCKOUT_MAX_SECONDS: '300',
+  };
+
+  const failTimes = async (count: number, email = 'jane@example.com', ip?: string) => {
+    let result: Awaited<ReturnType<LoginAttemptService['recordFailure']>> = null;
+    for (let i = 0; i < count; i++) {
+      result = await service.recordFailure(email, ip);
+    }
+    return result;
+  };
+
+  beforeEach(async () => {
+    cache = new InMemoryCache();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginAttemptService,
+        { provide: CacheService, useValue: cache },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+      ],
+    }).compile();
+
+    service = module.get<LoginAttemptService>(LoginAttemptService);
+  });
+
+  it('does not lock below the threshold', async () => {
+    expect(await failTimes(2)).toBeNull();
+    await expect(service.assertNotLocked('jane@example.com')).resolves.toBeUndefined();
+  });
+
+  it('locks the account at the threshold and reports it once', async () => {
+    const lock = await failTimes(3);
+
+    expect(lock).toEqual({ failedAttempts: 3, lockedUntil: expect.any(Date) });
+    await expect(service.assertNotLocked('JANE@example.com ')).rejects.toThrow(AccountLockedException);
+
+    // Later failures extend the lock but don't report it again
+    expect(await failTimes(1)).toBeNull();
+  });
+
+  it('doubles the lockout with every further failure, up to the cap', async () => {
+    await failTimes(3);
+    expect(cache.ttls.get('auth:login:lock:account:jane@example.com')).toBe(60);
+
+    await failTimes(1);
+    expect(cache.ttls.get('auth:login:lock:account:jane@example.com')).toBe(120);
+
+    await failTimes(5);
+    expect(cache.ttls.get('auth:login:lock:account:jane@example.com')).toBe(300);
+  });
+
+  it('locks an IP across accounts', async () => {
+    for (const email of ['a@example.com', 'b@example.com', 'c@example.com', 'd@example.com', 'e@example.com']) {
+      await service.recordFailure(email, '10.0.0.1');
+    }
+
+    await expect(service.assertNotLocked('f@example.com', '10.0.0.1')).rejects.toThrow(AccountLockedException);
+    await expect(service.assertNotLocked('f@example.com', '10.0.0.2')).resolves.toBeUndefined();
+  });
+
+  it('clears the account lock on success but keeps the IP counter', async () => {
+    await failTimes(3, 'jane@example.com', '10.0.0.1');
+
+    await service.recordSuccess('jane@example.com');
+
+    await expect(service.assertNotLocked('jane@example.com')).resolves.toBeUndefined();
+    expect(cache.store.get('auth:login:failures:ip:10.0.0.1')).toBe(3);
+  });
+});
@@ -0,0 +1,146 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CacheService } from '../cache/cache.service';
+
+export class AccountLockedException extends HttpException {
+  constructor(public readonly retryAfterSeconds: number) {
+    super(
+      `Too many failed login attempts. Try again in ${retryAfterSeconds} seconds`,
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
+
+/**
+ * Login Attempt Service
+ * Tracks failed logins per account and per IP in Redis.
+ * Once a counter reaches its threshold, every further failure locks that
+ * account/IP for exponentially longer (base * 2^n, capped).
+ */
+@Injectable()
+export class LoginAttemptService {
+  private readonly CACHE_PREFIX = 'auth';
+  private readonly maxAccountAttempts: number;
+  private readonly maxIpAttempts: number;
+  private readonly attemptWindow: number;
+  private readonly lockoutBase: number;
+  private readonly lockoutMax: number;
+
+  constructor(
+    private cacheService: CacheService,
+    private configService: ConfigService,
+  ) {
+    this.maxAccountAttempts = this.getNumber('LOGIN_MAX_ATTEMPTS', 5);
+    this.maxIpAttempts = this.getNumber('LOGIN_IP_MAX_ATTEMPTS', 20);
+    this.attemptWindow = this.getNumber('LOGIN_ATTEMPT_WINDOW_SECONDS', 3600);
+    this.lockoutBase = this.getNumber('LOGIN_LOCKOUT_BASE_SECONDS', 60);
+    this.lockoutMax = this.getNumber('LOGIN_LOCKOUT_MAX_SECONDS', 3600);
+  }
+
+  /**
+   * Throws AccountLockedException if either the account or the IP is locked
+   */
+  async assertNotLocked(email: string, ipAddress?: string): Promise<void> {
+    const keys = [this.lockKey('account', this.normalizeEmail(email))];
+    if (ipAddress) {
+      keys.push(this.lockKey('ip', ipAddress));
+    }
+
+    const lockedUntil = await this.cacheService.mget<number>(keys, this.CACHE_PREFIX);
+    const latest = Math.max(0, ...lockedUntil.map((value) => Number(value) || 0));
+
+    if (latest > Date.now()) {
+      throw new AccountLockedException(Math.ceil((latest - Date.now()) / 1000));
+    }
+  }
+
+  /**
+   * Record a failure. Returns the lock details if this failure locked the
+   * account for the first time in the current window, otherwise null.
+   */
+  async recordFailure(
+    email: string,
+    ipAddress?: string,
+  ): Promise<{ failedAttempts: number; lockedUntil: Date } | null> {
+    const accountId = this.normalizeEmail(email);
+
+    const accountFailures = await this.incrementFailures('account', accountId);
+    const accountLockedUntil = await this.applyLockout(
+      'account',
+      accountId,
+      accountFailures,
+      this.maxAccountAttempts,
+    );
+
+    if (ipAddress) {
+      const ipFailures = await this.incrementFailures('ip', ipAddress);
+      await this.applyLockout('ip', ipAddress, ipFailures, this.maxIpAttempts);
+    }
+
+    if (accountFailures !== this.maxAccountAttempts || !accountLockedUntil) {
+      return null;
+    }
+
+    return { failedAttempts: accountFailures, lockedUntil: accountLockedUntil };
+  }
+
+  /**
+   * Successful login clears the account counter. The IP counter is left alone
+   * so an attacker can't reset it by logging into their own account.
+   */
+  async recordSuccess(email: string): Promise<void> {
+    const accountId = this.normalizeEmail(email);
+    await Promise.all([
+      this.cacheService.delete(this.failureKey('account', accountId), this.CACHE_PREFIX),
+      this.cacheService.delete(this.lockKey('account', accountId), this.CACHE_PREFIX),
+    ]);
+  }
+
+  private async incrementFailures(scope: 'account' | 'ip', id: string): Promise<number> {
+    const key = this.failureKey(scope, id);
+    const failures = await this.cacheService.increment(key, this.CACHE_PREFIX);
+    await this.cacheService.expire(key, this.attemptWindow, this.CACHE_PREFIX);
+    return failures;
+  }
+
+  private async applyLockout(
+    scope: 'account' | 'ip',
+    id: string,
+    failures: number,
+    threshold: number,
+  ): Promise<Date | null> {
+    if (failures < threshold) {
+      return null;
+    }
+
+    const duration = Math.min(
+      this.lockoutBase * 2 ** (failures - threshold),
+      this.lockoutMax,
+    );
+    const lockedUntil = new Date(Date.now() + duration * 1000);
+
+    await this.cacheService.set(this.lockKey(scope, id), lockedUntil.getTime(), {
+      ttl: duration,
+      prefix: this.CACHE_PREFIX,
+    });
+
+    return lockedUntil;
+  }
+
+  private failureKey(scope: 'account' | 'ip', id: string): string {
+    return `login:failures:${scope}:${id}`;
+  }
+
+  private lockKey(scope: 'account' | 'ip', id: string): string {
+    return `login:lock:${scope}:${id}`;
+  }
+
+  private normalizeEmail(email: string): string {
+    return (email || '').trim().toLowerCase();
+  }
+
+  private getNumber(key: string, fallback: number): number {
+    const value = parseInt(this.configService.get<string>(key) || '', 10);
+    return Number.isNaN(value) ? fallback : value;
+  }
+}
@@ -0,0 +1,338 @@
+import { Injectable, BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, createPublicKey, randomBytes, JsonWebKey } from 'crypto';
+import { CacheService } from '../cache/cache.service';
+
+const METADATA_TTL_MS = 60 * 60 * 1000;
+const ID_TOKEN_ALGORITHMS = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512', 'PS256'] as const;
+
+interface OidcProviderConfig {
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scopes: string;
+  // Explicit endpoints override discovery (needed for OAuth2-only providers like GitHub)
+  authorizationEndpoint?: string;
+  tokenEndpoint?: string;
+  userinfoEndpoint?: string;
+  jwksUri?: string;
+}
+
+interface OidcMetadata {
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  userinfoEndpoint?: string;
+  jwksUri?: string;
+}
+
+interface OidcState {
+  provider: string;
+  nonce: string;
+  codeVerifier: string;
+  linkUserId: string | null;
+}
+
+export interface OidcProfile {
+  provider: string;
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  // Set when the flow was started by a logged-in user linking an identity
+  linkUserId: string | null;
+}
+
+/**
+ * OIDC Service
+ * Generic OpenID Connect authorization code flow (with PKCE) against the
+ * providers listed in OIDC_PROVIDERS. Each provider is configured with
+ * OIDC_<NAME>_* variables; see .env.example.
+ */
+@Injectable()
+export class OidcService {
+  private readonly CACHE_PREFIX = 'auth';
+  private readonly stateTtl: number;
+  private readonly providers = new Map<string, OidcProviderConfig>();
+  private readonly metadata = new Map<string, { value: OidcMetadata; fetchedAt: number }>();
+  private readonly jwks = new Map<string, { keys: JsonWebKey[]; fetchedAt: number }>();
+
+  constructor(
+    private cacheService: CacheService,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+  ) {
+    this.stateTtl = parseInt(this.configService.get<string>('OIDC_STATE_EXPIRES_IN') || '600', 10);
+
+    const names = (this.configService.get<string>('OIDC_PROVIDERS') || '')
+      .split(',')
+      .map((name) => name.trim().toLowerCase())
+      .filter(Boolean);
+
+    for (const name of names) {
+      const env = (key: string) => this.configService.get<string>(`OIDC_${name.toUpperCase()}_${key}`);
+      const clientId = env('CLIENT_ID');
+      const redirectUri = env('REDIRECT_URI');
+
+      if (!clientId || !redirectUri) {
+        console.error(`[OidcService] Provider "${name}" is missing CLIENT_ID or REDIRECT_URI, skipping`);
+        continue;
+      }
+
+      this.providers.set(name, {
+        name,
+        issuer: (env('ISSUER') || '').replace(/\/$/, ''),
+        clientId,
+        clientSecret: env('CLIENT_SECRET') || '',
+        redirectUri,
+        scopes: env('SCOPES') || 'openid email profile',
+        authorizationEndpoint: env('AUTHORIZATION_ENDPOINT'),
+        tokenEndpoint: env('TOKEN_ENDPOINT'),
+        userinfoEndpoint: env('USERINFO_ENDPOINT'),
+        jwksUri: env('JWKS_URI'),
+      });
+    }
+  }
+
+  getProviderNames(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Build the provider's authorization URL. State, nonce and the PKCE
+   * verifier are kept in Redis until the callback comes back.
+   */
+  async createAuthorizationUrl(providerName: string, linkUserId?: string): Promise<string> {
+    const provider = this.getProvider(providerName);
+    const metadata = await this.getMetadata(provider);
+
+    const state = randomBytes(32).toString('base64url');
+    const nonce = randomBytes(16).toString('base64url');
+    const codeVerifier = randomBytes(32).toString('base64url');
+
+    const stored: OidcState = {
+      provider: provider.name,
+      nonce,
+      codeVerifier,
+      linkUserId: linkUserId || null,
+    };
+    await this.cacheService.set(this.stateKey(state), stored, {
+      ttl: this.stateTtl,
+      prefix: this.CACHE_PREFIX,
+    });
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: provider.clientId,
+      redirect_uri: provider.redirectUri,
+      scope: provider.scopes,
+      state,
+      nonce,
+      code_challenge: createHash('sha256').update(codeVerifier).digest('base64url'),
+      code_challenge_method: 'S256',
+    });
+
+    return `${metadata.authorizationEndpoint}?${params.toString()}`;
+  }
+
+  /**
+   * Handle the callback: check state, exchange the code and return who the
+   * provider says the user is
+   */
+  async completeAuthorization(providerName: string, code: string, state: string): Promise<OidcProfile> {
+    if (!code || !state) {
+      throw new BadRequestException('Missing code or state');
+    }
+
+    const provider = this.getProvider(providerName);
+
+    // State is single use
+    const stored = await this.cacheService.get<OidcState>(this.stateKey(state), this.CACHE_PREFIX);
+    await this.cacheService.delete(this.stateKey(state), this.CACHE_PREFIX);
+
+    if (!stored || stored.provider !== provider.name) {
+      throw new UnauthorizedException('Login request expired, please try again');
+    }
+
+    const metadata = await this.getMetadata(provider);
+    const tokens = await this.exchangeCode(provider, metadata, code, stored.codeVerifier);
+
+    let claims: Record<string, any> = {};
+    if (tokens.id_token) {
+      claims = await this.verifyIdToken(provider, metadata, tokens.id_token, stored.nonce);
+    }
+
+    // OAuth2-only providers have no ID token; some ID tokens omit the email
+    if ((!claims.sub || !claims.email) && metadata.userinfoEndpoint && tokens.access_token) {
+      const userinfo = await this.fetchUserinfo(metadata.userinfoEndpoint, tokens.access_token);
+
+      if (claims.sub && userinfo.sub && String(userinfo.sub) !== String(claims.sub)) {
+        throw new UnauthorizedException('Provider returned inconsistent user info');
+      }
+
+      claims = { ...userinfo, ...claims, email: claims.email || userinfo.email };
+    }
+
+    const subject = claims.sub ?? claims.id;
+    if (subject === undefined || subject === null || subject === '') {
+      throw new UnauthorizedException('Provider did not identify the user');
+    }
+
+    return {
+      provider: provider.name,
+      subject: String(subject),
+      email: claims.email ? String(claims.email).toLowerCase() : null,
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      linkUserId: stored.linkUserId,
+    };
+  }
+
+  private getProvider(name: string): OidcProviderConfig {
+    const provider = this.providers.get((name || '').toLowerCase());
+
+    if (!provider) {
+      throw new BadRequestException(`Unknown login provider: ${name}`);
+    }
+
+    return provider;
+  }
+
+  private async getMetadata(provider: OidcProviderConfig): Promise<OidcMetadata> {
+    const cached = this.metadata.get(provider.name);
+    if (cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS) {
+      return cached.value;
+    }
+
+    let discovered: Record<string, any> = {};
+    if (provider.issuer) {
+      discovered = await this.fetchJson(`${provider.issuer}/.well-known/openid-configuration`);
+    }
+
+    const value: OidcMetadata = {
+      authorizationEndpoint: provider.authorizationEndpoint || discovered.authorization_endpoint,
+      tokenEndpoint: provider.tokenEndpoint || discovered.token_endpoint,
+      userinfoEndpoint: provider.userinfoEndpoint || discovered.userinfo_endpoint,
+      jwksUri: provider.jwksUri || discovered.jwks_uri,
+    };
+
+    if (!value.authorizationEndpoint || !value.tokenEndpoint) {
+      throw new BadRequestException(`Login provider ${provider.name} is misconfigured`);
+    }
+
+    this.metadata.set(provider.name, { value, fetchedAt: Date.now() });
+
+    return value;
+  }
+
+  private async exchangeCode(
+    provider: OidcProviderConfig,
+    metadata: OidcMetadata,
+    code: string,
+    codeVerifier: string,
+  ): Promise<{ access_token?: string; id_token?: string }> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: provider.redirectUri,
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code_verifier: codeVerifier,
+    });
+
+    const response = await fetch(metadata.tokenEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: body.toString(),
+    });
+
+    const tokens = (await response.json().catch(() => ({}))) as Record<string, any>;
+
+    if (!response.ok || tokens.error) {
+      console.error(`[OidcService] Code exchange failed for ${provider.name}:`, tokens.error || response.status);
+      throw new UnauthorizedException('Could not complete login with provider');
+    }
+
+    return tokens;
+  }
+
+  private async verifyIdToken(
+    provider: OidcProviderConfig,
+    metadata: OidcMetadata,
+    idToken: string,
+    nonce: string,
+  ): Promise<Record<string, any>> {
+    if (!metadata.jwksUri) {
+      throw new UnauthorizedException('Cannot verify ID token: provider has no JWKS');
+    }
+
+    const decoded = this.jwtService.decode(idToken, { complete: true });
+    const kid = decoded?.header?.kid;
+
+    let jwk = (await this.getJwks(metadata.jwksUri)).find((key) => !kid || key.kid === kid);
+    if (!jwk) {
+      // Provider may have rotated its keys
+      jwk = (await this.getJwks(metadata.jwksUri, true)).find((key) => key.kid === kid);
+    }
+
+    if (!jwk) {
+      throw new UnauthorizedException('ID token signed with an unknown key');
+    }
+
+    let claims: Record<string, any>;
+    try {
+      claims = this.jwtService.verify(idToken, {
+        secret: createPublicKey({ key: jwk, format: 'jwk' }).export({ type: 'spki', format: 'pem' }).toString(),
+        algorithms: [...ID_TOKEN_ALGORITHMS],
+        audience: provider.clientId,
+        ...(provider.issuer ? { issuer: provider.issuer } : {}),
+      });
+    } catch (error) {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+
+    if (claims.nonce !== nonce) {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+
+    return claims;
+  }
+
+  private async getJwks(jwksUri: string, forceRefresh = false): Promise<JsonWebKey[]> {
+    const cached = this.jwks.get(jwksUri);
+    if (!forceRefresh && cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS) {
+      return cached.keys;
+    }
+
+    const { keys } = await this.fetchJson(jwksUri);
+    this.jwks.set(jwksUri, { keys: keys || [], fetchedAt: Date.now() });
+
+    return keys || [];
+  }
+
+  private async fetchUserinfo(userinfoEndpoint: string, accessToken: string): Promise<Record<string, any>> {
+    return this.fetchJson(userinfoEndpoint, {
+      Authorization: `Bearer ${accessToken}`,
+    });
+  }
+
+  private async fetchJson(url: string, headers: Record<string, string> = {}): Promise<Record<string, any>> {
+    const response = await fetch(url, {
+      headers: { Accept: 'application/json', 'User-Agent': 'smp-auth-service', ...headers },
+    });
+
+    if (!response.ok) {
+      console.error(`[OidcService] Request to ${url} failed with status ${response.status}`);
+      throw new UnauthorizedException('Could not reach login provider');
+    }
+
+    return (await response.json()) as Record<string, any>;
+  }
+
+  private stateKey(state: string): string {
+    return `oidc:state:${state}`;
+  }
+}
@@ -0,0 +1,158 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { Session } from '../entities/session.entity';
+import { SessionService } from './session.service';
+import { TokenDenylistService } from './token-denylist.service';
+
+const hash = (secret: string) => createHash('sha256').update(secret).digest('hex');
+
+describe('SessionService', () => {
+  let service: SessionService;
+  let sessionRepository: {
+    findOne: jest.Mock;
+    update: jest.Mock;
+    count: jest.Mock;
+    createQueryBuilder: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+  };
+  let tokenDenylistService: { revoke: jest.Mock };
+  let knownUserAgents: string[];
+
+  const makeSession = (overrides: Partial<Session> = {}): Session =>
+    ({
+      id: 'session-1',
+      userId: 'user-1',
+      refreshTokenHash: hash('current-secret'),
+      expiresAt: new Date(Date.now() + 60_000),
+      accessTokenJti: 'jti-1',
+      accessTokenExpiresAt: new Date(Date.now() + 60_000),
+      revokedAt: null,
+      userAgent: null,
+      ipAddress: null,
+      lastUsedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    }) as Session;
+
+  beforeEach(async () => {
+    sessionRepository = {
+      findOne: jest.fn(),
+      update: jest.fn(),
+      count: jest.fn(),
+      createQueryBuilder: jest.fn(() => {
+        const query = {
+          select: () => query,
+          where: () => query,
+          andWhere: () => query,
+          getRawMany: async () => knownUserAgents.map((userAgent) => ({ userAgent })),
+        };
+        return query;
+      }),
+      create: jest.fn((session) => session),
+      save: jest.fn(async (session) => ({ id: 'new-session', ...session })),
+    };
+    tokenDenylistService = { revoke: jest.fn() };
+    knownUserAgents = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        { provide: getRepositoryToken(Session), useValue: sessionRepository },
+        { provide: TokenDenylistService, useValue: tokenDenylistService },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    service = module.get<SessionService>(SessionService);
+  });
+
+  describe('rotateSession', () => {
+    it('swaps the refresh token only while the presented one is still current', async () => {
+      sessionRepository.findOne.mockResolvedValue(makeSession());
+      sessionRepository.update.mockResolvedValue({ affected: 1 });
+
+      const { refreshToken } = await service.rotateSession('session-1.current-secret', { ipAddress: '10.0.0.1' });
+
+      const [criteria, changes] = sessionRepository.update.mock.calls[0];
+      expect(criteria).toMatchObject({ id: 'session-1', refreshTokenHash: hash('current-secret') });
+      expect(changes.ipAddress).toBe('10.0.0.1');
+      expect(refreshToken.startsWith('session-1.')).toBe(true);
+      expect(changes.refreshTokenHash).toBe(hash(refreshToken.split('.')[1]));
+    });
+
+    it('revokes the session when an old refresh token is presented', async () => {
+      sessionRepository.findOne.mockResolvedValue(makeSession());
+
+      await expect(service.rotateSession('session-1.old-secret')).rejects.toThrow(UnauthorizedException);
+
+      expect(sessionRepository.update).toHaveBeenCalledTimes(1);
+      expect(sessionRepository.update.mock.calls[0][1]).toEqual({ revokedAt: expect.any(Date) });
+      expect(tokenDenylistService.revoke).toHaveBeenCalledWith('jti-1', expect.any(Date));
+    });
+
+    it('treats losing a concurrent refresh as reuse', async () => {
+      sessionRepository.findOne.mockResolvedValue(makeSession());
+      sessionRepository.update.mockResolvedValueOnce({ affected: 0 }).mockResolvedValue({ affected: 1 });
+
+      await expect(service.rotateSession('session-1.current-secret')).rejects.toThrow(UnauthorizedException);
+
+      expect(sessionRepository.update.mock.calls[1][1]).toEqual({ revokedAt: expect.any(Date) });
+      expect(tokenDenylistService.revoke).toHaveBeenCalled();
+    });
+
+    it('rejects revoked and expired sessions without touching them', async () => {
+      sessionRepository.findOne.mockResolvedValueOnce(makeSession({ revokedAt: new Date() }));
+      await expect(service.rotateSession('session-1.current-secret')).rejects.toThrow('Session expired or revoked');
+
+      sessionRepository.findOne.mockResolvedValueOnce(makeSession({ expiresAt: new Date(Date.now() - 1000) }));
+      await expect(service.rotateSession('session-1.current-secret')).rejects.toThrow('Session expired or revoked');
+
+      expect(sessionRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects malformed tokens', async () => {
+      await expect(service.rotateSession('no-secret')).rejects.toThrow('Invalid refresh token');
+      expect(sessionRepository.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createSession', () => {
+    const chromeOnMac =
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+    it('does not flag the first login as a new device', async () => {
+      sessionRepository.count.mockResolvedValue(0);
+
+      const { isNewDevice } = await service.createSession('user-1', { userAgent: chromeOnMac });
+
+      expect(isNewDevice).toBe(false);
+    });
+
+    it('does not flag a browser update on a known device', async () => {
+      sessionRepository.count.mockResolvedValue(3);
+      knownUserAgents = [chromeOnMac];
+
+      const { isNewDevice } = await service.createSession('user-1', {
+        userAgent: chromeOnMac.replace('Chrome/120.0.0.0', 'Chrome/121.0.6167.85'),
+      });
+
+      expect(isNewDevice).toBe(false);
+    });
+
+    it('flags a different browser or OS', async () => {
+      sessionRepository.count.mockResolvedValue(3);
+      knownUserAgents = [chromeOnMac];
+
+      const { isNewDevice } = await service.createSession('user-1', {
+        userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      });
+
+      expect(isNewDevice).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,254 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, IsNull, MoreThan } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { Session } from '../entities/session.entity';
+import { TokenDenylistService } from './token-denylist.service';
+import { isSameDevice } from '../utils/user-agent';
+
+const MAX_USER_AGENT_LENGTH = 512;
+
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Session Service
+ * Stores one row per login so refresh tokens can be rotated and revoked.
+ * Refresh tokens have the form `<sessionId>.<secret>`; only a hash of the
+ * secret is persisted. Revoking a session also denylists its live access token.
+ */
+@Injectable()
+export class SessionService {
+  private readonly refreshTokenTtl: number;
+
+  constructor(
+    @InjectRepository(Session)
+    private sessionRepository: Repository<Session>,
+    private tokenDenylistService: TokenDenylistService,
+    private configService: ConfigService,
+  ) {
+    // Seconds, default 30 days
+    this.refreshTokenTtl = parseInt(
+      this.configService.get<string>('REFRESH_TOKEN_EXPIRES_IN') || '2592000',
+      10,
+    );
+  }
+
+  /**
+   * Open a session. `isNewDevice` is set when the user has logged in before
+   * but never from this browser, OS and device type.
+   */
+  async createSession(
+    userId: string,
+    context: SessionContext = {},
+  ): Promise<{ session: Session; refreshToken: string; isNewDevice: boolean }> {
+    const userAgent = context.userAgent ? context.userAgent.slice(0, MAX_USER_AGENT_LENGTH) : null;
+    const isNewDevice = await this.isNewDevice(userId, userAgent);
+
+    const secret = this.generateSecret();
+
+    const session = this.sessionRepository.create({
+      userId,
+      refreshTokenHash: this.hashSecret(secret),
+      expiresAt: new Date(Date.now() + this.refreshTokenTtl * 1000),
+      accessTokenJti: null,
+      accessTokenExpiresAt: null,
+      revokedAt: null,
+      userAgent,
+      ipAddress: context.ipAddress || null,
+      lastUsedAt: new Date(),
+    });
+
+    const savedSession = await this.sessionRepository.save(session);
+
+    return {
+      session: savedSession,
+      refreshToken: `${savedSession.id}.${secret}`,
+      isNewDevice,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new one.
+   * Presenting a token that was already rotated means it leaked, so the whole
+   * session is revoked. The swap only succeeds if the stored hash is still
+   * the one presented, so two refreshes racing with the same token can't
+   * both get a new one; the loser counts as reuse.
+   */
+  async rotateSession(
+    refreshToken: string,
+    context: SessionContext = {},
+  ): Promise<{ session: Session; refreshToken: string }> {
+    const [sessionId, secret] = (refreshToken || '').split('.');
+
+    if (!sessionId || !secret) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId },
+    });
+
+    if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException('Session expired or revoked');
+    }
+
+    const presentedHash = this.hashSecret(secret);
+    if (session.refreshTokenHash !== presentedHash) {
+      await this.revokeForReuse(session);
+    }
+
+    const newSecret = this.generateSecret();
+    const changes = {
+      refreshTokenHash: this.hashSecret(newSecret),
+      expiresAt: new Date(Date.now() + this.refreshTokenTtl * 1000),
+      lastUsedAt: new Date(),
+      ...(context.ipAddress ? { ipAddress: context.ipAddress } : {}),
+    };
+
+    const result = await this.sessionRepository.update(
+      { id: session.id, refreshTokenHash: presentedHash, revokedAt: IsNull() },
+      changes,
+    );
+
+    if (!result.affected) {
+      await this.revokeForReuse(session);
+    }
+
+    Object.assign(session, changes);
+
+    return {
+      session,
+      refreshToken: `${session.id}.${newSecret}`,
+    };
+  }
+
+  /**
+   * Remember the access token just issued for a session. The one it replaces
+   * is denylisted, so each session has at most one usable access token.
+   */
+  async recordAccessToken(session: Session, jti: string, expiresAt: Date): Promise<void> {
+    await this.denylistAccessToken(session);
+
+    session.accessTokenJti = jti;
+    session.accessTokenExpiresAt = expiresAt;
+    await this.sessionRepository.update(
+      { id: session.id },
+      { accessTokenJti: jti, accessTokenExpiresAt: expiresAt },
+    );
+  }
+
+  async getSessions(userId: string): Promise<Session[]> {
+    return this.sessionRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Sessions that can still be refreshed, most recently used first
+   */
+  async getActiveSessions(userId: string): Promise<Session[]> {
+    return this.sessionRepository.find({
+      where: { userId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      order: { lastUsedAt: { direction: 'DESC', nulls: 'LAST' }, createdAt: 'DESC' },
+    });
+  }
+
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId },
+    });
+
+    return !!session && !session.revokedAt && session.expiresAt.getTime() > Date.now();
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId, userId, revokedAt: IsNull() },
+    });
+
+    if (!session) {
+      return false;
+    }
+
+    const result = await this.sessionRepository.update(
+      { id: session.id, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+
+    if (!result.affected) {
+      return false;
+    }
+
+    await this.denylistAccessToken(session);
+
+    return true;
+  }
+
+  async revokeAllSessions(userId: string): Promise<number> {
+    const sessions = await this.sessionRepository.find({
+      where: { userId, revokedAt: IsNull() },
+    });
+
+    if (sessions.length === 0) {
+      return 0;
+    }
+
+    const result = await this.sessionRepository.update(
+      { userId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+
+    await Promise.all(sessions.map((session) => this.denylistAccessToken(session)));
+
+    return result.affected || 0;
+  }
+
+  private async isNewDevice(userId: string, userAgent: string | null): Promise<boolean> {
+    // Nothing to compare against on the very first login, or without a user agent
+    const previousSessions = await this.sessionRepository.count({ where: { userId } });
+    if (previousSessions === 0 || !userAgent) {
+      return false;
+    }
+
+    // Compare browser, OS and device type rather than the raw string, which
+    // changes with every browser update
+    const rows: Array<{ userAgent: string }> = await this.sessionRepository
+      .createQueryBuilder('session')
+      .select('DISTINCT session.userAgent', 'userAgent')
+      .where('session.userId = :userId', { userId })
+      .andWhere('session.userAgent IS NOT NULL')
+      .getRawMany();
+
+    return !rows.some((row) => isSameDevice(row.userAgent, userAgent));
+  }
+
+  private async revokeForReuse(session: Session): Promise<never> {
+    console.error('[SessionService] Refresh token reuse detected for session:', session.id);
+    await this.sessionRepository.update({ id: session.id }, { revokedAt: new Date() });
+
+    // Whichever request won the race may have issued a newer access token
+    const latest = await this.sessionRepository.findOne({ where: { id: session.id } });
+    await this.denylistAccessToken(latest || session);
+
+    throw new UnauthorizedException('Invalid refresh token');
+  }
+
+  private async denylistAccessToken(session: Session): Promise<void> {
+    if (session.accessTokenJti && session.accessTokenExpiresAt) {
+      await this.tokenDenylistService.revoke(session.accessTokenJti, session.accessTokenExpiresAt);
+    }
+  }
+
+  private generateSecret(): string {
+    return randomBytes(48).toString('base64url');
+  }
+
+  private hashSecret(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+}
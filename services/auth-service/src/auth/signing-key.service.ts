@@ -0,0 +1,205 @@
+import { Injectable, OnModuleInit, OnModuleDestroy, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService, JwtSignOptions } from '@nestjs/jwt';
+import { Repository, IsNull, LessThan } from 'typeorm';
+import { createPublicKey, generateKeyPairSync } from 'crypto';
+import { SigningKey } from '../entities/signing-key.entity';
+
+const ALGORITHM = 'RS256';
+const RELOAD_INTERVAL_MS = 5 * 60 * 1000;
+// Allowance for clock drift between services
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface PublicJwk {
+  kid: string;
+  kty: string;
+  alg: string;
+  use: string;
+  n: string;
+  e: string;
+}
+
+/**
+ * Signing Key Service
+ * Owns the RSA key pairs used to sign access tokens and publishes the public
+ * halves as a JWKS-style key set so other services can verify tokens locally.
+ *
+ * Rotation: a new key is generated once the active one is older than
+ * JWT_KEY_ROTATION_DAYS (or on demand). The previous key stops signing
+ * immediately but stays published until every token it signed has expired.
+ */
+@Injectable()
+export class SigningKeyService implements OnModuleInit, OnModuleDestroy {
+  private keys: SigningKey[] = [];
+  private reloadTimer: NodeJS.Timeout | null = null;
+  private readonly rotationInterval: number;
+  private readonly accessTokenTtl: number;
+
+  constructor(
+    @InjectRepository(SigningKey)
+    private signingKeyRepository: Repository<SigningKey>,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+  ) {
+    // Seconds
+    this.rotationInterval =
+      parseInt(this.configService.get<string>('JWT_KEY_ROTATION_DAYS') || '30', 10) * 24 * 60 * 60;
+    this.accessTokenTtl = this.parseDuration(this.configService.get<string>('JWT_EXPIRES_IN') || '1h');
+  }
+
+  async onModuleInit() {
+    await this.reload();
+    await this.rotateIfDue();
+
+    // Pick up keys rotated by other instances
+    this.reloadTimer = setInterval(() => {
+      this.reload()
+        .then(() => this.rotateIfDue())
+        .catch((error) => console.error('[SigningKeyService] Failed to refresh keys:', error));
+    }, RELOAD_INTERVAL_MS);
+    this.reloadTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.reloadTimer) {
+      clearInterval(this.reloadTimer);
+    }
+  }
+
+  sign(payload: object, options: JwtSignOptions = {}): string {
+    const key = this.getActiveKey();
+
+    return this.jwtService.sign(payload, {
+      ...options,
+      secret: key.privateKey,
+      algorithm: ALGORITHM,
+      keyid: key.id,
+    });
+  }
+
+  async verify<T extends object = any>(token: string): Promise<T> {
+    const decoded = this.jwtService.decode(token, { complete: true });
+    const kid = decoded?.header?.kid;
+
+    if (!kid) {
+      throw new UnauthorizedException('Invalid token');
+    }
+
+    let key = this.findPublishedKey(kid);
+    if (!key) {
+      // Possibly rotated by another instance since our last reload
+      await this.reload();
+      key = this.findPublishedKey(kid);
+    }
+
+    if (!key) {
+      throw new UnauthorizedException('Invalid token');
+    }
+
+    return this.jwtService.verify<T>(token, {
+      secret: key.publicKey,
+      algorithms: [ALGORITHM],
+    });
+  }
+
+  /**
+   * Public keys that tokens may currently be signed with
+   */
+  getPublicKeys(): PublicJwk[] {
+    return this.keys
+      .filter((key) => this.isPublished(key))
+      .map((key) => {
+        const jwk = createPublicKey(key.publicKey).export({ format: 'jwk' });
+        return {
+          kid: key.id,
+          kty: jwk.kty as string,
+          alg: key.algorithm,
+          use: 'sig',
+          n: jwk.n as string,
+          e: jwk.e as string,
+        };
+      });
+  }
+
+  /**
+   * Start signing with a fresh key. Older keys are retired once the tokens
+   * they signed can no longer be valid.
+   */
+  async rotate(): Promise<SigningKey> {
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+
+    const key = await this.signingKeyRepository.save(
+      this.signingKeyRepository.create({
+        algorithm: ALGORITHM,
+        publicKey,
+        privateKey,
+        retiresAt: null,
+      }),
+    );
+
+    // Only retire keys older than ours, so two instances rotating at once
+    // still leave the newest key active
+    await this.signingKeyRepository.update(
+      { retiresAt: IsNull(), createdAt: LessThan(key.createdAt) },
+      { retiresAt: new Date(Date.now() + (this.accessTokenTtl + CLOCK_SKEW_SECONDS) * 1000) },
+    );
+
+    await this.reload();
+
+    console.log(`[SigningKeyService] Rotated signing key, new kid: ${key.id}`);
+
+    return key;
+  }
+
+  private async rotateIfDue(): Promise<void> {
+    const active = this.keys.find((key) => !key.retiresAt);
+
+    if (!active || active.createdAt.getTime() + this.rotationInterval * 1000 <= Date.now()) {
+      await this.rotate();
+    }
+  }
+
+  private async reload(): Promise<void> {
+    const keys = await this.signingKeyRepository.find({
+      order: { createdAt: 'DESC' },
+    });
+
+    this.keys = keys.filter((key) => this.isPublished(key));
+  }
+
+  private getActiveKey(): SigningKey {
+    const key = this.keys.find((candidate) => !candidate.retiresAt);
+
+    if (!key) {
+      throw new Error('No active signing key');
+    }
+
+    return key;
+  }
+
+  private findPublishedKey(kid: string): SigningKey | undefined {
+    return this.keys.find((key) => key.id === kid && this.isPublished(key));
+  }
+
+  private isPublished(key: SigningKey): boolean {
+    return !key.retiresAt || key.retiresAt.getTime() > Date.now();
+  }
+
+  /**
+   * Seconds from a JWT-style duration ("3600", "60m", "1h", "7d")
+   */
+  private parseDuration(value: string): number {
+    const match = /^(\d+)\s*([smhd]?)$/.exec(value.trim());
+    if (!match) {
+      return 3600;
+    }
+
+    const multipliers: Record<string, number> = { '': 1, s: 1, m: 60, h: 3600, d: 86400 };
+    return parseInt(match[1], 10) * multipliers[match[2]];
+  }
+}
@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { CacheService } from '../cache/cache.service';
+
+/**
+ * Token Denylist Service
+ * Revoked access tokens, keyed by `jti`, kept in Redis only until the token
+ * would have expired anyway. The gateway reads the same keys
+ * (`auth:revoked:jti:<jti>`) when it verifies tokens locally.
+ */
+@Injectable()
+export class TokenDenylistService {
+  private readonly CACHE_PREFIX = 'auth';
+
+  constructor(private cacheService: CacheService) {}
+
+  async revoke(jti: string, expiresAt: Date): Promise<void> {
+    const ttl = Math.ceil((expiresAt.getTime() - Date.now()) / 1000);
+
+    // Already expired, nothing to deny
+    if (ttl <= 0) {
+      return;
+    }
+
+    await this.cacheService.set(this.key(jti), 1, {
+      ttl,
+      prefix: this.CACHE_PREFIX,
+    });
+  }
+
+  async isRevoked(jti: string): Promise<boolean> {
+    return this.cacheService.exists(this.key(jti), this.CACHE_PREFIX);
+  }
+
+  private key(jti: string): string {
+    return `revoked:jti:${jti}`;
+  }
+}
@@ -0,0 +1,190 @@
+import { Injectable, BadRequestException, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, IsNull } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { User } from '../entities/user.entity';
+import { RecoveryCode } from '../entities/recovery-code.entity';
+import { generateTotpSecret, verifyTotp, buildOtpAuthUrl } from '../utils/totp';
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Two-Factor Service
+ * TOTP enrollment and verification plus one-time recovery codes
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly issuer: string;
+
+  constructor(
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    @InjectRepository(RecoveryCode)
+    private recoveryCodeRepository: Repository<RecoveryCode>,
+    private configService: ConfigService,
+  ) {
+    this.issuer = this.configService.get<string>('TOTP_ISSUER') || 'SMP';
+  }
+
+  /**
+   * Start enrollment: store a fresh secret that becomes active once confirmed
+   */
+  async enroll(userId: string): Promise<{ secret: string; otpauthUrl: string }> {
+    const user = await this.getUser(userId);
+
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    user.twoFactorSecret = secret;
+    user.twoFactorLastStep = null;
+    await this.userRepository.save(user);
+
+    return {
+      secret,
+      otpauthUrl: buildOtpAuthUrl(secret, user.email, this.issuer),
+    };
+  }
+
+  /**
+   * Finish enrollment with a code from the authenticator app
+   */
+  async confirm(userId: string, code: string): Promise<string[]> {
+    const user = await this.getUser(userId);
+
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is already enabled');
+    }
+
+    if (!user.twoFactorSecret) {
+      throw new BadRequestException('Two-factor enrollment has not been started');
+    }
+
+    if (!(await this.verifyTotpCode(user, code))) {
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+
+    user.twoFactorEnabled = true;
+    await this.userRepository.save(user);
+
+    return this.replaceRecoveryCodes(user.id);
+  }
+
+  async disable(userId: string, code: string): Promise<void> {
+    const user = await this.getUser(userId);
+
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    if (!(await this.verifyCode(user, code))) {
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+
+    user.twoFactorEnabled = false;
+    user.twoFactorSecret = null;
+    user.twoFactorLastStep = null;
+    await this.userRepository.save(user);
+
+    await this.recoveryCodeRepository.delete({ userId: user.id });
+  }
+
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    const user = await this.getUser(userId);
+
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    // Require the authenticator itself; a recovery code shouldn't mint new ones
+    if (!(await this.verifyTotpCode(user, code))) {
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+
+    return this.replaceRecoveryCodes(user.id);
+  }
+
+  /**
+   * Accepts either a TOTP code or an unused recovery code
+   */
+  async verifyCode(user: User, code: string): Promise<boolean> {
+    if (await this.verifyTotpCode(user, code)) {
+      return true;
+    }
+
+    return this.consumeRecoveryCode(user.id, code);
+  }
+
+  private async verifyTotpCode(user: User, code: string): Promise<boolean> {
+    if (!user.twoFactorSecret) {
+      return false;
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step === null) {
+      return false;
+    }
+
+    if (user.twoFactorLastStep !== null && step <= user.twoFactorLastStep) {
+      return false;
+    }
+
+    user.twoFactorLastStep = step;
+    await this.userRepository.update({ id: user.id }, { twoFactorLastStep: step });
+
+    return true;
+  }
+
+  private async consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+    const normalized = (code || '').trim().toLowerCase();
+    if (!normalized) {
+      return false;
+    }
+
+    const result = await this.recoveryCodeRepository.update(
+      { userId, codeHash: this.hashCode(normalized), usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+
+    return (result.affected || 0) > 0;
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    await this.recoveryCodeRepository.delete({ userId });
+
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+
+    await this.recoveryCodeRepository.save(
+      codes.map((code) =>
+        this.recoveryCodeRepository.create({
+          userId,
+          codeHash: this.hashCode(code),
+          usedAt: null,
+        }),
+      ),
+    );
+
+    return codes;
+  }
+
+  private async getUser(userId: string): Promise<User> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+
+  private hashCode(code: string): string {
+    return createHash('sha256').update(code).digest('hex');
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum AccountDeletionStatus {
+  SCHEDULED = 'scheduled', // Waiting out the grace period, can be cancelled
+  CANCELLED = 'cancelled',
+  IN_PROGRESS = 'in_progress', // user.deleted published, waiting for services to report back
+  COMPLETED = 'completed',
+}
+
+/**
+ * Kept after the user row is gone as the record of the erasure.
+ * No personal data beyond the (now dangling) user id.
+ */
+@Entity({ name: 'account_deletions', schema: 'auth' })
+@Index(['userId'])
+@Index(['status', 'scheduledFor'])
+export class AccountDeletion {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'enum', enum: AccountDeletionStatus, default: AccountDeletionStatus.SCHEDULED })
+  status: AccountDeletionStatus;
+
+  @Column({ name: 'scheduled_for', type: 'timestamp' })
+  scheduledFor: Date;
+
+  @Column({ name: 'cancelled_at', type: 'timestamp', nullable: true })
+  cancelledAt: Date | null;
+
+  @Column({ name: 'started_at', type: 'timestamp', nullable: true })
+  startedAt: Date | null;
+
+  // Services that have reported their part of the erasure as done
+  @Column({ name: 'completed_services', type: 'jsonb', default: () => "'[]'" })
+  completedServices: string[];
+
+  @Column({ name: 'completed_at', type: 'timestamp', nullable: true })
+  completedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,35 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * An account at an external OIDC provider linked to a local user
+ */
+@Entity({ name: 'external_identities', schema: 'auth' })
+@Index(['provider', 'subject'], { unique: true })
+@Index(['userId'])
+export class ExternalIdentity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  // Provider name as configured in OIDC_PROVIDERS (e.g. "google")
+  @Column()
+  provider: string;
+
+  // The provider's stable user id (`sub` claim)
+  @Column()
+  subject: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  email: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
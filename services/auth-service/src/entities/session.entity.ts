@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity({ name: 'sessions', schema: 'auth' })
+@Index(['userId'])
+export class Session {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  // SHA-256 of the current refresh token secret; replaced on every rotation
+  @Column({ name: 'refresh_token_hash' })
+  refreshTokenHash: string;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt: Date;
+
+  // `jti` of the latest access token issued for this session, so it can be
+  // denylisted when the session is refreshed or revoked
+  @Column({ name: 'access_token_jti', type: 'varchar', nullable: true })
+  accessTokenJti: string | null;
+
+  @Column({ name: 'access_token_expires_at', type: 'timestamp', nullable: true })
+  accessTokenExpiresAt: Date | null;
+
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  // Device the session was opened from, shown in the session list
+  @Column({ name: 'user_agent', type: 'varchar', length: 512, nullable: true })
+  userAgent: string | null;
+
+  // Most recent client IP (login or refresh)
+  @Column({ name: 'ip_address', type: 'varchar', length: 45, nullable: true })
+  ipAddress: string | null;
+
+  // Bumped on every refresh; access tokens are verified without reaching us
+  @Column({ name: 'last_used_at', type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,30 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+} from 'typeorm';
+
+@Entity({ name: 'signing_keys', schema: 'auth' })
+export class SigningKey {
+  // Doubles as the JWT `kid` header
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ default: 'RS256' })
+  algorithm: string;
+
+  @Column({ name: 'public_key', type: 'text' })
+  publicKey: string;
+
+  @Column({ name: 'private_key', type: 'text' })
+  privateKey: string;
+
+  // Set when a newer key takes over signing. The key stays published until
+  // then so tokens it already signed keep verifying.
+  @Column({ name: 'retires_at', type: 'timestamp', nullable: true })
+  retiresAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -6,6 +6,12 @@ import {
   UpdateDateColumn,
 } from 'typeorm';
 
+export enum UserRole {
+  USER = 'user',
+  MODERATOR = 'moderator',
+  ADMIN = 'admin',
+}
+
 @Entity({ name: 'users', schema: 'auth' })
 export class User {
   @PrimaryGeneratedColumn('uuid')
@@ -14,8 +20,29 @@ export class User {
   @Column({ unique: true })
   email: string;
 
-  @Column({ name: 'password_hash' })
-  passwordHash: string;
+  // Null for accounts created through an external provider until a password is set
+  @Column({ name: 'password_hash', type: 'varchar', nullable: true })
+  passwordHash: string | null;
+
+  @Column({ type: 'enum', enum: UserRole, default: UserRole.USER })
+  role: UserRole;
+
+  @Column({ name: 'email_verified', default: false })
+  emailVerified: boolean;
+
+  @Column({ name: 'email_verified_at', type: 'timestamp', nullable: true })
+  emailVerifiedAt: Date | null;
+
+  @Column({ name: 'two_factor_enabled', default: false })
+  twoFactorEnabled: boolean;
+
+  // Base32 TOTP secret; set on enrollment, only trusted once two_factor_enabled is true
+  @Column({ name: 'two_factor_secret', type: 'varchar', nullable: true })
+  twoFactorSecret: string | null;
+
+  // Last accepted TOTP time step, so a code can't be replayed within its window
+  @Column({ name: 'two_factor_last_step', type: 'int', nullable: true })
+  twoFactorLastStep: number | null;
 
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
@@ -78,5 +78,206 @@ export class EventPublisherService implements OnModuleInit, OnModuleDestroy {
       console.error('[EventPublisher] Failed to publish user.created event:', error);
     }
   }
-}
 
+  async publishVerificationRequested(userId: string, email: string, token: string) {
+    if (!this.channel) {
+      console.error('[EventPublisher] Channel not initialized');
+      return;
+    }
+
+    try {
+      const message = {
+        eventType: 'user.verification_requested',
+        userId,
+        email,
+        token,
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.channel.publish(
+        this.exchange,
+        'user.verification_requested',
+        Buffer.from(JSON.stringify(message)),
+        {
+          persistent: true,
+        },
+      );
+
+      console.log(`[EventPublisher] Published user.verification_requested event for user: ${userId}`);
+    } catch (error) {
+      console.error('[EventPublisher] Failed to publish user.verification_requested event:', error);
+    }
+  }
+
+  async publishPasswordResetRequested(userId: string, email: string, token: string) {
+    if (!this.channel) {
+      console.error('[EventPublisher] Channel not initialized');
+      return;
+    }
+
+    try {
+      const message = {
+        eventType: 'user.password_reset_requested',
+        userId,
+        email,
+        token,
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.channel.publish(
+        this.exchange,
+        'user.password_reset_requested',
+        Buffer.from(JSON.stringify(message)),
+        {
+          persistent: true,
+        },
+      );
+
+      console.log(`[EventPublisher] Published user.password_reset_requested event for user: ${userId}`);
+    } catch (error) {
+      console.error('[EventPublisher] Failed to publish user.password_reset_requested event:', error);
+    }
+  }
+
+  async publishLoginLocked(
+    userId: string,
+    email: string,
+    ipAddress: string | undefined,
+    failedAttempts: number,
+    lockedUntil: Date,
+  ) {
+    if (!this.channel) {
+      console.error('[EventPublisher] Channel not initialized');
+      return;
+    }
+
+    try {
+      const message = {
+        eventType: 'user.login_locked',
+        userId,
+        email,
+        ipAddress: ipAddress || null,
+        failedAttempts,
+        lockedUntil: lockedUntil.toISOString(),
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.channel.publish(
+        this.exchange,
+        'user.login_locked',
+        Buffer.from(JSON.stringify(message)),
+        {
+          persistent: true,
+        },
+      );
+
+      console.log(`[EventPublisher] Published user.login_locked event for user: ${userId}`);
+    } catch (error) {
+      console.error('[EventPublisher] Failed to publish user.login_locked event:', error);
+    }
+  }
+
+  async publishNewDeviceLogin(
+    userId: string,
+    email: string,
+    sessionId: string,
+    ipAddress: string | null,
+    userAgent: string | null,
+  ) {
+    if (!this.channel) {
+      console.error('[EventPublisher] Channel not initialized');
+      return;
+    }
+
+    try {
+      const message = {
+        eventType: 'user.new_device_login',
+        userId,
+        email,
+        sessionId,
+        ipAddress,
+        userAgent,
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.channel.publish(
+        this.exchange,
+        'user.new_device_login',
+        Buffer.from(JSON.stringify(message)),
+        {
+          persistent: true,
+        },
+      );
+
+      console.log(`[EventPublisher] Published user.new_device_login event for user: ${userId}`);
+    } catch (error) {
+      console.error('[EventPublisher] Failed to publish user.new_device_login event:', error);
+    }
+  }
+
+  async publishAccountDeletionScheduled(userId: string, email: string, scheduledFor: Date) {
+    if (!this.channel) {
+      console.error('[EventPublisher] Channel not initialized');
+      return;
+    }
+
+    try {
+      const message = {
+        eventType: 'user.deletion_scheduled',
+        userId,
+        email,
+        scheduledFor: scheduledFor.toISOString(),
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.channel.publish(
+        this.exchange,
+        'user.deletion_scheduled',
+        Buffer.from(JSON.stringify(message)),
+        {
+          persistent: true,
+        },
+      );
+
+      console.log(`[EventPublisher] Published user.deletion_scheduled event for user: ${userId}`);
+    } catch (error) {
+      console.error('[EventPublisher] Failed to publish user.deletion_scheduled event:', error);
+    }
+  }
+
+  /**
+   * Unlike the other events this one throws on failure: the account must not
+   * be erased here unless the other services are told to erase theirs
+   */
+  async publishUserDeleted(userId: string, email: string | null) {
+    if (!this.channel) {
+      throw new Error('RabbitMQ channel not initialized');
+    }
+
+    try {
+      const message = {
+        eventType: 'user.deleted',
+        userId,
+        email,
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.channel.publish(
+        this.exchange,
+        'user.deleted',
+        Buffer.from(JSON.stringify(message)),
+        {
+          persistent: true,
+        },
+      );
+
+      // Confirm channel: wait for the broker to take it
+      await this.channel.waitForConfirms();
+
+      console.log(`[EventPublisher] Published user.deleted event for user: ${userId}`);
+    } catch (error) {
+      console.error('[EventPublisher] Failed to publish user.deleted event:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUrl,
+  currentTimeStep,
+  generateTotp,
+  generateTotpSecret,
+  verifyTotp,
+} from './totp';
+
+// RFC 6238 appendix B test secret ("12345678901234567890"), base32 encoded
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp utils', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('base32', () => {
+    it('encodes RFC 4648 vectors without padding', () => {
+      expect(base32Encode(Buffer.from('f'))).toBe('MY');
+      expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+      expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET);
+    });
+
+    it('decodes case-insensitively, ignoring padding and whitespace', () => {
+      expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+    });
+
+    it('rejects characters outside the alphabet', () => {
+      expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character');
+    });
+
+    it('round-trips generated secrets', () => {
+      const secret = generateTotpSecret();
+      expect(secret).toHaveLength(32);
+      expect(base32Encode(base32Decode(secret))).toBe(secret);
+    });
+  });
+
+  describe('generateTotp', () => {
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+    ])('matches the RFC 6238 SHA1 vector at T=%d', (seconds, code) => {
+      expect(generateTotp(RFC_SECRET, currentTimeStep(seconds * 1000))).toBe(code);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1234567890 * 1000;
+    const step = currentTimeStep(now);
+
+    beforeEach(() => {
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+    });
+
+    it('returns the matching step for the current code', () => {
+      expect(verifyTotp(RFC_SECRET, '005924')).toBe(step);
+      expect(verifyTotp(RFC_SECRET, '005 924')).toBe(step);
+    });
+
+    it('allows one step of drift either way by default', () => {
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1))).toBe(step - 1);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1))).toBe(step + 1);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 2))).toBeNull();
+    });
+
+    it('rejects malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '')).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '12345')).toBeNull();
+      expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+    });
+  });
+
+  describe('buildOtpAuthUrl', () => {
+    it('builds a URI authenticator apps understand', () => {
+      expect(buildOtpAuthUrl('ABC', 'jane@example.com', 'Acme')).toBe(
+        'otpauth://totp/Acme%3Ajane%40example.com?secret=ABC&issuer=Acme&algorithm=SHA1&digits=6&period=30',
+      );
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { isSameDevice, parseUserAgent } from './user-agent';
+
+const CHROME_MAC =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const EDGE_WINDOWS =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.2210.91';
+const SAFARI_IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1';
+const SAFARI_IPAD =
+  'Mozilla/5.0 (iPad; CPU OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1';
+const FIREFOX_ANDROID = 'Mozilla/5.0 (Android 14; Mobile; rv:121.0) Gecko/121.0 Firefox/121.0';
+const CHROME_ANDROID_TABLET =
+  'Mozilla/5.0 (Linux; Android 14; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+describe('user agent utils', () => {
+  describe('parseUserAgent', () => {
+    it.each([
+      [CHROME_MAC, { browser: 'Chrome', os: 'macOS', deviceType: 'desktop' }],
+      [EDGE_WINDOWS, { browser: 'Edge', os: 'Windows', deviceType: 'desktop' }],
+      [SAFARI_IPHONE, { browser: 'Safari', os: 'iOS', deviceType: 'mobile' }],
+      [SAFARI_IPAD, { browser: 'Safari', os: 'iOS', deviceType: 'tablet' }],
+      [FIREFOX_ANDROID, { browser: 'Firefox', os: 'Android', deviceType: 'mobile' }],
+      [CHROME_ANDROID_TABLET, { browser: 'Chrome', os: 'Android', deviceType: 'tablet' }],
+    ])('parses %s', (userAgent, expected) => {
+      expect(parseUserAgent(userAgent)).toEqual(expected);
+    });
+
+    it('returns null for clients it does not recognise', () => {
+      expect(parseUserAgent('curl/8.4.0')).toBeNull();
+    });
+  });
+
+  describe('isSameDevice', () => {
+    it('ignores browser and OS versions', () => {
+      const updated = CHROME_MAC.replace('10_15_7', '14_2_1').replace('Chrome/120.0.0.0', 'Chrome/121.0.6167.85');
+      expect(isSameDevice(CHROME_MAC, updated)).toBe(true);
+    });
+
+    it('tells browsers, operating systems and device types apart', () => {
+      expect(isSameDevice(CHROME_MAC, EDGE_WINDOWS)).toBe(false);
+      expect(isSameDevice(SAFARI_IPHONE, SAFARI_IPAD)).toBe(false);
+      expect(isSameDevice(FIREFOX_ANDROID, CHROME_ANDROID_TABLET)).toBe(false);
+    });
+
+    it('falls back to an exact match for unrecognised clients', () => {
+      expect(isSameDevice('curl/8.4.0', 'curl/8.4.0')).toBe(true);
+      expect(isSameDevice('curl/8.4.0', 'curl/8.5.0')).toBe(false);
+      expect(isSameDevice('curl/8.4.0', CHROME_MAC)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Utility functions for telling devices apart by their user agent
+ * Only the browser family, OS and device type are kept, so a browser or
+ * OS update doesn't make a known device look new.
+ */
+
+export interface DeviceInfo {
+  browser: string;
+  os: string;
+  deviceType: 'mobile' | 'tablet' | 'desktop';
+}
+
+// Order matters: Edge, Opera and Samsung Internet also claim to be Chrome,
+// and every Chromium browser also claims to be Safari
+const BROWSERS: Array<[string, RegExp]> = [
+  ['Edge', /\bEdg(e|A|iOS)?\//],
+  ['Opera', /\bOPR\/|\bOpera\b/],
+  ['Samsung Internet', /\bSamsungBrowser\//],
+  ['Firefox', /\bFirefox\/|\bFxiOS\//],
+  ['Chrome', /\bChrome\/|\bCriOS\//],
+  ['Safari', /\bVersion\/[\d.]+.*\bSafari\//],
+];
+
+const OPERATING_SYSTEMS: Array<[string, RegExp]> = [
+  ['iOS', /\b(iPhone|iPad|iPod)\b/],
+  ['Android', /\bAndroid\b/],
+  ['Windows', /\bWindows\b/],
+  ['ChromeOS', /\bCrOS\b/],
+  ['macOS', /\bMac OS X\b|\bMacintosh\b/],
+  ['Linux', /\bLinux\b/],
+];
+
+/**
+ * Browser family, OS and device type, or null when neither the browser
+ * nor the OS is recognised (scripts, unknown clients)
+ */
+export function parseUserAgent(userAgent: string): DeviceInfo | null {
+  const browser = BROWSERS.find(([, pattern]) => pattern.test(userAgent))?.[0];
+  const os = OPERATING_SYSTEMS.find(([, pattern]) => pattern.test(userAgent))?.[0];
+
+  if (!browser && !os) {
+    return null;
+  }
+
+  return {
+    browser: browser || 'Unknown',
+    os: os || 'Unknown',
+    deviceType: getDeviceType(userAgent),
+  };
+}
+
+/**
+ * Whether two user agents come from the same kind of device. Falls back to
+ * an exact match when either can't be parsed.
+ */
+export function isSameDevice(a: string, b: string): boolean {
+  const first = parseUserAgent(a);
+  const second = parseUserAgent(b);
+
+  if (!first || !second) {
+    return a === b;
+  }
+
+  return first.browser === second.browser && first.os === second.os && first.deviceType === second.deviceType;
+}
+
+function getDeviceType(userAgent: string): DeviceInfo['deviceType'] {
+  if (/\biPad\b|\bTablet\b/.test(userAgent) || (/\bAndroid\b/.test(userAgent) && !/\bMobile\b/.test(userAgent))) {
+    return 'tablet';
+  }
+  if (/\bMobi|\biPhone\b|\biPod\b/.test(userAgent)) {
+    return 'mobile';
+  }
+  return 'desktop';
+}
@@ -12,6 +12,7 @@ import { MessageController } from './message/message.controller';
 import { MessageService } from './message/message.service';
 import { MessageGateway } from './gateways/message.gateway';
 import { EventPublisherService } from './events/event-publisher.service';
+import { MessageEventsConsumer } from './events/message-events.consumer';
 import { AuthClientService } from './clients/auth-client.service';
 import { PostClientService } from './clients/post-client.service';
 import { UserClientService } from './clients/user-client.service';
@@ -39,6 +40,7 @@ import { UserCacheService } from './cache/user-cache.service';
     MessageService,
     MessageGateway,
     EventPublisherService,
+    MessageEventsConsumer,
     AuthClientService,
     PostClientService,
     UserClientService,
@@ -232,8 +232,9 @@ export class MessageAttachmentService {
     fileName: string,
     contentType: string,
     expiresIn: number = 60 * 60, // 1 hour
+    ownerId?: string,
   ): Promise<{ uploadUrl: string; objectName: string; accessUrl: string }> {
-    return await this.storageClientService.getPresignedUploadUrl(fileName, contentType, expiresIn);
+    return await this.storageClientService.getPresignedUploadUrl(fileName, contentType, expiresIn, ownerId);
   }
 
   /**
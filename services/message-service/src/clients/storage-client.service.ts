@@ -32,6 +32,7 @@ interface StorageServiceClient {
       service_name: string;
       file_type?: string; 
       expires_in?: number;
+      owner_id?: string;
     },
     callback: (error: any, response: {
       upload_url: string;
@@ -139,6 +140,7 @@ export class StorageClientService implements OnModuleInit {
     fileName: string,
     contentType: string,
     expiresIn: number = 60 * 60,
+    ownerId?: string,
   ): Promise<{ uploadUrl: string; objectName: string; accessUrl: string }> {
     return new Promise((resolve, reject) => {
       this.storageService.GetUploadUrl(
@@ -147,6 +149,7 @@ export class StorageClientService implements OnModuleInit {
           mime_type: contentType,
           service_name: 'messages',
           expires_in: expiresIn,
+          owner_id: ownerId,
         },
         (error, response) => {
           if (error || !response?.success) {
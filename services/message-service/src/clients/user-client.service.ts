@@ -10,6 +10,11 @@ interface UserServiceClient {
     data: { user_id: string },
     callback: (error: any, response: { id: string; user_id: string; username: string; bio: string; profile_picture: string; created_at: string }) => void,
   ): void;
+
+  GetRelationshipFilter(
+    data: { user_id: string },
+    callback: (error: any, response: { blocked_user_ids: string[]; muted_user_ids: string[] }) => void,
+  ): void;
 }
 
 @Injectable()
@@ -100,5 +105,23 @@ export class UserClientService implements OnModuleInit {
 
     return profileMap;
   }
-}
 
+  /**
+   * Users blocked by or blocking the user
+   */
+  async getBlockedUserIds(userId: string): Promise<string[]> {
+    return new Promise((resolve, reject) => {
+      this.userService.GetRelationshipFilter(
+        { user_id: userId },
+        (error, response) => {
+          if (error || !response) {
+            console.error('[UserClientService] Failed to get blocked users:', error);
+            reject(error || new Error('Failed to get blocked users'));
+          } else {
+            resolve(response.blocked_user_ids || []);
+          }
+        },
+      );
+    });
+  }
+}
@@ -86,5 +86,29 @@ export class EventPublisherService implements OnModuleInit, OnModuleDestroy {
       console.error('[EventPublisher] Failed to publish message.received event:', error);
     }
   }
-}
 
+  async publishUserDeletionCompleted(userId: string) {
+    if (!this.channel) {
+      throw new Error('RabbitMQ channel not initialized');
+    }
+
+    const message = {
+      eventType: 'user.deletion_completed',
+      userId,
+      service: 'message',
+      timestamp: new Date().toISOString(),
+    };
+
+    // Thrown errors requeue the user.deleted message so the report isn't lost
+    await this.channel.publish(
+      this.exchange,
+      'user.deletion_completed',
+      Buffer.from(JSON.stringify(message)),
+      {
+        persistent: true,
+      },
+    );
+
+    console.log(`[EventPublisher] Published user.deletion_completed event for user: ${userId}`);
+  }
+}
@@ -195,7 +195,7 @@ export class MessageGateway implements OnGatewayConnection, OnGatewayDisconnect
   @SubscribeMessage('get_messages')
   async handleGetMessages(
     @ConnectedSocket() client: AuthenticatedSocket,
-    @MessageBody() data: { conversation_id: string; page?: number; limit?: number },
+    @MessageBody() data: { conversation_id: string; page?: number; limit?: number; cursor?: string },
   ) {
     if (!client.userId) {
       this.logger.error('get_messages: User not authenticated');
@@ -214,6 +214,7 @@ export class MessageGateway implements OnGatewayConnection, OnGatewayDisconnect
         client.userId,
         data.page || 1,
         data.limit || 50,
+        data.cursor || undefined,
       );
 
       this.logger.log(`Found ${result.messages.length} messages for conversation ${data.conversation_id}`);
@@ -292,6 +293,7 @@ export class MessageGateway implements OnGatewayConnection, OnGatewayDisconnect
         ),
         total: result.total,
         page: result.page,
+        next_cursor: result.nextCursor || '',
       };
 
       this.logger.log(`Emitting messages:loaded for conversation ${data.conversation_id}`);
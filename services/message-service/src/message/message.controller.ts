@@ -197,17 +197,19 @@ export class MessageController {
     user_id?: string; // From auth context
     page?: number;
     limit?: number;
+    cursor?: string;
   }) {
     try {
       if (!data.user_id) {
         throw new Error('user_id is required');
       }
 
-      const { messages, total, page } = await this.messageService.getMessages(
+      const { messages, total, page, nextCursor } = await this.messageService.getMessages(
         data.conversation_id,
         data.user_id,
         data.page || 1,
         data.limit || 50,
+        data.cursor || undefined,
       );
 
       // Get attachment access URLs for all messages
@@ -272,6 +274,7 @@ export class MessageController {
         messages: messagesWithAttachments,
         total,
         page,
+        next_cursor: nextCursor || '',
       };
     } catch (error) {
       throw error;
@@ -488,6 +491,7 @@ export class MessageController {
         data.file_name,
         data.mime_type || 'application/octet-stream',
         3600, // 1 hour
+        data.user_id,
       );
 
       return {
@@ -606,5 +610,24 @@ export class MessageController {
       throw error;
     }
   }
-}
 
+  @GrpcMethod('MessageService', 'ExportUserData')
+  async exportUserData(data: { user_id: string }) {
+    try {
+      const { data: exported, media } = await this.messageService.exportUserData(data.user_id);
+      return {
+        success: true,
+        message: '',
+        data: JSON.stringify(exported),
+        media,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to export user data',
+        data: '',
+        media: [],
+      };
+    }
+  }
+}
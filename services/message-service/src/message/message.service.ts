@@ -3,6 +3,7 @@ import {
   NotFoundException,
   ConflictException,
   BadRequestException,
+  ForbiddenException,
   Logger,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
@@ -17,6 +18,7 @@ import { EventPublisherService } from '../events/event-publisher.service';
 import { MessageGateway } from '../gateways/message.gateway';
 import { MessageAttachmentService } from '../attachments/message-attachment.service';
 import { UserClientService } from '../clients/user-client.service';
+import { findKeysetPage } from '../utils/cursor';
 import { forwardRef, Inject } from '@nestjs/common';
 
 @Injectable()
@@ -55,6 +57,11 @@ export class MessageService {
     const allParticipants = [creatorId, ...participantIds.filter((id) => id !== creatorId)];
     const uniqueParticipants = [...new Set(allParticipants)];
 
+    const blockedUserIds = await this.userClient.getBlockedUserIds(creatorId);
+    if (uniqueParticipants.some((id) => blockedUserIds.includes(id))) {
+      throw new ForbiddenException('You cannot start a conversation with a user you have blocked or who has blocked you');
+    }
+
     if (type === ConversationType.DIRECT) {
       if (uniqueParticipants.length !== 2) {
         throw new BadRequestException('Direct conversation must have exactly 2 participants');
@@ -130,6 +137,31 @@ export class MessageService {
     return conversation;
   }
 
+  /**
+   * Direct messages stop once either user blocks the other. Group
+   * conversations carry on, as a block is only between two of the members.
+   */
+  private async assertNotBlocked(conversationId: string, senderId: string): Promise<void> {
+    const conversation = await this.conversationRepository.findOne({
+      where: { id: conversationId },
+      relations: ['participants'],
+    });
+
+    if (!conversation || conversation.type !== ConversationType.DIRECT) {
+      return;
+    }
+
+    const recipient = conversation.participants.find((p) => p.userId !== senderId);
+    if (!recipient) {
+      return;
+    }
+
+    const blockedUserIds = await this.userClient.getBlockedUserIds(senderId);
+    if (blockedUserIds.includes(recipient.userId)) {
+      throw new ForbiddenException('You cannot message this user');
+    }
+  }
+
   /**
    * Get all conversations for a user
    */
@@ -247,6 +279,8 @@ export class MessageService {
       throw new NotFoundException('Message to reply to not found');
     }
 
+    await this.assertNotBlocked(conversationId, senderId);
+
     // Create message
     const message = this.messageRepository.create({
       conversationId,
@@ -495,6 +529,8 @@ export class MessageService {
       throw new NotFoundException('Message to reply to not found');
     }
 
+    await this.assertNotBlocked(conversationId, senderId);
+
     // Create reply message
     const message = this.messageRepository.create({
       conversationId,
@@ -626,6 +662,8 @@ export class MessageService {
       throw new NotFoundException('User is not a participant in this conversation');
     }
 
+    await this.assertNotBlocked(conversationId, senderId);
+
     // Create message with shared post
     const messageEntity = this.messageRepository.create({
       conversationId,
@@ -712,10 +750,12 @@ export class MessageService {
     userId: string,
     page: number = 1,
     limit: number = 50,
+    cursor?: string,
   ): Promise<{
     messages: Message[];
     total: number;
     page: number;
+    nextCursor: string | null;
   }> {
     // Verify user is a participant
     const participant = await this.participantRepository.findOne({
@@ -730,20 +770,22 @@ export class MessageService {
       throw new NotFoundException('User is not a participant in this conversation');
     }
 
-    const skip = (page - 1) * limit;
-
-    const [messages, total] = await this.messageRepository.findAndCount({
-      where: { conversationId },
-      relations: ['sharedPost', 'replyToMessage', 'attachment'],
-      order: { createdAt: 'DESC' },
-      skip,
-      take: limit,
-    });
+    // Pages walk backwards from the newest message; the cursor points at older ones
+    const { items, total, nextCursor } = await findKeysetPage(
+      this.messageRepository
+        .createQueryBuilder('message')
+        .leftJoinAndSelect('message.sharedPost', 'sharedPost')
+        .leftJoinAndSelect('message.replyToMessage', 'replyToMessage')
+        .leftJoinAndSelect('message.attachment', 'attachment')
+        .where('message.conversationId = :conversationId', { conversationId }),
+      { alias: 'message', table: 'message.messages', direction: 'DESC', page, limit, cursor },
+    );
 
     return {
-      messages: messages.reverse(), // Reverse to show oldest first
+      messages: items.reverse(), // Reverse to show oldest first
       total,
       page,
+      nextCursor,
     };
   }
 
@@ -1202,5 +1244,96 @@ export class MessageService {
     participant.isActive = false;
     await this.participantRepository.save(participant);
   }
-}
 
+  /**
+   * Personal data export: the conversations the user is in and the messages
+   * they sent. Attachments are returned as object names for the caller to bundle.
+   */
+  async exportUserData(userId: string): Promise<{ data: Record<string, unknown>; media: string[] }> {
+    const participations = await this.participantRepository.find({
+      where: { userId },
+      relations: ['conversation'],
+      order: { joinedAt: 'DESC' },
+    });
+
+    const messages = await this.messageRepository.find({
+      where: { senderId: userId },
+      relations: ['attachment', 'sharedPost'],
+      order: { createdAt: 'DESC' },
+    });
+
+    const media = messages
+      .filter((message) => message.attachment)
+      .map((message) => message.attachment!.objectName);
+
+    return {
+      data: {
+        conversations: participations.map((participation) => ({
+          id: participation.conversationId,
+          type: participation.conversation?.type,
+          name: participation.conversation?.name || null,
+          role: participation.role,
+          is_active: participation.isActive,
+          joined_at: participation.joinedAt.toISOString(),
+        })),
+        messages: messages.map((message) => ({
+          id: message.id,
+          conversation_id: message.conversationId,
+          content: message.content,
+          reply_to_message_id: message.replyToMessageId,
+          shared_post_id: message.sharedPost?.postId || null,
+          attachment: message.attachment
+            ? {
+                file_name: message.attachment.fileName,
+                file_type: message.attachment.fileType,
+                mime_type: message.attachment.mimeType,
+                object_name: message.attachment.objectName,
+              }
+            : null,
+          created_at: message.createdAt.toISOString(),
+        })),
+      },
+      media: Array.from(new Set(media)),
+    };
+  }
+
+  /**
+   * Account erasure: the user's messages (releasing their attachments), read
+   * receipts and memberships. Conversations left with nobody in them go too.
+   */
+  async deleteUserData(userId: string): Promise<void> {
+    const messages = await this.messageRepository.find({
+      where: { senderId: userId },
+      relations: ['attachment'],
+    });
+
+    for (const message of messages) {
+      if (message.attachment) {
+        try {
+          await this.attachmentService.decrementReferenceCount(message.attachment.id);
+        } catch (error) {
+          this.logger.error(`Failed to release attachment for message ${message.id}:`, error);
+        }
+      }
+    }
+
+    // Shared posts and receipts on these messages cascade
+    await this.messageRepository.delete({ senderId: userId });
+    await this.readReceiptRepository.delete({ userId });
+
+    const participations = await this.participantRepository.find({
+      where: { userId },
+    });
+    await this.participantRepository.delete({ userId });
+
+    for (const participation of participations) {
+      const remaining = await this.participantRepository.count({
+        where: { conversationId: participation.conversationId },
+      });
+
+      if (remaining === 0) {
+        await this.conversationRepository.delete({ id: participation.conversationId });
+      }
+    }
+  }
+}
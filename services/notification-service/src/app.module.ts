@@ -10,6 +10,7 @@ import { EventsConsumer } from './events/events.consumer';
 import { NotificationGateway } from './gateways/notification.gateway';
 import { EmailModule } from './email/email.module';
 import { AuthClientService } from './clients/auth-client.service';
+import { UserClientService } from './clients/user-client.service';
 
 @Module({
   imports: [
@@ -26,6 +27,6 @@ import { AuthClientService } from './clients/auth-client.service';
     EmailModule,
   ],
   controllers: [NotificationController],
-  providers: [NotificationService, EventsConsumer, NotificationGateway, AuthClientService],
+  providers: [NotificationService, EventsConsumer, NotificationGateway, AuthClientService, UserClientService],
 })
 export class AppModule {}
@@ -0,0 +1,87 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'path';
+import * as grpc from '@grpc/grpc-js';
+import * as protoLoader from '@grpc/proto-loader';
+
+interface UserServiceClient {
+  GetUserProfile(
+    data: { user_id: string },
+    callback: (error: any, response: { username: string }) => void,
+  ): void;
+  GetRelationshipFilter(
+    data: { user_id: string },
+    callback: (error: any, response: { blocked_user_ids: string[]; muted_user_ids: string[] }) => void,
+  ): void;
+}
+
+@Injectable()
+export class UserClientService implements OnModuleInit {
+  private userService: UserServiceClient;
+
+  constructor(private configService: ConfigService) {}
+
+  async onModuleInit() {
+    const userServiceUrl = this.configService.get<string>('USER_SERVICE_GRPC_URL') || 'localhost:5002';
+    const protoPath = join(__dirname, '../../../../shared/protos/user.proto');
+
+    const packageDefinition = protoLoader.loadSync(protoPath, {
+      keepCase: true,
+      longs: String,
+      enums: String,
+      defaults: true,
+      oneofs: true,
+    });
+
+    const userProto = grpc.loadPackageDefinition(packageDefinition).user as any;
+
+    this.userService = new userProto.UserService(
+      userServiceUrl,
+      grpc.credentials.createInsecure(),
+    ) as UserServiceClient;
+
+    console.log('[UserClientService] Connected to User Service');
+  }
+
+  /**
+   * The user's username, or null if it can't be looked up
+   */
+  async getUsername(userId: string): Promise<string | null> {
+    return new Promise((resolve) => {
+      this.userService.GetUserProfile(
+        { user_id: userId },
+        (error, response) => {
+          if (error) {
+            console.error(`[UserClientService] Failed to get username for user ${userId}:`, error);
+            resolve(null);
+          } else {
+            resolve(response?.username || null);
+          }
+        },
+      );
+    });
+  }
+
+  /**
+   * Users blocked by or blocking the user, and users they've muted. Empty
+   * if the User Service can't be reached, so notifications still go out.
+   */
+  async getRelationshipFilter(userId: string): Promise<{ blockedUserIds: string[]; mutedUserIds: string[] }> {
+    return new Promise((resolve) => {
+      this.userService.GetRelationshipFilter(
+        { user_id: userId },
+        (error, response) => {
+          if (error || !response) {
+            console.error(`[UserClientService] Failed to get relationship filter for user ${userId}:`, error);
+            resolve({ blockedUserIds: [], mutedUserIds: [] });
+          } else {
+            resolve({
+              blockedUserIds: response.blocked_user_ids || [],
+              mutedUserIds: response.muted_user_ids || [],
+            });
+          }
+        },
+      );
+    });
+  }
+}
@@ -1,4 +1,5 @@
 import { Injectable, Inject, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import type { IEmailProvider } from './interfaces/email-provider.interface';
 
 /**
@@ -9,10 +10,16 @@ import type { IEmailProvider } from './interfaces/email-provider.interface';
 @Injectable()
 export class EmailService {
   private readonly logger = new Logger(EmailService.name);
+  private readonly frontendUrl: string;
+  private readonly testRecipient: string | null;
 
   constructor(
     @Inject('IEmailProvider') private emailProvider: IEmailProvider,
-  ) {}
+    private configService: ConfigService,
+  ) {
+    this.frontendUrl = this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3800';
+    this.testRecipient = this.configService.get<string>('EMAIL_TEST_RECIPIENT') || null;
+  }
 
   /**
    * Send a notification email
@@ -28,16 +35,13 @@ export class EmailService {
       [key: string]: any;
     },
   ): Promise<boolean> {
-    // TODO: Use test email for now (hardcode for testing)
-    const recipientEmail = 'samuelmomoh61@gmail.com';
-    
     const { subject, html, text } = this.generateNotificationEmail(
       notificationType,
       notificationData,
     );
 
     const result = await this.emailProvider.sendEmail({
-      to: recipientEmail,
+      to: this.recipientFor(to),
       subject,
       html,
       text,
@@ -73,6 +77,19 @@ export class EmailService {
           text: `${actorName} liked your post. ${data.postPreview || ''}`,
         };
 
+      case 'post.reposted':
+        return {
+          subject: data.quote ? `${actorName} quoted your post` : `${actorName} reposted your post`,
+          html: `
+            <h2>${data.quote ? `${actorName} quoted your post` : `${actorName} reposted your post`}</h2>
+            ${data.quotePreview ? `<p>${this.escapeHtml(data.quotePreview)}</p>` : ''}
+            <p><a href="${data.postUrl || '#'}">View post</a></p>
+          `,
+          text: data.quote
+            ? `${actorName} quoted your post: ${data.quotePreview || ''}`
+            : `${actorName} reposted your post.`,
+        };
+
       case 'post.commented':
         return {
           subject: `${actorName} commented on your post`,
@@ -85,6 +102,36 @@ export class EmailService {
           text: `${actorName} commented on your post: ${data.commentPreview || ''}`,
         };
 
+      case 'comment.liked':
+        return {
+          subject: `${actorName} liked your comment`,
+          html: `
+            <h2>${actorName} liked your comment</h2>
+            <p><a href="${data.postUrl || '#'}">View post</a></p>
+          `,
+          text: `${actorName} liked your comment.`,
+        };
+
+      case 'follow.requested':
+        return {
+          subject: `${actorName} wants to follow you`,
+          html: `
+            <h2>${actorName} wants to follow you</h2>
+            <p>Your account is private. Accept or reject the request from your follow requests.</p>
+          `,
+          text: `${actorName} wants to follow you. Accept or reject the request from your follow requests.`,
+        };
+
+      case 'follow.accepted':
+        return {
+          subject: `${actorName} accepted your follow request`,
+          html: `
+            <h2>${actorName} accepted your follow request</h2>
+            <p>You can now see their posts.</p>
+          `,
+          text: `${actorName} accepted your follow request. You can now see their posts.`,
+        };
+
       case 'comment.mentioned':
         return {
           subject: `${actorName} mentioned you in a comment`,
@@ -142,19 +189,15 @@ export class EmailService {
    * Send welcome email (for new users)
    */
   async sendWelcomeEmail(to: string, username: string): Promise<boolean> {
-    // TODO: Use test email for now (hardcode for testing)
-    const recipientEmail = 'samuelmomoh61@gmail.com';
-    
     const result = await this.emailProvider.sendEmail({
-      to: recipientEmail,
+      to: this.recipientFor(to),
       subject: 'Welcome to the platform!',
       html: `
         <h1>Welcome, ${username}!</h1>
         <p>Thanks for joining our platform. We're excited to have you!</p>
         <p>Get started by updating your profile and connecting with others.</p>
-        <p><strong>Original recipient:</strong> ${to}</p>
       `,
-      text: `Welcome, ${username}! Thanks for joining our platform. (Original recipient: ${to})`,
+      text: `Welcome, ${username}! Thanks for joining our platform.`,
     });
 
     if (result.success) {
@@ -165,5 +208,207 @@ export class EmailService {
       return false;
     }
   }
-}
 
+  /**
+   * Send email address verification link
+   */
+  async sendVerificationEmail(to: string, token: string): Promise<boolean> {
+    const verifyUrl = `${this.frontendUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+    const result = await this.emailProvider.sendEmail({
+      to: this.recipientFor(to),
+      subject: 'Verify your email address',
+      html: `
+        <h2>Confirm your email address</h2>
+        <p>Click the link below to verify your email. The link expires in 24 hours.</p>
+        <p><a href="${verifyUrl}">Verify email</a></p>
+        <p>If you didn't create an account, you can ignore this email.</p>
+      `,
+      text: `Verify your email address: ${verifyUrl}`,
+    });
+
+    if (result.success) {
+      this.logger.log(`Verification email sent to ${to}`);
+      return true;
+    } else {
+      this.logger.error(`Failed to send verification email to ${to}: ${result.error}`);
+      return false;
+    }
+  }
+
+  /**
+   * Send password reset link
+   */
+  async sendPasswordResetEmail(to: string, token: string): Promise<boolean> {
+    const resetUrl = `${this.frontendUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+    const result = await this.emailProvider.sendEmail({
+      to: this.recipientFor(to),
+      subject: 'Reset your password',
+      html: `
+        <h2>Reset your password</h2>
+        <p>Click the link below to choose a new password. The link expires in 1 hour and can only be used once.</p>
+        <p><a href="${resetUrl}">Reset password</a></p>
+        <p>If you didn't request a password reset, you can ignore this email.</p>
+      `,
+      text: `Reset your password: ${resetUrl}`,
+    });
+
+    if (result.success) {
+      this.logger.log(`Password reset email sent to ${to}`);
+      return true;
+    } else {
+      this.logger.error(`Failed to send password reset email to ${to}: ${result.error}`);
+      return false;
+    }
+  }
+
+  async sendLoginLockedEmail(
+    to: string,
+    failedAttempts: number,
+    lockedUntil: Date,
+    ipAddress: string | null,
+  ): Promise<boolean> {
+    const resetUrl = `${this.frontendUrl}/forgot-password`;
+    const source = ipAddress ? ` from ${ipAddress}` : '';
+
+    const result = await this.emailProvider.sendEmail({
+      to: this.recipientFor(to),
+      subject: 'Your account has been temporarily locked',
+      html: `
+        <h2>Sign-in temporarily locked</h2>
+        <p>We blocked sign-in to your account after ${failedAttempts} failed attempts${source}.</p>
+        <p>You can try again after ${lockedUntil.toUTCString()}.</p>
+        <p>If this wasn't you, we recommend <a href="${resetUrl}">resetting your password</a> and enabling two-factor authentication.</p>
+      `,
+      text: `Sign-in to your account was locked after ${failedAttempts} failed attempts${source}. Try again after ${lockedUntil.toUTCString()}. If this wasn't you, reset your password: ${resetUrl}`,
+    });
+
+    if (result.success) {
+      this.logger.log(`Login locked email sent to ${to}`);
+      return true;
+    } else {
+      this.logger.error(`Failed to send login locked email to ${to}: ${result.error}`);
+      return false;
+    }
+  }
+
+  async sendNewDeviceLoginEmail(
+    to: string,
+    userAgent: string | null,
+    ipAddress: string | null,
+    signedInAt: Date,
+  ): Promise<boolean> {
+    const sessionsUrl = `${this.frontendUrl}/settings/sessions`;
+    // The user agent comes from whoever signed in, so it must not be rendered as markup
+    const device = this.escapeHtml(userAgent || 'Unknown device');
+    const source = ipAddress ? ` from ${this.escapeHtml(ipAddress)}` : '';
+
+    const result = await this.emailProvider.sendEmail({
+      to: this.recipientFor(to),
+      subject: 'New sign-in to your account',
+      html: `
+        <h2>New sign-in from a new device</h2>
+        <p>Your account was signed in to${source} on ${signedInAt.toUTCString()}.</p>
+        <p><strong>Device:</strong> ${device}</p>
+        <p>If this was you, there's nothing to do.</p>
+        <p>If it wasn't, <a href="${sessionsUrl}">sign that session out</a> and change your password.</p>
+      `,
+      text: `Your account was signed in to from a new device${ipAddress ? ` from ${ipAddress}` : ''} on ${signedInAt.toUTCString()} (${userAgent || 'Unknown device'}). If this wasn't you, sign that session out at ${sessionsUrl} and change your password.`,
+    });
+
+    if (result.success) {
+      this.logger.log(`New device login email sent to ${to}`);
+      return true;
+    } else {
+      this.logger.error(`Failed to send new device login email to ${to}: ${result.error}`);
+      return false;
+    }
+  }
+
+  async sendAccountDeletionScheduledEmail(to: string, scheduledFor: Date): Promise<boolean> {
+    const settingsUrl = `${this.frontendUrl}/settings`;
+
+    const result = await this.emailProvider.sendEmail({
+      to: this.recipientFor(to),
+      subject: 'Your account is scheduled for deletion',
+      html: `
+        <h2>Account deletion scheduled</h2>
+        <p>Your account and all of its data will be permanently deleted on ${scheduledFor.toUTCString()}.</p>
+        <p>Changed your mind? Sign in and <a href="${settingsUrl}">cancel the deletion</a> before then.</p>
+        <p>If you didn't ask for this, cancel the deletion and change your password.</p>
+      `,
+      text: `Your account will be permanently deleted on ${scheduledFor.toUTCString()}. To cancel, sign in and visit ${settingsUrl}. If you didn't ask for this, cancel the deletion and change your password.`,
+    });
+
+    if (result.success) {
+      this.logger.log(`Account deletion scheduled email sent to ${to}`);
+      return true;
+    } else {
+      this.logger.error(`Failed to send account deletion scheduled email to ${to}: ${result.error}`);
+      return false;
+    }
+  }
+
+  async sendAccountDeletedEmail(to: string): Promise<boolean> {
+
+    const result = await this.emailProvider.sendEmail({
+      to: this.recipientFor(to),
+      subject: 'Your account has been deleted',
+      html: `
+        <h2>Account deleted</h2>
+        <p>Your account and its data have been deleted. This is the last email you will receive from us.</p>
+      `,
+      text: `Your account and its data have been deleted. This is the last email you will receive from us.`,
+    });
+
+    if (result.success) {
+      this.logger.log(`Account deleted email sent to ${to}`);
+      return true;
+    } else {
+      this.logger.error(`Failed to send account deleted email to ${to}: ${result.error}`);
+      return false;
+    }
+  }
+
+  async sendDataExportReadyEmail(to: string, downloadUrl: string, expiresAt: Date): Promise<boolean> {
+
+    const result = await this.emailProvider.sendEmail({
+      to: this.recipientFor(to),
+      subject: 'Your data export is ready',
+      html: `
+        <h2>Your data export is ready</h2>
+        <p>The archive of your account data you asked for is ready to download.</p>
+        <p><a href="${downloadUrl}">Download your data</a></p>
+        <p>This link expires on ${expiresAt.toUTCString()}. You can request a fresh link from your settings.</p>
+        <p>If you didn't ask for this, change your password.</p>
+      `,
+      text: `Your data export is ready. Download it here: ${downloadUrl} (link expires ${expiresAt.toUTCString()}). If you didn't ask for this, change your password.`,
+    });
+
+    if (result.success) {
+      this.logger.log(`Data export ready email sent to ${to}`);
+      return true;
+    } else {
+      this.logger.error(`Failed to send data export ready email to ${to}: ${result.error}`);
+      return false;
+    }
+  }
+
+  /**
+   * Where an email for `to` actually goes. Setting EMAIL_TEST_RECIPIENT
+   * sends everything to that one inbox instead; only for local testing.
+   */
+  private recipientFor(to: string): string {
+    return this.testRecipient || to;
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -5,6 +5,7 @@ import { NotificationService } from '../notification/notification.service';
 import { NotificationGateway } from '../gateways/notification.gateway';
 import { EmailService } from '../email/email.service';
 import { AuthClientService } from '../clients/auth-client.service';
+import { UserClientService } from '../clients/user-client.service';
 
 @Injectable()
 export class EventsConsumer implements OnModuleInit, OnModuleDestroy {
@@ -19,6 +20,7 @@ export class EventsConsumer implements OnModuleInit, OnModuleDestroy {
     private notificationGateway: NotificationGateway,
     private emailService: EmailService,
     private authClient: AuthClientService,
+    private userClient: UserClientService,
   ) {}
 
   async onModuleInit() {
@@ -47,11 +49,22 @@ export class EventsConsumer implements OnModuleInit, OnModuleDestroy {
       // Bind to ALL notification events
       const routingKeys = [
         'user.created',
+        'user.verification_requested',
+        'user.password_reset_requested',
+        'user.login_locked',
+        'user.new_device_login',
+        'user.deletion_scheduled',
+        'user.deleted',
+        'user.data_export_ready',
         'post.created',
         'post.liked',
         'post.unliked',
+        'post.reposted',
         'post.commented',
         'comment.mentioned',
+        'comment.liked',
+        'follow.requested',
+        'follow.accepted',
         'message.received',
       ];
 
@@ -116,6 +129,74 @@ export class EventsConsumer implements OnModuleInit, OnModuleDestroy {
             timestamp: string;
           });
           break;
+        case 'user.verification_requested':
+          await this.handleVerificationRequested(data as {
+            eventType: string;
+            userId: string;
+            email: string;
+            token: string;
+            timestamp: string;
+          });
+          break;
+        case 'user.password_reset_requested':
+          await this.handlePasswordResetRequested(data as {
+            eventType: string;
+            userId: string;
+            email: string;
+            token: string;
+            timestamp: string;
+          });
+          break;
+        case 'user.login_locked':
+          await this.handleLoginLocked(data as {
+            eventType: string;
+            userId: string;
+            email: string;
+            ipAddress: string | null;
+            failedAttempts: number;
+            lockedUntil: string;
+            timestamp: string;
+          });
+          break;
+        case 'user.new_device_login':
+          await this.handleNewDeviceLogin(data as {
+            eventType: string;
+            userId: string;
+            email: string;
+            sessionId: string;
+            ipAddress: string | null;
+            userAgent: string | null;
+            timestamp: string;
+          });
+          break;
+        case 'user.deletion_scheduled':
+          await this.handleDeletionScheduled(data as {
+            eventType: string;
+            userId: string;
+            email: string;
+            scheduledFor: string;
+            timestamp: string;
+          });
+          break;
+        case 'user.deleted':
+          await this.handleUserDeleted(data as {
+            eventType: string;
+            userId: string;
+            email: string | null;
+            timestamp: string;
+          });
+          break;
+        case 'user.data_export_ready':
+          await this.handleDataExportReady(data as {
+            eventType: string;
+            userId: string;
+            email: string;
+            exportId: string;
+            downloadUrl: string;
+            expiresAt: string;
+            timestamp: string;
+          });
+          break;
         case 'post.created':
           await this.handlePostCreated(data as {
             eventType: string;
@@ -131,6 +212,7 @@ export class EventsConsumer implements OnModuleInit, OnModuleDestroy {
             postId: string;
             userId: string;
             postOwnerId: string;
+            reaction?: string;
             timestamp: string;
           });
           break;
@@ -143,6 +225,45 @@ export class EventsConsumer implements OnModuleInit, OnModuleDestroy {
             timestamp: string;
           });
           break;
+        case 'post.reposted':
+          await this.handlePostReposted(data as {
+            eventType: string;
+            postId: string;
+            repostId: string;
+            userId: string;
+            postOwnerId: string;
+            quote: boolean;
+            content: string;
+            timestamp: string;
+          });
+          break;
+        case 'comment.liked':
+          await this.handleCommentLiked(data as {
+            eventType: string;
+            commentId: string;
+            postId: string;
+            userId: string;
+            commentOwnerId: string;
+            reaction: string;
+            timestamp: string;
+          });
+          break;
+        case 'follow.requested':
+          await this.handleFollowRequested(data as {
+            eventType: string;
+            requesterId: string;
+            targetId: string;
+            timestamp: string;
+          });
+          break;
+        case 'follow.accepted':
+          await this.handleFollowAccepted(data as {
+            eventType: string;
+            requesterId: string;
+            targetId: string;
+            timestamp: string;
+          });
+          break;
         case 'post.commented':
           await this.handlePostCommented(data as {
             eventType: string;
@@ -205,6 +326,158 @@ export class EventsConsumer implements OnModuleInit, OnModuleDestroy {
     console.log(`[EventsConsumer] User created: ${data.userId}`);
   }
 
+  private async handleVerificationRequested(data: {
+    eventType: string;
+    userId: string;
+    email: string;
+    token: string;
+    timestamp: string;
+  }) {
+    // Account emails bypass notification preferences - the user asked for them
+    await this.emailService.sendVerificationEmail(data.email, data.token);
+    console.log(`[EventsConsumer] Verification requested for user: ${data.userId}`);
+  }
+
+  private async handlePasswordResetRequested(data: {
+    eventType: string;
+    userId: string;
+    email: string;
+    token: string;
+    timestamp: string;
+  }) {
+    await this.emailService.sendPasswordResetEmail(data.email, data.token);
+    console.log(`[EventsConsumer] Password reset requested for user: ${data.userId}`);
+  }
+
+  private async handleLoginLocked(data: {
+    eventType: string;
+    userId: string;
+    email: string;
+    ipAddress: string | null;
+    failedAttempts: number;
+    lockedUntil: string;
+    timestamp: string;
+  }) {
+    await this.emailService.sendLoginLockedEmail(
+      data.email,
+      data.failedAttempts,
+      new Date(data.lockedUntil),
+      data.ipAddress,
+    );
+    console.log(`[EventsConsumer] Login locked for user: ${data.userId}`);
+  }
+
+  private async handleNewDeviceLogin(data: {
+    eventType: string;
+    userId: string;
+    email: string;
+    sessionId: string;
+    ipAddress: string | null;
+    userAgent: string | null;
+    timestamp: string;
+  }) {
+    const notification = await this.notificationService.createNotification({
+      userId: data.userId,
+      type: 'user.new_device_login',
+      relatedId: data.sessionId,
+      metadata: {
+        sessionId: data.sessionId,
+        ipAddress: data.ipAddress || '',
+        userAgent: data.userAgent || '',
+      },
+    });
+
+    await this.notificationGateway.sendNotificationToUser(data.userId, {
+      id: notification.id,
+      userId: notification.userId,
+      type: notification.type,
+      relatedId: notification.relatedId,
+      actorId: notification.actorId,
+      read: notification.read,
+      readAt: notification.readAt?.toISOString() || null,
+      createdAt: notification.createdAt.toISOString(),
+      metadata: notification.metadata,
+    });
+
+    const unreadCount = await this.notificationService.getUnreadCount(data.userId);
+    await this.notificationGateway.sendUnreadCountUpdate(data.userId, unreadCount);
+
+    // Security notice, so it ignores notification preferences
+    await this.emailService.sendNewDeviceLoginEmail(
+      data.email,
+      data.userAgent,
+      data.ipAddress,
+      new Date(data.timestamp),
+    );
+    console.log(`[EventsConsumer] New device login for user: ${data.userId}`);
+  }
+
+  private async handleDeletionScheduled(data: {
+    eventType: string;
+    userId: string;
+    email: string;
+    scheduledFor: string;
+    timestamp: string;
+  }) {
+    await this.emailService.sendAccountDeletionScheduledEmail(data.email, new Date(data.scheduledFor));
+    console.log(`[EventsConsumer] Account deletion scheduled for user: ${data.userId}`);
+  }
+
+  private async handleUserDeleted(data: {
+    eventType: string;
+    userId: string;
+    email: string | null;
+    timestamp: string;
+  }) {
+    await this.notificationService.deleteUserData(data.userId);
+
+    if (data.email) {
+      await this.emailService.sendAccountDeletedEmail(data.email);
+    }
+
+    this.publishDeletionCompleted(data.userId);
+    console.log(`[EventsConsumer] Erased notifications for user: ${data.userId}`);
+  }
+
+  private async handleDataExportReady(data: {
+    eventType: string;
+    userId: string;
+    email: string;
+    exportId: string;
+    downloadUrl: string;
+    expiresAt: string;
+    timestamp: string;
+  }) {
+    // The link expires, so the in-app notification only points at the export
+    const notification = await this.notificationService.createNotification({
+      userId: data.userId,
+      type: 'user.data_export_ready',
+      relatedId: data.exportId,
+      metadata: {
+        exportId: data.exportId,
+        expiresAt: data.expiresAt,
+      },
+    });
+
+    await this.notificationGateway.sendNotificationToUser(data.userId, {
+      id: notification.id,
+      userId: notification.userId,
+      type: notification.type,
+      relatedId: notification.relatedId,
+      actorId: notification.actorId,
+      read: notification.read,
+      readAt: notification.readAt?.toISOString() || null,
+      createdAt: notification.createdAt.toISOString(),
+      metadata: notification.metadata,
+    });
+
+    const unreadCount = await this.notificationService.getUnreadCount(data.userId);
+    await this.notificationGateway.sendUnreadCountUpdate(data.userId, unreadCount);
+
+    await this.emailService.sendDataExportReadyEmail(data.email, data.downloadUrl, new Date(data.expiresAt));
+    console.log(`[EventsConsumer] Data export ready for user: ${data.userId}`);
+  }
+
   private async handlePostCreated(data: {
     eventType: string;
     postId: string;
@@ -224,10 +497,11 @@ export class EventsConsumer implements OnModuleInit, OnModuleDestroy {
     postId: string;
     userId: string; // User who liked
     postOwnerId: string; // Owner of the post (should be notified)
+    reaction?: string; // Absent on events from before reactions
     timestamp: string;
   }) {
     // Don't notify if user liked their own post
-    if (data.userId === data.postOwnerId) {
+    if (data.userId === data.postOwnerId || (await this.isSilenced(data.postOwnerId, data.userId))) {
       return;
     }
 
@@ -238,6 +512,7 @@ export class EventsConsumer implements OnModuleInit, OnModuleDestroy {
       actorId: data.userId,
       metadata: {
         postId: data.postId,
+        reaction: data.reaction || 'like',
       },
     });
 
@@ -282,6 +557,196 @@ export class EventsConsumer implements OnModuleInit, OnModuleDestroy {
     // Optionally: Delete or update existing notification
   }
 
+  private async handlePostReposted(data: {
+    eventType: string;
+    postId: string; // The original post
+    repostId: string;
+    userId: string; // User who reposted
+    postOwnerId: string; // Author of the original (should be notified)
+    quote: boolean;
+    content: string;
+    timestamp: string;
+  }) {
+    // Don't notify if user reposted their own post
+    if (data.userId === data.postOwnerId || (await this.isSilenced(data.postOwnerId, data.userId))) {
+      return;
+    }
+
+    const notification = await this.notificationService.createNotification({
+      userId: data.postOwnerId,
+      type: 'post.reposted',
+      relatedId: data.postId,
+      actorId: data.userId,
+      metadata: {
+        postId: data.postId,
+        repostId: data.repostId,
+        quote: data.quote,
+        quotePreview: data.content || '',
+      },
+    });
+
+    await this.notificationGateway.sendNotificationToUser(data.postOwnerId, {
+      id: notification.id,
+      userId: notification.userId,
+      type: notification.type,
+      relatedId: notification.relatedId,
+      actorId: notification.actorId,
+      read: notification.read,
+      readAt: notification.readAt?.toISOString() || null,
+      createdAt: notification.createdAt.toISOString(),
+      metadata: notification.metadata,
+    });
+
+    const unreadCount = await this.notificationService.getUnreadCount(data.postOwnerId);
+    await this.notificationGateway.sendUnreadCountUpdate(data.postOwnerId, unreadCount);
+
+    await this.sendEmailIfEnabled(
+      data.postOwnerId,
+      'post.reposted',
+      {
+        actorName: await this.getActorName(data.userId),
+        quote: data.quote,
+        quotePreview: data.content || '',
+        postUrl: `#post-${data.repostId}`,
+      },
+    );
+  }
+
+  private async handleCommentLiked(data: {
+    eventType: string;
+    commentId: string;
+    postId: string;
+    userId: string; // User who liked
+    commentOwnerId: string; // Author of the comment (should be notified)
+    reaction: string;
+    timestamp: string;
+  }) {
+    // Don't notify if user liked their own comment
+    if (data.userId === data.commentOwnerId || (await this.isSilenced(data.commentOwnerId, data.userId))) {
+      return;
+    }
+
+    const notification = await this.notificationService.createNotification({
+      userId: data.commentOwnerId,
+      type: 'comment.liked',
+      relatedId: data.commentId,
+      actorId: data.userId,
+      metadata: {
+        postId: data.postId,
+        commentId: data.commentId,
+        reaction: data.reaction || 'like',
+      },
+    });
+
+    await this.notificationGateway.sendNotificationToUser(data.commentOwnerId, {
+      id: notification.id,
+      userId: notification.userId,
+      type: notification.type,
+      relatedId: notification.relatedId,
+      actorId: notification.actorId,
+      read: notification.read,
+      readAt: notification.readAt?.toISOString() || null,
+      createdAt: notification.createdAt.toISOString(),
+      metadata: notification.metadata,
+    });
+
+    const unreadCount = await this.notificationService.getUnreadCount(data.commentOwnerId);
+    await this.notificationGateway.sendUnreadCountUpdate(data.commentOwnerId, unreadCount);
+
+    await this.sendEmailIfEnabled(
+      data.commentOwnerId,
+      'comment.liked',
+      {
+        actorName: await this.getActorName(data.userId),
+        postUrl: `#post-${data.postId}`,
+      },
+    );
+  }
+
+  private async handleFollowRequested(data: {
+    eventType: string;
+    requesterId: string; // User who wants to follow
+    targetId: string; // Owner of the private account (should be notified)
+    timestamp: string;
+  }) {
+    if (await this.isSilenced(data.targetId, data.requesterId)) {
+      return;
+    }
+
+    const notification = await this.notificationService.createNotification({
+      userId: data.targetId,
+      type: 'follow.requested',
+      relatedId: data.requesterId,
+      actorId: data.requesterId,
+      metadata: {},
+    });
+
+    await this.notificationGateway.sendNotificationToUser(data.targetId, {
+      id: notification.id,
+      userId: notification.userId,
+      type: notification.type,
+      relatedId: notification.relatedId,
+      actorId: notification.actorId,
+      read: notification.read,
+      readAt: notification.readAt?.toISOString() || null,
+      createdAt: notification.createdAt.toISOString(),
+      metadata: notification.metadata,
+    });
+
+    const unreadCount = await this.notificationService.getUnreadCount(data.targetId);
+    await this.notificationGateway.sendUnreadCountUpdate(data.targetId, unreadCount);
+
+    await this.sendEmailIfEnabled(
+      data.targetId,
+      'follow.requested',
+      {
+        actorName: await this.getActorName(data.requesterId),
+      },
+    );
+  }
+
+  private async handleFollowAccepted(data: {
+    eventType: string;
+    requesterId: string; // User whose request was accepted (should be notified)
+    targetId: string; // Owner of the private account
+    timestamp: string;
+  }) {
+    if (await this.isSilenced(data.requesterId, data.targetId)) {
+      return;
+    }
+
+    const notification = await this.notificationService.createNotification({
+      userId: data.requesterId,
+      type: 'follow.accepted',
+      relatedId: data.targetId,
+      actorId: data.targetId,
+      metadata: {},
+    });
+
+    await this.notificationGateway.sendNotificationToUser(data.requesterId, {
+      id: notification.id,
+      userId: notification.userId,
+      type: notification.type,
+      relatedId: notification.relatedId,
+      actorId: notification.actorId,
+      read: notification.read,
+      readAt: notification.readAt?.toISOString() || null,
+      createdAt: notification.createdAt.toISOString(),
+      metadata: notification.metadata,
+    });
+
+    const unreadCount = await this.notificationService.getUnreadCount(data.requesterId);
+    await this.notificationGateway.sendUnreadCountUpdate(data.requesterId, unreadCount);
+
+    await this.sendEmailIfEnabled(
+      data.requesterId,
+      'follow.accepted',
+      {
+        actorName: await this.getActorName(data.targetId),
+      },
+    );
+  }
+
   private async handlePostCommented(data: {
     eventType: string;
     postId: string;
@@ -296,7 +761,12 @@ export class EventsConsumer implements OnModuleInit, OnModuleDestroy {
     timestamp: string;
   }) {
     // Notify parent comment author if this is a reply
-    if (data.parentCommentId && data.parentCommentAuthorId && data.parentCommentAuthorId !== data.userId) {
+    if (
+      data.parentCommentId &&
+      data.parentCommentAuthorId &&
+      data.parentCommentAuthorId !== data.userId &&
+      !(await this.isSilenced(data.parentCommentAuthorId, data.userId))
+    ) {
       const notification = await this.notificationService.createNotification({
         userId: data.parentCommentAuthorId,
         type: 'comment.replied',
@@ -342,7 +812,11 @@ export class EventsConsumer implements OnModuleInit, OnModuleDestroy {
 
     // Notify post owner (even for replies, so they can see conversations)
     // Skip if post owner is the commenter, or if they're already notified as parent comment author
-    if (data.postOwnerId !== data.userId && data.postOwnerId !== data.parentCommentAuthorId) {
+    if (
+      data.postOwnerId !== data.userId &&
+      data.postOwnerId !== data.parentCommentAuthorId &&
+      !(await this.isSilenced(data.postOwnerId, data.userId))
+    ) {
       const notification = await this.notificationService.createNotification({
         userId: data.postOwnerId,
         type: 'post.commented',
@@ -398,7 +872,7 @@ export class EventsConsumer implements OnModuleInit, OnModuleDestroy {
     commentContent: string;
     timestamp: string;
   }) {
-    if (data.userId === data.mentionedUserId) {
+    if (data.userId === data.mentionedUserId || (await this.isSilenced(data.mentionedUserId, data.userId))) {
       return;
     }
 
@@ -453,7 +927,7 @@ export class EventsConsumer implements OnModuleInit, OnModuleDestroy {
     timestamp: string;
   }) {
     // Don't notify if user sent message to themselves
-    if (data.senderId === data.recipientId) {
+    if (data.senderId === data.recipientId || (await this.isSilenced(data.recipientId, data.senderId))) {
       return;
     }
 
@@ -498,6 +972,21 @@ export class EventsConsumer implements OnModuleInit, OnModuleDestroy {
     );
   }
 
+  /**
+   * Whether the recipient has blocked or muted the actor, or been blocked by them
+   */
+  private async isSilenced(userId: string, actorId: string): Promise<boolean> {
+    const { blockedUserIds, mutedUserIds } = await this.userClient.getRelationshipFilter(userId);
+    return blockedUserIds.includes(actorId) || mutedUserIds.includes(actorId);
+  }
+
+  /**
+   * The actor's username for emails, or 'Someone' if it can't be looked up
+   */
+  private async getActorName(actorId: string): Promise<string> {
+    return (await this.userClient.getUsername(actorId)) || 'Someone';
+  }
+
   /**
    * Helper method to send email if user preferences allow
    */
@@ -539,5 +1028,25 @@ export class EventsConsumer implements OnModuleInit, OnModuleDestroy {
       console.error(`[EventsConsumer] Error checking preferences for user ${userId}:`, error);
     }
   }
-}
 
+  /**
+   * Tell the auth service this service has finished erasing the user
+   */
+  private publishDeletionCompleted(userId: string) {
+    const message = {
+      eventType: 'user.deletion_completed',
+      userId,
+      service: 'notification',
+      timestamp: new Date().toISOString(),
+    };
+
+    this.channel.publish(
+      this.exchange,
+      'user.deletion_completed',
+      Buffer.from(JSON.stringify(message)),
+      {
+        persistent: true,
+      },
+    );
+  }
+}
@@ -118,8 +118,24 @@ export class NotificationController {
       })),
     };
   }
-}
-
-
-
 
+  @GrpcMethod('NotificationService', 'ExportUserData')
+  async exportUserData(data: { user_id: string }) {
+    try {
+      const { data: exported, media } = await this.notificationService.exportUserData(data.user_id);
+      return {
+        success: true,
+        message: '',
+        data: JSON.stringify(exported),
+        media,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to export user data',
+        data: '',
+        media: [],
+      };
+    }
+  }
+}
@@ -159,5 +159,45 @@ export class NotificationService {
       where: { userId },
     });
   }
-}
 
+  /**
+   * Personal data export: notifications the user received and their
+   * preferences
+   */
+  async exportUserData(userId: string): Promise<{ data: Record<string, unknown>; media: string[] }> {
+    const [notifications, preferences] = await Promise.all([
+      this.notificationRepository.find({ where: { userId }, order: { createdAt: 'DESC' } }),
+      this.preferenceRepository.find({ where: { userId } }),
+    ]);
+
+    return {
+      data: {
+        notifications: notifications.map((notification) => ({
+          id: notification.id,
+          type: notification.type,
+          related_id: notification.relatedId,
+          actor_id: notification.actorId,
+          read: notification.read,
+          metadata: notification.metadata,
+          created_at: notification.createdAt.toISOString(),
+        })),
+        preferences: preferences.map((preference) => ({
+          type: preference.type,
+          email_enabled: preference.emailEnabled,
+          push_enabled: preference.pushEnabled,
+        })),
+      },
+      media: [],
+    };
+  }
+
+  /**
+   * Account erasure: notifications the user received or caused, and their
+   * preferences
+   */
+  async deleteUserData(userId: string): Promise<void> {
+    await this.notificationRepository.delete({ userId });
+    await this.notificationRepository.delete({ actorId: userId });
+    await this.preferenceRepository.delete({ userId });
+  }
+}
@@ -5,11 +5,27 @@ import { databaseConfig } from './config/database.config';
 import { Post } from './entities/post.entity';
 import { Like } from './entities/like.entity';
 import { Comment } from './entities/comment.entity';
+import { PostRevision } from './entities/post-revision.entity';
+import { PostHashtag } from './entities/post-hashtag.entity';
+import { CommentReaction } from './entities/comment-reaction.entity';
+import { PrivateAccount } from './entities/private-account.entity';
+import { Poll } from './entities/poll.entity';
+import { PollVote } from './entities/poll-vote.entity';
+import { Bookmark } from './entities/bookmark.entity';
+import { BookmarkCollection } from './entities/bookmark-collection.entity';
 import { PostController } from './post/post.controller';
 import { PostService } from './post/post.service';
+import { PostSearchService } from './post/post-search.service';
+import { PostSchedulerService } from './post/post-scheduler.service';
+import { FeedRankingService } from './post/feed-ranking.service';
+import { TimelineService } from './post/timeline.service';
+import { PollService } from './post/poll.service';
+import { BookmarkService } from './post/bookmark.service';
 import { StorageClientService } from './clients/storage-client.service';
+import { UserClientService } from './clients/user-client.service';
 import { FileUploadController } from './post/file-upload.controller';
 import { EventPublisherService } from './events/event-publisher.service';
+import { PostEventsConsumer } from './events/post-events.consumer';
 import { CacheModule } from './cache/cache.module';
 import { PostCacheService } from './cache/post-cache.service';
 
@@ -24,10 +40,23 @@ import { PostCacheService } from './cache/post-cache.service';
       useFactory: (configService: ConfigService) => databaseConfig(configService),
       inject: [ConfigService],
     }),
-    TypeOrmModule.forFeature([Post, Like, Comment]),
+    TypeOrmModule.forFeature([Post, Like, Comment, CommentReaction, PostRevision, PostHashtag, PrivateAccount, Poll, PollVote, Bookmark, BookmarkCollection]),
     CacheModule,
   ],
   controllers: [PostController, FileUploadController],
-  providers: [PostService, StorageClientService, EventPublisherService, PostCacheService],
+  providers: [
+    PostService,
+    PostSchedulerService,
+    PostSearchService,
+    FeedRankingService,
+    TimelineService,
+    PollService,
+    BookmarkService,
+    StorageClientService,
+    UserClientService,
+    EventPublisherService,
+    PostEventsConsumer,
+    PostCacheService,
+  ],
 })
 export class AppModule {}
@@ -1,5 +1,15 @@
 import { Injectable } from '@nestjs/common';
 import { CacheService } from './cache.service';
+import { REACTION_TYPES, ReactionType } from '../utils/reactions';
+import { CommentSort } from '../post/post.service';
+
+// Comment and reply pages are cached per sort, both by page number and by cursor
+export type PageKey = { page: number } | { cursor: string };
+
+export interface CachedPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
 
 /**
  * Post-specific cache operations
@@ -14,7 +24,15 @@ export class PostCacheService {
     COMMENT_PAGE: 120, // 2 minutes
     POST_DETAIL: 600, // 10 minutes
     USER_PROFILE: 600, // 10 minutes
+    TAG_PAGE: 120, // 2 minutes
+    TAG_LIST: 300, // 5 minutes
+    RANKED_FEED: 120, // 2 minutes
+    AUTHOR_AFFINITY: 600, // 10 minutes
+    POLL_TALLY: 86400, // 1 day
   };
+  // Engagement velocity is counted in hourly buckets
+  private readonly VELOCITY_BUCKET_MS = 60 * 60 * 1000;
+  private readonly VELOCITY_BUCKETS = 6;
 
   constructor(private cacheService: CacheService) {}
 
@@ -103,25 +121,27 @@ export class PostCacheService {
   }
 
   // Reply Page Caching
-  async getReplyPage(
+  async getReplyPage<T>(
     commentId: string,
-    page: number,
+    sort: CommentSort,
+    pageKey: PageKey,
     limit: number,
-  ): Promise<any[] | null> {
-    return this.cacheService.get<any[]>(
-      `reply:page:${commentId}:${page}:${limit}`,
+  ): Promise<CachedPage<T> | null> {
+    return this.cacheService.get<CachedPage<T>>(
+      `reply:page:${commentId}:${sort}:${this.pageKeySegment(pageKey)}:${limit}`,
       this.CACHE_PREFIX,
     );
   }
 
-  async setReplyPage(
+  async setReplyPage<T>(
     commentId: string,
-    page: number,
+    sort: CommentSort,
+    pageKey: PageKey,
     limit: number,
-    replies: any[],
+    replies: CachedPage<T>,
   ): Promise<boolean> {
     return this.cacheService.set(
-      `reply:page:${commentId}:${page}:${limit}`,
+      `reply:page:${commentId}:${sort}:${this.pageKeySegment(pageKey)}:${limit}`,
       replies,
       {
         ttl: this.DEFAULT_TTL.COMMENT_PAGE,
@@ -138,25 +158,27 @@ export class PostCacheService {
   }
 
   // Comment Page Caching
-  async getCommentPage(
+  async getCommentPage<T>(
     postId: string,
-    page: number,
+    sort: CommentSort,
+    pageKey: PageKey,
     limit: number,
-  ): Promise<any[] | null> {
-    return this.cacheService.get<any[]>(
-      `comment:page:${postId}:${page}:${limit}`,
+  ): Promise<CachedPage<T> | null> {
+    return this.cacheService.get<CachedPage<T>>(
+      `comment:page:${postId}:${sort}:${this.pageKeySegment(pageKey)}:${limit}`,
       this.CACHE_PREFIX,
     );
   }
 
-  async setCommentPage(
+  async setCommentPage<T>(
     postId: string,
-    page: number,
+    sort: CommentSort,
+    pageKey: PageKey,
     limit: number,
-    comments: any[],
+    comments: CachedPage<T>,
   ): Promise<boolean> {
     return this.cacheService.set(
-      `comment:page:${postId}:${page}:${limit}`,
+      `comment:page:${postId}:${sort}:${this.pageKeySegment(pageKey)}:${limit}`,
       comments,
       {
         ttl: this.DEFAULT_TTL.COMMENT_PAGE,
@@ -210,6 +232,200 @@ export class PostCacheService {
     );
   }
 
+  // Repost Count Caching (reposts and quote posts)
+  async getRepostCount(postId: string): Promise<number | null> {
+    return this.cacheService.get<number>(
+      `repost:count:${postId}`,
+      this.CACHE_PREFIX,
+    );
+  }
+
+  async setRepostCount(postId: string, count: number): Promise<boolean> {
+    return this.cacheService.set(
+      `repost:count:${postId}`,
+      count,
+      {
+        ttl: this.DEFAULT_TTL.POST_COUNT,
+        prefix: this.CACHE_PREFIX,
+      },
+    );
+  }
+
+  // Only a count that's already cached is adjusted; a missing one is counted
+  // from the database on the next read
+  async incrementRepostCount(postId: string): Promise<number | null> {
+    const key = `repost:count:${postId}`;
+    if (!(await this.cacheService.exists(key, this.CACHE_PREFIX))) {
+      return null;
+    }
+    return this.cacheService.increment(key, this.CACHE_PREFIX);
+  }
+
+  async decrementRepostCount(postId: string): Promise<number | null> {
+    const key = `repost:count:${postId}`;
+    if (!(await this.cacheService.exists(key, this.CACHE_PREFIX))) {
+      return null;
+    }
+    return this.cacheService.decrement(key, this.CACHE_PREFIX);
+  }
+
+  async invalidateRepostCount(postId: string): Promise<boolean> {
+    return this.cacheService.delete(`repost:count:${postId}`, this.CACHE_PREFIX);
+  }
+
+  // Reaction Counts per type, as a Redis hash per post or comment. Every type
+  // is stored, zeros included, so an existing hash is a complete count.
+  async getReactionCounts(
+    target: 'post' | 'comment',
+    targetId: string,
+  ): Promise<Record<ReactionType, number> | null> {
+    const key = `${this.CACHE_PREFIX}:reaction:counts:${target}:${targetId}`;
+    const values = await this.cacheService.getClient().hgetall(key);
+
+    if (!values || Object.keys(values).length === 0) {
+      return null;
+    }
+
+    const counts = {} as Record<ReactionType, number>;
+    for (const type of REACTION_TYPES) {
+      counts[type] = parseInt(values[type] || '0', 10);
+    }
+    return counts;
+  }
+
+  async setReactionCounts(
+    target: 'post' | 'comment',
+    targetId: string,
+    counts: Record<ReactionType, number>,
+  ): Promise<void> {
+    const key = `${this.CACHE_PREFIX}:reaction:counts:${target}:${targetId}`;
+    await this.cacheService
+      .getClient()
+      .pipeline()
+      .hset(key, counts)
+      .expire(key, this.DEFAULT_TTL.POST_COUNT)
+      .exec();
+  }
+
+  /**
+   * Move one reaction between types; `from` or `to` is null when a reaction
+   * is added or removed. Only an already cached count is adjusted.
+   */
+  async adjustReactionCounts(
+    target: 'post' | 'comment',
+    targetId: string,
+    from: ReactionType | null,
+    to: ReactionType | null,
+  ): Promise<void> {
+    const key = `${this.CACHE_PREFIX}:reaction:counts:${target}:${targetId}`;
+    const redis = this.cacheService.getClient();
+
+    if (!(await redis.exists(key))) {
+      return;
+    }
+
+    const pipeline = redis.pipeline();
+    if (from) {
+      pipeline.hincrby(key, from, -1);
+    }
+    if (to) {
+      pipeline.hincrby(key, to, 1);
+    }
+    await pipeline.exec();
+  }
+
+  async invalidateReactionCounts(target: 'post' | 'comment', targetId: string): Promise<void> {
+    await this.cacheService.getClient().del(`${this.CACHE_PREFIX}:reaction:counts:${target}:${targetId}`);
+  }
+
+  // Poll tallies, as a Redis hash per poll: a field per option index, the
+  // number of voters, and the version of the votes it was counted from.
+  // Every vote bumps the poll's version before it commits, so a tally is
+  // only stored when no vote got in while it was being counted, and a vote
+  // is only added to a tally counted before it.
+  async getPollTally(pollId: string, optionCount: number): Promise<{ votes: number[]; voters: number } | null> {
+    const key = `${this.CACHE_PREFIX}:poll:tally:${pollId}`;
+    const values = await this.cacheService.getClient().hgetall(key);
+
+    if (!values || Object.keys(values).length === 0) {
+      return null;
+    }
+
+    return {
+      votes: Array.from({ length: optionCount }, (_, index) => parseInt(values[index] || '0', 10)),
+      voters: parseInt(values.voters || '0', 10),
+    };
+  }
+
+  async getPollVersion(pollId: string): Promise<number> {
+    const version = await this.cacheService.getClient().get(`${this.CACHE_PREFIX}:poll:version:${pollId}`);
+    return parseInt(version || '0', 10);
+  }
+
+  async bumpPollVersion(pollId: string): Promise<number> {
+    return this.cacheService.getClient().incr(`${this.CACHE_PREFIX}:poll:version:${pollId}`);
+  }
+
+  /**
+   * Store a tally counted at `version`, unless the version has moved on
+   * since or another tally is already stored. The version key lives as long
+   * as the tally so it can't reset underneath it.
+   */
+  async setPollTally(pollId: string, tally: { votes: number[]; voters: number }, version: number): Promise<boolean> {
+    const fields = { ...Object.fromEntries(tally.votes.map((count, index) => [index, count])), voters: tally.voters };
+    const stored = await this.cacheService.getClient().eval(
+      `if tonumber(redis.call('GET', KEYS[2]) or '0') ~= tonumber(ARGV[1]) or redis.call('EXISTS', KEYS[1]) == 1 then
+         return 0
+       end
+       redis.call('HSET', KEYS[1], 'version', ARGV[1], unpack(ARGV, 3))
+       redis.call('EXPIRE', KEYS[1], ARGV[2])
+       redis.call('EXPIRE', KEYS[2], ARGV[2])
+       return 1`,
+      2,
+      `${this.CACHE_PREFIX}:poll:tally:${pollId}`,
+      `${this.CACHE_PREFIX}:poll:version:${pollId}`,
+      version,
+      this.DEFAULT_TTL.POLL_TALLY,
+      ...Object.entries(fields).flat(),
+    );
+    return stored === 1;
+  }
+
+  /**
+   * Add a committed vote, bumped to `version`, to the stored tally. A tally
+   * counted at that version or later already includes it.
+   */
+  async recordPollVote(pollId: string, optionIndexes: number[], version: number): Promise<void> {
+    await this.cacheService.getClient().eval(
+      `local counted = redis.call('HGET', KEYS[1], 'version')
+       if not counted or tonumber(counted) >= tonumber(ARGV[1]) then
+         return 0
+       end
+       for i = 2, #ARGV do
+         redis.call('HINCRBY', KEYS[1], ARGV[i], 1)
+       end
+       redis.call('HINCRBY', KEYS[1], 'voters', 1)
+       return 1`,
+      1,
+      `${this.CACHE_PREFIX}:poll:tally:${pollId}`,
+      version,
+      ...optionIndexes,
+    );
+  }
+
+  /**
+   * Drop the tally after votes are removed. The version is bumped too, so a
+   * tally counted before the removal isn't stored afterwards.
+   */
+  async invalidatePollTally(pollId: string): Promise<void> {
+    await this.cacheService
+      .getClient()
+      .pipeline()
+      .incr(`${this.CACHE_PREFIX}:poll:version:${pollId}`)
+      .del(`${this.CACHE_PREFIX}:poll:tally:${pollId}`)
+      .exec();
+  }
+
   // User Liked Posts Cache
   async getUserLikedPosts(
     userId: string,
@@ -241,12 +457,166 @@ export class PostCacheService {
     );
   }
 
+  // Engagement Velocity (likes and comments per hourly bucket)
+  async recordEngagement(postId: string, weight: number = 1): Promise<void> {
+    const bucket = Math.floor(Date.now() / this.VELOCITY_BUCKET_MS);
+    const key = `velocity:${postId}:${bucket}`;
+    const count = await this.cacheService.increment(key, this.CACHE_PREFIX, weight);
+
+    if (count === weight) {
+      await this.cacheService.expire(
+        key,
+        (this.VELOCITY_BUCKETS * this.VELOCITY_BUCKET_MS) / 1000,
+        this.CACHE_PREFIX,
+      );
+    }
+  }
+
+  /**
+   * Engagement over the last VELOCITY_BUCKETS hours, per post
+   */
+  async getEngagementVelocity(postIds: string[]): Promise<Record<string, number>> {
+    const result: Record<string, number> = {};
+    if (postIds.length === 0) {
+      return result;
+    }
+
+    const currentBucket = Math.floor(Date.now() / this.VELOCITY_BUCKET_MS);
+    const keys = postIds.flatMap((postId) =>
+      Array.from({ length: this.VELOCITY_BUCKETS }, (_, i) => `velocity:${postId}:${currentBucket - i}`),
+    );
+    const values = await this.cacheService.mget<number>(keys, this.CACHE_PREFIX);
+
+    postIds.forEach((postId, index) => {
+      result[postId] = values
+        .slice(index * this.VELOCITY_BUCKETS, (index + 1) * this.VELOCITY_BUCKETS)
+        .reduce<number>((sum, value) => sum + (Number(value) || 0), 0);
+    });
+
+    return result;
+  }
+
+  // Ranked Feed Caching (ordered post ids, so paging stays stable)
+  async getRankedFeed(userId: string): Promise<string[] | null> {
+    return this.cacheService.get<string[]>(
+      `user:${userId}:feed:top`,
+      this.CACHE_PREFIX,
+    );
+  }
+
+  async setRankedFeed(userId: string, postIds: string[]): Promise<boolean> {
+    return this.cacheService.set(
+      `user:${userId}:feed:top`,
+      postIds,
+      {
+        ttl: this.DEFAULT_TTL.RANKED_FEED,
+        prefix: this.CACHE_PREFIX,
+      },
+    );
+  }
+
+  // How often a viewer has liked/commented on each author's posts
+  async getAuthorAffinity(userId: string): Promise<Record<string, number> | null> {
+    return this.cacheService.get<Record<string, number>>(
+      `user:${userId}:affinity`,
+      this.CACHE_PREFIX,
+    );
+  }
+
+  async setAuthorAffinity(userId: string, affinity: Record<string, number>): Promise<boolean> {
+    return this.cacheService.set(
+      `user:${userId}:affinity`,
+      affinity,
+      {
+        ttl: this.DEFAULT_TTL.AUTHOR_AFFINITY,
+        prefix: this.CACHE_PREFIX,
+      },
+    );
+  }
+
+  // Hashtag Page Caching (post ids only, so edits and counts stay fresh)
+  async getTagPage(
+    tag: string,
+    page: number,
+    limit: number,
+  ): Promise<{ postIds: string[]; total: number } | null> {
+    return this.cacheService.get<{ postIds: string[]; total: number }>(
+      `tag:page:${tag}:${page}:${limit}`,
+      this.CACHE_PREFIX,
+    );
+  }
+
+  async setTagPage(
+    tag: string,
+    page: number,
+    limit: number,
+    result: { postIds: string[]; total: number },
+  ): Promise<boolean> {
+    return this.cacheService.set(
+      `tag:page:${tag}:${page}:${limit}`,
+      result,
+      {
+        ttl: this.DEFAULT_TTL.TAG_PAGE,
+        prefix: this.CACHE_PREFIX,
+      },
+    );
+  }
+
+  // Hashtag Usage Counts
+  async getTagStats<T>(tag: string): Promise<T | null> {
+    return this.cacheService.get<T>(
+      `tag:stats:${tag}`,
+      this.CACHE_PREFIX,
+    );
+  }
+
+  async setTagStats(tag: string, stats: any): Promise<boolean> {
+    return this.cacheService.set(
+      `tag:stats:${tag}`,
+      stats,
+      {
+        ttl: this.DEFAULT_TTL.TAG_PAGE,
+        prefix: this.CACHE_PREFIX,
+      },
+    );
+  }
+
+  // Popular/prefix-matched tag lists; not invalidated, they just expire
+  async getTagList<T>(query: string, limit: number): Promise<T[] | null> {
+    return this.cacheService.get<T[]>(
+      `tag:list:${query}:${limit}`,
+      this.CACHE_PREFIX,
+    );
+  }
+
+  async setTagList(query: string, limit: number, tags: any[]): Promise<boolean> {
+    return this.cacheService.set(
+      `tag:list:${query}:${limit}`,
+      tags,
+      {
+        ttl: this.DEFAULT_TTL.TAG_LIST,
+        prefix: this.CACHE_PREFIX,
+      },
+    );
+  }
+
+  async invalidateTagCache(tags: string[]): Promise<void> {
+    await Promise.all(
+      tags.flatMap((tag) => [
+        this.cacheService.deletePattern(`tag:page:${tag}:*`, this.CACHE_PREFIX),
+        this.cacheService.delete(`tag:stats:${tag}`, this.CACHE_PREFIX),
+      ]),
+    );
+  }
+
   // Batch invalidation
   async invalidatePostCache(postId: string): Promise<void> {
     await Promise.all([
       this.invalidateCommentCount(postId),
       this.invalidateCommentPages(postId),
       this.cacheService.delete(`like:count:${postId}`, this.CACHE_PREFIX),
+      this.invalidateRepostCount(postId),
+      this.invalidateReactionCounts('post', postId),
     ]);
   }
 
@@ -256,5 +626,8 @@ export class PostCacheService {
       this.CACHE_PREFIX,
     );
   }
-}
 
+  private pageKeySegment(pageKey: PageKey): string {
+    return 'cursor' in pageKey ? `c${pageKey.cursor}` : `p${pageKey.page}`;
+  }
+}
@@ -12,6 +12,7 @@ interface StorageServiceClient {
       service_name: string;
       file_type: string;
       expires_in?: number;
+      owner_id?: string;
     },
     callback: (error: any, response: {
       upload_url: string;
@@ -77,6 +78,7 @@ export class StorageClientService implements OnModuleInit {
   async getPresignedUploadUrl(
     fileName: string,
     contentType: string,
+    ownerId: string,
     fileType: string = 'image',
     expiresIn: number = 60 * 60,
   ): Promise<{ uploadUrl: string; objectName: string; accessUrl: string }> {
@@ -88,6 +90,7 @@ export class StorageClientService implements OnModuleInit {
           service_name: 'posts',
           file_type: fileType,
           expires_in: expiresIn,
+          owner_id: ownerId,
         },
         (error, response) => {
           if (error || !response?.success) {
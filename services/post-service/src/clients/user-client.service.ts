@@ -0,0 +1,155 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'path';
+import * as grpc from '@grpc/grpc-js';
+import * as protoLoader from '@grpc/proto-loader';
+
+interface UserServiceClient {
+  GetFollowerIds(
+    data: { user_id: string; offset?: number; limit?: number },
+    callback: (error: any, response: { user_ids: string[]; total: number }) => void,
+  ): void;
+
+  GetFollowingIds(
+    data: { user_id: string; offset?: number; limit?: number },
+    callback: (error: any, response: { user_ids: string[]; total: number }) => void,
+  ): void;
+
+  IsFollowing(
+    data: { follower_id: string; following_id: string },
+    callback: (error: any, response: { following: boolean }) => void,
+  ): void;
+
+  GetRelationshipFilter(
+    data: { user_id: string },
+    callback: (error: any, response: { blocked_user_ids: string[]; muted_user_ids: string[] }) => void,
+  ): void;
+
+  IsBlocked(
+    data: { user_id: string; other_user_id: string },
+    callback: (error: any, response: { blocked: boolean }) => void,
+  ): void;
+}
+
+@Injectable()
+export class UserClientService implements OnModuleInit {
+  private userService: UserServiceClient;
+
+  constructor(private configService: ConfigService) {}
+
+  async onModuleInit() {
+    const userServiceUrl = this.configService.get<string>('USER_SERVICE_GRPC_URL') || 'localhost:5002';
+    const protoPath = join(__dirname, '../../../../shared/protos/user.proto');
+
+    const packageDefinition = protoLoader.loadSync(protoPath, {
+      keepCase: true,
+      longs: String,
+      enums: String,
+      defaults: true,
+      oneofs: true,
+    });
+
+    const userProto = grpc.loadPackageDefinition(packageDefinition).user as any;
+
+    this.userService = new userProto.UserService(
+      userServiceUrl,
+      grpc.credentials.createInsecure(),
+    ) as UserServiceClient;
+
+    console.log('[UserClientService] Connected to User Service');
+  }
+
+  async getFollowerIds(
+    userId: string,
+    offset: number = 0,
+    limit: number = 1000,
+  ): Promise<{ userIds: string[]; total: number }> {
+    return new Promise((resolve, reject) => {
+      this.userService.GetFollowerIds(
+        { user_id: userId, offset, limit },
+        (error, response) => {
+          if (error || !response) {
+            console.error('[UserClientService] Failed to get follower ids:', error);
+            reject(error || new Error('Failed to get follower ids'));
+          } else {
+            resolve({ userIds: response.user_ids || [], total: response.total || 0 });
+          }
+        },
+      );
+    });
+  }
+
+  async getFollowingIds(
+    userId: string,
+    offset: number = 0,
+    limit: number = 1000,
+  ): Promise<{ userIds: string[]; total: number }> {
+    return new Promise((resolve, reject) => {
+      this.userService.GetFollowingIds(
+        { user_id: userId, offset, limit },
+        (error, response) => {
+          if (error || !response) {
+            console.error('[UserClientService] Failed to get following ids:', error);
+            reject(error || new Error('Failed to get following ids'));
+          } else {
+            resolve({ userIds: response.user_ids || [], total: response.total || 0 });
+          }
+        },
+      );
+    });
+  }
+
+  async isFollowing(followerId: string, followingId: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.userService.IsFollowing(
+        { follower_id: followerId, following_id: followingId },
+        (error, response) => {
+          if (error || !response) {
+            console.error('[UserClientService] Failed to check follow:', error);
+            reject(error || new Error('Failed to check follow'));
+          } else {
+            resolve(!!response.following);
+          }
+        },
+      );
+    });
+  }
+
+  /**
+   * Users blocked by or blocking the user, and users they've muted
+   */
+  async getRelationshipFilter(userId: string): Promise<{ blockedUserIds: string[]; mutedUserIds: string[] }> {
+    return new Promise((resolve, reject) => {
+      this.userService.GetRelationshipFilter(
+        { user_id: userId },
+        (error, response) => {
+          if (error || !response) {
+            console.error('[UserClientService] Failed to get relationship filter:', error);
+            reject(error || new Error('Failed to get relationship filter'));
+          } else {
+            resolve({
+              blockedUserIds: response.blocked_user_ids || [],
+              mutedUserIds: response.muted_user_ids || [],
+            });
+          }
+        },
+      );
+    });
+  }
+
+  async isBlocked(userId: string, otherUserId: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.userService.IsBlocked(
+        { user_id: userId, other_user_id: otherUserId },
+        (error, response) => {
+          if (error || !response) {
+            console.error('[UserClientService] Failed to check block:', error);
+            reject(error || new Error('Failed to check block'));
+          } else {
+            resolve(!!response.blocked);
+          }
+        },
+      );
+    });
+  }
+}
@@ -0,0 +1,26 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Unique,
+  Index,
+} from 'typeorm';
+
+// A named group of a user's bookmarks; only ever visible to its owner
+@Entity({ name: 'bookmark_collections', schema: 'post' })
+@Unique(['userId', 'name'])
+@Index(['userId'])
+export class BookmarkCollection {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  name: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
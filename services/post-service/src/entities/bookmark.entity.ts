@@ -0,0 +1,40 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Unique,
+  Index,
+} from 'typeorm';
+import { Post } from './post.entity';
+import { BookmarkCollection } from './bookmark-collection.entity';
+
+// A post a user saved, in at most one of their collections. Goes with the
+// post when it's deleted; deleting the collection just leaves it unsorted.
+@Entity({ name: 'bookmarks', schema: 'post' })
+@Unique(['userId', 'postId'])
+@Index(['postId'])
+@Index(['collectionId'])
+export class Bookmark {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'uuid' })
+  postId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  collectionId: string | null;
+
+  @ManyToOne(() => Post, { onDelete: 'CASCADE' })
+  post: Post;
+
+  @ManyToOne(() => BookmarkCollection, { onDelete: 'SET NULL', nullable: true })
+  collection: BookmarkCollection | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,35 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Unique,
+  Index,
+} from 'typeorm';
+import { Comment } from './comment.entity';
+import type { ReactionType } from '../utils/reactions';
+
+@Entity({ name: 'comment_reactions', schema: 'post' })
+@Unique(['commentId', 'userId'])
+@Index(['commentId'])
+@Index(['userId'])
+export class CommentReaction {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  commentId: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'varchar', length: 20, default: 'like' })
+  type: ReactionType;
+
+  @ManyToOne(() => Comment, { onDelete: 'CASCADE' })
+  comment: Comment;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
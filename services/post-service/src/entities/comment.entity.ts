@@ -10,6 +10,8 @@ import {
 import { Post } from './post.entity';
 
 @Entity({ name: 'comments', schema: 'post' })
+// GIN index, created by PostSearchService since TypeORM can't declare one
+@Index('IDX_comments_search_vector', { synchronize: false })
 @Index(['postId', 'parentCommentId', 'createdAt']) 
 @Index(['parentCommentId']) 
 @Index(['userId'])
@@ -36,12 +38,27 @@ export class Comment {
   @Column({ type: 'int', default: 0 })
   replyCount: number; 
 
+  // Reactions of any type count as likes
+  @Column({ type: 'int', default: 0 })
+  likesCount: number;
+
   @Column({ type: 'boolean', default: false })
   isDeleted: boolean;
 
   @ManyToOne(() => Post, (post) => post.comments, { onDelete: 'CASCADE' })
   post: Post;
 
+  // Kept up to date by Postgres from content
+  @Column({
+    type: 'tsvector',
+    generatedType: 'STORED',
+    asExpression: `to_tsvector('english', coalesce(content, ''))`,
+    select: false,
+    insert: false,
+    update: false,
+  })
+  searchVector: string;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -8,7 +8,9 @@ import {
   Index,
 } from 'typeorm';
 import { Post } from './post.entity';
+import type { ReactionType } from '../utils/reactions';
 
+// A user's reaction to a post; one per user, and 'like' unless they picked another
 @Entity({ name: 'likes', schema: 'post' })
 @Unique(['postId', 'userId'])
 @Index(['postId'])
@@ -23,6 +25,9 @@ export class Like {
   @Column({ type: 'uuid' })
   userId: string;
 
+  @Column({ type: 'varchar', length: 20, default: 'like' })
+  type: ReactionType;
+
   @ManyToOne(() => Post, (post) => post.likes, { onDelete: 'CASCADE' })
   post: Post;
 
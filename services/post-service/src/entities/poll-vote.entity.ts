@@ -0,0 +1,34 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Unique,
+  Index,
+} from 'typeorm';
+import { Poll } from './poll.entity';
+
+// One row per option picked, so a multiple-choice vote is several rows
+@Entity({ name: 'poll_votes', schema: 'post' })
+@Unique(['pollId', 'userId', 'optionIndex'])
+@Index(['userId'])
+export class PollVote {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  pollId: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'int' })
+  optionIndex: number;
+
+  @ManyToOne(() => Poll, { onDelete: 'CASCADE' })
+  poll: Poll;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,40 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  OneToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Post } from './post.entity';
+
+/**
+ * A poll attached to a post. Options are fixed once the post is created;
+ * votes refer to them by index.
+ */
+@Entity({ name: 'polls', schema: 'post' })
+export class Poll {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid', unique: true })
+  postId: string;
+
+  @OneToOne(() => Post, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'postId' })
+  post: Post;
+
+  @Column('text', { array: true })
+  options: string[];
+
+  // Whether a voter may pick more than one option
+  @Column({ type: 'boolean', default: false })
+  multipleChoice: boolean;
+
+  // Null for polls that stay open
+  @Column({ type: 'timestamp', nullable: true })
+  closesAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
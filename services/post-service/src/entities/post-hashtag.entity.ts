@@ -0,0 +1,44 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Index,
+} from 'typeorm';
+import { Post } from './post.entity';
+import { Comment } from './comment.entity';
+
+/**
+ * One hashtag used in a post, or in a comment on it when commentId is set.
+ * Tags are stored lowercase without the leading #.
+ */
+@Entity({ name: 'post_hashtags', schema: 'post' })
+@Index(['tag', 'commentId'])
+@Index(['postId'])
+@Index(['commentId'])
+export class PostHashtag {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  tag: string;
+
+  @Column({ type: 'uuid' })
+  postId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  commentId: string | null;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => Post, { onDelete: 'CASCADE' })
+  post: Post;
+
+  @ManyToOne(() => Comment, { onDelete: 'CASCADE' })
+  comment: Comment;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,39 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Index,
+} from 'typeorm';
+import { Post } from './post.entity';
+
+/**
+ * An earlier version of a post, saved each time the post is edited
+ */
+@Entity({ name: 'post_revisions', schema: 'post' })
+@Index(['postId', 'createdAt'])
+export class PostRevision {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  postId: string;
+
+  @Column({ type: 'text' })
+  content: string;
+
+  @Column('text', { array: true, default: [] })
+  mediaUrls: string[];
+
+  // When this version went live (the post's creation or a previous edit)
+  @Column({ type: 'timestamp' })
+  publishedAt: Date;
+
+  @ManyToOne(() => Post, (post) => post.revisions, { onDelete: 'CASCADE' })
+  post: Post;
+
+  // When this version was replaced
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -5,11 +5,37 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
   OneToMany,
+  ManyToOne,
+  JoinColumn,
+  Index,
 } from 'typeorm';
 import { Like } from './like.entity';
 import { Comment } from './comment.entity';
+import { PostRevision } from './post-revision.entity';
+
+export enum PostStatus {
+  DRAFT = 'draft',
+  SCHEDULED = 'scheduled', // Published by PostSchedulerService once publishAt passes
+  PUBLISHED = 'published',
+}
+
+export enum PostVisibility {
+  PUBLIC = 'public',
+  FOLLOWERS = 'followers', // The author's followers
+  MENTIONED = 'mentioned', // Only users mentioned in the post
+  PRIVATE = 'private', // Only the author
+}
 
 @Entity({ name: 'posts', schema: 'post' })
+// GIN index, created by PostSearchService since TypeORM can't declare one
+@Index('IDX_posts_search_vector', { synchronize: false })
+@Index(['repostOfId'])
+@Index(['status', 'publishAt'])
+// One plain repost per user per post; quotes aren't limited
+@Index('IDX_posts_single_repost', ['userId', 'repostOfId'], {
+  unique: true,
+  where: '"isQuote" = false AND "repostOfId" IS NOT NULL',
+})
 export class Post {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -23,12 +49,61 @@ export class Post {
   @Column('text', { array: true, default: [] })
   mediaUrls: string[];
 
+  // Set on reposts and quote posts. A plain repost has no content of its own.
+  @Column({ type: 'uuid', nullable: true })
+  repostOfId: string | null;
+
+  // PostService removes plain reposts along with the original; quotes stay
+  // up with repostOfId cleared
+  @ManyToOne(() => Post, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'repostOfId' })
+  repostOf: Post | null;
+
+  @Column({ type: 'boolean', default: false })
+  isQuote: boolean;
+
+  // Authors always see their own posts, whatever the visibility
+  @Column({ type: 'enum', enum: PostVisibility, default: PostVisibility.PUBLIC })
+  visibility: PostVisibility;
+
+  // User ids mentioned in the post, resolved by the gateway
+  @Column('uuid', { array: true, default: [] })
+  mentions: string[];
+
+  // Only published posts are visible to anyone but their author
+  @Column({ type: 'enum', enum: PostStatus, default: PostStatus.PUBLISHED })
+  status: PostStatus;
+
+  // When a scheduled post goes (or went) live; null for drafts and posts published straight away
+  @Column({ type: 'timestamp', nullable: true })
+  publishAt: Date | null;
+
   @OneToMany(() => Like, (like) => like.post)
   likes: Like[];
 
   @OneToMany(() => Comment, (comment) => comment.post)
   comments: Comment[];
 
+  @OneToMany(() => PostRevision, (revision) => revision.post)
+  revisions: PostRevision[];
+
+  // Set on the first edit and on every one after; null means never edited
+  @Column({ type: 'timestamp', nullable: true })
+  editedAt: Date | null;
+
+  // Kept up to date by Postgres from content
+  @Column({
+    type: 'tsvector',
+    generatedType: 'STORED',
+    asExpression: `to_tsvector('english', coalesce(content, ''))`,
+    select: false,
+    insert: false,
+    update: false,
+  })
+  searchVector: string;
+
+  // Moved to the publish time when a draft or scheduled post is published,
+  // so feeds and timelines place it by when it went live
   @CreateDateColumn()
   createdAt: Date;
 
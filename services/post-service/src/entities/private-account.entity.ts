@@ -0,0 +1,18 @@
+import {
+  Entity,
+  PrimaryColumn,
+  CreateDateColumn,
+} from 'typeorm';
+
+/**
+ * Users whose accounts are private, mirrored from the user service's
+ * user.privacy_changed events. Their posts are only shown to followers.
+ */
+@Entity({ name: 'private_accounts', schema: 'post' })
+export class PrivateAccount {
+  @PrimaryColumn({ type: 'uuid' })
+  userId: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
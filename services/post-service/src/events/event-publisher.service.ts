@@ -49,7 +49,7 @@ export class EventPublisherService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async publishPostLiked(postId: string, userId: string, postOwnerId: string) {
+  async publishPostLiked(postId: string, userId: string, postOwnerId: string, reaction: string = 'like') {
     if (!this.channel) {
       console.error('[EventPublisher] Channel not initialized');
       return;
@@ -61,6 +61,7 @@ export class EventPublisherService implements OnModuleInit, OnModuleDestroy {
         postId,
         userId, // User who liked the post
         postOwnerId, // Owner of the post (who should be notified)
+        reaction, // 'like' or one of the other reaction types
         timestamp: new Date().toISOString(),
       };
 
@@ -203,5 +204,137 @@ export class EventPublisherService implements OnModuleInit, OnModuleDestroy {
       console.error('[EventPublisher] Failed to publish post.created event:', error);
     }
   }
-}
 
+  async publishPostUpdated(postId: string, userId: string, content: string) {
+    if (!this.channel) {
+      console.error('[EventPublisher] Channel not initialized');
+      return;
+    }
+
+    try {
+      const message = {
+        eventType: 'post.updated',
+        postId,
+        userId,
+        content: content.substring(0, 100), // First 100 chars for preview
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.channel.publish(
+        this.exchange,
+        'post.updated',
+        Buffer.from(JSON.stringify(message)),
+        {
+          persistent: true,
+        },
+      );
+
+      console.log(`[EventPublisher] Published post.updated event for post: ${postId}`);
+    } catch (error) {
+      console.error('[EventPublisher] Failed to publish post.updated event:', error);
+    }
+  }
+
+  async publishPostReposted(
+    postId: string,
+    repostId: string,
+    userId: string,
+    postOwnerId: string,
+    quote: boolean,
+    content: string,
+  ) {
+    if (!this.channel) {
+      console.error('[EventPublisher] Channel not initialized');
+      return;
+    }
+
+    try {
+      const message = {
+        eventType: 'post.reposted',
+        postId, // The original post
+        repostId,
+        userId, // User who reposted
+        postOwnerId, // Author of the original (who should be notified)
+        quote,
+        content: content.substring(0, 100), // Quote text preview, empty for plain reposts
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.channel.publish(
+        this.exchange,
+        'post.reposted',
+        Buffer.from(JSON.stringify(message)),
+        {
+          persistent: true,
+        },
+      );
+
+      console.log(`[EventPublisher] Published post.reposted event for post: ${postId}`);
+    } catch (error) {
+      console.error('[EventPublisher] Failed to publish post.reposted event:', error);
+    }
+  }
+
+  async publishCommentLiked(
+    commentId: string,
+    postId: string,
+    userId: string,
+    commentOwnerId: string,
+    reaction: string = 'like',
+  ) {
+    if (!this.channel) {
+      console.error('[EventPublisher] Channel not initialized');
+      return;
+    }
+
+    try {
+      const message = {
+        eventType: 'comment.liked',
+        commentId,
+        postId,
+        userId, // User who liked the comment
+        commentOwnerId, // Author of the comment (who should be notified)
+        reaction,
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.channel.publish(
+        this.exchange,
+        'comment.liked',
+        Buffer.from(JSON.stringify(message)),
+        {
+          persistent: true,
+        },
+      );
+
+      console.log(`[EventPublisher] Published comment.liked event for comment: ${commentId}`);
+    } catch (error) {
+      console.error('[EventPublisher] Failed to publish comment.liked event:', error);
+    }
+  }
+
+  async publishUserDeletionCompleted(userId: string) {
+    if (!this.channel) {
+      throw new Error('RabbitMQ channel not initialized');
+    }
+
+    const message = {
+      eventType: 'user.deletion_completed',
+      userId,
+      service: 'post',
+      timestamp: new Date().toISOString(),
+    };
+
+    // Thrown errors requeue the user.deleted message so the report isn't lost
+    await this.channel.publish(
+      this.exchange,
+      'user.deletion_completed',
+      Buffer.from(JSON.stringify(message)),
+      {
+        persistent: true,
+      },
+    );
+
+    console.log(`[EventPublisher] Published user.deletion_completed event for user: ${userId}`);
+  }
+}
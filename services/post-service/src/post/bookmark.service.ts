@@ -0,0 +1,166 @@
+import { Injectable, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Bookmark } from '../entities/bookmark.entity';
+import { BookmarkCollection } from '../entities/bookmark-collection.entity';
+import { findKeysetPage, KeysetPage } from '../utils/cursor';
+
+const MAX_COLLECTIONS = 100;
+const MAX_COLLECTION_NAME_LENGTH = 50;
+
+export type CollectionWithCount = BookmarkCollection & { bookmarkCount: number };
+
+/**
+ * Bookmark Service
+ * Private bookmarks and the collections they're sorted into. Whether the
+ * user may see a post is checked by PostService before it's saved.
+ */
+@Injectable()
+export class BookmarkService {
+  constructor(
+    @InjectRepository(Bookmark)
+    private bookmarkRepository: Repository<Bookmark>,
+    @InjectRepository(BookmarkCollection)
+    private collectionRepository: Repository<BookmarkCollection>,
+  ) {}
+
+  /**
+   * Save a post, or move it to another collection if it's already saved.
+   * Without a collection it's kept unsorted.
+   */
+  async save(userId: string, postId: string, collectionId?: string): Promise<Bookmark> {
+    if (collectionId) {
+      await this.getCollection(userId, collectionId);
+    }
+
+    const existing = await this.bookmarkRepository.findOne({ where: { userId, postId } });
+    if (existing) {
+      existing.collectionId = collectionId || null;
+      return this.bookmarkRepository.save(existing);
+    }
+
+    return this.bookmarkRepository.save(
+      this.bookmarkRepository.create({ userId, postId, collectionId: collectionId || null }),
+    );
+  }
+
+  /**
+   * Nothing to do if the post isn't saved
+   */
+  async unsave(userId: string, postId: string): Promise<void> {
+    await this.bookmarkRepository.delete({ userId, postId });
+  }
+
+  /**
+   * Most recently saved first, optionally from one collection only
+   */
+  async listSaved(
+    userId: string,
+    options: { collectionId?: string; page?: number; limit?: number; cursor?: string } = {},
+  ): Promise<KeysetPage<Bookmark>> {
+    const { collectionId, page = 1, limit = 20, cursor } = options;
+
+    const query = this.bookmarkRepository
+      .createQueryBuilder('bookmark')
+      .where('bookmark.userId = :userId', { userId });
+
+    if (collectionId) {
+      await this.getCollection(userId, collectionId);
+      query.andWhere('bookmark.collectionId = :collectionId', { collectionId });
+    }
+
+    return findKeysetPage(query, {
+      alias: 'bookmark',
+      table: 'post.bookmarks',
+      direction: 'DESC',
+      page,
+      limit,
+      cursor,
+    });
+  }
+
+  async createCollection(userId: string, name: string): Promise<CollectionWithCount> {
+    const trimmed = (name || '').trim();
+    if (!trimmed) {
+      throw new BadRequestException('Collection name is required');
+    }
+    if (trimmed.length > MAX_COLLECTION_NAME_LENGTH) {
+      throw new BadRequestException(`Collection names can be at most ${MAX_COLLECTION_NAME_LENGTH} characters`);
+    }
+
+    const collections = await this.collectionRepository.find({ select: ['name'], where: { userId } });
+    if (collections.length >= MAX_COLLECTIONS) {
+      throw new BadRequestException(`You can have at most ${MAX_COLLECTIONS} collections`);
+    }
+    if (collections.some((collection) => collection.name.toLowerCase() === trimmed.toLowerCase())) {
+      throw new ConflictException('You already have a collection with this name');
+    }
+
+    const collection = await this.collectionRepository.save(
+      this.collectionRepository.create({ userId, name: trimmed }),
+    );
+
+    return { ...collection, bookmarkCount: 0 };
+  }
+
+  /**
+   * The user's collections, oldest first, with how many posts each holds
+   */
+  async getCollections(userId: string): Promise<CollectionWithCount[]> {
+    const collections = await this.collectionRepository.find({
+      where: { userId },
+      order: { createdAt: 'ASC' },
+    });
+
+    if (collections.length === 0) {
+      return [];
+    }
+
+    const rows = await this.bookmarkRepository
+      .createQueryBuilder('bookmark')
+      .select('bookmark.collectionId', 'collectionId')
+      .addSelect('COUNT(*)', 'count')
+      .where('bookmark.userId = :userId', { userId })
+      .andWhere('bookmark.collectionId IS NOT NULL')
+      .groupBy('bookmark.collectionId')
+      .getRawMany();
+
+    const counts = new Map<string, number>(rows.map((row) => [row.collectionId, parseInt(row.count, 10)]));
+
+    return collections.map((collection) => ({ ...collection, bookmarkCount: counts.get(collection.id) || 0 }));
+  }
+
+  /**
+   * The posts in it stay saved, just unsorted (ON DELETE SET NULL)
+   */
+  async deleteCollection(userId: string, collectionId: string): Promise<void> {
+    const collection = await this.getCollection(userId, collectionId);
+    await this.collectionRepository.remove(collection);
+  }
+
+  async getUserBookmarks(userId: string): Promise<Bookmark[]> {
+    return this.bookmarkRepository.find({
+      where: { userId },
+      relations: ['collection'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Account erasure: the user's bookmarks and collections
+   */
+  async deleteUserBookmarks(userId: string): Promise<void> {
+    await this.bookmarkRepository.delete({ userId });
+    await this.collectionRepository.delete({ userId });
+  }
+
+  private async getCollection(userId: string, collectionId: string): Promise<BookmarkCollection> {
+    const collection = await this.collectionRepository.findOne({ where: { id: collectionId, userId } });
+
+    if (!collection) {
+      throw new NotFoundException('Collection not found');
+    }
+
+    return collection;
+  }
+}
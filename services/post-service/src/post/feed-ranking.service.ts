@@ -0,0 +1,220 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In } from 'typeorm';
+import { Post, PostStatus } from '../entities/post.entity';
+import { Like } from '../entities/like.entity';
+import { Comment } from '../entities/comment.entity';
+import { PostCacheService } from '../cache/post-cache.service';
+import { whereVisibleTo } from '../utils/visibility';
+
+// How far back viewer interactions count towards author affinity
+const AFFINITY_WINDOW_DAYS = 30;
+
+export type FeedMode = 'latest' | 'top';
+
+/**
+ * Feed Ranking Service
+ * Orders the "top" feed. Candidates are recent posts by the viewer and the
+ * people they follow, scored on:
+ * - recency: halves every FEED_HALF_LIFE_HOURS
+ * - engagement: total likes/comments plus velocity over the last few hours
+ * - affinity: how often the viewer has liked or commented on the author
+ */
+@Injectable()
+export class FeedRankingService {
+  private readonly windowHours: number;
+  private readonly halfLifeHours: number;
+  private readonly maxCandidates: number;
+
+  constructor(
+    @InjectRepository(Post)
+    private postRepository: Repository<Post>,
+    @InjectRepository(Like)
+    private likeRepository: Repository<Like>,
+    @InjectRepository(Comment)
+    private commentRepository: Repository<Comment>,
+    private cacheService: PostCacheService,
+    private configService: ConfigService,
+  ) {
+    this.windowHours = parseInt(this.configService.get<string>('FEED_WINDOW_HOURS') || '72', 10);
+    this.halfLifeHours = parseInt(this.configService.get<string>('FEED_HALF_LIFE_HOURS') || '12', 10);
+    this.maxCandidates = parseInt(this.configService.get<string>('FEED_MAX_CANDIDATES') || '500', 10);
+  }
+
+  async getRankedFeed(
+    userId: string,
+    userIds: string[],
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<{ posts: Post[]; total: number }> {
+    let rankedIds = await this.cacheService.getRankedFeed(userId);
+
+    if (!rankedIds) {
+      rankedIds = await this.rankCandidates(userId, userIds);
+      await this.cacheService.setRankedFeed(userId, rankedIds);
+    }
+
+    const pageIds = rankedIds.slice((page - 1) * limit, page * limit);
+    if (pageIds.length === 0) {
+      return { posts: [], total: rankedIds.length };
+    }
+
+    const posts = await this.postRepository.find({
+      where: { id: In(pageIds) },
+    });
+
+    // Posts deleted since the ranking was cached simply drop out
+    const postsById = new Map(posts.map((post) => [post.id, post]));
+    return {
+      posts: pageIds.map((id) => postsById.get(id)).filter((post): post is Post => !!post),
+      total: rankedIds.length,
+    };
+  }
+
+  private async rankCandidates(userId: string, userIds: string[]): Promise<string[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    // Everyone in userIds is followed by the viewer (or is the viewer)
+    const candidates = await whereVisibleTo(
+      this.postRepository
+        .createQueryBuilder('post')
+        .select(['post.id', 'post.userId', 'post.createdAt'])
+        .where('post.userId IN (:...userIds)', { userIds })
+        .andWhere('post.status = :status', { status: PostStatus.PUBLISHED })
+        .andWhere('post.createdAt > :since', { since: new Date(Date.now() - this.windowHours * 60 * 60 * 1000) }),
+      'post',
+      userId,
+      true,
+    )
+      .orderBy('post.createdAt', 'DESC')
+      .take(this.maxCandidates)
+      .getMany();
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const postIds = candidates.map((post) => post.id);
+    const [counts, velocity, affinity] = await Promise.all([
+      this.getEngagementCounts(postIds),
+      this.cacheService.getEngagementVelocity(postIds),
+      this.getAuthorAffinity(userId, userIds),
+    ]);
+
+    const now = Date.now();
+    const scored = candidates.map((post) => {
+      const ageHours = Math.max(0, (now - post.createdAt.getTime()) / (60 * 60 * 1000));
+      const recency = Math.pow(0.5, ageHours / this.halfLifeHours);
+      const engagement = Math.log1p(counts[post.id] || 0) + 2 * Math.log1p(velocity[post.id] || 0);
+      const authorBoost = 1 + Math.log1p(affinity[post.userId] || 0);
+
+      return { id: post.id, score: recency * (1 + engagement) * authorBoost, createdAt: post.createdAt };
+    });
+
+    scored.sort((a, b) => b.score - a.score || b.createdAt.getTime() - a.createdAt.getTime());
+
+    return scored.map((post) => post.id);
+  }
+
+  /**
+   * Likes plus comments (weighted double) per post, from the Redis counters
+   * where present and the database otherwise
+   */
+  private async getEngagementCounts(postIds: string[]): Promise<Record<string, number>> {
+    const cached = await Promise.all(
+      postIds.map(async (postId) => ({
+        postId,
+        likes: await this.cacheService.getLikeCount(postId),
+        comments: await this.cacheService.getCommentCount(postId),
+      })),
+    );
+
+    const missingLikes = cached.filter((entry) => entry.likes === null).map((entry) => entry.postId);
+    const missingComments = cached.filter((entry) => entry.comments === null).map((entry) => entry.postId);
+
+    const [likeRows, commentRows] = await Promise.all([
+      missingLikes.length > 0
+        ? this.likeRepository
+            .createQueryBuilder('postLike')
+            .select('postLike.postId', 'postId')
+            .addSelect('COUNT(*)', 'count')
+            .where('postLike.postId IN (:...postIds)', { postIds: missingLikes })
+            .groupBy('postLike.postId')
+            .getRawMany()
+        : Promise.resolve([]),
+      missingComments.length > 0
+        ? this.commentRepository
+            .createQueryBuilder('comment')
+            .select('comment.postId', 'postId')
+            .addSelect('COUNT(*)', 'count')
+            .where('comment.postId IN (:...postIds)', { postIds: missingComments })
+            .groupBy('comment.postId')
+            .getRawMany()
+        : Promise.resolve([]),
+    ]);
+
+    const likeCounts = new Map<string, number>(likeRows.map((row) => [row.postId, parseInt(row.count, 10)]));
+    const commentCounts = new Map<string, number>(commentRows.map((row) => [row.postId, parseInt(row.count, 10)]));
+
+    const result: Record<string, number> = {};
+    for (const entry of cached) {
+      const likes = entry.likes ?? likeCounts.get(entry.postId) ?? 0;
+      const comments = entry.comments ?? commentCounts.get(entry.postId) ?? 0;
+      result[entry.postId] = likes + 2 * comments;
+    }
+
+    return result;
+  }
+
+  /**
+   * Number of the viewer's recent likes and comments per author
+   */
+  private async getAuthorAffinity(userId: string, authorIds: string[]): Promise<Record<string, number>> {
+    const cached = await this.cacheService.getAuthorAffinity(userId);
+    if (cached) {
+      return cached;
+    }
+
+    const since = new Date(Date.now() - AFFINITY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const otherAuthors = authorIds.filter((id) => id !== userId);
+    if (otherAuthors.length === 0) {
+      return {};
+    }
+
+    const [likeRows, commentRows] = await Promise.all([
+      this.likeRepository
+        .createQueryBuilder('postLike')
+        .innerJoin('postLike.post', 'post')
+        .select('post.userId', 'authorId')
+        .addSelect('COUNT(*)', 'count')
+        .where('postLike.userId = :userId', { userId })
+        .andWhere('postLike.createdAt > :since', { since })
+        .andWhere('post.userId IN (:...authorIds)', { authorIds: otherAuthors })
+        .groupBy('post.userId')
+        .getRawMany(),
+      this.commentRepository
+        .createQueryBuilder('comment')
+        .innerJoin('comment.post', 'post')
+        .select('post.userId', 'authorId')
+        .addSelect('COUNT(*)', 'count')
+        .where('comment.userId = :userId', { userId })
+        .andWhere('comment.isDeleted = false')
+        .andWhere('comment.createdAt > :since', { since })
+        .andWhere('post.userId IN (:...authorIds)', { authorIds: otherAuthors })
+        .groupBy('post.userId')
+        .getRawMany(),
+    ]);
+
+    const affinity: Record<string, number> = {};
+    for (const row of [...likeRows, ...commentRows]) {
+      affinity[row.authorId] = (affinity[row.authorId] || 0) + parseInt(row.count, 10);
+    }
+
+    await this.cacheService.setAuthorAffinity(userId, affinity);
+
+    return affinity;
+  }
+}
@@ -15,6 +15,7 @@ export class FileUploadController {
   async getPresignedUploadUrl(data: {
     file_name: string;
     content_type: string;
+    user_id: string;
   }) {
     try {
       if (!data.file_name) {
@@ -24,6 +25,7 @@ export class FileUploadController {
       const result = await this.postService.getPresignedUploadUrl(
         data.file_name,
         data.content_type || 'application/octet-stream',
+        data.user_id,
       );
 
       return {
@@ -0,0 +1,264 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Poll } from '../entities/poll.entity';
+import { PollVote } from '../entities/poll-vote.entity';
+import { PostCacheService } from '../cache/post-cache.service';
+import { PollService } from './poll.service';
+
+describe('PollService', () => {
+  let service: PollService;
+  let votes: Array<{ pollId: string; userId: string; optionIndex: number }>;
+  let manager: { findOne: jest.Mock; exists: jest.Mock; insert: jest.Mock; createQueryBuilder: jest.Mock };
+  let cacheService: Record<
+    'getPollTally' | 'getPollVersion' | 'bumpPollVersion' | 'setPollTally' | 'recordPollVote' | 'invalidatePollTally',
+    jest.Mock
+  >;
+  // In-memory stand-in for the Redis tallies, following the same version rules
+  let tallies: Map<string, { votes: number[]; voters: number; version: number }>;
+  let versions: Map<string, number>;
+  // Run just before a tally is stored or a vote is added to it
+  let beforeStore: (() => Promise<unknown>) | null;
+  let beforeRecord: (() => Promise<unknown>) | null;
+
+  const makePoll = (overrides: Partial<Poll> = {}): Poll =>
+    ({
+      id: 'poll-1',
+      postId: 'post-1',
+      options: ['Yes', 'No', 'Maybe'],
+      multipleChoice: false,
+      closesAt: null,
+      ...overrides,
+    }) as Poll;
+
+  const runHook = async (hook: (() => Promise<unknown>) | null) => {
+    if (hook) {
+      await hook();
+    }
+  };
+
+  // Answers the two tally queries in getTally from `votes`
+  const tallyQuery = () => {
+    let grouped = false;
+    const query = {
+      select: () => query,
+      addSelect: () => query,
+      where: () => query,
+      groupBy: () => {
+        grouped = true;
+        return query;
+      },
+      getRawMany: async () => {
+        const counts = new Map<number, number>();
+        votes.forEach((vote) => counts.set(vote.optionIndex, (counts.get(vote.optionIndex) || 0) + 1));
+        return grouped ? Array.from(counts, ([optionIndex, count]) => ({ optionIndex, count: String(count) })) : [];
+      },
+      getRawOne: async () => ({ count: String(new Set(votes.map((vote) => vote.userId)).size) }),
+    };
+    return query;
+  };
+
+  beforeEach(async () => {
+    votes = [];
+    manager = {
+      findOne: jest.fn(),
+      exists: jest.fn(async (_entity, { where }) => votes.some((vote) => vote.userId === where.userId)),
+      insert: jest.fn(async (_entity, rows) => {
+        votes.push(...rows);
+      }),
+      createQueryBuilder: jest.fn(() => tallyQuery()),
+    };
+    tallies = new Map();
+    versions = new Map();
+    beforeStore = null;
+    beforeRecord = null;
+    cacheService = {
+      getPollTally: jest.fn(async (pollId: string) => {
+        const tally = tallies.get(pollId);
+        return tally ? { votes: [...tally.votes], voters: tally.voters } : null;
+      }),
+      getPollVersion: jest.fn(async (pollId: string) => versions.get(pollId) || 0),
+      bumpPollVersion: jest.fn(async (pollId: string) => {
+        versions.set(pollId, (versions.get(pollId) || 0) + 1);
+        return versions.get(pollId);
+      }),
+      setPollTally: jest.fn(async (pollId: string, tally: { votes: number[]; voters: number }, version: number) => {
+        const hook = beforeStore;
+        beforeStore = null;
+        await runHook(hook);
+
+        if ((versions.get(pollId) || 0) !== version || tallies.has(pollId)) {
+          return false;
+        }
+        tallies.set(pollId, { votes: [...tally.votes], voters: tally.voters, version });
+        return true;
+      }),
+      recordPollVote: jest.fn(async (pollId: string, picks: number[], version: number) => {
+        const hook = beforeRecord;
+        beforeRecord = null;
+        await runHook(hook);
+
+        const tally = tallies.get(pollId);
+        if (!tally || tally.version >= version) {
+          return;
+        }
+        picks.forEach((index) => tally.votes[index]++);
+        tally.voters++;
+      }),
+      invalidatePollTally: jest.fn(async (pollId: string) => {
+        versions.set(pollId, (versions.get(pollId) || 0) + 1);
+        tallies.delete(pollId);
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PollService,
+        {
+          provide: getRepositoryToken(Poll),
+          useValue: { manager: { transaction: (work: (m: typeof manager) => Promise<unknown>) => work(manager) } },
+        },
+        {
+          provide: getRepositoryToken(PollVote),
+          useValue: {
+            find: jest.fn(async ({ where }) => votes.filter((vote) => vote.userId === where.userId)),
+          },
+        },
+        { provide: PostCacheService, useValue: cacheService },
+      ],
+    }).compile();
+
+    service = module.get<PollService>(PollService);
+  });
+
+  describe('validatePoll', () => {
+    it('trims options and defaults to single choice', () => {
+      expect(service.validatePoll({ options: [' Yes ', 'No'] })).toEqual({
+        options: ['Yes', 'No'],
+        multipleChoice: false,
+        closesAt: null,
+      });
+    });
+
+    it.each([
+      ['too few options', { options: ['Only'] }],
+      ['too many options', { options: Array.from({ length: 11 }, (_, index) => `Option ${index}`) }],
+      ['an empty option', { options: ['Yes', '  '] }],
+      ['an overlong option', { options: ['Yes', 'x'.repeat(101)] }],
+      ['duplicate options', { options: ['Yes', 'yes'] }],
+      ['a close time in the past', { options: ['Yes', 'No'], closesAt: new Date(Date.now() - 1000) }],
+      ['an invalid close time', { options: ['Yes', 'No'], closesAt: new Date('nope') }],
+    ])('rejects %s', (_, input) => {
+      expect(() => service.validatePoll(input)).toThrow(BadRequestException);
+    });
+  });
+
+  describe('vote', () => {
+    it('records the vote and shows the results', async () => {
+      votes.push({ pollId: 'poll-1', userId: 'other-user', optionIndex: 1 });
+
+      const results = await service.vote(makePoll(), 'user-1', [0]);
+
+      expect(manager.insert).toHaveBeenCalledWith(PollVote, [{ pollId: 'poll-1', userId: 'user-1', optionIndex: 0 }]);
+      expect(results).toMatchObject({ votes: [1, 1, 0], voters: 2, viewerVotes: [0], closed: false });
+    });
+
+    it('adds the vote to a cached tally instead of recounting', async () => {
+      jest.spyOn(service, 'getPoll').mockResolvedValue(makePoll());
+      votes.push({ pollId: 'poll-1', userId: 'other-user', optionIndex: 1 });
+      await service.getResults('post-1', 'other-user');
+
+      const results = await service.vote(makePoll(), 'user-1', [0]);
+
+      expect(results).toMatchObject({ votes: [1, 1, 0], voters: 2 });
+      expect(cacheService.setPollTally).toHaveBeenCalledTimes(1);
+    });
+
+    it('ignores repeated picks', async () => {
+      const results = await service.vote(makePoll({ multipleChoice: true }), 'user-1', [2, 0, 2]);
+
+      expect(results.viewerVotes).toEqual([0, 2]);
+      expect(results.voters).toBe(1);
+    });
+
+    it('refuses a second vote from the same user', async () => {
+      await service.vote(makePoll(), 'user-1', [0]);
+
+      await expect(service.vote(makePoll(), 'user-1', [1])).rejects.toThrow(ConflictException);
+      expect(cacheService.recordPollVote).toHaveBeenCalledTimes(1);
+    });
+
+    it.each([
+      ['no picks', makePoll(), []],
+      ['several picks on a single-choice poll', makePoll(), [0, 1]],
+      ['an option out of range', makePoll(), [3]],
+      ['a closed poll', makePoll({ closesAt: new Date(Date.now() - 1000) }), [0]],
+    ])('rejects %s', async (_, poll, picks) => {
+      await expect(service.vote(poll, 'user-1', picks)).rejects.toThrow(BadRequestException);
+      expect(manager.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getResults', () => {
+    it('hides the tally until the viewer has voted', async () => {
+      jest.spyOn(service, 'getPoll').mockResolvedValue(makePoll());
+      votes.push({ pollId: 'poll-1', userId: 'other-user', optionIndex: 1 });
+
+      const results = await service.getResults('post-1', 'user-1');
+
+      expect(results).toMatchObject({ votes: null, voters: null, viewerVotes: [] });
+    });
+
+    it('shows the tally once the poll has closed', async () => {
+      jest.spyOn(service, 'getPoll').mockResolvedValue(makePoll({ closesAt: new Date(Date.now() - 1000) }));
+      votes.push({ pollId: 'poll-1', userId: 'other-user', optionIndex: 1 });
+
+      const results = await service.getResults('post-1');
+
+      expect(results).toMatchObject({ closed: true, votes: [0, 1, 0], voters: 1 });
+      expect(cacheService.setPollTally).toHaveBeenCalledWith('poll-1', { votes: [0, 1, 0], voters: 1 }, 0);
+    });
+
+    it('uses a cached tally when there is one', async () => {
+      jest.spyOn(service, 'getPoll').mockResolvedValue(makePoll({ closesAt: new Date(Date.now() - 1000) }));
+      tallies.set('poll-1', { votes: [5, 3, 1], voters: 8, version: 0 });
+
+      const results = await service.getResults('post-1');
+
+      expect(results).toMatchObject({ votes: [5, 3, 1], voters: 8 });
+      expect(cacheService.setPollTally).not.toHaveBeenCalled();
+    });
+
+    it('does not cache a tally counted before a vote came in', async () => {
+      jest.spyOn(service, 'getPoll').mockResolvedValue(makePoll());
+      votes.push({ pollId: 'poll-1', userId: 'other-user', optionIndex: 1 });
+      beforeStore = async () => {
+        await service.vote(makePoll(), 'user-1', [0]);
+        // Leave only the stale count to be stored, not the voter's own rebuild
+        tallies.delete('poll-1');
+      };
+
+      const stale = await service.getResults('post-1', 'other-user');
+      const fresh = await service.getResults('post-1', 'other-user');
+
+      expect(stale).toMatchObject({ votes: [0, 1, 0], voters: 1 });
+      expect(fresh).toMatchObject({ votes: [1, 1, 0], voters: 2 });
+    });
+
+    it('does not count a vote twice when the tally is rebuilt before it is added', async () => {
+      jest.spyOn(service, 'getPoll').mockResolvedValue(makePoll());
+      votes.push({ pollId: 'poll-1', userId: 'other-user', optionIndex: 1 });
+      beforeRecord = () => service.getResults('post-1', 'other-user');
+
+      await service.vote(makePoll(), 'user-1', [0]);
+      const results = await service.getResults('post-1', 'other-user');
+
+      expect(results).toMatchObject({ votes: [1, 1, 0], voters: 2 });
+    });
+
+    it('returns null when the post has no poll', async () => {
+      jest.spyOn(service, 'getPoll').mockResolvedValue(null);
+      expect(await service.getResults('post-1')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { Injectable, BadRequestException, ConflictException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { Poll } from '../entities/poll.entity';
+import { PollVote } from '../entities/poll-vote.entity';
+import { PostCacheService } from '../cache/post-cache.service';
+
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 10;
+const MAX_OPTION_LENGTH = 100;
+
+export interface PollInput {
+  options: string[];
+  multipleChoice?: boolean;
+  closesAt?: Date | null;
+}
+
+export interface PollResults {
+  id: string;
+  postId: string;
+  options: string[];
+  multipleChoice: boolean;
+  closesAt: Date | null;
+  closed: boolean;
+  // Null until the viewer has voted or the poll has closed
+  votes: number[] | null;
+  voters: number | null;
+  viewerVotes: number[];
+}
+
+/**
+ * Poll Service
+ * Polls attached to posts. Tallies are kept in Redis, updated as votes come
+ * in and rebuilt from poll_votes when missing. Access to the post is checked
+ * by PostService before anything here is called.
+ */
+@Injectable()
+export class PollService {
+  constructor(
+    @InjectRepository(Poll)
+    private pollRepository: Repository<Poll>,
+    @InjectRepository(PollVote)
+    private voteRepository: Repository<PollVote>,
+    private cacheService: PostCacheService,
+  ) {}
+
+  /**
+   * Check and tidy a poll before its post is saved
+   */
+  validatePoll(input: PollInput): Required<PollInput> {
+    const options = (input.options || []).map((option) => option.trim());
+
+    if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) {
+      throw new BadRequestException(`A poll needs between ${MIN_OPTIONS} and ${MAX_OPTIONS} options`);
+    }
+    if (options.some((option) => !option)) {
+      throw new BadRequestException('Poll options cannot be empty');
+    }
+    if (options.some((option) => option.length > MAX_OPTION_LENGTH)) {
+      throw new BadRequestException(`Poll options can be at most ${MAX_OPTION_LENGTH} characters`);
+    }
+    if (new Set(options.map((option) => option.toLowerCase())).size !== options.length) {
+      throw new BadRequestException('Poll options must all be different');
+    }
+
+    const closesAt = input.closesAt || null;
+    if (closesAt && Number.isNaN(closesAt.getTime())) {
+      throw new BadRequestException('Invalid poll close time');
+    }
+    if (closesAt && closesAt.getTime() <= Date.now()) {
+      throw new BadRequestException('Poll close time must be in the future');
+    }
+
+    return { options, multipleChoice: !!input.multipleChoice, closesAt };
+  }
+
+  async createPoll(postId: string, input: Required<PollInput>): Promise<Poll> {
+    return this.pollRepository.save(
+      this.pollRepository.create({
+        postId,
+        options: input.options,
+        multipleChoice: input.multipleChoice,
+        closesAt: input.closesAt,
+      }),
+    );
+  }
+
+  async getPoll(postId: string): Promise<Poll | null> {
+    return this.pollRepository.findOne({ where: { postId } });
+  }
+
+  /**
+   * The post's poll as the viewer sees it, or null if it has none
+   */
+  async getResults(postId: string, viewerId?: string): Promise<PollResults | null> {
+    const poll = await this.getPoll(postId);
+    return poll ? this.toResults(poll, viewerId) : null;
+  }
+
+  /**
+   * Record the user's vote. A vote can't be changed once cast.
+   */
+  async vote(poll: Poll, userId: string, optionIndexes: number[]): Promise<PollResults> {
+    if (this.isClosed(poll)) {
+      throw new BadRequestException('This poll has closed');
+    }
+
+    const picks = Array.from(new Set(optionIndexes));
+    if (picks.length === 0) {
+      throw new BadRequestException('Pick at least one option');
+    }
+    if (!poll.multipleChoice && picks.length > 1) {
+      throw new BadRequestException('This poll only allows one choice');
+    }
+    if (picks.some((index) => !Number.isInteger(index) || index < 0 || index >= poll.options.length)) {
+      throw new BadRequestException('Invalid poll option');
+    }
+
+    // The poll row is locked so two votes from the same user can't both get
+    // in, and so a tally can't be counted while the vote is in flight
+    const version = await this.pollRepository.manager.transaction(async (manager) => {
+      await manager.findOne(Poll, { where: { id: poll.id }, lock: { mode: 'pessimistic_write' } });
+
+      if (await manager.exists(PollVote, { where: { pollId: poll.id, userId } })) {
+        throw new ConflictException('You have already voted in this poll');
+      }
+
+      await manager.insert(
+        PollVote,
+        picks.map((optionIndex) => ({ pollId: poll.id, userId, optionIndex })),
+      );
+
+      return this.cacheService.bumpPollVersion(poll.id);
+    });
+
+    await this.cacheService.recordPollVote(poll.id, picks, version);
+
+    return this.toResults(poll, userId);
+  }
+
+  async getUserVotes(userId: string): Promise<PollVote[]> {
+    return this.voteRepository.find({
+      where: { userId },
+      relations: ['poll'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Account erasure: the user's votes, taken out of the tallies they were in
+   */
+  async deleteUserVotes(userId: string): Promise<void> {
+    const votes = await this.voteRepository.find({
+      select: ['id', 'pollId'],
+      where: { userId },
+    });
+
+    if (votes.length === 0) {
+      return;
+    }
+
+    await this.voteRepository.delete({ id: In(votes.map((vote) => vote.id)) });
+    await Promise.all(
+      Array.from(new Set(votes.map((vote) => vote.pollId))).map((pollId) => this.cacheService.invalidatePollTally(pollId)),
+    );
+  }
+
+  private async toResults(poll: Poll, viewerId?: string): Promise<PollResults> {
+    const viewerVotes = viewerId
+      ? (
+          await this.voteRepository.find({
+            select: ['optionIndex'],
+            where: { pollId: poll.id, userId: viewerId },
+          })
+        )
+          .map((vote) => vote.optionIndex)
+          .sort((a, b) => a - b)
+      : [];
+
+    const closed = this.isClosed(poll);
+    const tally = closed || viewerVotes.length > 0 ? await this.getTally(poll) : null;
+
+    return {
+      id: poll.id,
+      postId: poll.postId,
+      options: poll.options,
+      multipleChoice: poll.multipleChoice,
+      closesAt: poll.closesAt,
+      closed,
+      votes: tally ? tally.votes : null,
+      voters: tally ? tally.voters : null,
+      viewerVotes,
+    };
+  }
+
+  private async getTally(poll: Poll): Promise<{ votes: number[]; voters: number }> {
+    const cached = await this.cacheService.getPollTally(poll.id, poll.options.length);
+    if (cached) {
+      return cached;
+    }
+
+    // Counted under a share lock on the poll row, so no vote is half done
+    // and the version read matches the votes counted
+    const { version, rows, voterRow } = await this.pollRepository.manager.transaction(async (manager) => {
+      await manager.findOne(Poll, { where: { id: poll.id }, lock: { mode: 'pessimistic_read' } });
+
+      const version = await this.cacheService.getPollVersion(poll.id);
+      const rows = await manager
+        .createQueryBuilder(PollVote, 'vote')
+        .select('vote.optionIndex', 'optionIndex')
+        .addSelect('COUNT(*)', 'count')
+        .where('vote.pollId = :pollId', { pollId: poll.id })
+        .groupBy('vote.optionIndex')
+        .getRawMany();
+      const voterRow = await manager
+        .createQueryBuilder(PollVote, 'vote')
+        .select('COUNT(DISTINCT vote.userId)', 'count')
+        .where('vote.pollId = :pollId', { pollId: poll.id })
+        .getRawOne();
+
+      return { version, rows, voterRow };
+    });
+
+    const votes = poll.options.map(() => 0);
+    for (const row of rows) {
+      votes[row.optionIndex] = parseInt(row.count, 10);
+    }
+    const tally = { votes, voters: parseInt(voterRow?.count || '0', 10) };
+
+    await this.cacheService.setPollTally(poll.id, tally, version);
+
+    return tally;
+  }
+
+  private isClosed(poll: Poll): boolean {
+    return !!poll.closesAt && poll.closesAt.getTime() <= Date.now();
+  }
+}
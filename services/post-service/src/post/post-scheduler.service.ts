@@ -0,0 +1,59 @@
+import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PostService } from './post.service';
+
+const BATCH_SIZE = 100;
+
+/**
+ * Post Scheduler Service
+ * Publishes scheduled posts once their publishAt has passed, checking every
+ * POST_SCHEDULER_INTERVAL_SECONDS. Each post is claimed before it's
+ * published, so running several instances is safe.
+ */
+@Injectable()
+export class PostSchedulerService implements OnModuleInit, OnModuleDestroy {
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private sweeping = false;
+  private readonly interval: number;
+
+  constructor(
+    private postService: PostService,
+    private configService: ConfigService,
+  ) {
+    // Seconds
+    this.interval = parseInt(this.configService.get<string>('POST_SCHEDULER_INTERVAL_SECONDS') || '30', 10);
+  }
+
+  onModuleInit() {
+    this.sweepTimer = setInterval(() => {
+      this.publishDuePosts().catch((error) =>
+        console.error('[PostSchedulerService] Failed to publish due posts:', error),
+      );
+    }, this.interval * 1000);
+    this.sweepTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+  }
+
+  private async publishDuePosts(): Promise<void> {
+    // A slow sweep shouldn't overlap the next one
+    if (this.sweeping) {
+      return;
+    }
+
+    this.sweeping = true;
+    try {
+      // Keep going while full batches come back
+      let published: number;
+      do {
+        published = await this.postService.publishDuePosts(BATCH_SIZE);
+      } while (published === BATCH_SIZE);
+    } finally {
+      this.sweeping = false;
+    }
+  }
+}
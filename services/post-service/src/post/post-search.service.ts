@@ -0,0 +1,245 @@
+import { Injectable, OnModuleInit, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Post } from '../entities/post.entity';
+import { UserClientService } from '../clients/user-client.service';
+
+const MAX_LIMIT = 50;
+
+// ts_headline marks matches with these; they're swapped for <mark> after the
+// snippet has been HTML-escaped
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+export type SearchSort = 'relevance' | 'recent';
+export type SearchType = 'all' | 'posts' | 'comments';
+
+export interface SearchFilters {
+  authorId?: string;
+  since?: Date;
+  until?: Date;
+  hasMedia?: boolean;
+  type?: SearchType;
+  sort?: SearchSort;
+  // Hits by users blocked by or blocking the viewer are left out
+  viewerId?: string;
+}
+
+export interface SearchHit {
+  type: 'post' | 'comment';
+  id: string;
+  postId: string;
+  userId: string;
+  content: string;
+  snippet: string;
+  mediaUrls: string[];
+  rank: number;
+  createdAt: Date;
+}
+
+interface SearchCursor {
+  r: string; // rank, as Postgres printed it
+  c: string; // created_at, as Postgres printed it
+  i: string;
+}
+
+/**
+ * Post Search Service
+ * Full-text search over posts and comments using the generated searchVector
+ * columns. Results are ordered by rank (or recency) and paged with an
+ * opaque keyset cursor.
+ */
+@Injectable()
+export class PostSearchService implements OnModuleInit {
+  constructor(
+    @InjectRepository(Post)
+    private postRepository: Repository<Post>,
+    private userClient: UserClientService,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.postRepository.query(
+        'CREATE INDEX IF NOT EXISTS "IDX_posts_search_vector" ON post.posts USING GIN ("searchVector")',
+      );
+      await this.postRepository.query(
+        'CREATE INDEX IF NOT EXISTS "IDX_comments_search_vector" ON post.comments USING GIN ("searchVector")',
+      );
+    } catch (error) {
+      // Search still works without them, just slower
+      console.error('[PostSearchService] Failed to create search indexes:', error);
+    }
+  }
+
+  async search(
+    query: string,
+    filters: SearchFilters = {},
+    cursor?: string,
+    limit: number = 20,
+  ): Promise<{ hits: SearchHit[]; nextCursor: string | null }> {
+    if (!query || !query.trim()) {
+      throw new BadRequestException('Search query is required');
+    }
+
+    const take = Math.min(Math.max(limit, 1), MAX_LIMIT);
+    const sort: SearchSort = filters.sort === 'recent' ? 'recent' : 'relevance';
+    const type: SearchType = filters.type || 'all';
+
+    const params: unknown[] = [query.trim()];
+    const param = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    // Filters apply to the post itself, or to the post a comment is on for has-media
+    const postFilters: string[] = [];
+    const commentFilters: string[] = ['c."isDeleted" = false'];
+
+    if (filters.authorId) {
+      const placeholder = param(filters.authorId);
+      postFilters.push(`p."userId" = ${placeholder}`);
+      commentFilters.push(`c."userId" = ${placeholder}`);
+    }
+    if (filters.since) {
+      const placeholder = param(filters.since);
+      postFilters.push(`p."createdAt" >= ${placeholder}`);
+      commentFilters.push(`c."createdAt" >= ${placeholder}`);
+    }
+    if (filters.until) {
+      const placeholder = param(filters.until);
+      postFilters.push(`p."createdAt" < ${placeholder}`);
+      commentFilters.push(`c."createdAt" < ${placeholder}`);
+    }
+    if (filters.viewerId) {
+      const { blockedUserIds } = await this.userClient.getRelationshipFilter(filters.viewerId);
+      if (blockedUserIds.length > 0) {
+        // Comments are also left out when they're on a blocked user's post
+        const placeholder = `${param(blockedUserIds)}::uuid[]`;
+        postFilters.push(`p."userId" <> ALL(${placeholder})`);
+        commentFilters.push(`c."userId" <> ALL(${placeholder})`, `p."userId" <> ALL(${placeholder})`);
+      }
+    }
+    if (filters.hasMedia !== undefined) {
+      const condition = filters.hasMedia ? 'cardinality(p."mediaUrls") > 0' : 'cardinality(p."mediaUrls") = 0';
+      postFilters.push(condition);
+      commentFilters.push(condition);
+    }
+
+    const selects: string[] = [];
+    if (type !== 'comments') {
+      selects.push(`
+        SELECT 'post' AS type, p.id, p.id AS post_id, p."userId" AS user_id, p.content,
+               p."mediaUrls" AS media_urls, p."createdAt" AS created_at,
+               ts_rank_cd(p."searchVector", q.query) AS rank
+        FROM post.posts p, q
+        WHERE p."searchVector" @@ q.query AND p.status = 'published' AND p.visibility = 'public'
+          AND NOT EXISTS (SELECT 1 FROM post.private_accounts pa WHERE pa."userId" = p."userId")
+        ${postFilters.map((condition) => `AND ${condition}`).join(' ')}`);
+    }
+    if (type !== 'posts') {
+      selects.push(`
+        SELECT 'comment' AS type, c.id, c."postId" AS post_id, c."userId" AS user_id, c.content,
+               p."mediaUrls" AS media_urls, c."createdAt" AS created_at,
+               ts_rank_cd(c."searchVector", q.query) AS rank
+        FROM post.comments c
+        JOIN post.posts p ON p.id = c."postId", q
+        WHERE c."searchVector" @@ q.query AND p.visibility = 'public'
+          AND NOT EXISTS (SELECT 1 FROM post.private_accounts pa WHERE pa."userId" = p."userId")
+        ${commentFilters.map((condition) => `AND ${condition}`).join(' ')}`);
+    }
+
+    let cursorCondition = '';
+    if (cursor) {
+      const decoded = this.decodeCursor(cursor);
+      cursorCondition =
+        sort === 'relevance'
+          ? `WHERE (hits.rank, hits.created_at, hits.id) < (${param(decoded.r)}::real, ${param(decoded.c)}::timestamp, ${param(decoded.i)}::uuid)`
+          : `WHERE (hits.created_at, hits.id) < (${param(decoded.c)}::timestamp, ${param(decoded.i)}::uuid)`;
+    }
+
+    const orderBy =
+      sort === 'relevance'
+        ? 'hits.rank DESC, hits.created_at DESC, hits.id DESC'
+        : 'hits.created_at DESC, hits.id DESC';
+
+    const limitParam = param(take + 1);
+    const headlineOptions = param(`StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=35, MinWords=15, MaxFragments=2`);
+
+    // Snippets are only built for the page being returned
+    const rows: Array<Record<string, any>> = await this.postRepository.query(
+      `
+      WITH q AS (SELECT websearch_to_tsquery('english', $1) AS query),
+      page AS (
+        SELECT hits.*, hits.rank::text AS rank_text, hits.created_at::text AS created_at_text
+        FROM (${selects.join(' UNION ALL ')}) hits
+        ${cursorCondition}
+        ORDER BY ${orderBy}
+        LIMIT ${limitParam}
+      )
+      SELECT page.*,
+             ts_headline('english', page.content, q.query, ${headlineOptions}) AS snippet
+      FROM page, q
+      ORDER BY ${orderBy.replace(/hits\./g, 'page.')}
+      `,
+      params,
+    );
+
+    const hasMore = rows.length > take;
+    const pageRows = rows.slice(0, take);
+    const last = pageRows[pageRows.length - 1];
+
+    return {
+      hits: pageRows.map((row) => ({
+        type: row.type,
+        id: row.id,
+        postId: row.post_id,
+        userId: row.user_id,
+        content: row.content,
+        snippet: this.renderSnippet(row.snippet || ''),
+        mediaUrls: row.media_urls || [],
+        rank: Number(row.rank),
+        createdAt: row.created_at,
+      })),
+      nextCursor: hasMore && last ? this.encodeCursor({ r: last.rank_text, c: last.created_at_text, i: last.id }) : null,
+    };
+  }
+
+  /**
+   * HTML-escape the snippet, then turn the match markers into <mark> tags
+   */
+  private renderSnippet(snippet: string): string {
+    return snippet
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;')
+      .split(MATCH_START)
+      .join('<mark>')
+      .split(MATCH_END)
+      .join('</mark>');
+  }
+
+  private encodeCursor(cursor: SearchCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): SearchCursor {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (
+        typeof decoded?.r !== 'string' ||
+        typeof decoded?.c !== 'string' ||
+        typeof decoded?.i !== 'string' ||
+        !Number.isFinite(Number(decoded.r)) ||
+        Number.isNaN(Date.parse(decoded.c)) ||
+        !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(decoded.i)
+      ) {
+        throw new Error('Malformed cursor');
+      }
+      return decoded;
+    } catch {
+      throw new BadRequestException('Invalid cursor');
+    }
+  }
+}
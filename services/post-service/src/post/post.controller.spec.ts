@@ -0,0 +1,59 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { RpcException } from '@nestjs/microservices';
+import { status as GrpcStatus } from '@grpc/grpc-js';
+import { Post } from '../entities/post.entity';
+import { UserClientService } from '../clients/user-client.service';
+import { PostController } from './post.controller';
+import { PostService } from './post.service';
+import { PostSearchService } from './post-search.service';
+import { PollService } from './poll.service';
+import { BookmarkService } from './bookmark.service';
+
+describe('PostController', () => {
+  let controller: PostController;
+  let postRepository: { query: jest.Mock };
+  let userClient: { getRelationshipFilter: jest.Mock };
+
+  beforeEach(async () => {
+    postRepository = { query: jest.fn().mockResolvedValue([]) };
+    userClient = { getRelationshipFilter: jest.fn().mockResolvedValue({ blockedUserIds: [], mutedUserIds: [] }) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [PostController],
+      providers: [
+        PostSearchService,
+        { provide: getRepositoryToken(Post), useValue: postRepository },
+        { provide: UserClientService, useValue: userClient },
+        { provide: PostService, useValue: {} },
+        { provide: PollService, useValue: {} },
+        { provide: BookmarkService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<PostController>(PostController);
+  });
+
+  describe('searchPosts', () => {
+    it('answers a malformed cursor with INVALID_ARGUMENT', async () => {
+      const error = await controller.searchPosts({ query: 'hello', cursor: 'abc' }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(RpcException);
+      expect(error.getError()).toEqual({ code: GrpcStatus.INVALID_ARGUMENT, message: 'Invalid cursor' });
+      expect(postRepository.query).not.toHaveBeenCalled();
+    });
+
+    it('leaves out hits by users blocked by or blocking the viewer', async () => {
+      userClient.getRelationshipFilter.mockResolvedValue({ blockedUserIds: ['blocked-user'], mutedUserIds: ['muted-user'] });
+
+      await controller.searchPosts({ query: 'hello', viewer_id: 'viewer-1' });
+
+      const [sql, params] = postRepository.query.mock.calls[0];
+      expect(userClient.getRelationshipFilter).toHaveBeenCalledWith('viewer-1');
+      expect(params).toContainEqual(['blocked-user']);
+      expect(params).not.toContainEqual(['muted-user']);
+      expect(sql).toContain('p."userId" <> ALL(');
+      expect(sql).toContain('c."userId" <> ALL(');
+    });
+  });
+});
@@ -1,23 +1,87 @@
-import { Controller } from '@nestjs/common';
-import { GrpcMethod } from '@nestjs/microservices';
-import { PostService } from './post.service';
+import { Controller, ForbiddenException, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { GrpcMethod, RpcException } from '@nestjs/microservices';
+import { status as GrpcStatus } from '@grpc/grpc-js';
+import { PostService, PostWithCounts, CommentSort } from './post.service';
+import { PostSearchService, SearchSort, SearchType } from './post-search.service';
+import { PollService, PollResults } from './poll.service';
+import { BookmarkService, CollectionWithCount } from './bookmark.service';
+import { isReactionType } from '../utils/reactions';
+import { PostStatus, PostVisibility } from '../entities/post.entity';
+
+interface PostResponse {
+  id: string;
+  user_id: string;
+  content: string;
+  media_urls: string[];
+  likes_count: number;
+  comments_count: number;
+  created_at: string;
+  edited_at: string;
+  reposts_count: number;
+  repost_of_id: string;
+  is_quote: boolean;
+  repost_of: PostResponse | null;
+  reaction_counts: Record<string, number>;
+  status: string;
+  publish_at: string;
+  visibility: string;
+  mentions: string[];
+  poll: PollResponse | null;
+}
+
+interface PollResponse {
+  id: string;
+  post_id: string;
+  options: Array<{ index: number; text: string; votes: number }>;
+  multiple_choice: boolean;
+  closes_at: string;
+  closed: boolean;
+  results_visible: boolean;
+  total_voters: number;
+  viewer_votes: number[];
+}
 
 @Controller()
 export class PostController {
-  constructor(private readonly postService: PostService) {}
+  constructor(
+    private readonly postService: PostService,
+    private readonly postSearchService: PostSearchService,
+    private readonly pollService: PollService,
+    private readonly bookmarkService: BookmarkService,
+  ) {}
 
   @GrpcMethod('PostService', 'CreatePost')
   async createPost(data: {
     user_id: string;
     content: string;
     media_urls?: string[];
+    status?: string;
+    publish_at?: string;
+    visibility?: string;
+    mentions?: string[];
+    poll?: { options?: string[]; multiple_choice?: boolean; closes_at?: string } | null;
   }) {
     try {
+      const status = Object.values(PostStatus).find((value) => value === data.status) || PostStatus.PUBLISHED;
       const post = await this.postService.createPost(
         data.user_id,
         data.content,
         data.media_urls || [],
+        {
+          status,
+          publishAt: data.publish_at ? new Date(data.publish_at) : null,
+          visibility: this.toVisibility(data.visibility),
+          mentions: data.mentions || [],
+          poll: data.poll?.options?.length
+            ? {
+                options: data.poll.options,
+                multipleChoice: !!data.poll.multiple_choice,
+                closesAt: data.poll.closes_at ? new Date(data.poll.closes_at) : null,
+              }
+            : undefined,
+        },
       );
+      const poll = await this.pollService.getResults(post.id, data.user_id);
       return {
         id: post.id,
         user_id: post.userId,
@@ -26,95 +90,200 @@ export class PostController {
         likes_count: 0,
         comments_count: 0,
         created_at: post.createdAt.toISOString(),
+        edited_at: post.editedAt?.toISOString() || '',
+        status: post.status,
+        publish_at: post.publishAt?.toISOString() || '',
+        visibility: post.visibility,
+        mentions: post.mentions,
+        poll: poll ? this.toPollResponse(poll) : null,
       };
     } catch (error) {
       throw error;
     }
   }
 
-  @GrpcMethod('PostService', 'GetPost')
-  async getPost(data: { post_id: string }) {
-    try {
-      const post = await this.postService.getPostWithCounts(data.post_id);
-      return {
-        id: post.id,
-        user_id: post.userId,
-        content: post.content,
-        media_urls: post.mediaUrls,
-        likes_count: post.likesCount,
-        comments_count: post.commentsCount,
-        created_at: post.createdAt.toISOString(),
-      };
-    } catch (error) {
-      throw error;
-    }
-  }
-
-  @GrpcMethod('PostService', 'GetUserPosts')
-  async getUserPosts(data: {
+  @GrpcMethod('PostService', 'GetScheduledPosts')
+  async getScheduledPosts(data: {
     user_id: string;
+    status?: string;
     page?: number;
     limit?: number;
   }) {
-    const { posts, total } = await this.postService.getUserPosts(
+    const status = data.status === PostStatus.DRAFT || data.status === PostStatus.SCHEDULED ? data.status : undefined;
+    const { posts, total } = await this.postService.getUnpublishedPosts(
       data.user_id,
+      status,
       data.page || 1,
       data.limit || 20,
     );
 
-    // Calculate counts for each post
     const postsWithCounts = await Promise.all(
-      posts.map(async (post) => {
-        const postWithCounts = await this.postService.getPostWithCounts(post.id);
-        return {
-          id: postWithCounts.id,
-          user_id: postWithCounts.userId,
-          content: postWithCounts.content,
-          media_urls: postWithCounts.mediaUrls,
-          likes_count: postWithCounts.likesCount,
-          comments_count: postWithCounts.commentsCount,
-          created_at: postWithCounts.createdAt.toISOString(),
-        };
-      }),
+      posts.map(async (post) => this.toPostResponse(await this.postService.getPostWithCounts(post.id, true, undefined, data.user_id))),
     );
 
     return {
       posts: postsWithCounts,
       total,
       page: data.page || 1,
+      next_cursor: '',
     };
   }
 
+  @GrpcMethod('PostService', 'SchedulePost')
+  async schedulePost(data: { post_id: string; user_id: string; publish_at: string }) {
+    try {
+      await this.postService.schedulePost(data.post_id, data.user_id, new Date(data.publish_at));
+      const post = await this.postService.getPostWithCounts(data.post_id, true, undefined, data.user_id);
+      return this.toPostResponse(post);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  @GrpcMethod('PostService', 'CancelScheduledPost')
+  async cancelScheduledPost(data: { post_id: string; user_id: string }) {
+    try {
+      await this.postService.cancelScheduledPost(data.post_id, data.user_id);
+      const post = await this.postService.getPostWithCounts(data.post_id, true, undefined, data.user_id);
+      return this.toPostResponse(post);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  @GrpcMethod('PostService', 'PublishPost')
+  async publishPost(data: { post_id: string; user_id: string }) {
+    try {
+      await this.postService.publishPost(data.post_id, data.user_id);
+      const post = await this.postService.getPostWithCounts(data.post_id, true, undefined, data.user_id);
+      return this.toPostResponse(post);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  @GrpcMethod('PostService', 'GetPost')
+  async getPost(data: { post_id: string; viewer_id?: string }) {
+    try {
+      const post = await this.postService.getPostWithCounts(data.post_id, true, data.viewer_id || undefined);
+      return this.toPostResponse(post);
+    } catch (error) {
+      // Status codes let the gateway tell a hidden post from a missing one
+      if (error instanceof ForbiddenException) {
+        throw new RpcException({ code: GrpcStatus.PERMISSION_DENIED, message: error.message });
+      }
+      if (error instanceof NotFoundException) {
+        throw new RpcException({ code: GrpcStatus.NOT_FOUND, message: error.message });
+      }
+      throw error;
+    }
+  }
+
+  @GrpcMethod('PostService', 'UpdatePost')
+  async updatePost(data: {
+    post_id: string;
+    user_id: string;
+    content: string;
+    media_urls?: string[];
+    keep_media?: boolean;
+    visibility?: string;
+    mentions?: string[];
+  }) {
+    try {
+      await this.postService.updatePost(
+        data.post_id,
+        data.user_id,
+        data.content,
+        data.keep_media ? undefined : data.media_urls || [],
+        { visibility: this.toVisibility(data.visibility), mentions: data.mentions || [] },
+      );
+      const post = await this.postService.getPostWithCounts(data.post_id, true, undefined, data.user_id);
+      return this.toPostResponse(post);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  @GrpcMethod('PostService', 'GetPostRevisions')
+  async getPostRevisions(data: { post_id: string; viewer_id: string }) {
+    try {
+      const revisions = await this.postService.getPostRevisions(data.post_id, data.viewer_id);
+      return {
+        revisions: revisions.map((revision) => ({
+          id: revision.id,
+          content: revision.content,
+          media_urls: revision.mediaUrls,
+          published_at: revision.publishedAt.toISOString(),
+          replaced_at: revision.createdAt.toISOString(),
+        })),
+      };
+    } catch (error) {
+      throw this.toRpcException(error);
+    }
+  }
+
+  @GrpcMethod('PostService', 'GetUserPosts')
+  async getUserPosts(data: {
+    user_id: string;
+    page?: number;
+    limit?: number;
+    cursor?: string;
+    viewer_id?: string;
+  }) {
+    try {
+      const { posts, total, nextCursor } = await this.postService.getUserPosts(
+        data.user_id,
+        data.page || 1,
+        data.limit || 20,
+        data.cursor || undefined,
+        data.viewer_id || undefined,
+      );
+
+      // Calculate counts for each post
+      const postsWithCounts = await Promise.all(
+        posts.map(async (post) => {
+          const postWithCounts = await this.postService.getPostWithCounts(post.id, true, undefined, data.viewer_id || undefined);
+          return this.toPostResponse(postWithCounts);
+        }),
+      );
+
+      return {
+        posts: postsWithCounts,
+        total,
+        page: data.page || 1,
+        next_cursor: nextCursor || '',
+      };
+    } catch (error) {
+      throw this.toRpcException(error);
+    }
+  }
+
   @GrpcMethod('PostService', 'GetFeed')
   async getFeed(data: {
     user_id: string;
     following_ids?: string[];
     page?: number;
     limit?: number;
+    mode?: string;
+    cursor?: string;
   }) {
     const followingIds = data.following_ids || [];
     const userIds = [data.user_id, ...followingIds];
     
-    const { posts, total } = await this.postService.getFeed(
+    const { posts, total, nextCursor } = await this.postService.getFeed(
       data.user_id,
       userIds,
       data.page || 1,
       data.limit || 20,
+      data.mode === 'top' ? 'top' : 'latest',
+      data.cursor || undefined,
     );
 
     // Calculate counts for each post
     const postsWithCounts = await Promise.all(
       posts.map(async (post) => {
-        const postWithCounts = await this.postService.getPostWithCounts(post.id);
-        return {
-          id: postWithCounts.id,
-          user_id: postWithCounts.userId,
-          content: postWithCounts.content,
-          media_urls: postWithCounts.mediaUrls,
-          likes_count: postWithCounts.likesCount,
-          comments_count: postWithCounts.commentsCount,
-          created_at: postWithCounts.createdAt.toISOString(),
-        };
+        const postWithCounts = await this.postService.getPostWithCounts(post.id, true, undefined, data.user_id);
+        return this.toPostResponse(postWithCounts);
       }),
     );
 
@@ -122,9 +291,103 @@ export class PostController {
       posts: postsWithCounts,
       total,
       page: data.page || 1,
+      next_cursor: nextCursor || '',
     };
   }
 
+  @GrpcMethod('PostService', 'GetHashtagPosts')
+  async getHashtagPosts(data: {
+    tag: string;
+    page?: number;
+    limit?: number;
+    viewer_id?: string;
+  }) {
+    const [{ postIds, total }, stats] = await Promise.all([
+      this.postService.getHashtagPosts(data.tag, data.page || 1, data.limit || 20, data.viewer_id || undefined),
+      this.postService.getHashtagStats(data.tag),
+    ]);
+
+    const postsWithCounts = await Promise.all(
+      postIds.map(async (postId) => {
+        const postWithCounts = await this.postService.getPostWithCounts(postId, true, undefined, data.viewer_id || undefined);
+        return this.toPostResponse(postWithCounts);
+      }),
+    );
+
+    return {
+      stats: {
+        tag: stats.tag,
+        post_count: stats.postCount,
+        comment_count: stats.commentCount,
+        last_used_at: stats.lastUsedAt || '',
+      },
+      posts: postsWithCounts,
+      total,
+      page: data.page || 1,
+    };
+  }
+
+  @GrpcMethod('PostService', 'GetHashtags')
+  async getHashtags(data: { query?: string; limit?: number }) {
+    const hashtags = await this.postService.getHashtags(data.query || '', Math.min(data.limit || 10, 50));
+    return {
+      hashtags: hashtags.map((hashtag) => ({
+        tag: hashtag.tag,
+        post_count: hashtag.postCount,
+        comment_count: hashtag.commentCount,
+        last_used_at: hashtag.lastUsedAt || '',
+      })),
+    };
+  }
+
+  @GrpcMethod('PostService', 'SearchPosts')
+  async searchPosts(data: {
+    query: string;
+    author_id?: string;
+    since?: string;
+    until?: string;
+    has_media?: string;
+    type?: string;
+    sort?: string;
+    cursor?: string;
+    limit?: number;
+    viewer_id?: string;
+  }) {
+    try {
+      const { hits, nextCursor } = await this.postSearchService.search(
+        data.query,
+        {
+          authorId: data.author_id || undefined,
+          since: data.since ? new Date(data.since) : undefined,
+          until: data.until ? new Date(data.until) : undefined,
+          hasMedia: data.has_media ? data.has_media === 'true' : undefined,
+          type: (data.type as SearchType) || 'all',
+          sort: (data.sort as SearchSort) || 'relevance',
+          viewerId: data.viewer_id || undefined,
+        },
+        data.cursor || undefined,
+        data.limit || 20,
+      );
+
+      return {
+        results: hits.map((hit) => ({
+          type: hit.type,
+          id: hit.id,
+          post_id: hit.postId,
+          user_id: hit.userId,
+          content: hit.content,
+          snippet: hit.snippet,
+          media_urls: hit.mediaUrls,
+          rank: hit.rank,
+          created_at: hit.createdAt.toISOString(),
+        })),
+        next_cursor: nextCursor || '',
+      };
+    } catch (error) {
+      throw this.toRpcException(error);
+    }
+  }
+
   @GrpcMethod('PostService', 'LikePost')
   async likePost(data: { post_id: string; user_id: string }) {
     try {
@@ -157,6 +420,268 @@ export class PostController {
     }
   }
 
+  @GrpcMethod('PostService', 'LikeComment')
+  async likeComment(data: { post_id: string; comment_id: string; user_id: string }) {
+    try {
+      await this.postService.likeComment(data.post_id, data.comment_id, data.user_id);
+      return {
+        success: true,
+        message: 'Comment liked successfully',
+      };
+    } catch (error) {
+      throw this.toRpcException(error);
+    }
+  }
+
+  @GrpcMethod('PostService', 'UnlikeComment')
+  async unlikeComment(data: { post_id: string; comment_id: string; user_id: string }) {
+    try {
+      await this.postService.removeCommentReaction(data.post_id, data.comment_id, data.user_id);
+      return {
+        success: true,
+        message: 'Comment unliked successfully',
+      };
+    } catch (error) {
+      throw this.toRpcException(error);
+    }
+  }
+
+  @GrpcMethod('PostService', 'ReactToPost')
+  async reactToPost(data: { post_id: string; user_id: string; reaction: string; comment_id?: string }) {
+    try {
+      if (!isReactionType(data.reaction)) {
+        throw new BadRequestException('Invalid reaction type');
+      }
+
+      if (data.comment_id) {
+        await this.postService.reactToComment(data.post_id, data.comment_id, data.user_id, data.reaction);
+      } else {
+        await this.postService.reactToPost(data.post_id, data.user_id, data.reaction);
+      }
+      return {
+        success: true,
+        message: 'Reaction saved successfully',
+      };
+    } catch (error) {
+      throw this.toRpcException(error);
+    }
+  }
+
+  @GrpcMethod('PostService', 'RemoveReaction')
+  async removeReaction(data: { post_id: string; user_id: string; comment_id?: string }) {
+    try {
+      if (data.comment_id) {
+        await this.postService.removeCommentReaction(data.post_id, data.comment_id, data.user_id);
+      } else {
+        await this.postService.removeReaction(data.post_id, data.user_id);
+      }
+      return {
+        success: true,
+        message: 'Reaction removed successfully',
+      };
+    } catch (error) {
+      throw this.toRpcException(error);
+    }
+  }
+
+  @GrpcMethod('PostService', 'GetReactions')
+  async getReactions(data: {
+    post_id: string;
+    comment_id?: string;
+    reaction?: string;
+    page?: number;
+    limit?: number;
+    viewer_id: string;
+  }) {
+    try {
+      const page = data.page || 1;
+      const { reactions, total, counts } = await this.postService.getReactions(data.post_id, data.viewer_id, {
+        commentId: data.comment_id || undefined,
+        type: isReactionType(data.reaction) ? data.reaction : undefined,
+        page,
+        limit: data.limit || 20,
+      });
+      return {
+        reactions: reactions.map((reaction) => ({
+          user_id: reaction.userId,
+          reaction: reaction.type,
+          created_at: reaction.createdAt.toISOString(),
+        })),
+        counts,
+        total,
+        page,
+      };
+    } catch (error) {
+      throw this.toRpcException(error);
+    }
+  }
+
+  @GrpcMethod('PostService', 'RepostPost')
+  async repostPost(data: { post_id: string; user_id: string }) {
+    try {
+      const repost = await this.postService.repostPost(data.post_id, data.user_id);
+      const post = await this.postService.getPostWithCounts(repost.id, true, undefined, data.user_id);
+      return this.toPostResponse(post);
+    } catch (error) {
+      throw this.toRpcException(error);
+    }
+  }
+
+  @GrpcMethod('PostService', 'UndoRepost')
+  async undoRepost(data: { post_id: string; user_id: string }) {
+    try {
+      await this.postService.undoRepost(data.post_id, data.user_id);
+      return {
+        success: true,
+        message: 'Repost removed successfully',
+      };
+    } catch (error) {
+      throw this.toRpcException(error);
+    }
+  }
+
+  @GrpcMethod('PostService', 'QuotePost')
+  async quotePost(data: {
+    post_id: string;
+    user_id: string;
+    content: string;
+    media_urls?: string[];
+  }) {
+    try {
+      const quote = await this.postService.quotePost(
+        data.post_id,
+        data.user_id,
+        data.content,
+        data.media_urls || [],
+      );
+      const post = await this.postService.getPostWithCounts(quote.id, true, undefined, data.user_id);
+      return this.toPostResponse(post);
+    } catch (error) {
+      throw this.toRpcException(error);
+    }
+  }
+
+  @GrpcMethod('PostService', 'VotePoll')
+  async votePoll(data: { post_id: string; user_id: string; option_indexes?: number[] }) {
+    try {
+      const results = await this.postService.votePoll(data.post_id, data.user_id, data.option_indexes || []);
+      return this.toPollResponse(results);
+    } catch (error) {
+      throw this.toRpcException(error);
+    }
+  }
+
+  @GrpcMethod('PostService', 'GetPollResults')
+  async getPollResults(data: { post_id: string; viewer_id: string }) {
+    try {
+      const results = await this.postService.getPollResults(data.post_id, data.viewer_id);
+      return this.toPollResponse(results);
+    } catch (error) {
+      throw this.toRpcException(error);
+    }
+  }
+
+  @GrpcMethod('PostService', 'SavePost')
+  async savePost(data: { post_id: string; user_id: string; collection_id?: string }) {
+    try {
+      const bookmark = await this.postService.savePost(data.post_id, data.user_id, data.collection_id || undefined);
+      return {
+        post_id: bookmark.postId,
+        collection_id: bookmark.collectionId || '',
+        saved_at: bookmark.createdAt.toISOString(),
+      };
+    } catch (error) {
+      throw this.toRpcException(error);
+    }
+  }
+
+  @GrpcMethod('PostService', 'UnsavePost')
+  async unsavePost(data: { post_id: string; user_id: string }) {
+    try {
+      await this.postService.unsavePost(data.post_id, data.user_id);
+      return {
+        success: true,
+        message: 'Post removed from saved',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to unsave post',
+      };
+    }
+  }
+
+  @GrpcMethod('PostService', 'ListSaved')
+  async listSaved(data: {
+    user_id: string;
+    collection_id?: string;
+    page?: number;
+    limit?: number;
+    cursor?: string;
+  }) {
+    try {
+      const { items, total, nextCursor } = await this.bookmarkService.listSaved(data.user_id, {
+        collectionId: data.collection_id || undefined,
+        page: data.page || 1,
+        limit: data.limit || 20,
+        cursor: data.cursor || undefined,
+      });
+
+      // Saved posts are checked like any other read, since the author may
+      // have blocked the user or narrowed the audience since
+      const saved = await Promise.all(
+        items.map(async (bookmark) => {
+          const post = await this.postService.getPostWithCounts(bookmark.postId, true, data.user_id).catch(() => null);
+          return post
+            ? {
+                post: this.toPostResponse(post),
+                collection_id: bookmark.collectionId || '',
+                saved_at: bookmark.createdAt.toISOString(),
+              }
+            : null;
+        }),
+      );
+
+      return {
+        saved: saved.filter((entry) => entry !== null),
+        total,
+        page: data.page || 1,
+        next_cursor: nextCursor || '',
+      };
+    } catch (error) {
+      throw this.toRpcException(error);
+    }
+  }
+
+  @GrpcMethod('PostService', 'CreateCollection')
+  async createCollection(data: { user_id: string; name: string }) {
+    try {
+      const collection = await this.bookmarkService.createCollection(data.user_id, data.name);
+      return this.toCollectionResponse(collection);
+    } catch (error) {
+      throw this.toRpcException(error);
+    }
+  }
+
+  @GrpcMethod('PostService', 'GetCollections')
+  async getCollections(data: { user_id: string }) {
+    const collections = await this.bookmarkService.getCollections(data.user_id);
+    return { collections: collections.map((collection) => this.toCollectionResponse(collection)) };
+  }
+
+  @GrpcMethod('PostService', 'DeleteCollection')
+  async deleteCollection(data: { collection_id: string; user_id: string }) {
+    try {
+      await this.bookmarkService.deleteCollection(data.user_id, data.collection_id);
+      return {
+        success: true,
+        message: 'Collection deleted successfully',
+      };
+    } catch (error) {
+      throw this.toRpcException(error);
+    }
+  }
+
   @GrpcMethod('PostService', 'CreateComment')
   async createComment(data: {
     post_id: string;
@@ -185,6 +710,7 @@ export class PostController {
         mentions: comment.mentions || [],
         reply_count: comment.replyCount || 0,
         is_deleted: comment.isDeleted || false,
+        likes_count: comment.likesCount || 0,
       };
     } catch (error) {
       throw error;
@@ -196,11 +722,15 @@ export class PostController {
     post_id: string;
     page?: number;
     limit?: number;
+    cursor?: string;
+    sort?: string;
   }) {
-    const { comments, total } = await this.postService.getComments(
+    const { comments, total, nextCursor } = await this.postService.getComments(
       data.post_id,
       data.page || 1,
       data.limit || 20,
+      data.cursor || undefined,
+      this.toCommentSort(data.sort),
     );
 
     return {
@@ -216,9 +746,11 @@ export class PostController {
         mentions: comment.mentions || [],
         reply_count: comment.replyCount || 0,
         is_deleted: comment.isDeleted || false,
+        likes_count: comment.likesCount || 0,
       })),
       total,
       page: data.page || 1,
+      next_cursor: nextCursor || '',
     };
   }
 
@@ -227,30 +759,42 @@ export class PostController {
     comment_id: string;
     page?: number;
     limit?: number;
+    cursor?: string;
+    sort?: string;
+    viewer_id: string;
   }) {
-    const { replies, total } = await this.postService.getReplies(
-      data.comment_id,
-      data.page || 1,
-      data.limit || 20,
-    );
+    try {
+      const { replies, total, nextCursor } = await this.postService.getReplies(
+        data.comment_id,
+        data.viewer_id,
+        data.page || 1,
+        data.limit || 20,
+        data.cursor || undefined,
+        this.toCommentSort(data.sort),
+      );
 
-    return {
-      replies: replies.map((reply) => ({
-        id: reply.id,
-        post_id: reply.postId,
-        user_id: reply.userId,
-        content: reply.content,
-        created_at: reply.createdAt instanceof Date 
-          ? reply.createdAt.toISOString() 
-          : new Date(reply.createdAt).toISOString(),
-        parent_comment_id: reply.parentCommentId || '',
-        mentions: reply.mentions || [],
-        reply_count: reply.replyCount || 0,
-        is_deleted: reply.isDeleted || false,
-      })),
-      total,
-      page: data.page || 1,
-    };
+      return {
+        replies: replies.map((reply) => ({
+          id: reply.id,
+          post_id: reply.postId,
+          user_id: reply.userId,
+          content: reply.content,
+          created_at: reply.createdAt instanceof Date 
+            ? reply.createdAt.toISOString() 
+            : new Date(reply.createdAt).toISOString(),
+          parent_comment_id: reply.parentCommentId || '',
+          mentions: reply.mentions || [],
+          reply_count: reply.replyCount || 0,
+          is_deleted: reply.isDeleted || false,
+          likes_count: reply.likesCount || 0,
+        })),
+        total,
+        page: data.page || 1,
+        next_cursor: nextCursor || '',
+      };
+    } catch (error) {
+      throw this.toRpcException(error);
+    }
   }
 
   @GrpcMethod('PostService', 'DeleteComment')
@@ -287,12 +831,104 @@ export class PostController {
 
   @GrpcMethod('PostService', 'CheckUserLikedPosts')
   async checkUserLikedPosts(data: { user_id: string; post_ids: string[] }) {
-    const likedPostIds = await this.postService.hasUserLikedPosts(data.post_ids, data.user_id);
+    const userReactions = await this.postService.getUserReactions(data.post_ids, data.user_id);
     const result: Record<string, boolean> = {};
     data.post_ids.forEach(postId => {
-      result[postId] = likedPostIds.has(postId);
+      result[postId] = userReactions.has(postId);
     });
-    return { liked_posts: result };
+    return { liked_posts: result, reactions: Object.fromEntries(userReactions) };
   }
-}
 
+  @GrpcMethod('PostService', 'ExportUserData')
+  async exportUserData(data: { user_id: string }) {
+    try {
+      const { data: exported, media } = await this.postService.exportUserData(data.user_id);
+      return {
+        success: true,
+        message: '',
+        data: JSON.stringify(exported),
+        media,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to export user data',
+        data: '',
+        media: [],
+      };
+    }
+  }
+
+  private toCommentSort(sort?: string): CommentSort {
+    return sort === 'top' || sort === 'newest' ? sort : 'oldest';
+  }
+
+  private toPostResponse(post: PostWithCounts): PostResponse {
+    return {
+      id: post.id,
+      user_id: post.userId,
+      content: post.content,
+      media_urls: post.mediaUrls,
+      likes_count: post.likesCount,
+      comments_count: post.commentsCount,
+      created_at: post.createdAt.toISOString(),
+      edited_at: post.editedAt?.toISOString() || '',
+      reposts_count: post.repostsCount,
+      repost_of_id: post.repostOfId || '',
+      is_quote: post.isQuote,
+      repost_of: post.repostOf ? this.toPostResponse(post.repostOf) : null,
+      reaction_counts: post.reactionCounts,
+      status: post.status,
+      publish_at: post.publishAt?.toISOString() || '',
+      visibility: post.visibility,
+      mentions: post.mentions || [],
+      poll: post.poll ? this.toPollResponse(post.poll) : null,
+    };
+  }
+
+  private toPollResponse(poll: PollResults): PollResponse {
+    return {
+      id: poll.id,
+      post_id: poll.postId,
+      options: poll.options.map((text, index) => ({ index, text, votes: poll.votes?.[index] || 0 })),
+      multiple_choice: poll.multipleChoice,
+      closes_at: poll.closesAt?.toISOString() || '',
+      closed: poll.closed,
+      results_visible: poll.votes !== null,
+      total_voters: poll.voters || 0,
+      viewer_votes: poll.viewerVotes,
+    };
+  }
+
+  private toCollectionResponse(collection: CollectionWithCount) {
+    return {
+      id: collection.id,
+      name: collection.name,
+      bookmark_count: collection.bookmarkCount,
+      created_at: collection.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Status codes let the gateway answer with the right HTTP status
+   */
+  private toRpcException(error: unknown): unknown {
+    if (error instanceof ForbiddenException) {
+      return new RpcException({ code: GrpcStatus.PERMISSION_DENIED, message: error.message });
+    }
+    if (error instanceof NotFoundException) {
+      return new RpcException({ code: GrpcStatus.NOT_FOUND, message: error.message });
+    }
+    if (error instanceof BadRequestException) {
+      return new RpcException({ code: GrpcStatus.INVALID_ARGUMENT, message: error.message });
+    }
+    if (error instanceof ConflictException) {
+      return new RpcException({ code: GrpcStatus.ALREADY_EXISTS, message: error.message });
+    }
+    return error;
+  }
+
+  private toVisibility(visibility?: string): PostVisibility | undefined {
+    return Object.values(PostVisibility).find((value) => value === visibility);
+  }
+}
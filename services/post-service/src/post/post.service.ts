@@ -1,13 +1,56 @@
-import { Injectable, NotFoundException, ConflictException } from '@nestjs/common';
+import { Injectable, NotFoundException, ConflictException, BadRequestException, ForbiddenException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, In, IsNull } from 'typeorm';
+import { Repository, In, IsNull, LessThanOrEqual, FindOptionsWhere, SelectQueryBuilder } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
-import { Post } from '../entities/post.entity';
+import { Post, PostStatus, PostVisibility } from '../entities/post.entity';
 import { Like } from '../entities/like.entity';
 import { Comment } from '../entities/comment.entity';
+import { PostRevision } from '../entities/post-revision.entity';
+import { PostHashtag } from '../entities/post-hashtag.entity';
+import { CommentReaction } from '../entities/comment-reaction.entity';
+import { PrivateAccount } from '../entities/private-account.entity';
 import { StorageClientService } from '../clients/storage-client.service';
+import { UserClientService } from '../clients/user-client.service';
 import { EventPublisherService } from '../events/event-publisher.service';
-import { PostCacheService } from '../cache/post-cache.service';
+import { PostCacheService, PageKey } from '../cache/post-cache.service';
+import { FeedRankingService, FeedMode } from './feed-ranking.service';
+import { TimelineService } from './timeline.service';
+import { PollService, PollInput, PollResults } from './poll.service';
+import { BookmarkService } from './bookmark.service';
+import { Bookmark } from '../entities/bookmark.entity';
+import { extractHashtags, normalizeHashtag } from '../utils/hashtag-parser';
+import { decodeCursor, encodeCursor, findKeysetPage, KeysetPage } from '../utils/cursor';
+import { REACTION_TYPES, ReactionType } from '../utils/reactions';
+import { isVisibleTo, whereVisibleTo } from '../utils/visibility';
+
+// Anything past this is ignored rather than rejected
+const MAX_HASHTAGS_PER_ITEM = 30;
+
+export interface HashtagStats {
+  tag: string;
+  postCount: number;
+  commentCount: number;
+  lastUsedAt: string | null;
+}
+
+export type PostWithCounts = Post & {
+  likesCount: number;
+  commentsCount: number;
+  repostsCount: number;
+  reactionCounts: Record<ReactionType, number>;
+  repostOf: PostWithCounts | null;
+  poll: PollResults | null;
+};
+
+// Comments and replies are listed oldest first unless asked otherwise; top
+// puts the most liked first
+export type CommentSort = 'top' | 'newest' | 'oldest';
+
+export interface Reaction {
+  userId: string;
+  type: ReactionType;
+  createdAt: Date;
+}
 
 @Injectable()
 export class PostService {
@@ -18,31 +61,354 @@ export class PostService {
     private likeRepository: Repository<Like>,
     @InjectRepository(Comment)
     private commentRepository: Repository<Comment>,
+    @InjectRepository(CommentReaction)
+    private commentReactionRepository: Repository<CommentReaction>,
+    @InjectRepository(PrivateAccount)
+    private privateAccountRepository: Repository<PrivateAccount>,
+    @InjectRepository(PostRevision)
+    private revisionRepository: Repository<PostRevision>,
+    @InjectRepository(PostHashtag)
+    private hashtagRepository: Repository<PostHashtag>,
     private storageClientService: StorageClientService,
+    private userClient: UserClientService,
     private eventPublisher: EventPublisherService,
     private cacheService: PostCacheService,
+    private feedRankingService: FeedRankingService,
+    private timelineService: TimelineService,
+    private pollService: PollService,
+    private bookmarkService: BookmarkService,
     private configService: ConfigService,
   ) {}
 
+  /**
+   * Publish a post now, or save it as a draft or scheduled post. Drafts and
+   * scheduled posts stay private to their author until they're published.
+   */
   async createPost(
     userId: string,
     content: string,
     mediaUrls: string[] = [],
+    options: {
+      status?: PostStatus;
+      publishAt?: Date | null;
+      visibility?: PostVisibility;
+      mentions?: string[];
+      poll?: PollInput;
+    } = {},
   ): Promise<Post> {
+    const status = options.status || PostStatus.PUBLISHED;
+
+    if (status === PostStatus.SCHEDULED) {
+      this.requireFuturePublishAt(options.publishAt);
+    }
+
+    const poll = options.poll ? this.pollService.validatePoll(options.poll) : null;
+    if (poll?.closesAt && status === PostStatus.SCHEDULED && poll.closesAt <= options.publishAt!) {
+      throw new BadRequestException('Poll must close after the post is published');
+    }
+
     const post = this.postRepository.create({
       userId,
       content,
       mediaUrls,
+      status,
+      publishAt: status === PostStatus.SCHEDULED ? options.publishAt : null,
+      visibility: options.visibility || PostVisibility.PUBLIC,
+      mentions: await this.withoutBlockedUsers(userId, options.mentions || []),
     });
 
     const savedPost = await this.postRepository.save(post);
 
+    if (poll) {
+      await this.pollService.createPoll(savedPost.id, poll);
+    }
+
+    if (status !== PostStatus.PUBLISHED) {
+      return savedPost;
+    }
+
+    await this.syncHashtags(savedPost.id, savedPost.userId, savedPost.content);
+
     await this.eventPublisher.publishPostCreated(savedPost.id, savedPost.userId, savedPost.content);
 
     return savedPost;
   }
 
-  async getPost(postId: string): Promise<Post> {
+  /**
+   * The user's drafts and scheduled posts; scheduled ones first, soonest
+   * first, then drafts by when they were last edited
+   */
+  async getUnpublishedPosts(
+    userId: string,
+    status?: PostStatus.DRAFT | PostStatus.SCHEDULED,
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<{ posts: Post[]; total: number }> {
+    const [posts, total] = await this.postRepository.findAndCount({
+      where: {
+        userId,
+        status: status || In([PostStatus.DRAFT, PostStatus.SCHEDULED]),
+      },
+      order: { publishAt: { direction: 'ASC', nulls: 'LAST' }, updatedAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return { posts, total };
+  }
+
+  /**
+   * Schedule a draft, or move a scheduled post to a new time
+   */
+  async schedulePost(postId: string, userId: string, publishAt: Date): Promise<Post> {
+    this.requireFuturePublishAt(publishAt);
+
+    const post = await this.findUnpublishedPost(postId, userId);
+
+    // Conditional so a post the scheduler has just published stays published
+    const result = await this.postRepository.update(
+      { id: post.id, status: post.status },
+      { status: PostStatus.SCHEDULED, publishAt },
+    );
+
+    if (!result.affected) {
+      throw new NotFoundException('Draft or scheduled post not found');
+    }
+
+    return { ...post, status: PostStatus.SCHEDULED, publishAt };
+  }
+
+  /**
+   * Take a post off the schedule; it's kept as a draft
+   */
+  async cancelScheduledPost(postId: string, userId: string): Promise<Post> {
+    const result = await this.postRepository.update(
+      { id: postId, userId, status: PostStatus.SCHEDULED },
+      { status: PostStatus.DRAFT, publishAt: null },
+    );
+
+    if (!result.affected) {
+      throw new NotFoundException('Scheduled post not found');
+    }
+
+    return this.findUnpublishedPost(postId, userId);
+  }
+
+  /**
+   * Publish a draft or scheduled post straight away
+   */
+  async publishPost(postId: string, userId: string): Promise<Post> {
+    const post = await this.findUnpublishedPost(postId, userId);
+
+    const published = await this.markPublished(post);
+    if (!published) {
+      throw new NotFoundException('Draft or scheduled post not found');
+    }
+
+    return published;
+  }
+
+  /**
+   * Publish scheduled posts whose time has come. Called by PostSchedulerService.
+   */
+  async publishDuePosts(batchSize: number = 100): Promise<number> {
+    const due = await this.postRepository.find({
+      where: {
+        status: PostStatus.SCHEDULED,
+        publishAt: LessThanOrEqual(new Date()),
+      },
+      order: { publishAt: 'ASC' },
+      take: batchSize,
+    });
+
+    let published = 0;
+    for (const post of due) {
+      if (await this.markPublished(post)) {
+        published++;
+      }
+    }
+
+    return published;
+  }
+
+  /**
+   * Re-share a post to the user's followers. Reposting a repost reposts
+   * the original.
+   */
+  async repostPost(postId: string, userId: string): Promise<Post> {
+    const original = await this.resolveRepostTarget(postId);
+    await this.assertRepostable(original);
+
+    const alreadyReposted = await this.postRepository.exists({
+      where: { userId, repostOfId: original.id, isQuote: false },
+    });
+
+    if (alreadyReposted) {
+      throw new ConflictException('Post already reposted');
+    }
+
+    const repost = await this.postRepository.save(
+      this.postRepository.create({
+        userId,
+        content: '',
+        mediaUrls: [],
+        repostOfId: original.id,
+        isQuote: false,
+      }),
+    );
+
+    await this.cacheService.incrementRepostCount(original.id);
+    await this.cacheService.recordEngagement(original.id, 2);
+
+    // post.created puts the repost into followers' timelines
+    await this.eventPublisher.publishPostCreated(repost.id, userId, repost.content);
+    await this.eventPublisher.publishPostReposted(original.id, repost.id, userId, original.userId, false, '');
+
+    return repost;
+  }
+
+  async undoRepost(postId: string, userId: string): Promise<void> {
+    const original = await this.resolveRepostTarget(postId);
+
+    const repost = await this.postRepository.findOne({
+      where: { userId, repostOfId: original.id, isQuote: false },
+    });
+
+    if (!repost) {
+      throw new NotFoundException('Repost not found');
+    }
+
+    // Followers' timelines drop it the next time they're read
+    await this.postRepository.remove(repost);
+    await this.cacheService.decrementRepostCount(original.id);
+  }
+
+  /**
+   * A new post with the user's own text that embeds another post
+   */
+  async quotePost(
+    postId: string,
+    userId: string,
+    content: string,
+    mediaUrls: string[] = [],
+  ): Promise<Post> {
+    const original = await this.resolveRepostTarget(postId);
+    await this.assertRepostable(original);
+
+    const quote = await this.postRepository.save(
+      this.postRepository.create({
+        userId,
+        content,
+        mediaUrls,
+        repostOfId: original.id,
+        isQuote: true,
+      }),
+    );
+
+    await this.syncHashtags(quote.id, quote.userId, quote.content);
+
+    await this.cacheService.incrementRepostCount(original.id);
+    await this.cacheService.recordEngagement(original.id, 2);
+
+    await this.eventPublisher.publishPostCreated(quote.id, userId, quote.content);
+    await this.eventPublisher.publishPostReposted(original.id, quote.id, userId, original.userId, true, quote.content);
+
+    return quote;
+  }
+
+  /**
+   * Edit a post's content and, unless `mediaUrls` is omitted, its media.
+   * The version being replaced is kept in post_revisions. Changing only the
+   * visibility isn't recorded as an edit.
+   */
+  async updatePost(
+    postId: string,
+    userId: string,
+    content: string,
+    mediaUrls?: string[],
+    options: { visibility?: PostVisibility; mentions?: string[] } = {},
+  ): Promise<Post> {
+    const post = await this.postRepository.findOne({
+      where: { id: postId, userId },
+    });
+
+    if (!post) {
+      throw new NotFoundException('Post not found or you do not have permission to edit it');
+    }
+
+    if (post.repostOfId && !post.isQuote) {
+      throw new BadRequestException('Reposts cannot be edited');
+    }
+
+    const visibilityChanged = !!options.visibility && options.visibility !== post.visibility;
+    post.visibility = options.visibility || post.visibility;
+    post.mentions = options.mentions ? await this.withoutBlockedUsers(userId, options.mentions) : post.mentions;
+
+    // Nobody has seen a draft or scheduled post yet, so there's no edit to record
+    if (post.status !== PostStatus.PUBLISHED) {
+      post.content = content;
+      post.mediaUrls = mediaUrls ?? post.mediaUrls;
+      return this.postRepository.save(post);
+    }
+
+    const newMediaUrls = mediaUrls ?? post.mediaUrls;
+    const mediaChanged =
+      newMediaUrls.length !== post.mediaUrls.length ||
+      newMediaUrls.some((url, index) => url !== post.mediaUrls[index]);
+
+    // Nothing changed, so don't record an edit
+    if (content === post.content && !mediaChanged) {
+      if (visibilityChanged) {
+        await this.postRepository.save(post);
+        await this.cacheService.invalidatePostCache(post.id);
+        await this.cacheService.invalidateUserCache(post.userId);
+      }
+      return post;
+    }
+
+    await this.revisionRepository.save(
+      this.revisionRepository.create({
+        postId: post.id,
+        content: post.content,
+        mediaUrls: post.mediaUrls,
+        publishedAt: post.editedAt || post.createdAt,
+      }),
+    );
+
+    post.content = content;
+    post.mediaUrls = newMediaUrls;
+    post.editedAt = new Date();
+
+    const savedPost = await this.postRepository.save(post);
+
+    await this.syncHashtags(savedPost.id, savedPost.userId, savedPost.content);
+
+    await this.cacheService.invalidatePostCache(post.id);
+    await this.cacheService.invalidateUserCache(post.userId);
+
+    await this.eventPublisher.publishPostUpdated(savedPost.id, savedPost.userId, savedPost.content);
+
+    return savedPost;
+  }
+
+  /**
+   * Earlier versions of a post, newest first, if the viewer can see the post
+   */
+  async getPostRevisions(postId: string, viewerId: string): Promise<PostRevision[]> {
+    await this.findVisiblePost(postId, viewerId);
+
+    return this.revisionRepository.find({
+      where: { postId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * With a `viewerId` the post must be visible to that user: a followers-only
+   * post is Forbidden to anyone else, and posts they may not know about at all
+   * are Not Found
+   */
+  async getPost(postId: string, viewerId?: string): Promise<Post> {
     const post = await this.postRepository.findOne({
       where: { id: postId },
       relations: ['likes', 'comments'],
@@ -52,23 +418,45 @@ export class PostService {
       throw new NotFoundException('Post not found');
     }
 
+    if (viewerId) {
+      await this.assertCanView(post, viewerId);
+    }
+
     return post;
   }
 
+  /**
+   * Newest first, limited to what `viewerId` may see (public posts only
+   * without one). `cursor` takes precedence over `page` when both are given.
+   * Forbidden when either of them has blocked the other.
+   */
   async getUserPosts(
     userId: string,
     page: number = 1,
     limit: number = 20,
-  ): Promise<{ posts: Post[]; total: number }> {
-    const [posts, total] = await this.postRepository.findAndCount({
-      where: { userId },
-      order: { createdAt: 'DESC' },
-      skip: (page - 1) * limit,
-      take: limit,
-      relations: ['likes', 'comments'],
-    });
+    cursor?: string,
+    viewerId?: string,
+  ): Promise<{ posts: Post[]; total: number; nextCursor: string | null }> {
+    if (viewerId && viewerId !== userId && (await this.userClient.isBlocked(viewerId, userId))) {
+      throw new ForbiddenException('You cannot view posts from this account');
+    }
 
-    return { posts, total };
+    const followsAuthor = !!viewerId && viewerId !== userId && (await this.userClient.isFollowing(viewerId, userId));
+
+    const { items, total, nextCursor } = await findKeysetPage(
+      whereVisibleTo(
+        this.postRepository
+          .createQueryBuilder('post')
+          .where('post.userId = :userId', { userId })
+          .andWhere('post.status = :status', { status: PostStatus.PUBLISHED }),
+        'post',
+        viewerId,
+        followsAuthor,
+      ),
+      { alias: 'post', table: 'post.posts', direction: 'DESC', page, limit, cursor },
+    );
+
+    return { posts: items, total, nextCursor };
   }
 
   async getFeed(
@@ -76,60 +464,242 @@ export class PostService {
     userIds: string[], 
     page: number = 1,
     limit: number = 20,
-  ): Promise<{ posts: Post[]; total: number }> {
+    mode: FeedMode = 'latest',
+    cursor?: string,
+  ): Promise<{ posts: Post[]; total: number; nextCursor: string | null }> {
     if (userIds.length === 0) {
-      return { posts: [], total: 0 };
+      return { posts: [], total: 0, nextCursor: null };
     }
 
-    const [posts, total] = await this.postRepository.findAndCount({
-      where: { userId: In(userIds) },
-      order: { createdAt: 'DESC' },
-      skip: (page - 1) * limit,
-      take: limit,
-      relations: ['likes', 'comments'],
+    // The ranked feed is a cached ordering rather than a time line, so it pages by number only
+    if (mode === 'top') {
+      if (cursor) {
+        throw new BadRequestException('Cursors are only supported for the latest feed');
+      }
+      const ranked = await this.feedRankingService.getRankedFeed(userId, userIds, page, limit);
+      const posts = await this.withoutHiddenAuthors(userId, ranked.posts);
+      return { posts, total: ranked.total - (ranked.posts.length - posts.length), nextCursor: null };
+    }
+
+    const { postIds, total, next } = await this.timelineService.getTimeline(
+      userId,
+      userIds.filter((id) => id !== userId),
+      { page, limit, after: cursor ? decodeCursor(cursor) : undefined },
+    );
+
+    const nextCursor = next ? encodeCursor(next) : null;
+
+    if (postIds.length === 0) {
+      return { posts: [], total, nextCursor };
+    }
+
+    const found = await this.postRepository.find({
+      where: { id: In(postIds) },
     });
 
-    return { posts, total };
+    const postsById = new Map(found.map((post) => [post.id, post]));
+    const missing = postIds.filter((id) => !postsById.has(id));
+    if (missing.length > 0) {
+      await this.timelineService.removeFromTimeline(userId, missing);
+    }
+
+    // Timelines hold posts of everyone followed; mentioned-only and private
+    // ones are dropped here rather than at fan-out, as visibility can change
+    const visible = postIds
+      .map((id) => postsById.get(id))
+      .filter((post): post is Post => !!post && isVisibleTo(post, userId, true));
+
+    // The total counts everything on the timeline, so whatever was dropped
+    // from the page comes off it
+    const posts = await this.withoutHiddenAuthors(userId, visible);
+    return { posts, total: total - (postIds.length - posts.length), nextCursor };
+  }
+
+  /**
+   * Posts using a hashtag in their own text, newest first. Returns ids only;
+   * callers load each post with its counts.
+   */
+  async getHashtagPosts(
+    tag: string,
+    page: number = 1,
+    limit: number = 20,
+    viewerId?: string,
+  ): Promise<{ postIds: string[]; total: number }> {
+    const normalized = this.requireHashtag(tag);
+
+    let result = await this.cacheService.getTagPage(normalized, page, limit);
+    if (!result) {
+      const query = this.postRepository
+        .createQueryBuilder('post')
+        .innerJoin(PostHashtag, 'hashtag', 'hashtag.postId = post.id AND hashtag.commentId IS NULL')
+        .where('hashtag.tag = :tag', { tag: normalized });
+
+      const [posts, total] = await whereVisibleTo(query, 'post', undefined, false)
+        .orderBy('post.createdAt', 'DESC')
+        .skip((page - 1) * limit)
+        .take(limit)
+        .getManyAndCount();
+
+      result = { postIds: posts.map((post) => post.id), total };
+      await this.cacheService.setTagPage(normalized, page, limit, result);
+    }
+
+    // The cached page is shared by everyone, so blocks are applied afterwards
+    if (!viewerId || result.postIds.length === 0) {
+      return result;
+    }
+
+    const authors = await this.postRepository.find({ select: ['id', 'userId'], where: { id: In(result.postIds) } });
+    const shownAuthors = new Set(await this.withoutBlockedUsers(viewerId, authors.map((post) => post.userId)));
+    const authorOf = new Map(authors.map((post) => [post.id, post.userId]));
+    const postIds = result.postIds.filter((id) => shownAuthors.has(authorOf.get(id) || ''));
+
+    return { postIds, total: result.total - (result.postIds.length - postIds.length) };
+  }
+
+  /**
+   * How often a hashtag has been used in posts and in comments
+   */
+  async getHashtagStats(tag: string): Promise<HashtagStats> {
+    const normalized = this.requireHashtag(tag);
+
+    const cachedStats = await this.cacheService.getTagStats<HashtagStats>(normalized);
+    if (cachedStats) {
+      return cachedStats;
+    }
+
+    const row = await this.hashtagRepository
+      .createQueryBuilder('hashtag')
+      .select('COUNT(*) FILTER (WHERE hashtag.commentId IS NULL)', 'postCount')
+      .addSelect('COUNT(*) FILTER (WHERE hashtag.commentId IS NOT NULL)', 'commentCount')
+      .addSelect('MAX(hashtag.createdAt)', 'lastUsedAt')
+      .where('hashtag.tag = :tag', { tag: normalized })
+      .getRawOne();
+
+    const stats: HashtagStats = {
+      tag: normalized,
+      postCount: parseInt(row?.postCount || '0', 10),
+      commentCount: parseInt(row?.commentCount || '0', 10),
+      lastUsedAt: row?.lastUsedAt ? new Date(row.lastUsedAt).toISOString() : null,
+    };
+    await this.cacheService.setTagStats(normalized, stats);
+
+    return stats;
+  }
+
+  /**
+   * Most used hashtags, optionally only those starting with `query`
+   */
+  async getHashtags(query: string = '', limit: number = 10): Promise<HashtagStats[]> {
+    const prefix = query ? normalizeHashtag(query) : '';
+    if (prefix === null) {
+      return [];
+    }
+
+    const cachedList = await this.cacheService.getTagList<HashtagStats>(prefix, limit);
+    if (cachedList) {
+      return cachedList;
+    }
+
+    const qb = this.hashtagRepository
+      .createQueryBuilder('hashtag')
+      .select('hashtag.tag', 'tag')
+      .addSelect('COUNT(*) FILTER (WHERE hashtag.commentId IS NULL)', 'postCount')
+      .addSelect('COUNT(*) FILTER (WHERE hashtag.commentId IS NOT NULL)', 'commentCount')
+      .addSelect('MAX(hashtag.createdAt)', 'lastUsedAt')
+      .groupBy('hashtag.tag')
+      .orderBy('COUNT(*)', 'DESC')
+      .addOrderBy('hashtag.tag', 'ASC')
+      .limit(limit);
+
+    if (prefix) {
+      // _ is a LIKE wildcard and a valid tag character
+      qb.where('hashtag.tag LIKE :prefix', { prefix: `${prefix.replace(/_/g, '\\_')}%` });
+    }
+
+    const rows = await qb.getRawMany();
+    const hashtags: HashtagStats[] = rows.map((row) => ({
+      tag: row.tag,
+      postCount: parseInt(row.postCount || '0', 10),
+      commentCount: parseInt(row.commentCount || '0', 10),
+      lastUsedAt: row.lastUsedAt ? new Date(row.lastUsedAt).toISOString() : null,
+    }));
+    await this.cacheService.setTagList(prefix, limit, hashtags);
+
+    return hashtags;
   }
 
   async likePost(postId: string, userId: string): Promise<void> {
+    const existingLike = await this.likeRepository.exists({
+      where: { postId, userId },
+    });
+
+    if (existingLike) {
+      throw new ConflictException('Post already liked');
+    }
+
+    await this.reactToPost(postId, userId, 'like');
+  }
+
+  async unlikePost(postId: string, userId: string): Promise<void> {
+    await this.removeReaction(postId, userId);
+  }
+
+  /**
+   * Set the user's reaction to a post, replacing any earlier one. Only a
+   * new reaction counts as engagement and notifies the author.
+   */
+  async reactToPost(postId: string, userId: string, type: ReactionType): Promise<void> {
     const post = await this.postRepository.findOne({
-      where: { id: postId },
+      where: { id: postId, status: PostStatus.PUBLISHED },
     });
 
     if (!post) {
       throw new NotFoundException('Post not found');
     }
 
-    const existingLike = await this.likeRepository.findOne({
+    await this.assertCanView(post, userId);
+
+    const existing = await this.likeRepository.findOne({
       where: { postId, userId },
     });
 
-    if (existingLike) {
-      throw new ConflictException('Post already liked');
+    if (existing?.type === type) {
+      return;
     }
 
-    const like = this.likeRepository.create({
-      postId,
-      userId,
-    });
+    if (existing) {
+      const previousType = existing.type;
+      existing.type = type;
+      await this.likeRepository.save(existing);
+      await this.cacheService.adjustReactionCounts('post', postId, previousType, type);
+      return;
+    }
 
-    await this.likeRepository.save(like);
+    await this.likeRepository.save(
+      this.likeRepository.create({
+        postId,
+        userId,
+        type,
+      }),
+    );
 
     await this.cacheService.incrementLikeCount(postId);
+    await this.cacheService.adjustReactionCounts('post', postId, null, type);
+    await this.cacheService.recordEngagement(postId);
 
     await this.cacheService.setUserLikedPost(userId, postId, true);
 
-    await this.eventPublisher.publishPostLiked(postId, userId, post.userId);
+    await this.eventPublisher.publishPostLiked(postId, userId, post.userId, type);
   }
 
-  async unlikePost(postId: string, userId: string): Promise<void> {
+  async removeReaction(postId: string, userId: string): Promise<void> {
     const like = await this.likeRepository.findOne({
       where: { postId, userId },
     });
 
     if (!like) {
-      throw new NotFoundException('Like not found');
+      throw new NotFoundException('Reaction not found');
     }
 
     const post = await this.postRepository.findOne({
@@ -139,6 +709,7 @@ export class PostService {
     await this.likeRepository.remove(like);
 
     await this.cacheService.decrementLikeCount(postId);
+    await this.cacheService.adjustReactionCounts('post', postId, like.type, null);
 
     await this.cacheService.setUserLikedPost(userId, postId, false);
 
@@ -147,6 +718,174 @@ export class PostService {
     }
   }
 
+  async reactToComment(postId: string, commentId: string, userId: string, type: ReactionType): Promise<void> {
+    await this.findVisiblePost(postId, userId);
+
+    const comment = await this.commentRepository.findOne({
+      where: { id: commentId, postId, isDeleted: false },
+    });
+
+    if (!comment) {
+      throw new NotFoundException('Comment not found');
+    }
+
+    const existing = await this.commentReactionRepository.findOne({
+      where: { commentId, userId },
+    });
+
+    if (existing?.type === type) {
+      return;
+    }
+
+    const previousType = existing?.type || null;
+    await this.commentReactionRepository.save(
+      existing
+        ? Object.assign(existing, { type })
+        : this.commentReactionRepository.create({ commentId, userId, type }),
+    );
+
+    await this.cacheService.adjustReactionCounts('comment', commentId, previousType, type);
+
+    // Changing the reaction type leaves the like count as it was
+    if (existing) {
+      return;
+    }
+
+    await this.commentRepository.increment({ id: commentId }, 'likesCount', 1);
+    await this.invalidateCommentListing(comment);
+
+    await this.eventPublisher.publishCommentLiked(commentId, postId, userId, comment.userId, type);
+  }
+
+  async likeComment(postId: string, commentId: string, userId: string): Promise<void> {
+    // Before the duplicate check, so a hidden post's comments can't be probed
+    await this.findVisiblePost(postId, userId);
+
+    const existingLike = await this.commentReactionRepository.exists({
+      where: { commentId, userId },
+    });
+
+    if (existingLike) {
+      throw new ConflictException('Comment already liked');
+    }
+
+    await this.reactToComment(postId, commentId, userId, 'like');
+  }
+
+  async removeCommentReaction(postId: string, commentId: string, userId: string): Promise<void> {
+    await this.findVisiblePost(postId, userId);
+
+    const comment = await this.commentRepository.findOne({
+      where: { id: commentId, postId },
+    });
+
+    if (!comment) {
+      throw new NotFoundException('Comment not found');
+    }
+
+    const reaction = await this.commentReactionRepository.findOne({
+      where: { commentId, userId },
+    });
+
+    if (!reaction) {
+      throw new NotFoundException('Reaction not found');
+    }
+
+    await this.commentReactionRepository.remove(reaction);
+    await this.cacheService.adjustReactionCounts('comment', commentId, reaction.type, null);
+
+    await this.commentRepository.decrement({ id: commentId }, 'likesCount', 1);
+    await this.invalidateCommentListing(comment);
+  }
+
+  /**
+   * Reaction totals per type for a post, or for a comment when `commentId`
+   * is given
+   */
+  async getReactionCounts(postId: string, commentId?: string): Promise<Record<ReactionType, number>> {
+    const target = commentId ? 'comment' : 'post';
+    const targetId = commentId || postId;
+
+    const cached = await this.cacheService.getReactionCounts(target, targetId);
+    if (cached) {
+      return cached;
+    }
+
+    const rows: Array<{ type: ReactionType; count: string }> = commentId
+      ? await this.commentReactionRepository
+          .createQueryBuilder('reaction')
+          .select('reaction.type', 'type')
+          .addSelect('COUNT(*)', 'count')
+          .where('reaction.commentId = :commentId', { commentId })
+          .groupBy('reaction.type')
+          .getRawMany()
+      : await this.likeRepository
+          .createQueryBuilder('postLike')
+          .select('postLike.type', 'type')
+          .addSelect('COUNT(*)', 'count')
+          .where('postLike.postId = :postId', { postId })
+          .groupBy('postLike.type')
+          .getRawMany();
+
+    const counts = Object.fromEntries(REACTION_TYPES.map((type) => [type, 0])) as Record<ReactionType, number>;
+    for (const row of rows) {
+      if (row.type in counts) {
+        counts[row.type] = parseInt(row.count, 10);
+      }
+    }
+
+    await this.cacheService.setReactionCounts(target, targetId, counts);
+
+    return counts;
+  }
+
+  /**
+   * Who reacted to a post (or one of its comments) and with what, newest
+   * first. `type` narrows the list to one reaction. The viewer must be able
+   * to see the post.
+   */
+  async getReactions(
+    postId: string,
+    viewerId: string,
+    options: { commentId?: string; type?: ReactionType; page?: number; limit?: number } = {},
+  ): Promise<{ reactions: Reaction[]; total: number; counts: Record<ReactionType, number> }> {
+    const { commentId, type, page = 1, limit = 20 } = options;
+
+    await this.findVisiblePost(postId, viewerId);
+
+    if (commentId) {
+      const exists = await this.commentRepository.exists({
+        where: { id: commentId, postId },
+      });
+      if (!exists) {
+        throw new NotFoundException('Comment not found');
+      }
+    }
+
+    const [[rows, total], counts] = await Promise.all([
+      commentId
+        ? this.commentReactionRepository.findAndCount({
+            where: { commentId, ...(type ? { type } : {}) },
+            order: { createdAt: 'DESC' },
+            skip: (page - 1) * limit,
+            take: limit,
+          })
+        : this.likeRepository.findAndCount({
+            where: { postId, ...(type ? { type } : {}) },
+            order: { createdAt: 'DESC' },
+            skip: (page - 1) * limit,
+            take: limit,
+          }),
+      this.getReactionCounts(postId, commentId),
+    ]);
+
+    return {
+      reactions: rows.map((row) => ({ userId: row.userId, type: row.type, createdAt: row.createdAt })),
+      total,
+      counts,
+    };
+  }
+
   async createComment(
     postId: string,
     userId: string,
@@ -155,13 +894,15 @@ export class PostService {
     mentions?: string[],
   ): Promise<Comment> {
     const post = await this.postRepository.findOne({
-      where: { id: postId },
+      where: { id: postId, status: PostStatus.PUBLISHED },
     });
 
     if (!post) {
       throw new NotFoundException('Post not found');
     }
 
+    await this.assertCanView(post, userId);
+
     let parentCommentAuthorId: string | null = null;
     let parentCommentContent: string | null = null;
     
@@ -182,16 +923,23 @@ export class PostService {
       parentCommentContent = parentComment.content;
     }
 
+    mentions = await this.withoutBlockedUsers(userId, mentions || []);
+
     const comment = this.commentRepository.create({
       postId,
       userId,
       content,
       parentCommentId: parentCommentId || null,
-      mentions: mentions || [],
+      mentions,
     });
 
     const savedComment = await this.commentRepository.save(comment);
 
+    // Comments count double towards the ranked feed's engagement velocity
+    await this.cacheService.recordEngagement(postId, 2);
+
+    await this.syncHashtags(postId, userId, content, savedComment.id);
+
     if (parentCommentId) {
       await this.cacheService.incrementReplyCount(parentCommentId);
       await this.cacheService.invalidateReplyPages(parentCommentId);
@@ -216,62 +964,99 @@ export class PostService {
       parentCommentId,
       parentCommentAuthorId,
       parentCommentContent,
-      mentions || [],
+      mentions,
     );
 
     return savedComment;
   }
 
+  /**
+   * Top-level comments, oldest first. `cursor` takes precedence over `page`.
+   */
   async getComments(
     postId: string,
     page: number = 1,
     limit: number = 20,
-  ): Promise<{ comments: Comment[]; total: number }> {
-    const cachedPage = await this.cacheService.getCommentPage(postId, page, limit);
+    cursor?: string,
+    sort: CommentSort = 'oldest',
+  ): Promise<{ comments: Comment[]; total: number; nextCursor: string | null }> {
+    const pageKey = this.commentPageKey(page, sort, cursor);
+
+    const cachedPage = await this.cacheService.getCommentPage<Comment>(postId, sort, pageKey, limit);
     if (cachedPage) {
       const cachedTotal = await this.cacheService.getCommentCount(postId);
       return {
-        comments: cachedPage,
-        total: cachedTotal || cachedPage.length,
+        comments: cachedPage.items,
+        total: cachedTotal || cachedPage.items.length,
+        nextCursor: cachedPage.nextCursor,
       };
     }
 
-    const [comments, total] = await this.commentRepository.findAndCount({
-      where: { postId, parentCommentId: IsNull() },
-      order: { createdAt: 'ASC' },
-      skip: (page - 1) * limit,
-      take: limit,
-    });
+    const { items, total, nextCursor } = await this.findCommentPage(
+      this.commentRepository
+        .createQueryBuilder('comment')
+        .where('comment.postId = :postId', { postId })
+        .andWhere('comment.parentCommentId IS NULL'),
+      sort,
+      page,
+      limit,
+      cursor,
+    );
 
-    await this.cacheService.setCommentPage(postId, page, limit, comments);
+    await this.cacheService.setCommentPage(postId, sort, pageKey, limit, { items, nextCursor });
 
-    return { comments, total };
+    return { comments: items, total, nextCursor };
   }
 
+  /**
+   * Replies to a comment, oldest first unless `sort` says otherwise.
+   * `cursor` takes precedence over `page`. The viewer must be able to see
+   * the post the comment is on.
+   */
   async getReplies(
     commentId: string,
+    viewerId: string,
     page: number = 1,
     limit: number = 20,
-  ): Promise<{ replies: Comment[]; total: number }> {
-    const cachedReplies = await this.cacheService.getReplyPage(commentId, page, limit);
+    cursor?: string,
+    sort: CommentSort = 'oldest',
+  ): Promise<{ replies: Comment[]; total: number; nextCursor: string | null }> {
+    const comment = await this.commentRepository.findOne({
+      select: ['id', 'postId'],
+      where: { id: commentId },
+    });
+
+    if (!comment) {
+      throw new NotFoundException('Comment not found');
+    }
+
+    await this.findVisiblePost(comment.postId, viewerId);
+
+    const pageKey = this.commentPageKey(page, sort, cursor);
+
+    const cachedReplies = await this.cacheService.getReplyPage<Comment>(commentId, sort, pageKey, limit);
     if (cachedReplies) {
       const cachedTotal = await this.cacheService.getReplyCount(commentId);
       return {
-        replies: cachedReplies,
-        total: cachedTotal || cachedReplies.length,
+        replies: cachedReplies.items,
+        total: cachedTotal || cachedReplies.items.length,
+        nextCursor: cachedReplies.nextCursor,
       };
     }
 
-    const [replies, total] = await this.commentRepository.findAndCount({
-      where: { parentCommentId: commentId },
-      order: { createdAt: 'ASC' },
-      skip: (page - 1) * limit,
-      take: limit,
-    });
+    const { items, total, nextCursor } = await this.findCommentPage(
+      this.commentRepository
+        .createQueryBuilder('comment')
+        .where('comment.parentCommentId = :commentId', { commentId }),
+      sort,
+      page,
+      limit,
+      cursor,
+    );
 
-    await this.cacheService.setReplyPage(commentId, page, limit, replies);
+    await this.cacheService.setReplyPage(commentId, sort, pageKey, limit, { items, nextCursor });
 
-    return { replies, total };
+    return { replies: items, total, nextCursor };
   }
 
   async deleteComment(commentId: string, userId: string): Promise<void> {
@@ -291,22 +1076,40 @@ export class PostService {
     comment.content = '[deleted]';
     await this.commentRepository.save(comment);
 
+    await this.removeHashtags({ commentId: comment.id });
+
     await this.cacheService.invalidateCommentPages(comment.postId);
     if (comment.parentCommentId) {
       await this.cacheService.invalidateReplyPages(comment.parentCommentId);
     }
   }
 
-  async getPostWithCounts(postId: string): Promise<Post & { likesCount: number; commentsCount: number }> {
-    const post = await this.getPost(postId);
+  /**
+   * The post with its counts and, for reposts and quotes, the original.
+   * The original is loaded one level deep only.
+   *
+   * `viewerId` is checked for access to the post itself. `pollViewerId`
+   * decides whether poll results are shown and is the viewer the original
+   * is checked against, so lists that were already filtered can skip the
+   * first check without skipping the second.
+   */
+  async getPostWithCounts(
+    postId: string,
+    withRepostOf: boolean = true,
+    viewerId?: string,
+    pollViewerId: string | undefined = viewerId,
+  ): Promise<PostWithCounts> {
+    const post = await this.getPost(postId, viewerId);
 
-    const [cachedLikesCount, cachedCommentsCount] = await Promise.all([
+    const [cachedLikesCount, cachedCommentsCount, cachedRepostsCount] = await Promise.all([
       this.cacheService.getLikeCount(postId),
       this.cacheService.getCommentCount(postId),
+      this.cacheService.getRepostCount(postId),
     ]);
 
     let likesCount: number;
     let commentsCount: number;
+    let repostsCount: number;
 
     if (cachedLikesCount !== null) {
       likesCount = cachedLikesCount;
@@ -322,13 +1125,92 @@ export class PostService {
       await this.cacheService.setCommentCount(postId, commentsCount);
     }
 
+    if (cachedRepostsCount !== null) {
+      repostsCount = cachedRepostsCount;
+    } else {
+      repostsCount = await this.postRepository.count({ where: { repostOfId: postId } });
+      await this.cacheService.setRepostCount(postId, repostsCount);
+    }
+
+    const [reactionCounts, poll] = await Promise.all([
+      this.getReactionCounts(postId),
+      this.pollService.getResults(postId, pollViewerId),
+    ]);
+
+    // The original is checked on its own: it may have been narrowed to
+    // followers, its author may have gone private or blocked the viewer
+    let repostOf: PostWithCounts | null = null;
+    if (withRepostOf && post.repostOfId) {
+      repostOf = await this.getPostWithCounts(post.repostOfId, false, pollViewerId, pollViewerId).catch(() => null);
+      if (repostOf && !pollViewerId && !(await this.isPubliclyVisible(repostOf))) {
+        repostOf = null;
+      }
+    }
+
     return {
       ...post,
       likesCount,
       commentsCount,
+      repostsCount,
+      reactionCounts,
+      repostOf,
+      poll,
     };
   }
 
+  /**
+   * Vote in a post's poll; the voter must be able to see the post
+   */
+  async votePoll(postId: string, userId: string, optionIndexes: number[]): Promise<PollResults> {
+    const post = await this.postRepository.findOne({
+      where: { id: postId, status: PostStatus.PUBLISHED },
+    });
+
+    if (!post) {
+      throw new NotFoundException('Post not found');
+    }
+
+    await this.assertCanView(post, userId);
+
+    const poll = await this.pollService.getPoll(postId);
+    if (!poll) {
+      throw new NotFoundException('Poll not found');
+    }
+
+    return this.pollService.vote(poll, userId, optionIndexes);
+  }
+
+  async getPollResults(postId: string, viewerId: string): Promise<PollResults> {
+    await this.getPost(postId, viewerId);
+
+    const results = await this.pollService.getResults(postId, viewerId);
+    if (!results) {
+      throw new NotFoundException('Poll not found');
+    }
+
+    return results;
+  }
+
+  /**
+   * Bookmark a post the user can see. Saving a repost saves the original.
+   */
+  async savePost(postId: string, userId: string, collectionId?: string): Promise<Bookmark> {
+    const post = await this.resolveRepostTarget(postId);
+    await this.assertCanView(post, userId);
+
+    return this.bookmarkService.save(userId, post.id, collectionId);
+  }
+
+  async unsavePost(postId: string, userId: string): Promise<void> {
+    const post = await this.postRepository.findOne({
+      select: ['id', 'repostOfId', 'isQuote'],
+      where: { id: postId },
+    });
+
+    const targetId = post?.repostOfId && !post.isQuote ? post.repostOfId : postId;
+    await this.bookmarkService.unsave(userId, targetId);
+  }
+
   async hasUserLikedPost(postId: string, userId: string): Promise<boolean> {
     const like = await this.likeRepository.findOne({
       where: { postId, userId },
@@ -336,11 +1218,19 @@ export class PostService {
     return !!like;
   }
 
-  async hasUserLikedPosts(postIds: string[], userId: string): Promise<Set<string>> {
+  /**
+   * The user's reaction to each of the posts they've reacted to
+   */
+  async getUserReactions(postIds: string[], userId: string): Promise<Map<string, ReactionType>> {
+    if (postIds.length === 0) {
+      return new Map();
+    }
+
     const likes = await this.likeRepository.find({
+      select: ['postId', 'type'],
       where: { postId: In(postIds), userId },
     });
-    return new Set(likes.map(like => like.postId));
+    return new Map(likes.map((like) => [like.postId, like.type]));
   }
 
   /**
@@ -350,8 +1240,9 @@ export class PostService {
   async getPresignedUploadUrl(
     fileName: string,
     contentType: string,
+    userId: string,
   ): Promise<{ uploadUrl: string; objectName: string; accessUrl: string }> {
-    return await this.storageClientService.getPresignedUploadUrl(fileName, contentType, 'image');
+    return await this.storageClientService.getPresignedUploadUrl(fileName, contentType, userId, 'image');
   }
 
   /**
@@ -370,8 +1261,499 @@ export class PostService {
       throw new NotFoundException('Post not found or you do not have permission to delete it');
     }
 
-    if (post.mediaUrls && post.mediaUrls.length > 0) {
-      const objectNames = post.mediaUrls.map((url) => {
+    await this.deletePostMedia(post);
+
+    // Cascades with the post (as do bookmarks), but the tag pages still need invalidating
+    await this.removeHashtags({ postId: post.id });
+
+    await this.removeReposts(post.id);
+
+    await this.postRepository.remove(post);
+
+    if (post.repostOfId) {
+      await this.cacheService.decrementRepostCount(post.repostOfId);
+    }
+  }
+
+  /**
+   * Personal data export: the user's posts, comments and likes. Media is
+   * returned as object names for the caller to bundle.
+   */
+  async exportUserData(userId: string): Promise<{ data: Record<string, unknown>; media: string[] }> {
+    const [posts, comments, likes, commentReactions, pollVotes, bookmarks] = await Promise.all([
+      this.postRepository.find({ where: { userId }, order: { createdAt: 'DESC' }, relations: ['revisions'] }),
+      this.commentRepository.find({ where: { userId, isDeleted: false }, order: { createdAt: 'DESC' } }),
+      this.likeRepository.find({ where: { userId }, order: { createdAt: 'DESC' } }),
+      this.commentReactionRepository.find({ where: { userId }, order: { createdAt: 'DESC' } }),
+      this.pollService.getUserVotes(userId),
+      this.bookmarkService.getUserBookmarks(userId),
+    ]);
+
+    const media = posts
+      .flatMap((post) => [...(post.mediaUrls || []), ...post.revisions.flatMap((revision) => revision.mediaUrls || [])])
+      .filter((url) => url && !url.includes('://'));
+
+    return {
+      data: {
+        posts: posts.map((post) => ({
+          id: post.id,
+          content: post.content,
+          media: post.mediaUrls || [],
+          created_at: post.createdAt.toISOString(),
+          updated_at: post.updatedAt.toISOString(),
+          edited_at: post.editedAt?.toISOString() || null,
+          status: post.status,
+          publish_at: post.publishAt?.toISOString() || null,
+          visibility: post.visibility,
+          revisions: post.revisions.map((revision) => ({
+            content: revision.content,
+            media: revision.mediaUrls || [],
+            published_at: revision.publishedAt.toISOString(),
+            replaced_at: revision.createdAt.toISOString(),
+          })),
+        })),
+        comments: comments.map((comment) => ({
+          id: comment.id,
+          post_id: comment.postId,
+          parent_comment_id: comment.parentCommentId,
+          content: comment.content,
+          created_at: comment.createdAt.toISOString(),
+        })),
+        likes: likes.map((like) => ({
+          post_id: like.postId,
+          reaction: like.type,
+          created_at: like.createdAt.toISOString(),
+        })),
+        comment_reactions: commentReactions.map((reaction) => ({
+          comment_id: reaction.commentId,
+          reaction: reaction.type,
+          created_at: reaction.createdAt.toISOString(),
+        })),
+        poll_votes: pollVotes.map((vote) => ({
+          post_id: vote.poll.postId,
+          option: vote.poll.options[vote.optionIndex],
+          created_at: vote.createdAt.toISOString(),
+        })),
+        bookmarks: bookmarks.map((bookmark) => ({
+          post_id: bookmark.postId,
+          collection: bookmark.collection?.name || null,
+          saved_at: bookmark.createdAt.toISOString(),
+        })),
+      },
+      media: Array.from(new Set(media)),
+    };
+  }
+
+  /**
+   * Mirror a user's account privacy from a user.privacy_changed event
+   */
+  async setAccountPrivacy(userId: string, isPrivate: boolean): Promise<void> {
+    if (isPrivate) {
+      await this.privateAccountRepository.upsert({ userId }, ['userId']);
+    } else {
+      await this.privateAccountRepository.delete({ userId });
+    }
+
+    await this.cacheService.invalidateUserCache(userId);
+  }
+
+  /**
+   * Account erasure: the user's posts (with their media), likes and comments.
+   * Comments are blanked like a normal delete so reply threads stay intact.
+   */
+  async deleteUserData(userId: string): Promise<void> {
+    const posts = await this.postRepository.find({
+      where: { userId },
+    });
+
+    for (const post of posts) {
+      await this.deletePostMedia(post);
+      await this.removeHashtags({ postId: post.id });
+      await this.removeReposts(post.id);
+      // Likes, comments and bookmarks of the post go with it (ON DELETE CASCADE)
+      await this.postRepository.remove(post);
+      await this.cacheService.invalidatePostCache(post.id);
+      if (post.repostOfId) {
+        await this.cacheService.invalidateRepostCount(post.repostOfId);
+      }
+    }
+
+    const likes = await this.likeRepository.find({
+      where: { userId },
+    });
+
+    if (likes.length > 0) {
+      await this.likeRepository.remove(likes);
+    }
+
+    const commentReactions = await this.commentReactionRepository.find({
+      where: { userId },
+    });
+
+    // One reaction per comment, so each reacted comment loses one like
+    const reactedComments = commentReactions.length > 0
+      ? await this.commentRepository.find({
+          select: ['id', 'postId', 'parentCommentId'],
+          where: { id: In(commentReactions.map((reaction) => reaction.commentId)) },
+        })
+      : [];
+
+    if (commentReactions.length > 0) {
+      await this.commentReactionRepository.remove(commentReactions);
+      await this.commentRepository.decrement(
+        { id: In(commentReactions.map((reaction) => reaction.commentId)) },
+        'likesCount',
+        1,
+      );
+      await Promise.all(
+        commentReactions.map((reaction) => this.cacheService.invalidateReactionCounts('comment', reaction.commentId)),
+      );
+    }
+
+    const comments = await this.commentRepository.find({
+      where: { userId, isDeleted: false },
+    });
+
+    if (comments.length > 0) {
+      await this.commentRepository.update(
+        { userId },
+        { isDeleted: true, content: '[deleted]', mentions: [] },
+      );
+      await this.removeHashtags({ commentId: In(comments.map((comment) => comment.id)) });
+    }
+
+    // Counts and comment pages of every post the user touched
+    const touchedPostIds = new Set([
+      ...likes.map((like) => like.postId),
+      ...comments.map((comment) => comment.postId),
+      ...reactedComments.map((comment) => comment.postId),
+    ]);
+    const parentCommentIds = new Set(
+      [...comments, ...reactedComments].map((comment) => comment.parentCommentId).filter((id): id is string => !!id),
+    );
+    await Promise.all([
+      ...Array.from(touchedPostIds).map((postId) => this.cacheService.invalidatePostCache(postId)),
+      ...Array.from(parentCommentIds).map((commentId) => this.cacheService.invalidateReplyPages(commentId)),
+    ]);
+
+    await this.pollService.deleteUserVotes(userId);
+    await this.bookmarkService.deleteUserBookmarks(userId);
+    await this.privateAccountRepository.delete({ userId });
+    await this.cacheService.invalidateUserCache(userId);
+    await this.timelineService.clearTimeline(userId);
+  }
+
+  /**
+   * Which page of comments is wanted, as used in the cache key. Top is
+   * paged by number only.
+   */
+  private commentPageKey(page: number, sort: CommentSort, cursor?: string): PageKey {
+    if (cursor && sort === 'top') {
+      throw new BadRequestException('cursor is not supported when sorting by top');
+    }
+
+    // Normalised so equivalent cursors share a cache entry
+    return cursor ? { cursor: encodeCursor(decodeCursor(cursor)) } : { page };
+  }
+
+  /**
+   * Like counts change under a reader, so the top sort is paged by number
+   * only; the others are keyset pages on (createdAt, id)
+   */
+  private async findCommentPage(
+    query: SelectQueryBuilder<Comment>,
+    sort: CommentSort,
+    page: number,
+    limit: number,
+    cursor?: string,
+  ): Promise<KeysetPage<Comment>> {
+    if (sort !== 'top') {
+      return findKeysetPage(query, {
+        alias: 'comment',
+        table: 'post.comments',
+        direction: sort === 'newest' ? 'DESC' : 'ASC',
+        page,
+        limit,
+        cursor,
+      });
+    }
+
+    const [items, total] = await query
+      .orderBy('comment.likesCount', 'DESC')
+      .addOrderBy('comment.createdAt', 'ASC')
+      .addOrderBy('comment.id', 'ASC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return { items, total, nextCursor: null };
+  }
+
+  private async invalidateCommentListing(comment: Comment): Promise<void> {
+    if (comment.parentCommentId) {
+      await this.cacheService.invalidateReplyPages(comment.parentCommentId);
+    } else {
+      await this.cacheService.invalidateCommentPages(comment.postId);
+    }
+  }
+
+  private requireFuturePublishAt(publishAt?: Date | null): asserts publishAt is Date {
+    if (!publishAt || Number.isNaN(publishAt.getTime()) || publishAt.getTime() <= Date.now()) {
+      throw new BadRequestException('publishAt must be in the future');
+    }
+  }
+
+  private async findUnpublishedPost(postId: string, userId: string): Promise<Post> {
+    const post = await this.postRepository.findOne({
+      where: { id: postId, userId, status: In([PostStatus.DRAFT, PostStatus.SCHEDULED]) },
+    });
+
+    if (!post) {
+      throw new NotFoundException('Draft or scheduled post not found');
+    }
+
+    return post;
+  }
+
+  /**
+   * Claim and publish a draft or scheduled post: it takes the current time as
+   * its createdAt and only now gets its hashtags and post.created event.
+   * Returns null if something else published, cancelled or deleted it first.
+   */
+  private async markPublished(post: Post): Promise<Post | null> {
+    const publishedAt = new Date();
+
+    const claimed = await this.postRepository.update(
+      { id: post.id, status: post.status },
+      { status: PostStatus.PUBLISHED, createdAt: publishedAt },
+    );
+
+    if (!claimed.affected) {
+      return null;
+    }
+
+    await this.syncHashtags(post.id, post.userId, post.content);
+    await this.cacheService.invalidateUserCache(post.userId);
+
+    await this.eventPublisher.publishPostCreated(post.id, post.userId, post.content);
+
+    return { ...post, status: PostStatus.PUBLISHED, createdAt: publishedAt };
+  }
+
+  /**
+   * The post, if the viewer may see it; the same errors as getPost
+   */
+  private async findVisiblePost(postId: string, viewerId: string): Promise<Post> {
+    const post = await this.postRepository.findOne({
+      where: { id: postId },
+    });
+
+    if (!post) {
+      throw new NotFoundException('Post not found');
+    }
+
+    await this.assertCanView(post, viewerId);
+
+    return post;
+  }
+
+  private async assertCanView(post: Post, viewerId: string): Promise<void> {
+    if (post.userId === viewerId) {
+      return;
+    }
+
+    if (post.status !== PostStatus.PUBLISHED) {
+      throw new NotFoundException('Post not found');
+    }
+
+    if (await this.userClient.isBlocked(viewerId, post.userId)) {
+      throw new ForbiddenException('You cannot view posts from this account');
+    }
+
+    const authorPrivate = await this.isPrivateAccount(post.userId);
+    const followsAuthor =
+      (authorPrivate || post.visibility === PostVisibility.FOLLOWERS) &&
+      (await this.userClient.isFollowing(viewerId, post.userId));
+
+    if (isVisibleTo(post, viewerId, followsAuthor, authorPrivate)) {
+      return;
+    }
+
+    if (post.visibility === PostVisibility.FOLLOWERS) {
+      throw new ForbiddenException('This post is only visible to followers');
+    }
+    if (authorPrivate && post.visibility === PostVisibility.PUBLIC) {
+      throw new ForbiddenException('This account is private');
+    }
+    throw new NotFoundException('Post not found');
+  }
+
+  /**
+   * Drop mentions of anyone the user has blocked or been blocked by
+   */
+  private async withoutBlockedUsers(userId: string, userIds: string[]): Promise<string[]> {
+    if (userIds.length === 0) {
+      return userIds;
+    }
+
+    const { blockedUserIds } = await this.userClient.getRelationshipFilter(userId);
+    return userIds.filter((id) => !blockedUserIds.includes(id));
+  }
+
+  /**
+   * Drop feed posts by users the viewer has blocked, been blocked by or
+   * muted, including reposts of their posts
+   */
+  private async withoutHiddenAuthors(userId: string, posts: Post[]): Promise<Post[]> {
+    const { blockedUserIds, mutedUserIds } = await this.userClient.getRelationshipFilter(userId);
+    const hidden = new Set([...blockedUserIds, ...mutedUserIds]);
+
+    if (hidden.size === 0 || posts.length === 0) {
+      return posts;
+    }
+
+    const originalIds = posts.map((post) => post.repostOfId).filter((id): id is string => !!id);
+    const originals =
+      originalIds.length > 0
+        ? await this.postRepository.find({ select: ['id', 'userId'], where: { id: In(originalIds) } })
+        : [];
+    const originalAuthors = new Map(originals.map((original) => [original.id, original.userId]));
+
+    return posts.filter(
+      (post) =>
+        !hidden.has(post.userId) &&
+        !(post.repostOfId && hidden.has(originalAuthors.get(post.repostOfId) || '')),
+    );
+  }
+
+  /**
+   * Whether a post can be shown with no viewer to check against
+   */
+  private async isPubliclyVisible(post: Post): Promise<boolean> {
+    return (
+      post.status === PostStatus.PUBLISHED &&
+      isVisibleTo(post, undefined, false, await this.isPrivateAccount(post.userId))
+    );
+  }
+
+  private async isPrivateAccount(userId: string): Promise<boolean> {
+    return this.privateAccountRepository.exists({ where: { userId } });
+  }
+
+  /**
+   * Only public posts can be reposted or quoted, so a repost never shows
+   * its original to a wider audience
+   */
+  private async assertRepostable(original: Post): Promise<void> {
+    if (original.visibility !== PostVisibility.PUBLIC || (await this.isPrivateAccount(original.userId))) {
+      throw new BadRequestException('Only public posts can be reposted');
+    }
+  }
+
+  /**
+   * The post a repost or quote should point at: plain reposts stand in for
+   * their original
+   */
+  private async resolveRepostTarget(postId: string): Promise<Post> {
+    const post = await this.postRepository.findOne({
+      where: { id: postId, status: PostStatus.PUBLISHED },
+    });
+
+    if (!post) {
+      throw new NotFoundException('Post not found');
+    }
+
+    if (!post.repostOfId || post.isQuote) {
+      return post;
+    }
+
+    const original = await this.postRepository.findOne({
+      where: { id: post.repostOfId },
+    });
+
+    if (!original) {
+      throw new NotFoundException('Post not found');
+    }
+
+    return original;
+  }
+
+  /**
+   * Plain reposts go with the post they repost; quotes keep their own text
+   * and just lose the reference (ON DELETE SET NULL)
+   */
+  private async removeReposts(postId: string): Promise<void> {
+    await this.postRepository.delete({ repostOfId: postId, isQuote: false });
+  }
+
+  /**
+   * Store the hashtags in a post's text, or in one of its comments when
+   * commentId is given, replacing whatever was stored for it before
+   */
+  private async syncHashtags(
+    postId: string,
+    userId: string,
+    content: string,
+    commentId: string | null = null,
+  ): Promise<void> {
+    const existing = await this.hashtagRepository.find({
+      where: { postId, commentId: commentId ?? IsNull() },
+    });
+    const tags = extractHashtags(content).slice(0, MAX_HASHTAGS_PER_ITEM);
+
+    // Unchanged tags keep their row, and with it when they were first used
+    const removed = existing.filter((hashtag) => !tags.includes(hashtag.tag));
+    const added = tags.filter((tag) => !existing.some((hashtag) => hashtag.tag === tag));
+
+    if (removed.length > 0) {
+      await this.hashtagRepository.remove(removed);
+    }
+
+    if (added.length > 0) {
+      await this.hashtagRepository.save(
+        added.map((tag) => this.hashtagRepository.create({ tag, postId, commentId, userId })),
+      );
+    }
+
+    await this.cacheService.invalidateTagCache([...removed.map((hashtag) => hashtag.tag), ...added]);
+  }
+
+  private async removeHashtags(where: FindOptionsWhere<PostHashtag>): Promise<void> {
+    const hashtags = await this.hashtagRepository.find({ where });
+
+    if (hashtags.length === 0) {
+      return;
+    }
+
+    await this.hashtagRepository.remove(hashtags);
+    await this.cacheService.invalidateTagCache(Array.from(new Set(hashtags.map((hashtag) => hashtag.tag))));
+  }
+
+  private requireHashtag(tag: string): string {
+    const normalized = normalizeHashtag(tag);
+
+    if (!normalized) {
+      throw new BadRequestException('Invalid hashtag');
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Release a post's media from storage, including media only its earlier
+   * revisions still use. Failures are logged, not thrown, so a missing
+   * object never blocks deleting the post.
+   */
+  private async deletePostMedia(post: Post): Promise<void> {
+    const revisions = await this.revisionRepository.find({
+      where: { postId: post.id },
+    });
+    const mediaUrls = Array.from(
+      new Set([...(post.mediaUrls || []), ...revisions.flatMap((revision) => revision.mediaUrls || [])]),
+    );
+
+    if (mediaUrls.length > 0) {
+      const objectNames = mediaUrls.map((url) => {
         try {
           // If it's already an object name, use it directly
           if (!url.includes('://')) {
@@ -443,7 +1825,5 @@ export class PostService {
         }
       }
     }
-
-    await this.postRepository.remove(post);
   }
 }
@@ -0,0 +1,278 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In } from 'typeorm';
+import { Post, PostStatus } from '../entities/post.entity';
+import { CacheService } from '../cache/cache.service';
+import { UserClientService } from '../clients/user-client.service';
+import { KeysetCursor } from '../utils/cursor';
+
+const CACHE_PREFIX = 'post';
+// Follower/following ids are fetched from the user service this many at a time
+const ID_BATCH_SIZE = 1000;
+
+/**
+ * Timeline Service
+ * Home timelines are Redis sorted sets of post ids scored by creation time.
+ * New posts are pushed into followers' timelines as they're created
+ * (fan-out-on-write). Accounts with more than TIMELINE_FANOUT_MAX_FOLLOWERS
+ * followers are skipped and their posts merged in when the feed is read
+ * (fan-out-on-read). A missing timeline is built from the database on read.
+ */
+@Injectable()
+export class TimelineService {
+  private readonly maxLength: number;
+  private readonly fanOutMaxFollowers: number;
+  private readonly ttl: number;
+
+  constructor(
+    @InjectRepository(Post)
+    private postRepository: Repository<Post>,
+    private cacheService: CacheService,
+    private userClient: UserClientService,
+    private configService: ConfigService,
+  ) {
+    this.maxLength = parseInt(this.configService.get<string>('TIMELINE_MAX_LENGTH') || '800', 10);
+    this.fanOutMaxFollowers = parseInt(this.configService.get<string>('TIMELINE_FANOUT_MAX_FOLLOWERS') || '10000', 10);
+    this.ttl = parseInt(this.configService.get<string>('TIMELINE_TTL_SECONDS') || '604800', 10);
+  }
+
+  /**
+   * Push a new post into its author's timeline and their followers'
+   */
+  async fanOutPost(postId: string): Promise<void> {
+    const post = await this.postRepository.findOne({
+      select: ['id', 'userId', 'createdAt'],
+      where: { id: postId },
+    });
+
+    // Deleted before the event was handled
+    if (!post) {
+      return;
+    }
+
+    const redis = this.cacheService.getClient();
+    const score = post.createdAt.getTime();
+
+    await this.addToTimelines([post.userId], post.id, score);
+
+    const first = await this.userClient.getFollowerIds(post.userId, 0, ID_BATCH_SIZE);
+
+    if (first.total > this.fanOutMaxFollowers) {
+      await redis.sadd(this.largeAccountsKey(), post.userId);
+      return;
+    }
+
+    await redis.srem(this.largeAccountsKey(), post.userId);
+
+    let followerIds = first.userIds;
+    let offset = 0;
+    while (followerIds.length > 0) {
+      await this.addToTimelines(followerIds, post.id, score);
+      offset += followerIds.length;
+
+      if (offset >= first.total) {
+        break;
+      }
+      followerIds = (await this.userClient.getFollowerIds(post.userId, offset, ID_BATCH_SIZE)).userIds;
+    }
+  }
+
+  /**
+   * A page of the user's timeline, newest first, with posts from large
+   * accounts they follow merged in. Entries are ordered by (createdAt, id);
+   * `after` continues from a given entry instead of paging by number.
+   */
+  async getTimeline(
+    userId: string,
+    followingIds: string[],
+    options: { page?: number; limit?: number; after?: KeysetCursor } = {},
+  ): Promise<{ postIds: string[]; total: number; next: KeysetCursor | null }> {
+    const { page = 1, limit = 20, after } = options;
+    const redis = this.cacheService.getClient();
+    const key = this.timelineKey(userId);
+
+    if (!(await redis.exists(this.builtKey(userId)))) {
+      await this.buildTimeline(userId, followingIds);
+    }
+
+    // One extra entry tells whether there's a next page
+    const offset = after ? 0 : (page - 1) * limit;
+    const wanted = offset + limit + 1;
+
+    let entries: string[];
+    if (after) {
+      // Entries sharing the cursor's score are fetched too and filtered below
+      const score = after.createdAt.getTime();
+      const ties = await redis.zcount(key, score, score);
+      entries = await redis.zrevrangebyscore(key, score, '-inf', 'WITHSCORES', 'LIMIT', 0, wanted + ties);
+    } else {
+      entries = await redis.zrevrange(key, 0, wanted - 1, 'WITHSCORES');
+    }
+    const timelineTotal = await redis.zcard(key);
+
+    const scored = new Map<string, number>();
+    for (let i = 0; i < entries.length; i += 2) {
+      scored.set(entries[i], Number(entries[i + 1]));
+    }
+
+    // Fan-out-on-read for accounts too large to push to every follower
+    let largeTotal = 0;
+    const largeAccounts = await this.getLargeAccounts(followingIds);
+    if (largeAccounts.length > 0) {
+      const query = this.postRepository
+        .createQueryBuilder('post')
+        .select(['post.id', 'post.createdAt'])
+        .where('post.userId IN (:...largeAccounts)', { largeAccounts })
+        .andWhere('post.status = :status', { status: PostStatus.PUBLISHED })
+        .orderBy('post.createdAt', 'DESC')
+        .addOrderBy('post.id', 'DESC')
+        .take(wanted);
+
+      if (after) {
+        // Anything in the cursor's millisecond is filtered below, like timeline entries
+        query.andWhere('post.createdAt < :before', { before: new Date(after.createdAt.getTime() + 1) });
+      }
+
+      const [posts, count] = await Promise.all([
+        query.getMany(),
+        this.postRepository.count({ where: { userId: In(largeAccounts), status: PostStatus.PUBLISHED } }),
+      ]);
+
+      largeTotal = count;
+      // Timelines built before an account got large may already hold its posts
+      posts.forEach((post) => scored.set(post.id, post.createdAt.getTime()));
+    }
+
+    await Promise.all([
+      redis.expire(key, this.ttl),
+      redis.expire(this.builtKey(userId), this.ttl),
+    ]);
+
+    const ordered = Array.from(scored.entries())
+      .filter(([postId, score]) => !after || this.isOlder(score, postId, after))
+      .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? 1 : a[0] > b[0] ? -1 : 0))
+      .slice(offset, offset + limit + 1);
+
+    const pageEntries = ordered.slice(0, limit);
+    const last = pageEntries[pageEntries.length - 1];
+
+    return {
+      postIds: pageEntries.map(([postId]) => postId),
+      total: timelineTotal + largeTotal,
+      next: ordered.length > limit && last ? { createdAt: new Date(last[1]), id: last[0] } : null,
+    };
+  }
+
+  /**
+   * Rebuild from the database with a fresh following list, e.g. after a
+   * follow or unfollow
+   */
+  async rebuildTimeline(userId: string): Promise<void> {
+    const followingIds: string[] = [];
+    let offset = 0;
+
+    while (true) {
+      const { userIds, total } = await this.userClient.getFollowingIds(userId, offset, ID_BATCH_SIZE);
+      followingIds.push(...userIds);
+      offset += userIds.length;
+
+      if (userIds.length === 0 || offset >= total) {
+        break;
+      }
+    }
+
+    await this.buildTimeline(userId, followingIds);
+  }
+
+  /**
+   * Drop posts that no longer exist; called when a page turns up missing posts
+   */
+  async removeFromTimeline(userId: string, postIds: string[]): Promise<void> {
+    if (postIds.length > 0) {
+      await this.cacheService.getClient().zrem(this.timelineKey(userId), ...postIds);
+    }
+  }
+
+  async clearTimeline(userId: string): Promise<void> {
+    const redis = this.cacheService.getClient();
+    await Promise.all([
+      redis.del(this.timelineKey(userId), this.builtKey(userId)),
+      redis.srem(this.largeAccountsKey(), userId),
+    ]);
+  }
+
+  private async buildTimeline(userId: string, followingIds: string[]): Promise<void> {
+    const largeAccounts = new Set(await this.getLargeAccounts(followingIds));
+    const authorIds = [userId, ...followingIds.filter((id) => id !== userId && !largeAccounts.has(id))];
+
+    const posts = await this.postRepository.find({
+      select: ['id', 'createdAt'],
+      where: { userId: In(authorIds), status: PostStatus.PUBLISHED },
+      order: { createdAt: 'DESC' },
+      take: this.maxLength,
+    });
+
+    const pipeline = this.cacheService.getClient().pipeline();
+    pipeline.del(this.timelineKey(userId));
+    if (posts.length > 0) {
+      pipeline.zadd(
+        this.timelineKey(userId),
+        ...posts.flatMap((post) => [post.createdAt.getTime(), post.id]),
+      );
+      pipeline.expire(this.timelineKey(userId), this.ttl);
+    }
+    pipeline.set(this.builtKey(userId), '1', 'EX', this.ttl);
+    await pipeline.exec();
+  }
+
+  /**
+   * Only timelines that have been built are updated; the rest are built in
+   * full the next time their owner reads them
+   */
+  private async addToTimelines(userIds: string[], postId: string, score: number): Promise<void> {
+    const redis = this.cacheService.getClient();
+    const built = await redis.mget(...userIds.map((id) => this.builtKey(id)));
+
+    const pipeline = redis.pipeline();
+    userIds.forEach((id, index) => {
+      if (!built[index]) {
+        return;
+      }
+      pipeline.zadd(this.timelineKey(id), score, postId);
+      // Keep the newest maxLength entries
+      pipeline.zremrangebyrank(this.timelineKey(id), 0, -this.maxLength - 1);
+    });
+    await pipeline.exec();
+  }
+
+  /**
+   * Whether an entry comes after the cursor in newest-first order; ties on
+   * the millisecond are broken by id, as Redis does for equal scores
+   */
+  private isOlder(score: number, postId: string, cursor: KeysetCursor): boolean {
+    const cursorScore = cursor.createdAt.getTime();
+    return score < cursorScore || (score === cursorScore && postId < cursor.id);
+  }
+
+  private async getLargeAccounts(userIds: string[]): Promise<string[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const membership = await this.cacheService.getClient().smismember(this.largeAccountsKey(), ...userIds);
+    return userIds.filter((_, index) => membership[index] === 1);
+  }
+
+  private timelineKey(userId: string): string {
+    return `${CACHE_PREFIX}:timeline:${userId}`;
+  }
+
+  private builtKey(userId: string): string {
+    return `${CACHE_PREFIX}:timeline:${userId}:built`;
+  }
+
+  private largeAccountsKey(): string {
+    return `${CACHE_PREFIX}:timeline:large-accounts`;
+  }
+}
@@ -0,0 +1,107 @@
+import { BadRequestException } from '@nestjs/common';
+import { SelectQueryBuilder } from 'typeorm';
+import { decodeCursor, encodeCursor, findKeysetPage } from './cursor';
+
+const ID = '3f0c6a1e-8a4b-4c1d-9f2e-5b6a7c8d9e0f';
+
+type Row = { id: string; createdAt: Date };
+
+/**
+ * Records the calls findKeysetPage makes and hands back `rows`
+ */
+function fakeQuery(rows: Row[], total: number) {
+  const calls: { andWhere: unknown[][]; skip: number[]; take: number[] } = { andWhere: [], skip: [], take: [] };
+  const query = {
+    clone: () => ({ getCount: async () => total }),
+    orderBy: () => query,
+    addOrderBy: () => query,
+    andWhere: (...args: unknown[]) => {
+      calls.andWhere.push(args);
+      return query;
+    },
+    skip: (value: number) => {
+      calls.skip.push(value);
+      return query;
+    },
+    take: (value: number) => {
+      calls.take.push(value);
+      return query;
+    },
+    getMany: async () => rows,
+  };
+  return { query: query as unknown as SelectQueryBuilder<Row>, calls };
+}
+
+const rowsOf = (count: number): Row[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: ID.replace(/.$/, index.toString(16)),
+    createdAt: new Date(Date.UTC(2024, 0, 1, 0, 0, count - index)),
+  }));
+
+describe('cursor utils', () => {
+  describe('encodeCursor / decodeCursor', () => {
+    it('round-trips a row', () => {
+      const createdAt = new Date('2024-03-01T12:34:56.789Z');
+      expect(decodeCursor(encodeCursor({ id: ID, createdAt }))).toEqual({ id: ID, createdAt });
+    });
+
+    it('accepts string timestamps', () => {
+      const cursor = encodeCursor({ id: ID, createdAt: '2024-03-01T12:34:56.789Z' });
+      expect(decodeCursor(cursor).createdAt.toISOString()).toBe('2024-03-01T12:34:56.789Z');
+    });
+
+    it.each([
+      ['not base64url', 'not a cursor!'],
+      ['not JSON', Buffer.from('nope').toString('base64url')],
+      ['missing fields', Buffer.from(JSON.stringify({ c: '2024-03-01T00:00:00Z' })).toString('base64url')],
+      ['a bad date', Buffer.from(JSON.stringify({ c: 'yesterday', i: ID })).toString('base64url')],
+      ['a non-uuid id', Buffer.from(JSON.stringify({ c: '2024-03-01T00:00:00Z', i: "1' OR 1=1" })).toString('base64url')],
+    ])('rejects %s', (_, cursor) => {
+      expect(() => decodeCursor(cursor)).toThrow(BadRequestException);
+    });
+  });
+
+  describe('findKeysetPage', () => {
+    const options = { alias: 'post', table: 'post.posts', direction: 'DESC' as const, page: 1, limit: 3 };
+
+    it('uses offsets without a cursor and returns a cursor for the last item while rows remain', async () => {
+      const rows = rowsOf(4);
+      const { query, calls } = fakeQuery(rows, 10);
+
+      const page = await findKeysetPage(query, { ...options, page: 2 });
+
+      expect(calls.skip).toEqual([3]);
+      expect(calls.take).toEqual([4]);
+      expect(page.items).toEqual(rows.slice(0, 3));
+      expect(page.total).toBe(10);
+      expect(decodeCursor(page.nextCursor!)).toEqual({ id: rows[2].id, createdAt: rows[2].createdAt });
+    });
+
+    it('returns no cursor on the last page', async () => {
+      const { query } = fakeQuery(rowsOf(2), 2);
+
+      const page = await findKeysetPage(query, options);
+
+      expect(page.items).toHaveLength(2);
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('continues after the cursor row instead of skipping', async () => {
+      const createdAt = new Date('2024-03-01T00:00:00.000Z');
+      const { query, calls } = fakeQuery(rowsOf(1), 5);
+
+      await findKeysetPage(query, { ...options, direction: 'ASC', page: 4, cursor: encodeCursor({ id: ID, createdAt }) });
+
+      expect(calls.skip).toEqual([]);
+      const [condition, parameters] = calls.andWhere[0] as [string, Record<string, unknown>];
+      expect(condition).toContain('(post.createdAt, post.id) >');
+      expect(condition).toContain('FROM post.posts cursor_row');
+      expect(parameters).toEqual({ cursorId: ID, cursorCreatedAt: createdAt });
+    });
+
+    it('rejects an invalid cursor', async () => {
+      const { query } = fakeQuery([], 0);
+      await expect(findKeysetPage(query, { ...options, cursor: 'garbage!' })).rejects.toThrow(BadRequestException);
+    });
+  });
+});
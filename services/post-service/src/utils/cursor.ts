@@ -0,0 +1,92 @@
+import { BadRequestException } from '@nestjs/common';
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Keyset cursors for lists ordered by (createdAt, id). A cursor is opaque to
+ * clients and names the last row of the page they already have.
+ */
+export interface KeysetCursor {
+  createdAt: Date;
+  id: string;
+}
+
+export interface KeysetPage<T> {
+  items: T[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export function encodeCursor(row: { createdAt: Date | string; id: string }): string {
+  const createdAt = new Date(row.createdAt).toISOString();
+  return Buffer.from(JSON.stringify({ c: createdAt, i: row.id })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): KeysetCursor {
+  try {
+    if (!/^[A-Za-z0-9_-]+$/.test(cursor)) {
+      throw new Error('Malformed cursor');
+    }
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      typeof decoded?.c !== 'string' ||
+      typeof decoded?.i !== 'string' ||
+      Number.isNaN(Date.parse(decoded.c)) ||
+      !UUID_PATTERN.test(decoded.i)
+    ) {
+      throw new Error('Malformed cursor');
+    }
+    return { createdAt: new Date(decoded.c), id: decoded.i };
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+}
+
+/**
+ * One page of a query ordered by (createdAt, id). With a cursor the page
+ * starts after the cursor row, otherwise at `page`; either way a cursor
+ * for the following page is returned while rows remain.
+ *
+ * Postgres keeps microseconds but cursors only carry milliseconds, so the
+ * cursor row's timestamp is read back by id and the cursor's own is only
+ * used if that row has since been deleted.
+ */
+export async function findKeysetPage<T extends ObjectLiteral & { createdAt: Date; id: string }>(
+  query: SelectQueryBuilder<T>,
+  options: {
+    alias: string;
+    table: string;
+    direction: 'ASC' | 'DESC';
+    page: number;
+    limit: number;
+    cursor?: string;
+  },
+): Promise<KeysetPage<T>> {
+  const { alias, table, direction, page, limit, cursor } = options;
+
+  const total = await query.clone().getCount();
+
+  query.orderBy(`${alias}.createdAt`, direction).addOrderBy(`${alias}.id`, direction);
+
+  if (cursor) {
+    const { createdAt, id } = decodeCursor(cursor);
+    const operator = direction === 'DESC' ? '<' : '>';
+    query.andWhere(
+      `(${alias}.createdAt, ${alias}.id) ${operator} (COALESCE((SELECT cursor_row."createdAt" FROM ${table} cursor_row WHERE cursor_row.id = :cursorId), :cursorCreatedAt), :cursorId)`,
+      { cursorId: id, cursorCreatedAt: createdAt },
+    );
+  } else {
+    query.skip((page - 1) * limit);
+  }
+
+  const rows = await query.take(limit + 1).getMany();
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    total,
+    nextCursor: rows.length > limit && last ? encodeCursor(last) : null,
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Utility functions for parsing #hashtags in posts and comments
+ */
+
+const MAX_TAG_LENGTH = 100;
+
+/**
+ * Extract #hashtags from text content
+ * Returns array of unique, lowercased tags (without # symbol)
+ */
+export function extractHashtags(content: string): string[] {
+  // Not preceded by a word character, / or & so URL fragments
+  // (example.com/page#top) and HTML entities (&#39;) are skipped
+  const hashtagRegex = /(?<![\w/&#])#(\w+)/g;
+  const matches = content.matchAll(hashtagRegex);
+  const hashtags = new Set<string>();
+
+  for (const match of matches) {
+    const tag = normalizeHashtag(match[1]);
+    if (tag) {
+      hashtags.add(tag);
+    }
+  }
+
+  return Array.from(hashtags);
+}
+
+/**
+ * Normalize a tag as typed by a user ("#NestJS" -> "nestjs")
+ * Returns null if it isn't a valid tag
+ */
+export function normalizeHashtag(tag: string): string | null {
+  const normalized = (tag || '').trim().replace(/^#/, '').toLowerCase();
+
+  // Purely numeric tags (#1, #2024) are more likely numbering than topics
+  if (!normalized || normalized.length > MAX_TAG_LENGTH || !/^\w+$/.test(normalized) || /^\d+$/.test(normalized)) {
+    return null;
+  }
+
+  return normalized;
+}
@@ -0,0 +1,11 @@
+/**
+ * Reactions users can leave on posts and comments. A like is the 'like'
+ * reaction, so likes_count counts every reaction.
+ */
+export const REACTION_TYPES = ['like', 'love', 'haha', 'wow', 'sad', 'angry'] as const;
+
+export type ReactionType = (typeof REACTION_TYPES)[number];
+
+export function isReactionType(value: string | undefined): value is ReactionType {
+  return !!value && (REACTION_TYPES as readonly string[]).includes(value);
+}
@@ -0,0 +1,90 @@
+import { SelectQueryBuilder } from 'typeorm';
+import { Post, PostVisibility } from '../entities/post.entity';
+import { isVisibleTo, whereVisibleTo } from './visibility';
+
+const AUTHOR = 'author-id';
+const VIEWER = 'viewer-id';
+
+const post = (visibility: PostVisibility, mentions: string[] = []) => ({ userId: AUTHOR, visibility, mentions });
+
+describe('visibility utils', () => {
+  describe('isVisibleTo', () => {
+    it('always shows authors their own posts', () => {
+      for (const visibility of Object.values(PostVisibility)) {
+        expect(isVisibleTo(post(visibility), AUTHOR, false, true)).toBe(true);
+      }
+    });
+
+    it.each([
+      // visibility, follows, private author, expected
+      [PostVisibility.PUBLIC, false, false, true],
+      [PostVisibility.PUBLIC, false, true, false],
+      [PostVisibility.PUBLIC, true, true, true],
+      [PostVisibility.FOLLOWERS, false, false, false],
+      [PostVisibility.FOLLOWERS, true, false, true],
+      [PostVisibility.FOLLOWERS, true, true, true],
+      [PostVisibility.PRIVATE, true, false, false],
+    ])('%s post, follows=%s, private=%s -> %s', (visibility, follows, authorPrivate, expected) => {
+      expect(isVisibleTo(post(visibility), VIEWER, follows, authorPrivate)).toBe(expected);
+    });
+
+    it('shows mentioned-only posts to the people mentioned', () => {
+      expect(isVisibleTo(post(PostVisibility.MENTIONED, [VIEWER]), VIEWER, false)).toBe(true);
+      expect(isVisibleTo(post(PostVisibility.MENTIONED, ['someone-else']), VIEWER, true)).toBe(false);
+      expect(isVisibleTo({ ...post(PostVisibility.MENTIONED), mentions: null as unknown as string[] }, VIEWER, true)).toBe(false);
+    });
+
+    it('only shows public posts from public accounts to anonymous viewers', () => {
+      expect(isVisibleTo(post(PostVisibility.PUBLIC), undefined, false)).toBe(true);
+      expect(isVisibleTo(post(PostVisibility.PUBLIC), undefined, false, true)).toBe(false);
+      expect(isVisibleTo(post(PostVisibility.MENTIONED, [VIEWER]), undefined, false)).toBe(false);
+    });
+  });
+
+  describe('whereVisibleTo', () => {
+    const capture = () => {
+      const calls: [string, Record<string, unknown>][] = [];
+      const query = {
+        andWhere: (condition: string, parameters: Record<string, unknown>) => {
+          calls.push([condition, parameters]);
+          return query;
+        },
+      };
+      return { query: query as unknown as SelectQueryBuilder<Post>, calls };
+    };
+
+    it('limits anonymous viewers to public posts from public accounts', () => {
+      const { query, calls } = capture();
+
+      whereVisibleTo(query, 'post', undefined, false);
+
+      const [condition, parameters] = calls[0];
+      expect(condition).toContain('post.visibility = :publicVisibility');
+      expect(condition).toContain('post.private_accounts');
+      expect(condition).not.toContain(':viewerId');
+      expect(parameters.publicVisibility).toBe(PostVisibility.PUBLIC);
+    });
+
+    it('lets followers see public and followers-only posts regardless of privacy', () => {
+      const { query, calls } = capture();
+
+      whereVisibleTo(query, 'post', VIEWER, true);
+
+      const [condition, parameters] = calls[0];
+      expect(condition).toContain('post.visibility IN (:...followerVisibilities)');
+      expect(condition).not.toContain('private_accounts');
+      expect(parameters.followerVisibilities).toEqual([PostVisibility.PUBLIC, PostVisibility.FOLLOWERS]);
+    });
+
+    it('includes the viewer\'s own posts and posts mentioning them', () => {
+      const { query, calls } = capture();
+
+      whereVisibleTo(query, 'reply', VIEWER, false);
+
+      const [condition, parameters] = calls[0];
+      expect(condition).toContain('reply.userId = :viewerId');
+      expect(condition).toContain(':viewerId = ANY(reply.mentions)');
+      expect(parameters).toMatchObject({ viewerId: VIEWER, mentionedVisibility: PostVisibility.MENTIONED });
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { SelectQueryBuilder } from 'typeorm';
+import { Post, PostVisibility } from '../entities/post.entity';
+
+/**
+ * Whether a viewer may see a post, given whether they follow its author and
+ * whether the author's account is private. Private accounts only show
+ * their posts to followers. Drafts and scheduled posts are checked
+ * separately.
+ */
+export function isVisibleTo(
+  post: Pick<Post, 'userId' | 'visibility' | 'mentions'>,
+  viewerId: string | undefined,
+  followsAuthor: boolean,
+  authorPrivate: boolean = false,
+): boolean {
+  if (viewerId && post.userId === viewerId) {
+    return true;
+  }
+
+  switch (post.visibility) {
+    case PostVisibility.PUBLIC:
+      return followsAuthor || !authorPrivate;
+    case PostVisibility.FOLLOWERS:
+      return followsAuthor;
+    case PostVisibility.MENTIONED:
+      return !!viewerId && (post.mentions || []).includes(viewerId);
+    default:
+      return false;
+  }
+}
+
+/**
+ * The same rule as isVisibleTo as a query condition. `followsAuthors` is
+ * true when every author in the query is followed by the viewer.
+ */
+export function whereVisibleTo<T extends Post>(
+  query: SelectQueryBuilder<T>,
+  alias: string,
+  viewerId: string | undefined,
+  followsAuthors: boolean,
+): SelectQueryBuilder<T> {
+  const openCondition = followsAuthors
+    ? `${alias}.visibility IN (:...followerVisibilities)`
+    : `(${alias}.visibility = :publicVisibility AND NOT EXISTS (SELECT 1 FROM post.private_accounts private_account WHERE private_account."userId" = ${alias}.userId))`;
+  const parameters = {
+    followerVisibilities: [PostVisibility.PUBLIC, PostVisibility.FOLLOWERS],
+    publicVisibility: PostVisibility.PUBLIC,
+  };
+
+  if (!viewerId) {
+    return query.andWhere(openCondition, parameters);
+  }
+
+  return query.andWhere(
+    `(${alias}.userId = :viewerId OR ${openCondition} OR (${alias}.visibility = :mentionedVisibility AND :viewerId = ANY(${alias}.mentions)))`,
+    { ...parameters, viewerId, mentionedVisibility: PostVisibility.MENTIONED },
+  );
+}
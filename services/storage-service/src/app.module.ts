@@ -7,6 +7,7 @@ import { StorageModule } from './storage/storage.module';
 import { ValidationModule } from './validation/validation.module';
 import { DeduplicationModule } from './deduplication/deduplication.module';
 import { StorageController } from './storage/storage.controller';
+import { StorageEventsConsumer } from './events/storage-events.consumer';
 
 @Module({
   imports: [
@@ -25,5 +26,6 @@ import { StorageController } from './storage/storage.controller';
     DeduplicationModule,
   ],
   controllers: [StorageController],
+  providers: [StorageEventsConsumer],
 })
 export class AppModule {}
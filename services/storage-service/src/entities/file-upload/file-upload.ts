@@ -0,0 +1,32 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Presigned uploads handed out per user. The client uploads straight to
+ * storage, so this is the only record of who owns the object (including
+ * uploads that never got attached to a post or message). Files uploaded
+ * through UploadFile with an owner (data exports) are recorded here too.
+ */
+@Entity({ name: 'file_uploads', schema: 'storage' })
+@Index(['ownerId'])
+export class FileUpload {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  ownerId: string;
+
+  @Column({ type: 'varchar', length: 500 })
+  objectName: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  serviceName: string; // 'posts', 'messages', etc
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -1,6 +1,7 @@
 import { Injectable, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { v2 as cloudinary } from 'cloudinary';
+import { Readable } from 'stream';
 import { IStorageAdapter } from './storage-adapter.interface';
 
 @Injectable()
@@ -66,6 +67,39 @@ export class CloudinaryStorageAdapter implements IStorageAdapter, OnModuleInit {
     }
   }
 
+  async uploadStream(
+    objectName: string,
+    stream: Readable,
+    size: number,
+    contentType: string,
+  ): Promise<void> {
+    try {
+      const publicId = this.getPublicId(objectName);
+
+      await new Promise<void>((resolve, reject) => {
+        const uploadStream = cloudinary.uploader.upload_stream(
+          {
+            folder: this.folder,
+            public_id: publicId,
+            resource_type: this.getResourceType(contentType),
+            overwrite: true,
+          },
+          (error) => {
+            if (error) {
+              reject(error);
+            } else {
+              resolve();
+            }
+          },
+        );
+        stream.on('error', reject);
+        stream.pipe(uploadStream);
+      });
+    } catch (error) {
+      throw new Error(`Failed to upload file to Cloudinary: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   async getUploadUrl(
     objectName: string,
     expiresIn: number = 60 * 60,
@@ -1,6 +1,7 @@
 import { Injectable, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as MinIO from 'minio';
+import { Readable } from 'stream';
 import { IStorageAdapter } from './storage-adapter.interface';
 
 @Injectable()
@@ -84,6 +85,27 @@ export class MinIOStorageAdapter implements IStorageAdapter, OnModuleInit {
     );
   }
 
+  async uploadStream(
+    objectName: string,
+    stream: Readable,
+    size: number,
+    contentType: string,
+  ): Promise<void> {
+    await this.ensureInitialized();
+    if (!this.minioClient) {
+      throw new Error('MinIO client not initialized');
+    }
+    await this.minioClient.putObject(
+      this.bucketName,
+      objectName,
+      stream,
+      size,
+      {
+        'Content-Type': contentType,
+      },
+    );
+  }
+
   async getUploadUrl(
     objectName: string,
     expiresIn: number = 60 * 60,
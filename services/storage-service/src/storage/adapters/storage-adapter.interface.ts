@@ -1,3 +1,5 @@
+import { Readable } from 'stream';
+
 /**
  * Storage adapter interface for storage-agnostic file operations
  * Allows switching between different storage backends (MinIO, S3, Cloudinary, etc.)
@@ -12,6 +14,16 @@ export interface IStorageAdapter {
     contentType: string,
   ): Promise<void>;
 
+  /**
+   * Upload a file from a stream of known size, without buffering it
+   */
+  uploadStream(
+    objectName: string,
+    stream: Readable,
+    size: number,
+    contentType: string,
+  ): Promise<void>;
+
   /**
    * Generate a presigned URL for file upload
    */
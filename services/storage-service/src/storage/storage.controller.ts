@@ -1,7 +1,27 @@
 import { Controller } from '@nestjs/common';
-import { GrpcMethod } from '@nestjs/microservices';
+import { GrpcMethod, GrpcStreamCall } from '@nestjs/microservices';
+import type { sendUnaryData, ServerReadableStream } from '@grpc/grpc-js';
 import { StorageService } from './storage/storage.service';
 
+interface UploadFileChunk {
+  chunk: Buffer;
+  file_name: string;
+  mime_type: string;
+  service_name: string;
+  file_type: string;
+  owner_id: string;
+}
+
+interface UploadFileResponse {
+  object_name: string;
+  file_hash: string;
+  access_url: string;
+  thumbnail_object_name: string;
+  is_new: boolean;
+  success: boolean;
+  error: string;
+}
+
 @Controller()
 export class StorageController {
   constructor(private readonly storageService: StorageService) {}
@@ -14,6 +34,7 @@ export class StorageController {
     file_size: number;
     service_name: string;
     file_type: string;
+    owner_id?: string;
   }) {
     try {
       const result = await this.storageService.uploadFile(
@@ -23,6 +44,7 @@ export class StorageController {
         data.file_size,
         data.service_name,
         data.file_type,
+        data.owner_id || undefined,
       );
 
       return {
@@ -47,6 +69,60 @@ export class StorageController {
     }
   }
 
+  /**
+   * Chunked counterpart of UploadFile; answers once the last chunk is stored
+   */
+  @GrpcStreamCall('StorageService', 'UploadFileStream')
+  async uploadFileStream(
+    call: ServerReadableStream<UploadFileChunk, UploadFileResponse>,
+    callback: sendUnaryData<UploadFileResponse>,
+  ) {
+    try {
+      const messages = call[Symbol.asyncIterator]() as AsyncIterator<UploadFileChunk>;
+      const first = await messages.next();
+      if (first.done) {
+        throw new Error('File is empty');
+      }
+      const header: UploadFileChunk = first.value;
+
+      const chunks = async function* () {
+        yield Buffer.from(header.chunk || []);
+        for (let next = await messages.next(); !next.done; next = await messages.next()) {
+          yield Buffer.from(next.value.chunk || []);
+        }
+      };
+
+      const result = await this.storageService.uploadFileStream(
+        chunks(),
+        header.file_name,
+        header.mime_type,
+        header.service_name,
+        header.file_type || undefined,
+        header.owner_id || undefined,
+      );
+
+      callback(null, {
+        object_name: result.objectName,
+        file_hash: result.fileHash,
+        access_url: result.accessUrl,
+        thumbnail_object_name: '',
+        is_new: result.isNew,
+        success: true,
+        error: '',
+      });
+    } catch (error: any) {
+      callback(null, {
+        object_name: '',
+        file_hash: '',
+        access_url: '',
+        thumbnail_object_name: '',
+        is_new: false,
+        success: false,
+        error: error.message || 'Upload failed',
+      });
+    }
+  }
+
   @GrpcMethod('StorageService', 'GetUploadUrl')
   async getUploadUrl(data: {
     file_name: string;
@@ -54,6 +130,7 @@ export class StorageController {
     service_name: string;
     file_type?: string;
     expires_in?: number;
+    owner_id?: string;
   }) {
     try {
       const result = await this.storageService.getUploadUrl(
@@ -62,6 +139,7 @@ export class StorageController {
         data.service_name,
         data.file_type,
         data.expires_in || 3600,
+        data.owner_id || undefined,
       );
 
       return {
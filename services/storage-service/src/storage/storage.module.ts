@@ -1,4 +1,6 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { FileUpload } from '../entities/file-upload/file-upload';
 import { FileProcessingService } from './file-processing/file-processing.service';
 import { StorageService } from './storage/storage.service';
 import { ValidationModule } from '../validation/validation.module';
@@ -7,7 +9,7 @@ import { IStorageAdapter } from './adapters/storage-adapter.interface';
 import { CloudinaryStorageAdapter } from './adapters/cloudinary-storage.adapter';
 
 @Module({
-  imports: [ValidationModule, DeduplicationModule],
+  imports: [TypeOrmModule.forFeature([FileUpload]), ValidationModule, DeduplicationModule],
   providers: [
     FileProcessingService,
     StorageService,
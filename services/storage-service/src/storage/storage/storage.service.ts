@@ -1,10 +1,22 @@
 import { Injectable, OnModuleInit, Inject, BadRequestException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
 import type { IStorageAdapter } from '../adapters/storage-adapter.interface';
 import { FileValidationService } from '../../validation/file-validation/file-validation.service';
 import { FileProcessingService } from '../file-processing/file-processing.service';
 import { DeduplicationService } from '../../deduplication/deduplication/deduplication.service';
 import { FileMetadata } from '../../entities/file-metadata/file-metadata';
+import { FileUpload } from '../../entities/file-upload/file-upload';
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pipeline } from 'stream/promises';
+
+// Enough of the start of a file to check its magic bytes
+const HEADER_BYTES = 64;
 
 @Injectable()
 export class StorageService implements OnModuleInit {
@@ -14,6 +26,8 @@ export class StorageService implements OnModuleInit {
     private fileValidationService: FileValidationService,
     private fileProcessingService: FileProcessingService,
     private deduplicationService: DeduplicationService,
+    @InjectRepository(FileUpload)
+    private fileUploadRepository: Repository<FileUpload>,
   ) {}
 
   async onModuleInit() {
@@ -59,6 +73,7 @@ export class StorageService implements OnModuleInit {
     fileSize: number,
     serviceName: string,
     fileType?: string,
+    ownerId?: string,
   ): Promise<{
     objectName: string;
     fileHash: string;
@@ -154,6 +169,14 @@ export class StorageService implements OnModuleInit {
       serviceName,
     );
 
+    // Only callers that own the file outright pass an owner; shared,
+    // deduplicated files are released by the services referencing them
+    if (ownerId) {
+      await this.fileUploadRepository.save(
+        this.fileUploadRepository.create({ ownerId, objectName, serviceName }),
+      );
+    }
+
     // Generate access URLs
     const accessUrl = await this.storageAdapter.getAccessUrl(objectName, 7 * 24 * 60 * 60);
     let thumbnailAccessUrl: string | null = null;
@@ -171,6 +194,102 @@ export class StorageService implements OnModuleInit {
     };
   }
 
+  /**
+   * Upload a file that arrives in chunks, for files too big to send in one
+   * message (data export archives). Chunks are spooled to a temp file so the
+   * file is never held in memory; otherwise it's handled like uploadFile,
+   * without image processing.
+   */
+  async uploadFileStream(
+    chunks: AsyncIterable<Buffer>,
+    fileName: string,
+    mimeType: string,
+    serviceName: string,
+    fileType?: string,
+    ownerId?: string,
+  ): Promise<{ objectName: string; fileHash: string; accessUrl: string; isNew: boolean }> {
+    const declaredType = fileType || this.fileValidationService.detectFileTypeFromMetadata(fileName, mimeType);
+    const config = declaredType ? this.fileValidationService.getFileTypeConfig(declaredType) : undefined;
+    if (!config) {
+      throw new BadRequestException('File type not supported. Allowed types: images, videos, documents, audio, archives');
+    }
+
+    const tempDir = await mkdtemp(join(tmpdir(), 'upload-'));
+    const tempPath = join(tempDir, 'file');
+
+    try {
+      const hash = createHash('sha256');
+      let header = Buffer.alloc(0);
+      let fileSize = 0;
+
+      // Stops reading as soon as the file is over the limit for its type
+      await pipeline(async function* () {
+        for await (const chunk of chunks) {
+          fileSize += chunk.length;
+          if (fileSize > config.maxSize) {
+            throw new BadRequestException(
+              `File size exceeds maximum allowed size of ${config.maxSize / (1024 * 1024)}MB for ${declaredType} files`,
+            );
+          }
+          hash.update(chunk);
+          if (header.length < HEADER_BYTES) {
+            header = Buffer.concat([header, chunk.subarray(0, HEADER_BYTES - header.length)]);
+          }
+          yield chunk;
+        }
+      }, createWriteStream(tempPath));
+
+      // Type detection and magic bytes only look at the start of the file
+      const validation = await this.fileValidationService.validateFile(header, fileName, mimeType, fileSize);
+      if (!validation.valid || !validation.fileType) {
+        throw new BadRequestException(validation.error || 'File validation failed');
+      }
+
+      const detectedFileType = fileType || validation.fileType;
+      const fileHash = hash.digest('hex');
+
+      const existingFile = await this.deduplicationService.findExistingFile(fileHash);
+      if (existingFile) {
+        await this.deduplicationService.incrementReferenceCount(existingFile, serviceName);
+        return {
+          objectName: existingFile.objectName,
+          fileHash: existingFile.fileHash,
+          accessUrl: await this.storageAdapter.getAccessUrl(existingFile.objectName, 7 * 24 * 60 * 60),
+          isNew: false,
+        };
+      }
+
+      const objectName = this.generateObjectName(serviceName, detectedFileType, fileHash, fileName);
+      await this.storageAdapter.uploadStream(objectName, createReadStream(tempPath), fileSize, mimeType);
+
+      await this.deduplicationService.createFileMetadata(
+        fileHash,
+        objectName,
+        null,
+        detectedFileType,
+        fileName,
+        mimeType,
+        fileSize,
+        serviceName,
+      );
+
+      if (ownerId) {
+        await this.fileUploadRepository.save(
+          this.fileUploadRepository.create({ ownerId, objectName, serviceName }),
+        );
+      }
+
+      return {
+        objectName,
+        fileHash,
+        accessUrl: await this.storageAdapter.getAccessUrl(objectName, 7 * 24 * 60 * 60),
+        isNew: true,
+      };
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
   /**
    * Get presigned upload URL (for direct client-to-storage upload)
    */
@@ -180,6 +299,7 @@ export class StorageService implements OnModuleInit {
     serviceName: string,
     fileType?: string,
     expiresIn: number = 60 * 60,
+    ownerId?: string,
   ): Promise<{ uploadUrl: string; objectName: string; accessUrl: string }> {
     // Detect file type from mime type and extension if not provided
     const detectedFileType = fileType || this.fileValidationService.detectFileTypeFromMetadata(fileName, mimeType) || 'image';
@@ -192,6 +312,12 @@ export class StorageService implements OnModuleInit {
     const uploadUrl = await this.storageAdapter.getUploadUrl(objectName, expiresIn, mimeType);
     const accessUrl = await this.storageAdapter.getAccessUrl(objectName, 7 * 24 * 60 * 60);
 
+    if (ownerId) {
+      await this.fileUploadRepository.save(
+        this.fileUploadRepository.create({ ownerId, objectName, serviceName }),
+      );
+    }
+
     return {
       uploadUrl,
       objectName,
@@ -261,4 +387,27 @@ export class StorageService implements OnModuleInit {
   async fileExists(objectName: string): Promise<boolean> {
     return await this.storageAdapter.fileExists(objectName);
   }
+
+  /**
+   * Delete every upload recorded for a user (account erasure): presigned
+   * uploads and files uploaded with an owner, such as data exports.
+   * Other deduplicated files are released by the owning services.
+   */
+  async deleteUserUploads(ownerId: string): Promise<number> {
+    const uploads = await this.fileUploadRepository.find({
+      where: { ownerId },
+    });
+
+    for (const upload of uploads) {
+      try {
+        await this.deleteFile(upload.objectName, upload.serviceName);
+      } catch (error) {
+        console.error(`Failed to delete file ${upload.objectName}:`, error);
+      }
+    }
+
+    await this.fileUploadRepository.delete({ ownerId });
+
+    return uploads.length;
+  }
 }
@@ -4,7 +4,7 @@ import * as crypto from 'crypto';
 export interface FileValidationResult {
   valid: boolean;
   error?: string;
-  fileType?: 'image' | 'video' | 'document' | 'audio';
+  fileType?: 'image' | 'video' | 'document' | 'audio' | 'archive';
   detectedMimeType?: string;
 }
 
@@ -89,6 +89,14 @@ export class FileValidationService {
         [0x4f, 0x67, 0x67, 0x53], // OGG
       ],
     },
+    archive: {
+      mimeTypes: ['application/zip', 'application/x-zip-compressed'],
+      extensions: ['.zip'],
+      maxSize: 100 * 1024 * 1024, // 100MB (data exports)
+      magicBytes: [
+        [0x50, 0x4b, 0x03, 0x04], // ZIP
+      ],
+    },
   };
 
   private validateExtension(fileName: string, fileType: string): boolean {
@@ -190,7 +198,7 @@ export class FileValidationService {
     if (!detectedFileType) {
       return {
         valid: false,
-        error: 'File type not supported. Allowed types: images, videos, documents, audio',
+        error: 'File type not supported. Allowed types: images, videos, documents, audio, archives',
       };
     }
 
@@ -225,7 +233,7 @@ export class FileValidationService {
 
     return {
       valid: true,
-      fileType: detectedFileType as 'image' | 'video' | 'document' | 'audio',
+      fileType: detectedFileType as 'image' | 'video' | 'document' | 'audio' | 'archive',
       detectedMimeType: mimeType,
     };
   }
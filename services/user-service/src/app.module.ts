@@ -4,9 +4,15 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { databaseConfig } from './config/database.config';
 import { UserProfile } from './entities/user-profile.entity';
 import { Follow } from './entities/follow.entity';
+import { FollowRequest } from './entities/follow-request.entity';
+import { Block } from './entities/block.entity';
+import { Mute } from './entities/mute.entity';
 import { UserController } from './user/user.controller';
 import { UserService } from './user/user.service';
 import { UserEventsConsumer } from './events/user-events.consumer';
+import { EventPublisherService } from './events/event-publisher.service';
+import { CacheModule } from './cache/cache.module';
+import { RelationshipCacheService } from './cache/relationship-cache.service';
 
 @Module({
   imports: [
@@ -19,9 +25,10 @@ import { UserEventsConsumer } from './events/user-events.consumer';
       useFactory: (configService: ConfigService) => databaseConfig(configService),
       inject: [ConfigService],
     }),
-    TypeOrmModule.forFeature([UserProfile, Follow]),
+    TypeOrmModule.forFeature([UserProfile, Follow, FollowRequest, Block, Mute]),
+    CacheModule,
   ],
   controllers: [UserController],
-  providers: [UserService, UserEventsConsumer],
+  providers: [UserService, UserEventsConsumer, EventPublisherService, RelationshipCacheService],
 })
 export class AppModule {}
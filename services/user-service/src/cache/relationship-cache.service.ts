@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { CacheService } from './cache.service';
+
+/**
+ * Who a user should not see or hear from: everyone they have blocked or
+ * been blocked by, and everyone they have muted
+ */
+export interface RelationshipFilter {
+  blockedUserIds: string[];
+  mutedUserIds: string[];
+}
+
+/**
+ * Service-specific cache for block and mute lists. Other services ask for
+ * these on most reads, so they're kept in Redis and invalidated on change.
+ */
+@Injectable()
+export class RelationshipCacheService {
+  private readonly CACHE_PREFIX = 'user';
+  private readonly DEFAULT_TTL = {
+    FILTER: 600,
+  };
+
+  constructor(private cacheService: CacheService) {}
+
+  async getOrSetFilter(
+    userId: string,
+    fetchFn: () => Promise<RelationshipFilter>,
+  ): Promise<RelationshipFilter> {
+    return this.cacheService.getOrSet<RelationshipFilter>(
+      `relationships:${userId}`,
+      fetchFn,
+      {
+        ttl: this.DEFAULT_TTL.FILTER,
+        prefix: this.CACHE_PREFIX,
+      },
+    );
+  }
+
+  async invalidateFilter(...userIds: string[]): Promise<void> {
+    await Promise.all(
+      userIds.map((userId) => this.cacheService.delete(`relationships:${userId}`, this.CACHE_PREFIX)),
+    );
+  }
+}
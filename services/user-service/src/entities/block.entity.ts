@@ -0,0 +1,29 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Unique,
+  Index,
+} from 'typeorm';
+
+/**
+ * A block works both ways: neither user can follow, comment on, mention
+ * or message the other, and each is left out of the other's feed
+ */
+@Entity({ name: 'blocks', schema: 'user' })
+@Unique(['blockerId', 'blockedId'])
+@Index(['blockedId'])
+export class Block {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'blocker_id' })
+  blockerId: string;
+
+  @Column({ name: 'blocked_id' })
+  blockedId: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,29 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Unique,
+  Index,
+} from 'typeorm';
+
+/**
+ * A pending follow of a private account, waiting for its owner to accept
+ * or reject it
+ */
+@Entity({ name: 'follow_requests', schema: 'user' })
+@Unique(['requesterId', 'targetId'])
+@Index(['targetId'])
+export class FollowRequest {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'requester_id' })
+  requesterId: string;
+
+  @Column({ name: 'target_id' })
+  targetId: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,27 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Unique,
+} from 'typeorm';
+
+/**
+ * Hides a user's posts from the muter's feed and their activity from the
+ * muter's notifications. The muted user isn't told and can still interact.
+ */
+@Entity({ name: 'mutes', schema: 'user' })
+@Unique(['muterId', 'mutedId'])
+export class Mute {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'muter_id' })
+  muterId: string;
+
+  @Column({ name: 'muted_id' })
+  mutedId: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -23,6 +23,10 @@ export class UserProfile {
   @Column({ name: 'profile_picture', nullable: true })
   profilePicture: string;
 
+  // Follows need the owner's approval and posts are only shown to followers
+  @Column({ name: 'is_private', default: false })
+  isPrivate: boolean;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
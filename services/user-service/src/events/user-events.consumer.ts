@@ -38,7 +38,10 @@ export class UserEventsConsumer implements OnModuleInit, OnModuleDestroy {
         durable: true,
       });
 
-      await this.channel.bindQueue(this.queue, this.exchange, 'user.created');
+      const routingKeys = ['user.created', 'user.deleted'];
+      for (const routingKey of routingKeys) {
+        await this.channel.bindQueue(this.queue, this.exchange, routingKey);
+      }
 
       await this.channel.consume(
         this.queue,
@@ -46,7 +49,16 @@ export class UserEventsConsumer implements OnModuleInit, OnModuleDestroy {
           if (msg && this.channel) {
             try {
               const content = JSON.parse(msg.content.toString());
-              await this.handleUserCreated(content);
+              switch (content.eventType) {
+                case 'user.created':
+                  await this.handleUserCreated(content);
+                  break;
+                case 'user.deleted':
+                  await this.handleUserDeleted(content);
+                  break;
+                default:
+                  console.warn(`[UserEventsConsumer] Unknown event type: ${content.eventType}`);
+              }
               this.channel.ack(msg);
             } catch (error) {
               console.error('[UserEventsConsumer] Error processing message:', error);
@@ -60,7 +72,7 @@ export class UserEventsConsumer implements OnModuleInit, OnModuleDestroy {
         },
       );
 
-      console.log('[UserEventsConsumer] Connected to RabbitMQ and listening for user.created events');
+      console.log('[UserEventsConsumer] Connected to RabbitMQ and listening for user events');
     } catch (error) {
       console.error('[UserEventsConsumer] Failed to connect to RabbitMQ:', error);
     }
@@ -105,5 +117,35 @@ export class UserEventsConsumer implements OnModuleInit, OnModuleDestroy {
       throw error; // Re-throw to trigger nack and requeue
     }
   }
-}
 
+  private async handleUserDeleted(data: { eventType: string; userId: string }) {
+    console.log(`[UserEventsConsumer] Received user.deleted event for user: ${data.userId}`);
+
+    // Re-thrown errors requeue the message; erasure is safe to repeat
+    await this.userService.deleteUserData(data.userId);
+    this.publishDeletionCompleted(data.userId);
+
+    console.log(`[UserEventsConsumer] Erased profile and follows for user: ${data.userId}`);
+  }
+
+  /**
+   * Tell the auth service this service has finished erasing the user
+   */
+  private publishDeletionCompleted(userId: string) {
+    const message = {
+      eventType: 'user.deletion_completed',
+      userId,
+      service: 'user',
+      timestamp: new Date().toISOString(),
+    };
+
+    this.channel.publish(
+      this.exchange,
+      'user.deletion_completed',
+      Buffer.from(JSON.stringify(message)),
+      {
+        persistent: true,
+      },
+    );
+  }
+}
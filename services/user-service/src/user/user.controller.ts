@@ -18,6 +18,7 @@ export class UserController {
         profile_picture: profile.profilePicture || '',
         followers_count: profile.followersCount,
         following_count: profile.followingCount,
+        is_private: profile.isPrivate,
       };
     } catch (error) {
       return {
@@ -60,18 +61,36 @@ export class UserController {
     }
   }
 
+  @GrpcMethod('UserService', 'SetAccountPrivacy')
+  async setAccountPrivacy(data: { user_id: string; is_private: boolean }) {
+    try {
+      await this.userService.setAccountPrivacy(data.user_id, data.is_private);
+      return {
+        success: true,
+        message: data.is_private ? 'Account is now private' : 'Account is now public',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to update account privacy',
+      };
+    }
+  }
+
   @GrpcMethod('UserService', 'FollowUser')
   async followUser(data: { follower_id: string; following_id: string }) {
     try {
-      await this.userService.followUser(data.follower_id, data.following_id);
+      const result = await this.userService.followUser(data.follower_id, data.following_id);
       return {
         success: true,
-        message: 'Successfully followed user',
+        message: result === 'requested' ? 'Follow request sent' : 'Successfully followed user',
+        requested: result === 'requested',
       };
     } catch (error) {
       return {
         success: false,
         message: error instanceof Error ? error.message : 'Failed to follow user',
+        requested: false,
       };
     }
   }
@@ -92,6 +111,206 @@ export class UserController {
     }
   }
 
+  @GrpcMethod('UserService', 'GetFollowRequests')
+  async getFollowRequests(data: { user_id: string; page?: number; limit?: number }) {
+    const { requests, total } = await this.userService.getFollowRequests(
+      data.user_id,
+      data.page || 1,
+      data.limit || 20,
+    );
+
+    return {
+      requests: requests.map(({ request, profile }) => ({
+        requester_id: request.requesterId,
+        username: profile?.username || '',
+        profile_picture: profile?.profilePicture || '',
+        created_at: request.createdAt.toISOString(),
+      })),
+      total,
+      page: data.page || 1,
+    };
+  }
+
+  @GrpcMethod('UserService', 'AcceptFollowRequest')
+  async acceptFollowRequest(data: { user_id: string; requester_id: string }) {
+    try {
+      await this.userService.acceptFollowRequest(data.user_id, data.requester_id);
+      return {
+        success: true,
+        message: 'Follow request accepted',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to accept follow request',
+      };
+    }
+  }
+
+  @GrpcMethod('UserService', 'RejectFollowRequest')
+  async rejectFollowRequest(data: { user_id: string; requester_id: string }) {
+    try {
+      await this.userService.rejectFollowRequest(data.user_id, data.requester_id);
+      return {
+        success: true,
+        message: 'Follow request rejected',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to reject follow request',
+      };
+    }
+  }
+
+  @GrpcMethod('UserService', 'GetFollowerIds')
+  async getFollowerIds(data: { user_id: string; offset?: number; limit?: number }) {
+    const { userIds, total } = await this.userService.getFollowerIds(
+      data.user_id,
+      data.offset || 0,
+      Math.min(data.limit || 1000, 5000),
+    );
+    return { user_ids: userIds, total };
+  }
+
+  @GrpcMethod('UserService', 'GetFollowingIds')
+  async getFollowingIds(data: { user_id: string; offset?: number; limit?: number }) {
+    const { userIds, total } = await this.userService.getFollowingIds(
+      data.user_id,
+      data.offset || 0,
+      Math.min(data.limit || 1000, 5000),
+    );
+    return { user_ids: userIds, total };
+  }
+
+  @GrpcMethod('UserService', 'IsFollowing')
+  async isFollowing(data: { follower_id: string; following_id: string }) {
+    const following = await this.userService.isFollowing(data.follower_id, data.following_id);
+    return { following };
+  }
+
+  @GrpcMethod('UserService', 'BlockUser')
+  async blockUser(data: { user_id: string; target_user_id: string }) {
+    try {
+      await this.userService.blockUser(data.user_id, data.target_user_id);
+      return {
+        success: true,
+        message: 'User blocked',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to block user',
+      };
+    }
+  }
+
+  @GrpcMethod('UserService', 'UnblockUser')
+  async unblockUser(data: { user_id: string; target_user_id: string }) {
+    try {
+      await this.userService.unblockUser(data.user_id, data.target_user_id);
+      return {
+        success: true,
+        message: 'User unblocked',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to unblock user',
+      };
+    }
+  }
+
+  @GrpcMethod('UserService', 'MuteUser')
+  async muteUser(data: { user_id: string; target_user_id: string }) {
+    try {
+      await this.userService.muteUser(data.user_id, data.target_user_id);
+      return {
+        success: true,
+        message: 'User muted',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to mute user',
+      };
+    }
+  }
+
+  @GrpcMethod('UserService', 'UnmuteUser')
+  async unmuteUser(data: { user_id: string; target_user_id: string }) {
+    try {
+      await this.userService.unmuteUser(data.user_id, data.target_user_id);
+      return {
+        success: true,
+        message: 'User unmuted',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to unmute user',
+      };
+    }
+  }
+
+  @GrpcMethod('UserService', 'GetBlockedUsers')
+  async getBlockedUsers(data: { user_id: string; page?: number; limit?: number }) {
+    const { profiles, total } = await this.userService.getBlockedUsers(
+      data.user_id,
+      data.page || 1,
+      data.limit || 20,
+    );
+
+    return {
+      users: profiles.map((p) => ({
+        id: p.id,
+        user_id: p.userId,
+        username: p.username,
+        bio: p.bio || '',
+        profile_picture: p.profilePicture || '',
+        followers_count: 0,
+        following_count: 0,
+      })),
+      total,
+      page: data.page || 1,
+    };
+  }
+
+  @GrpcMethod('UserService', 'GetMutedUsers')
+  async getMutedUsers(data: { user_id: string; page?: number; limit?: number }) {
+    const { profiles, total } = await this.userService.getMutedUsers(
+      data.user_id,
+      data.page || 1,
+      data.limit || 20,
+    );
+
+    return {
+      users: profiles.map((p) => ({
+        id: p.id,
+        user_id: p.userId,
+        username: p.username,
+        bio: p.bio || '',
+        profile_picture: p.profilePicture || '',
+        followers_count: 0,
+        following_count: 0,
+      })),
+      total,
+      page: data.page || 1,
+    };
+  }
+
+  @GrpcMethod('UserService', 'GetRelationshipFilter')
+  async getRelationshipFilter(data: { user_id: string }) {
+    const { blockedUserIds, mutedUserIds } = await this.userService.getRelationshipFilter(data.user_id);
+    return { blocked_user_ids: blockedUserIds, muted_user_ids: mutedUserIds };
+  }
+
+  @GrpcMethod('UserService', 'IsBlocked')
+  async isBlocked(data: { user_id: string; other_user_id: string }) {
+    const blocked = await this.userService.isBlocked(data.user_id, data.other_user_id);
+    return { blocked };
+  }
+
   @GrpcMethod('UserService', 'GetFollowers')
   async getFollowers(data: { user_id: string; page?: number; limit?: number }) {
     const { profiles, total } = await this.userService.getFollowers(
@@ -188,5 +407,24 @@ export class UserController {
       page: data.page || 1,
     };
   }
-}
 
+  @GrpcMethod('UserService', 'ExportUserData')
+  async exportUserData(data: { user_id: string }) {
+    try {
+      const { data: exported, media } = await this.userService.exportUserData(data.user_id);
+      return {
+        success: true,
+        message: '',
+        data: JSON.stringify(exported),
+        media,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to export user data',
+        data: '',
+        media: [],
+      };
+    }
+  }
+}
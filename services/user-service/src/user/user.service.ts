@@ -1,8 +1,13 @@
-import { Injectable, NotFoundException, ConflictException } from '@nestjs/common';
+import { Injectable, NotFoundException, ConflictException, ForbiddenException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, In, Not, Like } from 'typeorm';
 import { UserProfile } from '../entities/user-profile.entity';
 import { Follow } from '../entities/follow.entity';
+import { FollowRequest } from '../entities/follow-request.entity';
+import { Block } from '../entities/block.entity';
+import { Mute } from '../entities/mute.entity';
+import { EventPublisherService } from '../events/event-publisher.service';
+import { RelationshipCacheService, RelationshipFilter } from '../cache/relationship-cache.service';
 
 @Injectable()
 export class UserService {
@@ -11,6 +16,14 @@ export class UserService {
     private userProfileRepository: Repository<UserProfile>,
     @InjectRepository(Follow)
     private followRepository: Repository<Follow>,
+    @InjectRepository(FollowRequest)
+    private followRequestRepository: Repository<FollowRequest>,
+    @InjectRepository(Block)
+    private blockRepository: Repository<Block>,
+    @InjectRepository(Mute)
+    private muteRepository: Repository<Mute>,
+    private eventPublisher: EventPublisherService,
+    private relationshipCache: RelationshipCacheService,
   ) {}
 
   async getUserProfile(userId: string): Promise<UserProfile> {
@@ -95,7 +108,40 @@ export class UserService {
     return this.userProfileRepository.save(profile);
   }
 
-  async followUser(followerId: string, followingId: string): Promise<void> {
+  /**
+   * Make the account private or public. Going public accepts every pending
+   * follow request.
+   */
+  async setAccountPrivacy(userId: string, isPrivate: boolean): Promise<UserProfile> {
+    const profile = await this.getUserProfile(userId);
+
+    if (profile.isPrivate === isPrivate) {
+      return profile;
+    }
+
+    profile.isPrivate = isPrivate;
+    const savedProfile = await this.userProfileRepository.save(profile);
+
+    await this.eventPublisher.publishPrivacyChanged(userId, isPrivate);
+
+    if (!isPrivate) {
+      const requests = await this.followRequestRepository.find({
+        where: { targetId: userId },
+        order: { createdAt: 'ASC' },
+      });
+      for (const request of requests) {
+        await this.approveFollowRequest(request);
+      }
+    }
+
+    return savedProfile;
+  }
+
+  /**
+   * Follows a public account straight away. For a private account a follow
+   * request is left for the owner instead and 'requested' is returned.
+   */
+  async followUser(followerId: string, followingId: string): Promise<'followed' | 'requested'> {
     if (followerId === followingId) {
       throw new ConflictException('Cannot follow yourself');
     }
@@ -108,24 +154,253 @@ export class UserService {
       throw new ConflictException('Already following this user');
     }
 
+    if (await this.isBlocked(followerId, followingId)) {
+      throw new ForbiddenException('You cannot follow this user');
+    }
+
+    const target = await this.getUserProfile(followingId);
+
+    if (target.isPrivate) {
+      const existingRequest = await this.followRequestRepository.findOne({
+        where: { requesterId: followerId, targetId: followingId },
+      });
+
+      if (existingRequest) {
+        throw new ConflictException('Follow request already sent');
+      }
+
+      await this.followRequestRepository.save(
+        this.followRequestRepository.create({
+          requesterId: followerId,
+          targetId: followingId,
+        }),
+      );
+
+      await this.eventPublisher.publishFollowRequested(followerId, followingId);
+      return 'requested';
+    }
+
     const follow = this.followRepository.create({
       followerId,
       followingId,
     });
 
     await this.followRepository.save(follow);
+
+    await this.eventPublisher.publishUserFollowed(followerId, followingId);
+    return 'followed';
   }
 
+  /**
+   * Also withdraws a follow request that hasn't been answered yet
+   */
   async unfollowUser(followerId: string, followingId: string): Promise<void> {
     const follow = await this.followRepository.findOne({
       where: { followerId, followingId },
     });
 
     if (!follow) {
+      const request = await this.followRequestRepository.findOne({
+        where: { requesterId: followerId, targetId: followingId },
+      });
+
+      if (request) {
+        await this.followRequestRepository.remove(request);
+        return;
+      }
+
       throw new NotFoundException('Follow relationship not found');
     }
 
     await this.followRepository.remove(follow);
+
+    await this.eventPublisher.publishUserUnfollowed(followerId, followingId);
+  }
+
+  /**
+   * Pending requests to follow the user, oldest first
+   */
+  async getFollowRequests(
+    userId: string,
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<{ requests: Array<{ request: FollowRequest; profile: UserProfile | null }>; total: number }> {
+    const [requests, total] = await this.followRequestRepository.findAndCount({
+      where: { targetId: userId },
+      order: { createdAt: 'ASC', id: 'ASC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    const requesterIds = requests.map((r) => r.requesterId);
+    const profiles = requesterIds.length > 0
+      ? await this.userProfileRepository.find({ where: { userId: In(requesterIds) } })
+      : [];
+    const profilesById = new Map(profiles.map((p) => [p.userId, p]));
+
+    return {
+      requests: requests.map((request) => ({ request, profile: profilesById.get(request.requesterId) || null })),
+      total,
+    };
+  }
+
+  async acceptFollowRequest(userId: string, requesterId: string): Promise<void> {
+    const request = await this.findFollowRequest(userId, requesterId);
+    await this.approveFollowRequest(request);
+  }
+
+  async rejectFollowRequest(userId: string, requesterId: string): Promise<void> {
+    const request = await this.findFollowRequest(userId, requesterId);
+    await this.followRequestRepository.remove(request);
+  }
+
+  /**
+   * Block a user. Follows and follow requests between the two are removed
+   * in both directions.
+   */
+  async blockUser(blockerId: string, blockedId: string): Promise<void> {
+    if (blockerId === blockedId) {
+      throw new ConflictException('Cannot block yourself');
+    }
+
+    const existingBlock = await this.blockRepository.findOne({
+      where: { blockerId, blockedId },
+    });
+
+    if (existingBlock) {
+      throw new ConflictException('User already blocked');
+    }
+
+    await this.blockRepository.save(
+      this.blockRepository.create({ blockerId, blockedId }),
+    );
+    await this.relationshipCache.invalidateFilter(blockerId, blockedId);
+
+    const follows = await this.followRepository.find({
+      where: [
+        { followerId: blockerId, followingId: blockedId },
+        { followerId: blockedId, followingId: blockerId },
+      ],
+    });
+    for (const follow of follows) {
+      await this.followRepository.remove(follow);
+      // Rebuilds the follower's timeline without the other user's posts
+      await this.eventPublisher.publishUserUnfollowed(follow.followerId, follow.followingId);
+    }
+
+    await this.followRequestRepository.delete({ requesterId: blockerId, targetId: blockedId });
+    await this.followRequestRepository.delete({ requesterId: blockedId, targetId: blockerId });
+  }
+
+  async unblockUser(blockerId: string, blockedId: string): Promise<void> {
+    const block = await this.blockRepository.findOne({
+      where: { blockerId, blockedId },
+    });
+
+    if (!block) {
+      throw new NotFoundException('Block not found');
+    }
+
+    await this.blockRepository.remove(block);
+    await this.relationshipCache.invalidateFilter(blockerId, blockedId);
+  }
+
+  async muteUser(muterId: string, mutedId: string): Promise<void> {
+    if (muterId === mutedId) {
+      throw new ConflictException('Cannot mute yourself');
+    }
+
+    const existingMute = await this.muteRepository.findOne({
+      where: { muterId, mutedId },
+    });
+
+    if (existingMute) {
+      throw new ConflictException('User already muted');
+    }
+
+    await this.muteRepository.save(
+      this.muteRepository.create({ muterId, mutedId }),
+    );
+    await this.relationshipCache.invalidateFilter(muterId);
+  }
+
+  async unmuteUser(muterId: string, mutedId: string): Promise<void> {
+    const mute = await this.muteRepository.findOne({
+      where: { muterId, mutedId },
+    });
+
+    if (!mute) {
+      throw new NotFoundException('Mute not found');
+    }
+
+    await this.muteRepository.remove(mute);
+    await this.relationshipCache.invalidateFilter(muterId);
+  }
+
+  /**
+   * Users the user has blocked, most recent first
+   */
+  async getBlockedUsers(
+    userId: string,
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<{ profiles: UserProfile[]; total: number }> {
+    const [blocks, total] = await this.blockRepository.findAndCount({
+      where: { blockerId: userId },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return { profiles: await this.findProfilesInOrder(blocks.map((b) => b.blockedId)), total };
+  }
+
+  /**
+   * Users the user has muted, most recent first
+   */
+  async getMutedUsers(
+    userId: string,
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<{ profiles: UserProfile[]; total: number }> {
+    const [mutes, total] = await this.muteRepository.findAndCount({
+      where: { muterId: userId },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return { profiles: await this.findProfilesInOrder(mutes.map((m) => m.mutedId)), total };
+  }
+
+  /**
+   * Everyone the user has blocked or been blocked by, and everyone they
+   * have muted. Cached, since feeds and notifications check it constantly.
+   */
+  async getRelationshipFilter(userId: string): Promise<RelationshipFilter> {
+    return this.relationshipCache.getOrSetFilter(userId, async () => {
+      const [blocks, mutes] = await Promise.all([
+        this.blockRepository.find({
+          where: [{ blockerId: userId }, { blockedId: userId }],
+        }),
+        this.muteRepository.find({
+          where: { muterId: userId },
+        }),
+      ]);
+
+      return {
+        blockedUserIds: [...new Set(blocks.map((b) => (b.blockerId === userId ? b.blockedId : b.blockerId)))],
+        mutedUserIds: mutes.map((m) => m.mutedId),
+      };
+    });
+  }
+
+  /**
+   * Whether either user has blocked the other
+   */
+  async isBlocked(userId: string, otherUserId: string): Promise<boolean> {
+    const { blockedUserIds } = await this.getRelationshipFilter(userId);
+    return blockedUserIds.includes(otherUserId);
   }
 
   async getFollowers(
@@ -151,6 +426,41 @@ export class UserService {
     return { profiles, total };
   }
 
+  /**
+   * Ids only, in a stable order, for services that walk the whole list
+   */
+  async getFollowerIds(
+    userId: string,
+    offset: number = 0,
+    limit: number = 1000,
+  ): Promise<{ userIds: string[]; total: number }> {
+    const [follows, total] = await this.followRepository.findAndCount({
+      select: ['id', 'followerId'],
+      where: { followingId: userId },
+      order: { createdAt: 'ASC', id: 'ASC' },
+      skip: offset,
+      take: limit,
+    });
+
+    return { userIds: follows.map((f) => f.followerId), total };
+  }
+
+  async getFollowingIds(
+    userId: string,
+    offset: number = 0,
+    limit: number = 1000,
+  ): Promise<{ userIds: string[]; total: number }> {
+    const [follows, total] = await this.followRepository.findAndCount({
+      select: ['id', 'followingId'],
+      where: { followerId: userId },
+      order: { createdAt: 'ASC', id: 'ASC' },
+      skip: offset,
+      take: limit,
+    });
+
+    return { userIds: follows.map((f) => f.followingId), total };
+  }
+
   async getFollowing(
     userId: string,
     page: number = 1,
@@ -238,4 +548,126 @@ export class UserService {
 
     return { profiles: profilesWithFollowStatus, total };
   }
+
+  /**
+   * Personal data export: the profile plus who the user follows and who
+   * follows them
+   */
+  async exportUserData(userId: string): Promise<{ data: Record<string, unknown>; media: string[] }> {
+    const [profile, followers, following] = await Promise.all([
+      this.userProfileRepository.findOne({ where: { userId } }),
+      this.followRepository.find({ where: { followingId: userId }, order: { createdAt: 'DESC' } }),
+      this.followRepository.find({ where: { followerId: userId }, order: { createdAt: 'DESC' } }),
+    ]);
+
+    const otherIds = [
+      ...followers.map((follow) => follow.followerId),
+      ...following.map((follow) => follow.followingId),
+    ];
+    const profiles = otherIds.length > 0
+      ? await this.userProfileRepository.find({ where: { userId: In(otherIds) } })
+      : [];
+    const usernames = new Map(profiles.map((p) => [p.userId, p.username]));
+
+    return {
+      data: {
+        profile: profile
+          ? {
+              username: profile.username,
+              bio: profile.bio || '',
+              profile_picture: profile.profilePicture || '',
+              is_private: profile.isPrivate,
+              created_at: profile.createdAt.toISOString(),
+              updated_at: profile.updatedAt.toISOString(),
+            }
+          : null,
+        followers: followers.map((follow) => ({
+          user_id: follow.followerId,
+          username: usernames.get(follow.followerId) || null,
+          since: follow.createdAt.toISOString(),
+        })),
+        following: following.map((follow) => ({
+          user_id: follow.followingId,
+          username: usernames.get(follow.followingId) || null,
+          since: follow.createdAt.toISOString(),
+        })),
+      },
+      // Only stored objects; external picture URLs are already in the profile
+      media: profile?.profilePicture && !profile.profilePicture.includes('://') ? [profile.profilePicture] : [],
+    };
+  }
+
+  /**
+   * Account erasure: the profile and every follow and follow request in
+   * either direction
+   */
+  async deleteUserData(userId: string): Promise<void> {
+    await this.followRepository.delete({ followerId: userId });
+    await this.followRepository.delete({ followingId: userId });
+    await this.followRequestRepository.delete({ requesterId: userId });
+    await this.followRequestRepository.delete({ targetId: userId });
+
+    // Everyone they blocked or muted, or who blocked them, has a cached list naming them
+    const [blocks, mutes] = await Promise.all([
+      this.blockRepository.find({ where: [{ blockerId: userId }, { blockedId: userId }] }),
+      this.muteRepository.find({ where: { mutedId: userId } }),
+    ]);
+    await this.blockRepository.delete({ blockerId: userId });
+    await this.blockRepository.delete({ blockedId: userId });
+    await this.muteRepository.delete({ muterId: userId });
+    await this.muteRepository.delete({ mutedId: userId });
+    await this.relationshipCache.invalidateFilter(
+      userId,
+      ...blocks.map((b) => (b.blockerId === userId ? b.blockedId : b.blockerId)),
+      ...mutes.map((m) => m.muterId),
+    );
+
+    await this.userProfileRepository.delete({ userId });
+  }
+
+  private async findProfilesInOrder(userIds: string[]): Promise<UserProfile[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const profiles = await this.userProfileRepository.find({
+      where: { userId: In(userIds) },
+    });
+    const profilesById = new Map(profiles.map((p) => [p.userId, p]));
+
+    return userIds.map((id) => profilesById.get(id)).filter((p): p is UserProfile => !!p);
+  }
+
+  private async findFollowRequest(targetId: string, requesterId: string): Promise<FollowRequest> {
+    const request = await this.followRequestRepository.findOne({
+      where: { requesterId, targetId },
+    });
+
+    if (!request) {
+      throw new NotFoundException('Follow request not found');
+    }
+
+    return request;
+  }
+
+  /**
+   * Turn the request into a follow. user.followed rebuilds the requester's
+   * timeline like any other follow.
+   */
+  private async approveFollowRequest(request: FollowRequest): Promise<void> {
+    await this.followRequestRepository.remove(request);
+
+    const alreadyFollowing = await this.isFollowing(request.requesterId, request.targetId);
+    if (!alreadyFollowing) {
+      await this.followRepository.save(
+        this.followRepository.create({
+          followerId: request.requesterId,
+          followingId: request.targetId,
+        }),
+      );
+      await this.eventPublisher.publishUserFollowed(request.requesterId, request.targetId);
+    }
+
+    await this.eventPublisher.publishFollowAccepted(request.requesterId, request.targetId);
+  }
 }